@@ -5,90 +5,272 @@ import {
   Link,
   Navigate,
 } from 'react-router-dom';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import Home from './pages/Home';
 import Dashboard from './pages/Dashboard';
 import Form from './pages/Form';
 import Login from './pages/Login';
-import supabase, { Session } from './supabase';
+import ForgotPassword from './pages/ForgotPassword';
+import SetPassword from './pages/SetPassword';
+import Reports from './pages/Reports';
+import ReportDetail from './pages/ReportDetail';
+import Receipt from './pages/Receipt';
+import AdminUsers from './pages/AdminUsers';
+import ReviewQueue from './pages/ReviewQueue';
+import AdminInfractions from './pages/AdminInfractions';
+import AdminReferenceData from './pages/AdminReferenceData';
+import ProtocolLookup from './pages/ProtocolLookup';
+import RequireRole from './components/RequireRole';
+import IdleTimeout from './components/IdleTimeout';
+import type { Session } from '@supabase/supabase-js';
+import supabase from './supabase';
+import { startOutboxSync } from './lib/outbox';
+import {
+  AuthContext,
+  clearSignOutReason,
+  fetchProfile,
+  hasRole,
+  lastSignOutReason,
+  isInvitationSession,
+  signOut,
+  type SignOutReason,
+  type UserProfile,
+} from './lib/auth';
+import { InfractionCatalogContext, loadInfractionCatalog } from './lib/infractionCatalog';
+import { bundledInfractionOptions, type InfractionOption } from './infractionOptions';
+import { ReferenceDataContext, bundledReferenceData, loadReferenceData, type ReferenceData } from './lib/referenceData';
 
 function App() {
   const [session, setSession] = useState<Session | null>(null);
+  const [sessionLoaded, setSessionLoaded] = useState(false);
+  const [signedOutReason, setSignedOutReason] = useState<SignOutReason | null>(null);
+  const [passwordLink, setPasswordLink] = useState(false);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  // User whose profile lookup finished, even without a profile, so a new sign-in counts as
+  // loading from its first render instead of after the effect below starts.
+  const [profileLoadedFor, setProfileLoadedFor] = useState<string | null>(null);
+  const [catalog, setCatalog] = useState<InfractionOption[]>(bundledInfractionOptions);
+  const [referenceData, setReferenceData] = useState<ReferenceData>(bundledReferenceData);
 
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    // INITIAL_SESSION arrives once a stored session is restored or found to be expired, and
+    // after the tokens of an invitation or recovery link are read from the URL.
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
       setSession(session);
-    });
+      setSessionLoaded(true);
 
-    supabase.auth.onAuthStateChange((_event, session) => {
-      setSession(session);
+      if (event === 'PASSWORD_RECOVERY' || isInvitationSession(session)) {
+        setPasswordLink(true);
+      }
+
+      if (event === 'SIGNED_IN') {
+        clearSignOutReason();
+        setSignedOutReason(null);
+      } else if (event === 'SIGNED_OUT') {
+        // A refresh token that could not be renewed also ends here, without a recorded reason.
+        setSignedOutReason(lastSignOutReason());
+        setPasswordLink(false);
+      }
     });
+
+    return () => subscription.unsubscribe();
   }, []);
 
+  const reloadCatalog = useCallback(async () => {
+    setCatalog(await loadInfractionCatalog());
+  }, []);
+
+  const reloadReferenceData = useCallback(async () => {
+    setReferenceData(await loadReferenceData());
+  }, []);
+
+  const userId = session?.user.id;
+
+  useEffect(() => {
+    if (userId) {
+      return startOutboxSync(userId);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (userId) {
+      reloadCatalog();
+      reloadReferenceData();
+    }
+  }, [userId, reloadCatalog, reloadReferenceData]);
+
+  useEffect(() => {
+    if (!userId) {
+      setProfile(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchProfile(userId)
+      .then((loaded) => {
+        if (!cancelled) setProfile(loaded);
+      })
+      .catch((err) => {
+        console.error('Error fetching profile:', err);
+        if (!cancelled) setProfile(null);
+      })
+      .finally(() => {
+        if (!cancelled) setProfileLoadedFor(userId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const profileLoading = Boolean(userId) && profileLoadedFor !== userId;
+
+  const linkClassName = 'text-gray-600 hover:text-gray-800 px-3 py-2 rounded-md text-sm font-medium';
+
   const handleSignOut = async () => {
-    await supabase.auth.signOut();
+    try {
+      await signOut('user');
+    } catch (err) {
+      console.error('Error signing out:', err);
+    }
   };
 
   return (
-    <Router>
-      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-blue-100 font-roboto antialiased">
-        <nav className="bg-white shadow-md">
-          <div className="container mx-auto px-4">
-            <div className="flex items-center justify-between h-16">
-              <div className="flex items-center">
-                <Link to="/" className="text-xl font-bold text-gray-800">
-                  GEOTRANOTE
-                </Link>
-              </div>
-              <div className="flex space-x-4">
-                {session ? (
-                  <>
-                    <Link
-                      to="/form"
-                      className="text-gray-600 hover:text-gray-800 px-3 py-2 rounded-md text-sm font-medium"
-                    >
-                      Formulário
-                    </Link>
-                    <Link
-                      to="/dashboard"
-                      className="text-gray-600 hover:text-gray-800 px-3 py-2 rounded-md text-sm font-medium"
-                    >
-                      Dashboard
-                    </Link>
-                    <button
-                      onClick={handleSignOut}
-                      className="text-gray-600 hover:text-gray-800 px-3 py-2 rounded-md text-sm font-medium"
-                    >
-                      Sign Out
-                    </button>
-                  </>
-                ) : (
-                  <Link
-                    to="/login"
-                    className="text-gray-600 hover:text-gray-800 px-3 py-2 rounded-md text-sm font-medium"
-                  >
-                    Login
-                  </Link>
-                )}
-              </div>
+    <AuthContext.Provider value={{ session, profile, loading: !sessionLoaded || profileLoading, signedOutReason, passwordLink }}>
+      <InfractionCatalogContext.Provider value={{ options: catalog, reload: reloadCatalog }}>
+        <ReferenceDataContext.Provider value={{ ...referenceData, reload: reloadReferenceData }}>
+          <Router>
+            <div className="min-h-screen bg-gradient-to-b from-blue-50 to-blue-100 font-roboto antialiased">
+              <nav className="bg-white shadow-md print:hidden">
+                <div className="container mx-auto px-4">
+                  <div className="flex items-center justify-between h-16">
+                    <div className="flex items-center">
+                      <Link to="/" className="text-xl font-bold text-gray-800">
+                        GEOTRANOTE
+                      </Link>
+                    </div>
+                    <div className="flex space-x-4">
+                      {session ? (
+                        <>
+                          <Link to="/form" className={linkClassName}>
+                            Formulário
+                          </Link>
+                          {hasRole(profile, ['supervisor', 'admin']) && (
+                            <Link to="/dashboard" className={linkClassName}>
+                              Dashboard
+                            </Link>
+                          )}
+                          <Link to="/my-reports" className={linkClassName}>
+                            Meus relatórios
+                          </Link>
+                          <Link to="/protocol" className={linkClassName}>
+                            Consultar protocolo
+                          </Link>
+                          {hasRole(profile, ['supervisor', 'admin']) && (
+                            <>
+                              <Link to="/reports" className={linkClassName}>
+                                Relatórios
+                              </Link>
+                              <Link to="/review" className={linkClassName}>
+                                Revisão
+                              </Link>
+                            </>
+                          )}
+                          {hasRole(profile, ['admin']) && (
+                            <>
+                              <Link to="/admin/users" className={linkClassName}>
+                                Usuários
+                              </Link>
+                              <Link to="/admin/infractions" className={linkClassName}>
+                                Infrações
+                              </Link>
+                              <Link to="/admin/reference" className={linkClassName}>
+                                Serviços e setores
+                              </Link>
+                            </>
+                          )}
+                          <button
+                            onClick={handleSignOut}
+                            className="text-gray-600 hover:text-gray-800 px-3 py-2 rounded-md text-sm font-medium"
+                          >
+                            Sign Out
+                          </button>
+                        </>
+                      ) : (
+                        <Link
+                          to="/login"
+                          className="text-gray-600 hover:text-gray-800 px-3 py-2 rounded-md text-sm font-medium"
+                        >
+                          Login
+                        </Link>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              </nav>
+
+              {session && <IdleTimeout />}
+
+              <Routes>
+                <Route path="/" element={<Home />} />
+                <Route path="/login" element={<Login />} />
+                <Route path="/forgot-password" element={!session ? <ForgotPassword /> : <Navigate to="/" />} />
+                <Route path="/reset-password" element={<SetPassword mode="recovery" />} />
+                <Route path="/welcome" element={<SetPassword mode="invite" />} />
+                <Route
+                  path="/dashboard"
+                  element={<RequireRole roles={['supervisor', 'admin']}><Dashboard /></RequireRole>}
+                />
+                <Route
+                  path="/form"
+                  element={<RequireRole><Form /></RequireRole>}
+                />
+                <Route
+                  path="/reports"
+                  element={<RequireRole roles={['supervisor', 'admin']}><Reports /></RequireRole>}
+                />
+                <Route
+                  path="/my-reports"
+                  element={<RequireRole><Reports key="mine" mine /></RequireRole>}
+                />
+                <Route
+                  path="/reports/:protocol"
+                  element={<RequireRole><ReportDetail /></RequireRole>}
+                />
+                <Route
+                  path="/reports/:protocol/receipt"
+                  element={<RequireRole><Receipt /></RequireRole>}
+                />
+                <Route
+                  path="/protocol"
+                  element={<RequireRole><ProtocolLookup /></RequireRole>}
+                />
+                <Route
+                  path="/protocol/:protocol"
+                  element={<RequireRole><ProtocolLookup /></RequireRole>}
+                />
+                <Route
+                  path="/review"
+                  element={<RequireRole roles={['supervisor', 'admin']}><ReviewQueue /></RequireRole>}
+                />
+                <Route
+                  path="/admin/users"
+                  element={<RequireRole roles={['admin']}><AdminUsers /></RequireRole>}
+                />
+                <Route
+                  path="/admin/infractions"
+                  element={<RequireRole roles={['admin']}><AdminInfractions /></RequireRole>}
+                />
+                <Route
+                  path="/admin/reference"
+                  element={<RequireRole roles={['admin']}><AdminReferenceData /></RequireRole>}
+                />
+              </Routes>
             </div>
-          </div>
-        </nav>
-
-        <Routes>
-          <Route path="/" element={<Home />} />
-          <Route path="/login" element={!session ? <Login /> : <Navigate to="/" />} />
-          <Route
-            path="/dashboard"
-            element={session ? <Dashboard /> : <Navigate to="/login" />}
-          />
-          <Route
-            path="/form"
-            element={session ? <Form /> : <Navigate to="/login" />}
-          />
-        </Routes>
-      </div>
-    </Router>
+          </Router>
+        </ReferenceDataContext.Provider>
+      </InfractionCatalogContext.Provider>
+    </AuthContext.Provider>
   );
 }
 
@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import {
+  exportCsv,
+  exportXlsx,
+  fetchExportRows,
+  type ExportFilters,
+  type ExportTable,
+} from '../lib/export';
+
+interface ExportMenuProps {
+  filters: ExportFilters;
+}
+
+const csvOptions: { table: ExportTable; label: string }[] = [
+  { table: 'reports', label: 'CSV – Relatórios' },
+  { table: 'infractions', label: 'CSV – Infrações' },
+  { table: 'totals', label: 'CSV – Totais' },
+];
+
+const ExportMenu = ({ filters }: ExportMenuProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  // The rows are only read when exporting; the Dashboard itself loads aggregates.
+  const handleExport = async (table: ExportTable | 'xlsx') => {
+    setIsOpen(false);
+    setExporting(true);
+    try {
+      const { reports, infractions } = await fetchExportRows(filters);
+      if (table === 'xlsx') {
+        await exportXlsx(reports, infractions, filters);
+      } else {
+        exportCsv(table, reports, infractions, filters);
+      }
+    } catch (err) {
+      console.error('Error exporting data:', err);
+      alert(table === 'xlsx' ? 'Erro ao gerar a planilha.' : 'Erro ao gerar o arquivo CSV.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={exporting}
+        className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+      >
+        <Download className="h-4 w-4 mr-2" />
+        {exporting ? 'Exportando...' : 'Exportar'}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-1 w-56 bg-white rounded-md shadow-lg ring-1 ring-black ring-opacity-5 py-1">
+          <button
+            type="button"
+            onClick={() => handleExport('xlsx')}
+            className="w-full text-left px-4 py-2 text-sm text-gray-900 hover:bg-blue-50"
+          >
+            XLSX – Todas as abas
+          </button>
+          {csvOptions.map((option) => (
+            <button
+              key={option.table}
+              type="button"
+              onClick={() => handleExport(option.table)}
+              className="w-full text-left px-4 py-2 text-sm text-gray-900 hover:bg-blue-50"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
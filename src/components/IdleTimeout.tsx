@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { signOut } from '../lib/auth';
+
+// Viatura tablets are shared, so a session left unattended ends on its own.
+const IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+// A countdown is shown during the last minute.
+const WARNING_MS = 60 * 1000;
+const CHECK_INTERVAL_MS = 1000;
+// Writes of the activity timestamp are spaced out; mousemove and scroll fire constantly.
+const ACTIVITY_THROTTLE_MS = 5000;
+// Shared by every open tab, so working in one keeps the others signed in.
+const LAST_ACTIVITY_KEY = 'geotranote:last-activity';
+const ACTIVITY_EVENTS = ['pointerdown', 'mousemove', 'keydown', 'wheel', 'touchstart', 'scroll'] as const;
+
+/**
+ * Signs out after IDLE_TIMEOUT_MS without input in any tab. Idle time is measured from a
+ * stored timestamp rather than a timer, so a tablet that slept past the limit signs out as
+ * soon as it wakes up.
+ */
+const IdleTimeout = () => {
+  const [remaining, setRemaining] = useState<number | null>(null);
+
+  useEffect(() => {
+    let lastWrite = 0;
+    const markActive = () => {
+      const now = Date.now();
+      if (now - lastWrite < ACTIVITY_THROTTLE_MS) return;
+      lastWrite = now;
+      localStorage.setItem(LAST_ACTIVITY_KEY, String(now));
+    };
+
+    const check = () => {
+      const idle = Date.now() - (Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || Date.now());
+      if (idle >= IDLE_TIMEOUT_MS) {
+        window.clearInterval(interval);
+        signOut('idle').catch((err) => console.error('Error signing out after inactivity:', err));
+        return;
+      }
+      setRemaining(idle >= IDLE_TIMEOUT_MS - WARNING_MS ? IDLE_TIMEOUT_MS - idle : null);
+    };
+
+    markActive();
+    ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, markActive, { passive: true }));
+    const interval = window.setInterval(check, CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, markActive));
+      window.clearInterval(interval);
+    };
+  }, []);
+
+  if (remaining === null) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-50 p-4 print:hidden">
+      <div className="max-w-xl mx-auto bg-yellow-50 border border-yellow-200 rounded-lg shadow-lg p-4 flex items-center justify-between gap-4 text-yellow-800">
+        <p className="text-sm">
+          Sessão inativa. Você será desconectado em {Math.ceil(remaining / 1000)} s.
+        </p>
+        {/* The pointerdown of the click already counts as activity. */}
+        <button
+          type="button"
+          onClick={() => setRemaining(null)}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 whitespace-nowrap"
+        >
+          Continuar conectado
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default IdleTimeout;
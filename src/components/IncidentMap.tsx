@@ -0,0 +1,180 @@
+import { useMemo, useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatInfraction } from '../infractionOptions';
+import type { InfractionPoint, RemovalPoint } from '../lib/dashboard';
+import {
+  densityCells,
+  fitView,
+  graticule,
+  toScreen,
+  visibleTiles,
+  type MapPoint,
+} from '../lib/map';
+
+interface IncidentMapProps {
+  infractionPoints: InfractionPoint[];
+  removalPoints: RemovalPoint[];
+}
+
+type MapLayer = 'infractions' | 'removals';
+type MapMode = 'points' | 'density';
+
+const WIDTH = 800;
+const HEIGHT = 480;
+const CELL_SIZE = 32;
+
+// XYZ template such as "/tiles/{z}/{x}/{y}.png"; without it the map draws a plain SVG grid.
+const tileUrl: string | undefined = import.meta.env.VITE_MAP_TILE_URL;
+
+const layerColors: Record<MapLayer, string> = {
+  infractions: '#2563eb',
+  removals: '#16a34a',
+};
+
+function buildPoints(infractionPoints: InfractionPoint[], removalPoints: RemovalPoint[], layer: MapLayer): MapPoint[] {
+  if (layer === 'removals') {
+    return removalPoints.map((point) => ({
+      latitude: point.latitude,
+      longitude: point.longitude,
+      weight: point.car_removals + point.motorcycle_removals,
+      label: `${point.protocol_number}: ${point.car_removals} carro(s), ${point.motorcycle_removals} moto(s)`,
+    }));
+  }
+
+  return infractionPoints.map((point) => ({
+    latitude: point.latitude,
+    longitude: point.longitude,
+    weight: point.quantity,
+    label: `${point.quantity} × ${formatInfraction(point.infraction_key)}`,
+  }));
+}
+
+const IncidentMap = ({ infractionPoints, removalPoints }: IncidentMapProps) => {
+  const [layer, setLayer] = useState<MapLayer>('infractions');
+  const [mode, setMode] = useState<MapMode>('points');
+
+  const points = useMemo(
+    () => buildPoints(infractionPoints, removalPoints, layer),
+    [infractionPoints, removalPoints, layer]
+  );
+  const view = useMemo(() => (points.length > 0 ? fitView(points, WIDTH, HEIGHT) : null), [points]);
+
+  const color = layerColors[layer];
+  const cells = view && mode === 'density' ? densityCells(points, view, CELL_SIZE) : [];
+  const maxCellWeight = Math.max(1, ...cells.map((cell) => cell.weight));
+  const maxPointWeight = Math.max(1, ...points.map((point) => point.weight));
+  const grid = view && !tileUrl ? graticule(view) : null;
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-2xl font-bold mb-4">Mapa de ocorrências</h2>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <CardTitle>{layer === 'infractions' ? 'Infrações' : 'Remoções'} por local</CardTitle>
+              <CardDescription>
+                Somente registros com localização · {points.length} ponto(s) nos filtros selecionados
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <select
+                value={layer}
+                onChange={(e) => setLayer(e.target.value as MapLayer)}
+                className="p-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="infractions">Infrações</option>
+                <option value="removals">Remoções</option>
+              </select>
+              <select
+                value={mode}
+                onChange={(e) => setMode(e.target.value as MapMode)}
+                className="p-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="points">Pontos</option>
+                <option value="density">Densidade</option>
+              </select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!view ? (
+            <p className="py-12 text-center text-sm text-gray-500">
+              Nenhum registro com localização para os filtros selecionados
+            </p>
+          ) : (
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-slate-50 rounded-md border border-gray-200">
+              {tileUrl &&
+                visibleTiles(view, tileUrl).map((tile) => (
+                  <image key={tile.url} href={tile.url} x={tile.x} y={tile.y} width={256} height={256} />
+                ))}
+
+              {grid && (
+                <g stroke="#cbd5e1" strokeWidth={1} fontSize={10} fill="#64748b">
+                  {grid.longitudes.map((longitude) => {
+                    const { x } = toScreen(view, 0, longitude);
+                    return (
+                      <g key={`lon-${longitude}`}>
+                        <line x1={x} y1={0} x2={x} y2={HEIGHT} />
+                        <text x={x + 2} y={HEIGHT - 4} stroke="none">{longitude}°</text>
+                      </g>
+                    );
+                  })}
+                  {grid.latitudes.map((latitude) => {
+                    const { y } = toScreen(view, latitude, 0);
+                    return (
+                      <g key={`lat-${latitude}`}>
+                        <line x1={0} y1={y} x2={WIDTH} y2={y} />
+                        <text x={4} y={y - 2} stroke="none">{latitude}°</text>
+                      </g>
+                    );
+                  })}
+                </g>
+              )}
+
+              {mode === 'density'
+                ? cells.map((cell) => (
+                    <rect
+                      key={`${cell.x}:${cell.y}`}
+                      x={cell.x}
+                      y={cell.y}
+                      width={CELL_SIZE}
+                      height={CELL_SIZE}
+                      fill={color}
+                      fillOpacity={0.15 + 0.7 * (cell.weight / maxCellWeight)}
+                    >
+                      <title>{cell.weight}</title>
+                    </rect>
+                  ))
+                : points.map((point, index) => {
+                    const { x, y } = toScreen(view, point.latitude, point.longitude);
+                    return (
+                      <circle
+                        key={index}
+                        cx={x}
+                        cy={y}
+                        r={4 + 10 * Math.sqrt(point.weight / maxPointWeight)}
+                        fill={color}
+                        fillOpacity={0.5}
+                        stroke={color}
+                      >
+                        <title>{point.label}</title>
+                      </circle>
+                    );
+                  })}
+            </svg>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default IncidentMap;
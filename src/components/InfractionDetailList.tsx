@@ -0,0 +1,36 @@
+import { vehicleTypeLabel } from '../reportOptions';
+
+interface DetailRow {
+  plate: string | null;
+  vehicle_type: string | null;
+  ait_number: string | null;
+  infraction_time: string | null;
+  street: string | null;
+}
+
+/** Compact read-only list of the autos behind a detailed infraction line. */
+const InfractionDetailList = ({ details }: { details: DetailRow[] | undefined }) => {
+  if (!details || details.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs text-gray-500">
+      {details.map((detail, index) => (
+        <li key={index}>
+          {[
+            detail.ait_number && `AIT ${detail.ait_number}`,
+            detail.plate,
+            detail.vehicle_type && vehicleTypeLabel(detail.vehicle_type),
+            detail.infraction_time?.slice(0, 5),
+            detail.street,
+          ]
+            .filter(Boolean)
+            .join(' · ')}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default InfractionDetailList;
@@ -0,0 +1,96 @@
+import { Plus, Trash2 } from 'lucide-react';
+import type { InfractionDetailInput } from '../lib/reports';
+import { vehicleTypeOptions } from '../reportOptions';
+
+interface InfractionDetailsEditorProps {
+  value: InfractionDetailInput[];
+  onChange: (details: InfractionDetailInput[]) => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const emptyDetail = (): InfractionDetailInput => ({
+  plate: '',
+  vehicle_type: 'automovel',
+  ait_number: '',
+  infraction_time: null,
+  street: '',
+});
+
+/** Lists the autos de infração of a detailed line; the line quantity is their count. */
+const InfractionDetailsEditor = ({ value, onChange }: InfractionDetailsEditorProps) => {
+  const update = (index: number, changes: Partial<InfractionDetailInput>) => {
+    onChange(value.map((detail, i) => (i === index ? { ...detail, ...changes } : detail)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.map((detail, index) => (
+        <div key={index} className="border border-gray-200 rounded-md p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-gray-500">Auto {index + 1}</span>
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              className="text-red-600 hover:text-red-800 p-1"
+              title="Excluir auto"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={detail.ait_number}
+              onChange={(e) => update(index, { ait_number: e.target.value })}
+              placeholder="Nº do AIT"
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              value={detail.plate}
+              onChange={(e) => update(index, { plate: e.target.value.toUpperCase() })}
+              placeholder="Placa"
+              maxLength={8}
+              className={inputClassName}
+            />
+            <select
+              value={detail.vehicle_type}
+              onChange={(e) => update(index, { vehicle_type: e.target.value })}
+              className={inputClassName}
+            >
+              {vehicleTypeOptions.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <input
+              type="time"
+              value={detail.infraction_time ?? ''}
+              onChange={(e) => update(index, { infraction_time: e.target.value || null })}
+              className={inputClassName}
+            />
+          </div>
+          <input
+            type="text"
+            value={detail.street}
+            onChange={(e) => update(index, { street: e.target.value })}
+            placeholder="Logradouro"
+            className={inputClassName}
+          />
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...value, emptyDetail()])}
+        className="inline-flex items-center px-3 py-1.5 text-sm text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Adicionar auto
+      </button>
+    </div>
+  );
+};
+
+export default InfractionDetailsEditor;
@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { findInfractionOption } from '../infractionOptions';
+import { formatShiftDate } from '../lib/reports';
+import {
+  fetchInfractionReports,
+  type DashboardFilters,
+  type InfractionRankingRow,
+  type InfractionReport,
+} from '../lib/dashboard';
+
+interface InfractionRankingProps {
+  ranking: InfractionRankingRow[];
+  filters: DashboardFilters;
+}
+
+interface RankingRow {
+  key: string;
+  description: string;
+  count: number;
+  share: number;
+  reports: number;
+}
+
+const CHART_SIZE = 10;
+
+const percentFormatter = new Intl.NumberFormat('pt-BR', { style: 'percent', maximumFractionDigits: 1 });
+
+function buildRanking(ranking: InfractionRankingRow[]): RankingRow[] {
+  const total = ranking.reduce((sum, row) => sum + row.quantity, 0);
+
+  return ranking.map((row) => ({
+    key: row.infraction_key,
+    description: findInfractionOption(row.infraction_key)?.description ?? row.infraction_key,
+    count: row.quantity,
+    share: total > 0 ? row.quantity / total : 0,
+    reports: row.reports,
+  }));
+}
+
+const InfractionRanking = ({ ranking: rows, filters }: InfractionRankingProps) => {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [selectedReports, setSelectedReports] = useState<InfractionReport[]>([]);
+
+  const ranking = useMemo(() => buildRanking(rows), [rows]);
+  const selected = ranking.find((row) => row.key === selectedKey);
+
+  useEffect(() => {
+    if (!selectedKey) return;
+
+    let cancelled = false;
+    setSelectedReports([]);
+    fetchInfractionReports(filters, selectedKey)
+      .then((reports) => {
+        if (!cancelled) setSelectedReports(reports);
+      })
+      .catch((err) => console.error('Error fetching infraction reports:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, selectedKey]);
+
+  if (ranking.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-2xl font-bold mb-4">Infrações mais registradas</h2>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Ranking por tipo</CardTitle>
+            <CardDescription>Clique em uma infração para ver os relatórios</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="max-h-96 overflow-y-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700">#</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700">Infração</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-700">Qtd.</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-700">%</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ranking.map((row, index) => (
+                    <tr
+                      key={row.key}
+                      onClick={() => setSelectedKey(row.key === selectedKey ? null : row.key)}
+                      className={`cursor-pointer border-b border-gray-100 ${
+                        row.key === selectedKey ? 'bg-blue-50' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <td className="px-3 py-2 text-gray-500">{index + 1}</td>
+                      <td className="px-3 py-2">
+                        <span className="font-medium">{row.key}</span> {row.description}
+                      </td>
+                      <td className="px-3 py-2 text-right">{row.count}</td>
+                      <td className="px-3 py-2 text-right">{percentFormatter.format(row.share)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Top {Math.min(CHART_SIZE, ranking.length)}</CardTitle>
+            <CardDescription>Quantidade por código de infração</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={360}>
+              <BarChart data={ranking.slice(0, CHART_SIZE)} layout="vertical" margin={{ left: 16 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" allowDecimals={false} />
+                <YAxis type="category" dataKey="key" width={60} />
+                <Tooltip
+                  formatter={(value: number) => [value, 'Quantidade']}
+                  labelFormatter={(key: string) => `${key} ${findInfractionOption(key)?.description ?? ''}`}
+                />
+                <Bar
+                  dataKey="count"
+                  fill="#2563eb"
+                  cursor="pointer"
+                  onClick={(data: { payload: RankingRow }) => setSelectedKey(data.payload.key)}
+                />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      {selected && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>
+              {selected.key} {selected.description}
+            </CardTitle>
+            <CardDescription>
+              {selected.count} infração(ões) em {selected.reports} relatório(s)
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">Protocolo</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">Data do turno</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">Quantidade</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selectedReports.map((report) => (
+                  <tr key={report.protocol_number} className="border-b border-gray-100">
+                    <td className="px-3 py-2 font-mono">
+                      <Link to={`/reports/${report.protocol_number}`} className="text-blue-600 hover:underline">
+                        {report.protocol_number}
+                      </Link>
+                    </td>
+                    <td className="px-3 py-2">{formatShiftDate(report.shift_date)}</td>
+                    <td className="px-3 py-2 text-right">{report.quantity}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default InfractionRanking;
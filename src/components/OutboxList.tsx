@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Pencil, Printer, RefreshCw, Trash2, UserCheck } from 'lucide-react';
+import { useAuth } from '../lib/auth';
+import {
+  claimOutboxEntry,
+  listOutbox,
+  removeOutboxEntry,
+  subscribeOutbox,
+  syncOutbox,
+  type OutboxEntry,
+  type OutboxStatus,
+} from '../lib/outbox';
+
+const statusStyles: Record<OutboxStatus, { label: string; className: string }> = {
+  pending: { label: 'Pendente', className: 'bg-yellow-100 text-yellow-800' },
+  synced: { label: 'Enviado', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Falhou', className: 'bg-red-100 text-red-800' },
+  rejected: { label: 'Recusado', className: 'bg-red-100 text-red-800' },
+};
+
+interface OutboxListProps {
+  // Loads a rejected report back into the form.
+  onCorrect: (entry: OutboxEntry) => void;
+}
+
+const OutboxList = ({ onCorrect }: OutboxListProps) => {
+  const userId = useAuth().session?.user.id;
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => {
+    if (!userId) {
+      setEntries([]);
+      return;
+    }
+
+    const load = () => {
+      listOutbox(userId)
+        .then(setEntries)
+        .catch((err) => console.error('Error reading outbox:', err));
+    };
+
+    load();
+    return subscribeOutbox(load);
+  }, [userId]);
+
+  const handleSync = async () => {
+    if (!userId) return;
+    setSyncing(true);
+    try {
+      await syncOutbox(userId);
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  // Reports queued before entries recorded their agent are only sent once someone claims them.
+  const handleClaim = async (entry: OutboxEntry) => {
+    if (!userId) return;
+    await claimOutboxEntry(entry.client_id, userId);
+    await handleSync();
+  };
+
+  if (!userId || entries.length === 0) {
+    return null;
+  }
+
+  const hasUnsynced = entries.some((entry) => entry.status === 'pending' || entry.status === 'failed');
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-8 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-800">Relatórios neste aparelho</h2>
+        {hasUnsynced && (
+          <button
+            type="button"
+            onClick={handleSync}
+            disabled={syncing}
+            className="inline-flex items-center px-3 py-1.5 text-sm text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+            Sincronizar agora
+          </button>
+        )}
+      </div>
+
+      <ul className="divide-y divide-gray-200">
+        {entries.map((entry) => (
+          <li key={entry.client_id} className="py-3 flex items-center justify-between gap-4">
+            <div>
+              <p className="text-sm font-mono text-gray-900">
+                {entry.protocol_number ?? entry.client_id}
+                {!entry.protocol_number && <span className="ml-2 font-sans text-xs text-gray-500">(provisório)</span>}
+              </p>
+              <p className="text-xs text-gray-500">
+                {new Date(entry.created_at).toLocaleString('pt-BR')}
+                {(entry.status === 'failed' || entry.status === 'rejected') && entry.error && ` · ${entry.error}`}
+                {!entry.user_id && ' · Agente não identificado'}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {entry.status === 'rejected' && entry.user_id === userId && (
+                <button
+                  type="button"
+                  onClick={() => onCorrect(entry)}
+                  className="text-gray-400 hover:text-blue-600 p-1"
+                  title="Corrigir"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+              )}
+              {!entry.user_id && (
+                <button
+                  type="button"
+                  onClick={() => handleClaim(entry).catch((err) => console.error('Error claiming outbox entry:', err))}
+                  className="text-gray-400 hover:text-blue-600 p-1"
+                  title="Enviar com minha conta"
+                >
+                  <UserCheck className="h-4 w-4" />
+                </button>
+              )}
+              <Link
+                to={`/reports/${entry.protocol_number ?? entry.client_id}/receipt`}
+                className="text-gray-400 hover:text-blue-600 p-1"
+                title="Comprovante"
+              >
+                <Printer className="h-4 w-4" />
+              </Link>
+              <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[entry.status].className}`}>
+                {statusStyles[entry.status].label}
+              </span>
+              {entry.status === 'synced' && (
+                <button
+                  type="button"
+                  onClick={() => removeOutboxEntry(entry.client_id)}
+                  className="text-gray-400 hover:text-red-600 p-1"
+                  title="Remover do aparelho"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default OutboxList;
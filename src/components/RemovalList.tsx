@@ -0,0 +1,44 @@
+import { formatInfraction } from '../infractionOptions';
+import { vehicleTypeLabel } from '../reportOptions';
+
+interface RemovalRow {
+  vehicle_type: string;
+  plate: string | null;
+  infraction_type: string | null;
+  depot: string | null;
+  tow_truck: string | null;
+}
+
+/** Read-only table of the removals of a report, for the detail page and the receipt. */
+const RemovalList = ({ removals }: { removals: RemovalRow[] }) => (
+  <table className="min-w-full text-sm">
+    <thead className="bg-gray-50 border-b border-gray-200">
+      <tr>
+        <th className="px-4 py-3 text-left font-medium text-gray-700">Veículo</th>
+        <th className="px-4 py-3 text-left font-medium text-gray-700">Placa</th>
+        <th className="px-4 py-3 text-left font-medium text-gray-700">Motivo</th>
+        <th className="px-4 py-3 text-left font-medium text-gray-700">Pátio</th>
+        <th className="px-4 py-3 text-left font-medium text-gray-700">Guincho</th>
+      </tr>
+    </thead>
+    <tbody>
+      {removals.length === 0 ? (
+        <tr>
+          <td colSpan={5} className="px-4 py-6 text-center text-gray-500">Nenhuma remoção registrada</td>
+        </tr>
+      ) : (
+        removals.map((removal, index) => (
+          <tr key={index} className="border-b border-gray-200 last:border-b-0">
+            <td className="px-4 py-3">{vehicleTypeLabel(removal.vehicle_type)}</td>
+            <td className="px-4 py-3 font-mono">{removal.plate || '—'}</td>
+            <td className="px-4 py-3">{removal.infraction_type ? formatInfraction(removal.infraction_type) : '—'}</td>
+            <td className="px-4 py-3">{removal.depot || '—'}</td>
+            <td className="px-4 py-3">{removal.tow_truck || '—'}</td>
+          </tr>
+        ))
+      )}
+    </tbody>
+  </table>
+);
+
+export default RemovalList;
@@ -0,0 +1,115 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { findInfractionOption, formatInfraction, type InfractionOption } from '../infractionOptions';
+import type { RemovalInput } from '../lib/reports';
+import { vehicleTypeOptions } from '../reportOptions';
+
+interface RemovalsEditorProps {
+  value: RemovalInput[];
+  onChange: (removals: RemovalInput[]) => void;
+  // Id of the catalog datalist; must be unique on the page.
+  listId: string;
+  // Catalog entries offered as the reason, usually those in force on the shift date.
+  options: InfractionOption[];
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const emptyRemoval = (): RemovalInput => ({
+  vehicle_type: 'automovel',
+  plate: '',
+  infraction_type: '',
+  depot: '',
+  tow_truck: '',
+});
+
+/** One card per towed vehicle; the report counters are derived from this list. */
+const RemovalsEditor = ({ value, onChange, listId, options }: RemovalsEditorProps) => {
+  const update = (index: number, changes: Partial<RemovalInput>) => {
+    onChange(value.map((removal, i) => (i === index ? { ...removal, ...changes } : removal)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length === 0 && <p className="text-sm text-gray-500">Nenhuma remoção registrada</p>}
+
+      {value.map((removal, index) => (
+        <div key={index} className="border border-gray-200 rounded-md p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-gray-500">Remoção {index + 1}</span>
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              className="text-red-600 hover:text-red-800 p-1"
+              title="Excluir remoção"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={removal.vehicle_type}
+              onChange={(e) => update(index, { vehicle_type: e.target.value })}
+              className={inputClassName}
+            >
+              {vehicleTypeOptions.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={removal.plate}
+              onChange={(e) => update(index, { plate: e.target.value.toUpperCase() })}
+              placeholder="Placa"
+              maxLength={8}
+              className={inputClassName}
+            />
+          </div>
+          <input
+            list={listId}
+            value={removal.infraction_type ? formatInfraction(removal.infraction_type) : ''}
+            onChange={(e) => {
+              const option = findInfractionOption(e.target.value);
+              update(index, { infraction_type: option ? option.key : e.target.value });
+            }}
+            placeholder="Motivo (infração do catálogo)"
+            className={inputClassName}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={removal.depot}
+              onChange={(e) => update(index, { depot: e.target.value })}
+              placeholder="Pátio / depósito"
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              value={removal.tow_truck}
+              onChange={(e) => update(index, { tow_truck: e.target.value })}
+              placeholder="Guincho (identificação)"
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      ))}
+
+      <datalist id={listId}>
+        {options.map((option) => (
+          <option key={option.key} value={`${option.key} ${option.description}`} />
+        ))}
+      </datalist>
+
+      <button
+        type="button"
+        onClick={() => onChange([...value, emptyRemoval()])}
+        className="inline-flex items-center px-3 py-1.5 text-sm text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Adicionar remoção
+      </button>
+    </div>
+  );
+};
+
+export default RemovalsEditor;
@@ -0,0 +1,337 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { formatInfraction, infractionKeyOf, infractionOptionsOn } from '../infractionOptions';
+import { useInfractionCatalog } from '../lib/infractionCatalog';
+import {
+  amendReport,
+  lineQuantity,
+  parseTeamMembers,
+  removalCounters,
+  resubmitReport,
+  todayDateKey,
+  toDetailInputs,
+  toRemovalInputs,
+  type Report,
+  type ReportSnapshot,
+} from '../lib/reports';
+import { activeSectorTree, activeServiceOptions, indentedLabel, sectorLabel, serviceLabel } from '../reportOptions';
+import { useReferenceData } from '../lib/referenceData';
+import { hasErrors, mergeInfractionLines, validateReport } from '../lib/validation';
+import InfractionDetailList from './InfractionDetailList';
+import RemovalsEditor from './RemovalsEditor';
+
+interface ReportAmendFormProps {
+  report: Report;
+  // 'resubmit' is used by the agent fixing a returned report; it sends the report back for review.
+  mode?: 'amend' | 'resubmit';
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const ReportAmendForm = ({ report, mode = 'amend', onSaved, onCancel }: ReportAmendFormProps) => {
+  const resubmitting = mode === 'resubmit';
+  const [snapshot, setSnapshot] = useState<ReportSnapshot>({
+    service_name: report.service_name,
+    sector: report.sector,
+    shift_date: report.shift_date,
+    shift_start: report.shift_start?.slice(0, 5) ?? null,
+    shift_end: report.shift_end?.slice(0, 5) ?? null,
+    vehicle_prefix: report.vehicle_prefix,
+    team_members: report.team_members,
+    car_removals: report.car_removals,
+    motorcycle_removals: report.motorcycle_removals,
+    removals: toRemovalInputs(report.removals),
+    total_approaches: report.total_approaches,
+    infractions: report.infractions.map((
+      { infraction_type, quantity, latitude, longitude, location_accuracy, infraction_details }
+    ) => ({
+      infraction_type,
+      quantity,
+      details: toDetailInputs(infraction_details),
+      latitude,
+      longitude,
+      location_accuracy,
+    })),
+  });
+  const [teamText, setTeamText] = useState(report.team_members.join(', '));
+  const [newInfraction, setNewInfraction] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { options: catalog } = useInfractionCatalog();
+  const { services, sectors } = useReferenceData();
+  const serviceChoices = activeServiceOptions(services);
+  const sectorChoices = activeSectorTree(sectors, true);
+  const validation = validateReport(snapshot, snapshot.infractions, todayDateKey());
+  const availableInfractions = infractionOptionsOn(catalog, snapshot.shift_date);
+
+  const updateInfraction = (index: number, quantity: number) => {
+    setSnapshot({
+      ...snapshot,
+      infractions: snapshot.infractions.map((infraction, i) =>
+        i === index ? { ...infraction, quantity } : infraction
+      ),
+    });
+  };
+
+  const removeInfraction = (index: number) => {
+    setSnapshot({ ...snapshot, infractions: snapshot.infractions.filter((_, i) => i !== index) });
+  };
+
+  const addInfraction = () => {
+    const option = availableInfractions.find((item) => item.key === infractionKeyOf(newInfraction));
+    if (!option) {
+      setError('Selecione uma infração do catálogo vigente na data do turno.');
+      return;
+    }
+    setError(null);
+    setSnapshot({
+      ...snapshot,
+      infractions: mergeInfractionLines([...snapshot.infractions, { infraction_type: option.key, quantity: 1 }]),
+    });
+    setNewInfraction('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (hasErrors(validation)) {
+      setError(Object.values(validation.errors)[0]);
+      return;
+    }
+    if (!reason.trim()) {
+      setError(resubmitting ? 'Descreva o que foi corrigido.' : 'Informe o motivo da correção.');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      if (resubmitting) {
+        await resubmitReport(report.uid, snapshot, reason.trim());
+      } else {
+        await amendReport(report.uid, snapshot, reason.trim());
+      }
+      onSaved();
+    } catch (err) {
+      console.error('Error amending report:', err);
+      setError((err as { message?: string })?.message ?? 'Erro ao salvar a correção.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 space-y-4">
+      <h2 className="text-lg font-medium text-gray-800">
+        {resubmitting ? 'Corrigir e reenviar relatório' : 'Corrigir relatório'}
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Tipo de serviço</label>
+          <select
+            value={snapshot.service_name}
+            onChange={(e) => setSnapshot({ ...snapshot, service_name: e.target.value })}
+            className={inputClassName}
+          >
+            {!serviceChoices.some((option) => option.value === report.service_name) && (
+              <option value={report.service_name}>{serviceLabel(report.service_name)}</option>
+            )}
+            {serviceChoices.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Setor</label>
+          {/* A resubmitted report stays in the sector that reviewed it; resubmit_report keeps it. */}
+          <select
+            value={snapshot.sector}
+            onChange={(e) => setSnapshot({ ...snapshot, sector: e.target.value })}
+            className={inputClassName}
+            disabled={resubmitting}
+          >
+            {!sectorChoices.some((node) => node.option.value === report.sector) && (
+              <option value={report.sector}>{sectorLabel(report.sector)}</option>
+            )}
+            {sectorChoices.map((node) => (
+              <option key={node.option.value} value={node.option.value} disabled={!node.option.selectable}>
+                {indentedLabel(node)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Data do turno</label>
+          <input
+            type="date"
+            required
+            value={snapshot.shift_date}
+            onChange={(e) => setSnapshot({ ...snapshot, shift_date: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Início</label>
+          <input
+            type="time"
+            value={snapshot.shift_start ?? ''}
+            onChange={(e) => setSnapshot({ ...snapshot, shift_start: e.target.value || null })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Fim</label>
+          <input
+            type="time"
+            value={snapshot.shift_end ?? ''}
+            onChange={(e) => setSnapshot({ ...snapshot, shift_end: e.target.value || null })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Viatura</label>
+          <input
+            type="text"
+            value={snapshot.vehicle_prefix ?? ''}
+            onChange={(e) => setSnapshot({ ...snapshot, vehicle_prefix: e.target.value || null })}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Equipe (separe os nomes por vírgula)</label>
+        <input
+          type="text"
+          value={teamText}
+          onChange={(e) => {
+            setTeamText(e.target.value);
+            setSnapshot({ ...snapshot, team_members: parseTeamMembers(e.target.value) });
+          }}
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Total de abordagens</label>
+        <input
+          type="number"
+          min="0"
+          value={snapshot.total_approaches}
+          onChange={(e) => setSnapshot({ ...snapshot, total_approaches: Number(e.target.value) })}
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Remoções</h3>
+        <RemovalsEditor
+          value={snapshot.removals}
+          onChange={(removals) => setSnapshot({ ...snapshot, removals, ...removalCounters(removals) })}
+          listId="amend-removal-infraction-options"
+          options={availableInfractions}
+        />
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Infrações</h3>
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 mb-3">
+          {snapshot.infractions.length === 0 && (
+            <p className="px-4 py-3 text-sm text-gray-500">Nenhuma infração registrada</p>
+          )}
+          {snapshot.infractions.map((infraction, index) => (
+            <div key={`${infraction.infraction_type}-${index}`} className="flex items-center gap-3 px-4 py-2">
+              <div className="flex-1 text-sm text-gray-900">
+                {formatInfraction(infraction.infraction_type)}
+                <InfractionDetailList details={infraction.details} />
+              </div>
+              <input
+                type="number"
+                min="1"
+                value={lineQuantity(infraction)}
+                // Detailed lines count their autos; remove the line to change them.
+                disabled={Boolean(infraction.details?.length)}
+                onChange={(e) => updateInfraction(index, Number(e.target.value))}
+                className="w-20 px-2 py-1 border border-gray-300 rounded-md text-right disabled:bg-gray-100"
+              />
+              <button
+                type="button"
+                onClick={() => removeInfraction(index)}
+                className="text-red-600 hover:text-red-800 p-1"
+                title="Excluir infração"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            list="amend-infraction-options"
+            value={newInfraction}
+            onChange={(e) => setNewInfraction(e.target.value)}
+            placeholder="Pesquisar infração..."
+            className={inputClassName}
+          />
+          <datalist id="amend-infraction-options">
+            {availableInfractions.map((option) => (
+              <option key={option.key} value={`${option.key} ${option.description}`} />
+            ))}
+          </datalist>
+          <button
+            type="button"
+            onClick={addInfraction}
+            className="inline-flex items-center px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="amend-reason" className="block text-sm font-medium text-gray-700 mb-2">
+          {resubmitting ? 'O que foi corrigido' : 'Motivo da correção'}
+        </label>
+        <textarea
+          id="amend-reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={3}
+          required
+          className={inputClassName}
+        />
+      </div>
+
+      {validation.warnings.map((warning) => (
+        <div key={warning} className="text-sm text-yellow-800">{warning}</div>
+      ))}
+      {error && <div className="text-red-500">{error}</div>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Salvando...' : resubmitting ? 'Reenviar para revisão' : 'Salvar correção'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ReportAmendForm;
@@ -0,0 +1,16 @@
+import { reportStatusLabels, type ReportStatus } from '../lib/reports';
+
+const statusClassNames: Record<ReportStatus, string> = {
+  submitted: 'bg-blue-100 text-blue-800',
+  under_review: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  returned: 'bg-red-100 text-red-800',
+};
+
+const ReportStatusBadge = ({ status }: { status: ReportStatus }) => (
+  <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${statusClassNames[status]}`}>
+    {reportStatusLabels[status]}
+  </span>
+);
+
+export default ReportStatusBadge;
@@ -0,0 +1,41 @@
+import type { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { hasRole, useAuth, type UserRole } from '../lib/auth';
+
+interface RequireRoleProps {
+  // Omit to allow any signed-in user.
+  roles?: UserRole[];
+  children: ReactNode;
+}
+
+const RequireRole = ({ roles, children }: RequireRoleProps) => {
+  const { session, profile, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8 flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    // Also reached when the session expires or times out; the login page returns here.
+    return <Navigate to="/login" state={{ from: location }} replace />;
+  }
+
+  if (roles && !hasRole(profile, roles)) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">
+          <p>Você não tem permissão para acessar esta página.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireRole;
@@ -0,0 +1,31 @@
+import { reportStatusLabels, type ReportReview } from '../lib/reports';
+
+interface ReviewHistoryProps {
+  reviews: ReportReview[];
+}
+
+const ReviewHistory = ({ reviews }: ReviewHistoryProps) => {
+  if (reviews.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <h2 className="text-lg font-medium text-gray-800 mb-4">Histórico de revisão</h2>
+      <ol className="space-y-4">
+        {reviews.map((review) => (
+          <li key={review.id} className="border-l-4 border-green-200 pl-4">
+            <p className="text-sm font-medium text-gray-900">
+              {reportStatusLabels[review.from_status]} → {reportStatusLabels[review.to_status]} ·{' '}
+              {new Date(review.changed_at).toLocaleString('pt-BR')}
+            </p>
+            <p className="text-xs text-gray-500">Por {review.changed_by_email ?? review.changed_by}</p>
+            {review.comment && <p className="text-sm text-gray-700 mt-2">{review.comment}</p>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default ReviewHistory;
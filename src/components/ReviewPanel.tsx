@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { CheckCircle, Eye, Undo2 } from 'lucide-react';
+import { reviewReport, type Report } from '../lib/reports';
+
+interface ReviewPanelProps {
+  report: Report;
+  onReviewed: () => void;
+}
+
+const ReviewPanel = ({ report, onReviewed }: ReviewPanelProps) => {
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (report.status !== 'submitted' && report.status !== 'under_review') {
+    return null;
+  }
+
+  const handleReview = async (status: 'under_review' | 'approved' | 'returned') => {
+    if (status === 'returned' && !comment.trim()) {
+      setError('Informe o motivo da devolução.');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await reviewReport(report.uid, status, comment.trim() || undefined);
+      setComment('');
+      onReviewed();
+    } catch (err) {
+      console.error('Error reviewing report:', err);
+      setError((err as { message?: string })?.message ?? 'Erro ao revisar o relatório.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+      <h2 className="text-lg font-medium text-gray-800">Revisão</h2>
+
+      <div>
+        <label htmlFor="review-comment" className="block text-sm font-medium text-gray-700 mb-2">
+          Comentário (obrigatório para devolver)
+        </label>
+        <textarea
+          id="review-comment"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          rows={3}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+
+      {error && <div className="text-red-500">{error}</div>}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        {report.status === 'submitted' && (
+          <button
+            type="button"
+            onClick={() => handleReview('under_review')}
+            disabled={saving}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            Iniciar análise
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => handleReview('returned')}
+          disabled={saving}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium text-red-600 bg-white border border-red-600 rounded-md hover:bg-red-50 disabled:opacity-50"
+        >
+          <Undo2 className="h-4 w-4 mr-2" />
+          Devolver
+        </button>
+        <button
+          type="button"
+          onClick={() => handleReview('approved')}
+          disabled={saving}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+        >
+          <CheckCircle className="h-4 w-4 mr-2" />
+          Aprovar
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewPanel;
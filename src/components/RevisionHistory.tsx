@@ -0,0 +1,127 @@
+import { formatInfraction } from '../infractionOptions';
+import { formatShiftDate, type ReportRevision, type ReportSnapshot, type RevisionSnapshot } from '../lib/reports';
+import { sectorLabel, serviceLabel, vehicleTypeLabel } from '../reportOptions';
+
+interface RevisionHistoryProps {
+  revisions: ReportRevision[];
+}
+
+const fieldLabels: Record<Exclude<keyof ReportSnapshot, 'infractions' | 'removals'>, string> = {
+  service_name: 'Tipo de serviço',
+  sector: 'Setor',
+  shift_date: 'Data do turno',
+  shift_start: 'Início do turno',
+  shift_end: 'Fim do turno',
+  vehicle_prefix: 'Viatura',
+  team_members: 'Equipe',
+  total_approaches: 'Abordagens',
+  car_removals: 'Remoções de carros',
+  motorcycle_removals: 'Remoções de motos',
+};
+
+interface Change {
+  label: string;
+  from: string;
+  to: string;
+}
+
+function formatValue(field: keyof typeof fieldLabels, value: RevisionSnapshot[keyof typeof fieldLabels]) {
+  if (value == null || (Array.isArray(value) && value.length === 0)) return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (field === 'service_name') return serviceLabel(String(value));
+  if (field === 'sector') return sectorLabel(String(value));
+  if (field === 'shift_date') return formatShiftDate(String(value));
+  return String(value);
+}
+
+function quantitiesByType(snapshot: RevisionSnapshot) {
+  const quantities = new Map<string, number>();
+  snapshot.infractions?.forEach(({ infraction_type, quantity }) => {
+    quantities.set(infraction_type, (quantities.get(infraction_type) ?? 0) + quantity);
+  });
+  return quantities;
+}
+
+function removalsByVehicleType(snapshot: RevisionSnapshot) {
+  const counts = new Map<string, number>();
+  snapshot.removals?.forEach(({ vehicle_type }) => {
+    counts.set(vehicle_type, (counts.get(vehicle_type) ?? 0) + 1);
+  });
+  return counts;
+}
+
+function describeChanges(revision: ReportRevision): Change[] {
+  const { old_values: before, new_values: after } = revision;
+  const changes: Change[] = [];
+
+  (Object.keys(fieldLabels) as (keyof typeof fieldLabels)[]).forEach((field) => {
+    // Snapshots taken before a field existed do not carry it; that is not a change.
+    if (!(field in before) || !(field in after)) return;
+    const from = formatValue(field, before[field]);
+    const to = formatValue(field, after[field]);
+    if (from !== to) {
+      changes.push({ label: fieldLabels[field], from, to });
+    }
+  });
+
+  if (before.removals && after.removals) {
+    const oldRemovals = removalsByVehicleType(before);
+    const newRemovals = removalsByVehicleType(after);
+    new Set([...oldRemovals.keys(), ...newRemovals.keys()]).forEach((type) => {
+      const from = oldRemovals.get(type) ?? 0;
+      const to = newRemovals.get(type) ?? 0;
+      if (from !== to) {
+        changes.push({ label: `Remoções · ${vehicleTypeLabel(type)}`, from: String(from), to: String(to) });
+      }
+    });
+  }
+
+  const oldQuantities = quantitiesByType(before);
+  const newQuantities = quantitiesByType(after);
+  new Set([...oldQuantities.keys(), ...newQuantities.keys()]).forEach((type) => {
+    const from = oldQuantities.get(type) ?? 0;
+    const to = newQuantities.get(type) ?? 0;
+    if (from !== to) {
+      changes.push({ label: formatInfraction(type), from: String(from), to: String(to) });
+    }
+  });
+
+  return changes;
+}
+
+const RevisionHistory = ({ revisions }: RevisionHistoryProps) => {
+  if (revisions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-lg font-medium text-gray-800 mb-4">Histórico de correções</h2>
+      <ol className="space-y-4">
+        {revisions.map((revision) => (
+          <li key={revision.id} className="border-l-4 border-blue-200 pl-4">
+            <p className="text-sm font-medium text-gray-900">
+              Revisão {revision.revision} · {new Date(revision.changed_at).toLocaleString('pt-BR')}
+            </p>
+            <p className="text-xs text-gray-500 mb-2">
+              Por {revision.changed_by_email ?? revision.changed_by}
+            </p>
+            <p className="text-sm text-gray-700 mb-2">
+              <span className="font-medium">Motivo:</span> {revision.reason}
+            </p>
+            <ul className="text-sm text-gray-700 space-y-1">
+              {describeChanges(revision).map((change) => (
+                <li key={change.label}>
+                  {change.label}: <span className="line-through text-red-600">{change.from}</span>{' '}
+                  → <span className="text-green-700">{change.to}</span>
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,102 @@
+import { useMemo } from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { SectorTotals } from '../lib/dashboard';
+import { sectorLabel } from '../reportOptions';
+
+interface SectorComparisonProps {
+  sectors: SectorTotals[];
+}
+
+const SectorComparison = ({ sectors }: SectorComparisonProps) => {
+  const rows = useMemo(
+    () =>
+      sectors
+        .map((row) => ({ ...row, label: sectorLabel(row.sector), removals: row.car_removals + row.motorcycle_removals }))
+        .sort((a, b) => a.label.localeCompare(b.label, 'pt-BR')),
+    [sectors]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-2xl font-bold mb-4">Comparativo por setor</h2>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Totais por setor</CardTitle>
+            <CardDescription>Mesmo período e filtros selecionados</CardDescription>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">Setor</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">Relatórios</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">Abordagens</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">Infrações</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">Rem. carros</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">Rem. motos</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.sector} className="border-b border-gray-100">
+                    <td className="px-3 py-2">{row.label}</td>
+                    <td className="px-3 py-2 text-right">{row.reports}</td>
+                    <td className="px-3 py-2 text-right">{row.approaches}</td>
+                    <td className="px-3 py-2 text-right">{row.infractions}</td>
+                    <td className="px-3 py-2 text-right">{row.car_removals}</td>
+                    <td className="px-3 py-2 text-right">{row.motorcycle_removals}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Abordagens, infrações e remoções</CardTitle>
+            <CardDescription>Lado a lado por setor</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={320}>
+              <BarChart data={rows}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" interval={0} angle={-30} textAnchor="end" height={80} fontSize={12} />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                <Bar dataKey="approaches" name="Abordagens" fill="#4f46e5" />
+                <Bar dataKey="infractions" name="Infrações" fill="#2563eb" />
+                <Bar dataKey="removals" name="Remoções" fill="#16a34a" />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default SectorComparison;
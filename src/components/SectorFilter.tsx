@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { sectorDescendants, sectorLabel, sectorTree } from '../reportOptions';
+import { useReferenceData } from '../lib/referenceData';
+
+interface SectorFilterProps {
+  value: string[];
+  onChange: (sectors: string[]) => void;
+}
+
+const SectorFilter = ({ value, onChange }: SectorFilterProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { sectors } = useReferenceData();
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  // A group toggles every sector below it that reports are filed under.
+  const reportSectors = (sector: string) =>
+    sectorDescendants(sectors, sector).filter(
+      (item) => sectors.find((option) => option.value === item)?.selectable !== false
+    );
+
+  const isChecked = (sector: string) => {
+    const covered = reportSectors(sector);
+    return covered.length > 0 && covered.every((item) => value.includes(item));
+  };
+
+  const toggle = (sector: string) => {
+    const covered = reportSectors(sector);
+    onChange(
+      isChecked(sector)
+        ? value.filter((item) => !covered.includes(item))
+        : [...value, ...covered.filter((item) => !value.includes(item))]
+    );
+  };
+
+  const summary =
+    value.length === 0 ? 'Todos' : value.length === 1 ? sectorLabel(value[0]) : `${value.length} setores selecionados`;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full p-2 border border-gray-300 rounded-md bg-white flex items-center justify-between text-left"
+      >
+        <span className="truncate">{summary}</span>
+        <ChevronDown className="h-4 w-4 text-gray-500" />
+      </button>
+      {isOpen && (
+        <div className="absolute z-10 w-full mt-1 bg-white rounded-md shadow-lg ring-1 ring-black ring-opacity-5 max-h-72 overflow-auto py-1">
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            className="w-full text-left px-3 py-2 text-sm text-blue-600 hover:bg-blue-50"
+          >
+            Limpar seleção
+          </button>
+          {sectorTree(sectors).map(({ option, depth }) => (
+            <label
+              key={option.value}
+              className={`flex items-center px-3 py-2 text-sm hover:bg-blue-50 cursor-pointer ${
+                option.active ? 'text-gray-900' : 'text-gray-400'
+              }`}
+              style={{ paddingLeft: `${0.75 + depth * 1.25}rem` }}
+            >
+              <input
+                type="checkbox"
+                checked={isChecked(option.value)}
+                onChange={() => toggle(option.value)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-3"
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SectorFilter;
@@ -0,0 +1,106 @@
+import { useMemo } from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { fillTimeSeries, granularityLabels, type Granularity } from '../lib/timeSeries';
+import type { SeriesBucket } from '../lib/dashboard';
+
+interface TrendChartsProps {
+  buckets: SeriesBucket[];
+  granularity: Granularity;
+  onGranularityChange: (granularity: Granularity) => void;
+  dateRange: { start: string; end: string };
+}
+
+const TrendCharts = ({ buckets, granularity, onGranularityChange, dateRange }: TrendChartsProps) => {
+  const series = useMemo(
+    () => fillTimeSeries(buckets, granularity, dateRange),
+    [buckets, granularity, dateRange]
+  );
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold">Evolução no período</h2>
+        <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+          {(Object.keys(granularityLabels) as Granularity[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onGranularityChange(option)}
+              className={`px-3 py-1.5 text-sm ${
+                granularity === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {granularityLabels[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {series.length === 0 ? (
+        <p className="text-gray-500">Nenhum dado no período selecionado.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Abordagens e Infrações</CardTitle>
+              <CardDescription>Totais por {granularityLabels[granularity].toLowerCase()}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={series}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="approaches" name="Abordagens" stroke="#4f46e5" strokeWidth={2} />
+                  <Line type="monotone" dataKey="infractions" name="Infrações" stroke="#2563eb" strokeWidth={2} />
+                </LineChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Remoções</CardTitle>
+              <CardDescription>Carros e motos removidos por {granularityLabels[granularity].toLowerCase()}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={series}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="carRemovals" name="Carros" stackId="removals" fill="#9333ea" />
+                  <Bar dataKey="motorcycleRemovals" name="Motos" stackId="removals" fill="#ea580c" />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrendCharts;
@@ -1,263 +1,419 @@
-const infractionOptions = [
-  // Add all your infraction options here
-	"5002-0 Multa, por não identificação do condutor infrator, imposta à pessoa jurídica",
-	"5010-0 Dirigir veículo sem possuir CNH ou Permissão para Dirigir",
-	"5029-1 Dirigir veículo com CNH ou PPD cassada",
-	"5029-2 Dirigir veículo com CNH ou PPD com suspensão do direito de dirigir",
-	"5037-1 Dirigir veículo com CNH de categoria diferente da do veículo e Dirigir veículo com CNH ou PPD com suspensão do direito de dirigir",
-	"5045-0 Dirigir veículo com validade de CNH/PPD vencida há mais de 30 dias",
-	"5053-1 Dirigir veículo sem usar lentes corretoras de visão e Dirigir veículo sem usar aparelho auxiliar de audição e Dirigir veículo sem usar aparelho auxiliar de prótese física e Dirigir veículo s/ adaptações impostas na concessão/renovação licença conduzir",
-	"5061-0 Entregar veículo a pessoa sem CNH ou Permissão para Dirigir",
-	"5070-1 Entregar veículo a pessoa com CNH ou PPD cassada e Entregar veículo a pessoa com CNH ou PPD com suspensão do direito de dirigir",
-	"5088-1 Entregar veículo a pessoa com CNH de categoria diferente da do veículo e Entregar veículo a pessoa com PPD de categoria diferente da do veículo",
-	"5096-0 Entregar veículo a pessoa com CNH/PPD vencida há mais de 30 dias",
-	"5100-1 Entregar o veículo a pessoa sem usar lentes corretoras de visão e Entregar o veículo a pessoa sem usar aparelho auxiliar de audição e Entregar o veículo a pessoa sem aparelho de prótese física e Entregar veíc pessoa s/ adaptações impostas concessão/renovação licença conduzir",
-	"5118-0 Permitir posse/condução do veículo a pessoa sem CNH ou PPD",
-	"5126-1 Permitir posse/condução do veículo a pessoa com CNH ou PPD cassada e Permitir posse/condução veíc pessoa com CNH/PPD c/ suspensão direito de dirigir",
-	"5134-1 Permitir posse/condução veíc a pessoa com CNH categoria diferente da do veículo e Permitir posse/condução veíc a pessoa com PPD categoria diferente da do veículo",
-	"5142-0 Permitir posse/condução do veíc a pessoa com CNH/PPD vencida há mais de 30 dias",
-	"5150-1 Permitir posse/condução do veículo a pessoa sem usar lentes corretoras de visão e Permitir posse/condução do veículo a pessoa s/ usar aparelho auxiliar de audição e Permitir posse/condução do veículo a pessoa sem usar aparelho de prótese física e Permitir posse/cond veíc s/ adaptações impostas concessão/renovação licença cond",
-	"5169-1 Dirigir sob a influência de álcool e Dirigir sob a influência de qquer substância psicoativa que deter. Dependência",
-	"5177-0 Confiar/entregar veíc pess c/ estado físico/psíquico s/ condições dirigir segur",
-	"5185-1 Deixar o condutor de usar o cinto segurança e Deixar o passageiro de usar o cinto segurança",
-	"5193-0 Transportar criança sem observância das normas de segurança estabelecidas p/ CTB",
-	"5207-0 Dirigir sem atenção ou sem os cuidados indispensáveis à segurança",
-	"5215-1 Dirigir ameaçando os pedestres que estejam atravessando a via pública e Dirigir ameaçando os demais veículos",
-	"5223-1 Usar veículo para arremessar sobre os pedestres água ou detritos e Usar veículo para arremessar sobre os veículos água ou detritos",
-	"5231-1 Atirar do veículo objetos ou substâncias e Abandonar na via objetos ou substâncias",
-	"5240-0 Disputar corrida",
-	"5258-1 Promover na via competição sem permissão e Promover na via eventos organizados sem permissão e Promover na via exibição e demonstração de perícia em manobra de veículo s/perm",
-	"5266-1 Participar na via como condutor em competição sem permissão e Participar na via como condutor em eventos organizados sem permissão e Participar como condutor exib/demonst perícia em manobra de veic s/ permissão",
-	"5274-1 Utiliz veíc demonst/exibir manobra perigosa mediante arrancada brusca e Utiliz veíc dem/exibir manob perig med derrap/frenag c/desliz/arrast pneus",
-	"5282-0 Deixar o cond envolvido em acidente, de prestar ou providenciar socorro a vítima",
-	"5290-0 Deixar o cond envolvido em acid, de adotar provid p/ evitar perigo p/o trânsito",
-	"5304-0 Deixar o cond envolvido em acidente, de preservar local p/ trab policia/pericia",
-	"5312-0 Deixar o cond envolvido em acid, de remover o veíc local qdo determ polic/agente",
-	"5320-0 Deixar o cond envolvido em acid, de identificar-se policial e prestar inf p/o BO",
-	"5339-0 Deixar o cond de prestar socorro vítima acid de trânsito, qdo solicit p/ agente",
-	"5347-0 Deixar o condutor envolvido em acidente s/ vítima, de remover o veículo do local",
-	"5355-0 Fazer ou deixar que se faça reparo em veíc, em rodovia e via de trânsito rápido",
-	"5363-0 Fazer/deixar que se faça reparo em veíc nas vias (q não rodovia/transito rapido)",
-	"5371-0 Ter seu veículo imobilizado na via por falta de combustível",
-	"5380-0 Estacionar nas esquinas e a menos de 5m do alinhamento da via transversal",
-	"5398-0 Estacionar afastado da guia da calçada (meio-fio) de 50cm a 1m",
-	"5401-0 Estacionar afastado da guia da calçada (meio-fio) a mais de 1m",
-	"5410-0 Estacionar em desacordo com as posições estabelecidas no CTB",
-	"5428-1 Estacionar na pista de rolamento das estradas e Estacionar na pista de rolamento das rodovias e Estacionar na pista de rolamento das vias de trânsito rápido e Estacionar na pista de rolamento das vias dotadas de acostamento",
-	"5436-0 Estacionar junto/sobre hidr de incêndio, reg de água/tampa de poço visit gal sub",
-	"5444-0 Estacionar nos acostamentos",
-	"5452-1 Estacionar no passeio, Estacionar sobre faixa destinada a pedestre, Estacionar sobre ciclovia ou ciclofaixa, Estacionar nas ilhas ou refúgios, Estacionar ao lado ou sobre canteiro central/divisores de pista de rolamento, Estacionar ao lado ou sobre marcas de canalização, Estacionar ao lado ou sobre gramado ou jardim público",
-	"5460-0 Estacionar em guia de calçada rebaixada destinada à entrada/saída de veículos",
-	"5479-0 Estacionar impedindo a movimentação de outro veículo",
-	"5487-0 Estacionar ao lado de outro veículo em fila dupla",
-	"5495-0 Estacionar na área de cruzamento de vias",
-	"5509-0 Estacionar no ponto de embarque/desembarque de passageiros transporte coletivo",
-	"5517-1 Estacionar nos viadutos, Estacionar nas pontes, Estacionar nos túneis",
-	"5525-0 Estacionar na contramão de direção",
-	"5533-0 Estacionar aclive/declive ñ freado e sem calço segurança, PBT superior a 3500kg",
-	"5541-1 Estacionar em desacordo com a regulamentação especificada pela sinalização, estacionamento rotativo, ponto ou vaga de táxi, vaga de carga/descarga, vaga portador necessid especiais, vaga idoso, vaga de curta duração",
-	"5550-0 Estacionar em local/horário proibido especificamente pela sinalização",
-	"5568-0 Estacionar local/horário de estacionamento e parada proibidos pela sinalização",
-	"5576-0 Parar nas esquinas e a menos 5m do bordo do alinhamento da via transversal",
-	"5584-0 Parar afastado da guia da calçada (meio-fio) de 50cm a 1m",
-	"5592-0 Parar afastado da guia da calçada (meio-fio) a mais de 1m",
-	"5606-0 Parar em desacordo com as posições estabelecidas no CTB",
-	"5614-1 Parar na pista de rolamento das estradas, Parar na pista de rolamento das rodovias, Parar na pista de rolamento das vias de trânsito rápido, Parar na pista de rolamento das demais vias dotadas de acostamento",
-	"5622-1 Parar no passeio, Parar sobre faixa destinada a pedestres, Parar nas ilhas ou refúgios, Parar nos canteiros centrais/divisores de pista de rolamento, Parar nas marcas de canalização",
-	"5630-0 Parar na área de cruzamento de vias",
-	"5649-1 Parar nos viadutos, Parar nas pontes, Parar nos túneis",
-	"5657-0 Parar na contramão de direção",
-	"5665-0 Parar em local/horário proibidos especificamente pela sinalização",
-	"5673-1 Parar sobre faixa de pedestres na mudança de sinal luminoso, e (fisc eletrônica)",
-	"5681-0 Transitar na faixa/pista da direita regul circulação exclusiva determ veículo",
-	"5690-0 Transitar na faixa/pista da esquerda regul circulação exclusiva determ veículo",
-	"5703-0 Deixar de conservar o veículo na faixa a ele destinada pela sinalização de regul",
-	"5711-0 Deixar de conservar nas faixas da direita o veículo lento e de maior porte",
-	"5720-0 Transitar pela contramão de direção em via com duplo sentido de circulação",
-	"5738-0 Transitar pela contramão de direção em via c/ sinalização de regul sentido único",
-	"5746-1 Transitar em local/horário não permitido pela regul estabelecida p/ autoridade, rodízio, caminhão",
-	"5762-0 Transitar ao lado de outro veículo, interrompendo ou perturbando o trânsito",
-	"5770-1 Deixar de dar passagem a veíc precedido de batedores devidamente identificados, Deixar de dar passagem a veíc socorro incêndio/salv serv urgência devid identif, Deixar de dar passagem a veíc de polícia em serviço de urgência devid identif, Deixar de dar passagem a veíc de operação e fiscalização de trânsito devid ident, Deixar de dar passagem a ambulância em serviço de urgência devid identificada",
-	"5789-0 Seguir veículo em serv urgência devid identific p/ alarme sonoro/ilum vermelha",
-	"5797-0 Forçar passagem entre veícs trans sent opostos na iminência realiz ultrapassagem",
-	"5800-0 Deixar guardar dist segurança lat/front entre seu veíc e demais e ao bordo pista",
-	"5819-1 Transitar com o veículo em calçadas, passeios, Transitar com o veículo em ciclovias, ciclofaixas - Transitar com o veículo em ajardinamentos, gramados, jardins públicos - Transitar com o veículo em canteiros centrais/divisores de pista de rolamento - Transitar com o veículo em ilhas, refúgios - Transitar com o veículo em marcas de canalização - Transitar com o veículo em acostamentos - Transitar com o veículo em passarelas",
-	"5827-0 Transitar em marcha ré, salvo na distância necessária a pequenas manobras",
-	"5835-0 Desobedecer às ordens emanadas da autorid compet de trânsito ou de seus agentes",
-	"5843-1 Deixar de indicar c/ antec, med gesto de braço/luz indicadora, início da marcha - Deixar de indicar c/ antec, med gesto de braço/luz indicadora, manobra de parar - Deixar de indicar c/ antec, med gesto de braço/luz indicadora, mudança direção - Deixar de indicar c/ antec, med gesto de braço/luz indicadora, mudança de faixa",
-	"5851-1 Deixar de deslocar c/antecedência veíc p/ faixa mais à esquerda qdo for manobrar - Deixar de deslocar c/antecedência veíc p/ faixa mais à direita qdo for manobrar",
-	"5860-0 Deixar de dar passagem pela esquerda quando solicitado",
-	"5878-0 Ultrapassar pela direita, salvo qdo veíc da frente der sinal p/ entrar esquerda",
-	"5886-0 Ultrap pela direita veíc transp colet/escolar parado para emb/desemb passageiros",
-	"5894-0 Deixar de guardar a distância lateral de 1,50m ao passar/ultrapassar bicicleta",
-	"5908-0 Ultrapassar pelo acostamento",
-	"5916-1 Ultrapassar em interseções - Ultrapassar em passagem de nível",
-	"5924-1 Ultrapassar pela contramão nas curvas sem visibilidade suficiente - Ultrapassar pela contramão nos aclives ou declives, sem visibilidade suficiente",
-	"5932-0 Ultrapassar pela contramão nas faixas de pedestre",
-	"5940-1 Ultrapassar pela contramão nas pontes - Ultrapassar pela contramão nos viadutos - Ultrapassar pela contramão nos túneis",
-	"5959-1 Ultrapassar pela contramão veículo parado em fila junto sinal luminoso - Ultrapassar pela contramão veículo parado em fila junto a cancela/porteira - Ultrapassar pela contramão veículo parado em fila junto a cruzamento - Ultrapassar pela contramão veíc parado em fila junto qq impedimento à circulação",
-	"5967-0 Ultrapassar pela contramão linha de divisão de fluxos opostos, contínua amarela",
-	"5975-0 Deixar de parar no acostamento à direita, p/ cruzar pista ou entrar à esquerda",
-	"5983-0 Ultrapassar veículo em movimento que integre cortejo/desfile/formação militar",
-	"5991-0 Executar operação de retorno em locais proibidos pela sinalização",
-	"6009-1 Executar operação de retorno nas curvas - Executar operação de retorno nos aclives ou declives - Executar operação de retorno nas pontes - Executar operação de retorno nos viadutos - Executar operação de retorno nos túneis",
-	"6017-1 Executar operação de retorno passando por cima de calçada, passeio - Executar operação de retorno passando por cima de ilha, refúgio - Executar operação de retorno passando por cima de ajardinamento - Executar operação de retorno passando por cima de canteiro de divisor de pista - Executar operação de retorno passando por cima de faixa de pedestres - Executar operação de retorno passando por cima de faixa de veíc não motorizados",
-	"6025-0 Executar retorno nas interseções, entrando na contramão da via transversal",
-	"6033-0 Executar retorno c/prejuízo da circulação/segurança ainda que em local permitido",
-	"6041-1 Executar operação de conversão à direita em local proibido pela sinalização - Executar operação de conversão à esquerda em local proibido pela sinalização",
-	"6050-1 Avançar o sinal vermelho do semáforo - Avançar o sinal de parada obrigatória - Avançar o sinal vermelho do semáforo - fiscalização eletrônica",
-	"6068-1 Transpor bloqueio viário com ou sem sinalização ou dispositivos auxiliares - Deixar de adentrar às áreas destinadas à pesagem de veículos - Evadir-se para não efetuar o pagamento do pedágio",
-	"6076-0 Transpor bloqueio viário policial",
-	"6084-1 Ultrapassar veículos motorizados em fila, parados em razão de sinal luminoso - Ultrapassar veículos motorizados em fila, parados em razão de cancela - Ultrapassar veíc motorizados em fila parados em razão de bloqueio viário parcial - Ultrapassar veículos motorizados em fila, parados em razão de qualquer obstáculo",
-	"6092-0 Deixar de parar o veículo antes de transpor linha férrea",
-	"6106-0 Deixar de parar sempre que a marcha for interceptada por agrupamento de pessoas",
-	"6114-0 Deixar de parar sempre que a marcha for interceptada por agrupamento de veículos",
-	"6122-0 Deixar de dar preferência a pedestre/veic ñ motorizado na faixa a ele destinada",
-	"6130-0 Deixar de dar preferência a pedestre/veic ñ mot que ñ haja concluído a travessia",
-	"6149-0 Deixar de dar preferência a pedestre port deficiência fís/criança/idoso/gestante",
-	"6157-0 Deixar de dar preferência a pedestre/veic ñ mot qdo iniciada travessia s/sinaliz",
-	"6165-0 Deixar de dar preferência a pedestre/veic não mot atravessando a via transversal",
-	"6173-1 Deixar de dar preferência em interseção ñ sinaliz, a veíc circulando por rodovia - Deixar de dar preferência em interseção ñ sinaliz, veíc circulando por rotatória - Deixar de dar prefer em interseção não sinalizada, a veículo que vier da direita",
-	"6181-0 Deixar de dar preferência nas interseções com sinalização de Dê a Preferência",
-	"6190-0 Entrar/sair área lindeira sem precaução com a segurança de pedestres e veículos",
-	"6203-0 Entrar/sair de fila de veículos estacionados sem dar pref a pedestres/veículos",
-	"6254-0 Transitar em velocidade inferior à metade da máxima da via, salvo faixa direita",
-	"6262-0 Deixar de reduzir a veloc qdo se aproximar de passeata/aglomeração/desfile/etc",
-	"6270-0 Deixar de reduzir a veloc onde o trânsito esteja sendo controlado pelo agente",
-	"6289-1 Deixar de reduzir a velocidade do veículo ao aproximar-se da guia da calçada - Deixar de reduzir a velocidade do veículo ao aproximar-se do acostamento",
-	"6297-0 Deixar de reduzir velocidade do veículo ao aproximar-se interseção ñ sinalizada",
-	"6300-0 Deixar reduzir velocidade nas vias rurais cuja faixa domínio não esteja cercada",
-	"6319-0 Deixar de reduzir a velocidade nos trechos em curva de pequeno raio",
-	"6327-0 Deixar de reduzir veloc ao aproximar local sinaliz advert de obras/trabalhadores",
-	"6335-0 Deixar de reduzir a velocidade sob chuva/neblina/cerração/ventos fortes",
-	"6343-0 Deixar de reduzir a velocidade quando houver má visibilidade",
-	"6351-0 Deixar de reduzir veloc qdo pavimento se apresentar escorreg/defeituoso/avariado",
-	"6360-0 Deixar de reduzir a velocidade à aproximação de animais na pista",
-	"6378-0 Deixar de reduzir a velocidade de forma compatível com a segurança, em declive",
-	"6386-0 Deixar de reduzir veloc de forma compatível c/ segurança ao ultrapassar ciclista",
-	"6394-1 Deixar de reduzir a velocidade nas proximidades de escolas - Deixar de reduzir a velocidade nas proximidades de hospitais - Deixar de reduzir veloc na proxim estação embarque/desembarque passageiros - Deixar de reduzir veloc onde haja intensa movimentação de pedestres",
-	"6408-0 Portar no veículo placas de identificação em desacordo c/ especif/modelo Contran",
-	"6416-0 Confec/distribuir/colocar veíc próprio/terceiro placa identif desacordo Contran",
-	"6424-0 Deixar de manter ligado em emerg sist ilum vermelha intermitente ainda q parado",
-	"6432-1 Transitar com farol desregulado perturbando visão outro condutor - Transitar com o facho de luz alta perturbando visão outro condutor",
-	"6440-0 Fazer uso do facho de luz alta dos faróis em vias providas de iluminação pública",
-	"6459-1 Deixar de sinalizar via p/ tornar visível local qdo tiver remover veíc da pista - Deixar de sinalizar a via p/ tornar visível o local qdo permanecer acostamento",
-	"6467-0 Deixar de sinalizar a via p/ tornar visível o local qdo a carga for derramada",
-	"6475-0 Deixar de retirar qualquer objeto utilizado para sinalização temporária da via",
-	"6483-0 Usar buzina que não a de toque breve como advertência a pedestre ou condutores",
-	"6491-0 Usar buzina prolongada e sucessivamente a qualquer pretexto",
-	"6505-0 Usar buzina entre as vinte e duas e as seis horas",
-	"6513-0 Usar buzina em locais e horários proibidos pela sinalização",
-	"6521-0 Usar buzina em desacordo c/ os padrões e freqüências estabelecidas pelo Contran",
-	"6530-0 Usar no veículo equip c/ som em volume/freqüência não autorizados pelo Contran",
-	"6548-0 Usar no veíc alarme/aparelho produz som perturbe sossego púb desac norma Contran",
-	"6556-1 Conduzir o veículo com o lacre de identificação violado/falsificado - Conduzir o veículo com a inscrição do chassi violada/falsificada - Conduzir o veículo com o selo violado/falsificado - Conduzir o veículo com a placa violada/falsificada - Conduzir o veículo com qualquer outro elem de identificação violado/falsificado",
-	"6564-0 Conduzir o veículo transportando passageiros em compartimento de carga",
-	"6572-0 Conduzir o veículo com dispositivo antirradar",
-	"6580-0 Conduzir o veículo sem qualquer uma das placas de identificação",
-	"6599-1 Conduzir o veículo que não esteja registrado - Conduzir o veículo registrado que não esteja devidamente licenciado",
-	"6602-0 Conduzir o veículo com qualquer uma das placas sem legibilidade e visibilidade",
-	"6610-1 Conduzir o veículo com a cor alterada - Conduzir o veículo com característica alterada",
-	"6629-0 Conduzir veículo s/ ter sido submetido à inspeção seg veicular, qdo obrigatória",
-	"6637-1 Conduzir o veículo sem equipamento obrigatório - Conduzir o veículo com equipamento obrigatório ineficiente/inoperante",
-	"6645-0 Conduzir o veículo com equip obrigatório em desacordo com o estab pelo Contran",
-	"6653-1 Conduzir o veículo com descarga livre - Conduzir o veículo com silenciador de motor defeituoso/deficiente/inoperante",
-	"6661-0 Conduzir o veículo com equipamento ou acessório proibido",
-	"6670-0 Conduzir o veículo c/ equip do sistema de iluminação e de sinalização alterados",
-	"6688-0 Conduzir veíc c/ registrador instan inalt de velocidade/tempo viciado/defeituoso",
-	"6696-1 Conduzir c/ inscr/adesivo/legenda/símbolo afixado pára-brisa e extensão traseira - Conduzir c/ inscr/adesivo/legenda/símbolo pintado pára-brisa e extensão traseira",
-	"6700-0 Conduzir veíc com vidro total/parcialmente coberto por película, painéis/pintura",
-	"6718-0 Conduzir o veículo com cortinas ou persianas fechadas",
-	"6726-1 Conduzir o veículo em mau estado de conservação, comprometendo a segurança - Conduzir o veículo reprovado na avaliação de inspeção de segurança - Conduzir o veículo reprovado na avaliação de emissão de poluentes e ruído",
-	"6734-0 Conduzir o veículo sem acionar o limpador de pára-brisa sob chuva",
-	"6742-0 Conduzir o veículo sem portar a autorização para condução de escolares",
-	"6750-0 Conduzir o veíc de carga c/ falta inscrição da tara e demais previstas no CTB",
-	"6769-1 Conduzir o veículo com defeito no sistema de iluminação/lâmpada queimada - Conduzir o veículo com defeito no sistema de sinalização/lâmpada queimada",
-	"6777-0 Transitar com o veículo danificando a via, suas instalações e equipamentos",
-	"6785-1 Transitar com veículo derramando a carga que esteja transportando - Transitar com veículo lançando a carga que esteja transportando - Transitar com veículo arrastando a carga que esteja transportando",
-	"6793-0 Transitar com veíc derramando/lançando combustível/lubrif que esteja utilizando",
-	"6807-0 Transitar c/veíc derraman/lançando/arrastando objeto possa acarretar risco acid",
-	"6815-0 Transitar com veículo produzindo fumaça, gases ou partículas em desac c/ Contran",
-	"6823-1 Transitar c/ veíc e/ou carga c/ dimensões superiores limite legal s/ autorização - Transitar c/ veíc e/ou carga c/ dimensões superiores est p/sinalização s/autoriz",
-	"6831-1 Transitar com o veículo com excesso de peso PBT/PBTC - Transitar com o veículo com excesso de peso - Por Eixo - Transitar com o veículo com excesso de peso - PBT/PBTC e Por Eixo",
-	"6840-1 Transitar em desacordo c/ autorização expedida p/veículo c/ dimensões excedentes - Transitar com autorização vencida, expedida p/ veículo c/ dimensões excedentes",
-	"6858-0 Transitar com o veículo com lotação excedente",
-	"6866-1 Transitar efetuando transporte remunerado de pessoas qdo ñ licenciado p/esse fim - Transitar efetuando transporte remunerado de bens qdo não licenciado p/ esse fim",
-	"6874-1 Transitar com o veículo desligado em declive - Transitar com o veículo desengrenado em declive",
-	"6882-0 Transitar com o veículo excedendo a CMT em até 600 kg",
-	"6890-0 Transitar com o veículo excedendo a CMT entre 601 e 1.000 kg",
-	"6904-0 Transitar com o veículo excedendo a CMT acima de 1.000 kg",
-	"6912-0 Conduzir veículo sem os documentos de porte obrigatório referidos no CTB",
-	"6920-1 Deixar de efetuar registro do veículo em 30 dias, qdo for transf a propriedade - Deixar de efetuar reg do veíc em 30 dias, qdo mudar o munic de domicilio/resid - Deixar de efetuar reg de veíc em 30 dias, qdo for alterada qquer caract do veic - Deixar de efetuar registro de veículo em 30 dias, qdo houver mudança de categoria",
-	"6939-1 Falsificar ou adulterar documento de habilitação - Falsificar ou adulterar documento de identificação do veículo",
-	"6947-1 Conduzir pessoas nas partes externas do veículo - Conduzir animais nas partes externas do veículo - Conduzir carga nas partes externas do veículo",
-	"6955-0 Rebocar outro veículo com cabo flexível ou corda",
-	"6963-0 Trans c/veíc desac c/especificação/falta de inscr/simbologia necessária identif",
-	"6971-0 Recusar-se a entregar CNH/CRV/CRLV/ outros documentos",
-	"6980-0 Retirar do local veículo legalmente retido para regularização, sem permissão",
-	"6998-0 Deixar responsável de promover baixa registro de veíc irrecuperável/desmontado",
-	"7005-1 Deixar de atualizar o cadastro de registro do veículo - Deixar de atualizar o cadastro de habilitação do condutor",
-	"7013-1 Fazer falsa declaração de domicílio para fins de registro/licenciamento - Fazer falsa declaração de domicílio para fins de habilitação",
-	"7021-0 Deixar seguradora de comunicar ocorrência perda total veíc e devolver placas/doc",
-	"7030-1 Conduzir motocicleta, motoneta e ciclomotor sem capacete de segurança - Conduzir motocicleta, motoneta e ciclomotor sem vestuário aprovado pelo Contran",
-	"7048-1 Conduzir motocicleta, motoneta e ciclomotor transportando passageiro s/ capacete - Conduzir motocicleta/motoneta/ciclomotor transportando pas. fora do assento",
-	"7056-1 Conduzir motoc/moton/ciclomotor fazendo malabarismo/equilibrando-se em uma roda - Conduzir ciclo fazendo malabarismo ou equilibrando-se em uma roda",
-	"7064-0 Conduzir motocicleta, motoneta e ciclomotor com os faróis apagados",
-	"7072-1 Conduzir motocicleta/motoneta/ciclomotor transportando criança menor de 7 anos - Conduzir motoc/moton/ciclom transp criança s/ condição cuidar própria segurança",
-	"7080-0 Conduzir motocicleta, motoneta e ciclomotor rebocando outro veículo",
-	"7099-1 Conduzir motocicleta/motoneta/ciclomotor sem segurar o guidom com ambas as mãos",
-	"7102-1 Conduzir motocicleta, motoneta e ciclomotor transportando carga incompatível - Conduzir motoc/moton/ transportando carga em desacordo c/ § 2º do Art 139-A CTB",
-	"7110-0 Conduzir ciclo transportando passageiro fora da garupa/assento a ele destinado",
-	"7129-1 Conduzir ciclo via de trâns rápido ou rodovia salvo se houver acostam/fx própria - Conduzir ciclomotor em via de trânsito rápido - Conduzir ciclomotor em rodovia salvo se houver acostamento ou faixa própria",
-	"7137-0 Conduzir ciclo transportando criança s/ condição de cuidar própria segurança",
-	"7145-0 Utilizar a via para depósito de mercadorias, materiais ou equipamentos",
-	"7153-1 Deixar de sinalizar obstáculo à circulação/segurança calçada/pista-s/agravamento - Obstaculizar a via indevidamente-s/agravamento",
-	"7161-1 Deixar de sinalizar obstáculo circulação/segurança calçada/pista-agravamento 2X - Obstaculizar a via indevidamente-agravamento 2X",
-	"7170-1 Deixar de sinalizar obstáculo circulação/segurança calçada/pista-agravamento 3X - Obstaculizar a via indevidamente-agravamento 3X",
-	"7188-1 Deixar de sinalizar obstáculo circulação/segurança calçada/pista-agravamento 4X - Obstaculizar a via indevidamente-agravamento 4X",
-	"7196-2 Obstaculizar a via indevidamente-agravamento 5X",
-	"7200-1 Deixar de conduzir pelo bordo pista em fila única veíc tração/propulsão humana - Deixar de conduzir pelo bordo da pista em fila única veículo de tração animal",
-	"7218-0 Transportar em veíc destinado transp passageiros carga excedente desac art.109",
-	"7226-1 Deixar de manter acesas à noite as luzes posição qdo o veículo estiver parado - Deixar de manter acesas à noite as luzes de posição veic fazendo carga/descarg a",
-	"7234-0 Em movimento, deixar de manter acesa a luz baixa durante à noite",
-	"7242-0 Em movimento de dia, deixar de manter acesa luz baixa túnel com iluminação pública",
-	"7250-0 Em mov, deixar de manter acesa luz baixa veíc transp coletivo faixa/pista excl",
-	"7269-0 Em movimento, deixar de manter acesa luz baixa do ciclomotor",
-	"7277-0 Em mov deixar de manter acesas luzes de posição sob chuva forte/neblina/cerração",
-	"7285-0 Em movimento, deixar de manter a placa traseira iluminada à noite",
-	"7293-0 Utilizar o pisca-alerta, exceto em imobilizações ou situações de emergência",
-	"7307-0 Utilizar luz alta e baixa intermitente, exceto quando permitido pelo CTB",
-	"7315-0 Dirigir o veículo com o braço do lado de fora",
-	"7323-1 Dirigir o veículo transport pessoas à sua esquerda ou entre os braços e pernas - Dirigir o veículo transport animais à sua esquerda ou entre os braços e pernas - Dirigir o veículo transport volume à sua esquerda ou entre os braços e pernas",
-	"7331-0 Dirigir o veículo com incapacidade física ou mental temporária",
-	"7340-0 Dirigir o veíc usando calçado que ñ se firme nos pés/comprometa utiliz pedais",
-	"7358-0 Dirigir o veículo com apenas uma das mãos, exceto quando permitido pelo CTB",
-	"7366-1 Dirigir o veículo utilizando-se de fones nos ouvidos conec a aparelhagem sonora - Dirigir veículo utilizando-se de telefone celular",
-	"7374-0 Bloquear a via com veículo",
-	"7382-0 É proib ao pedestre permanecer/andar pista, exceto p/ cruzá-las onde permitido",
-	"7390-1 É proibido ao pedestre cruzar pista de rolamento de viaduto exc onde permitido - de ponte exceto onde permitido - de túneis exceto onde permitido",
-	"7404-0 É proib ao pedestre atravessar via área cruzamento exc onde permitido p/ sinaliz",
-	"7412-0 É proib pedestre utilizar via em agrupam que perturbe trâns/prát esporte/desfile",
-	"7420-1 É proibido ao pedestre andar fora da faixa própria - andar fora da passarela - andar fora da passagem aérea - andar fora da passagem subterrânea",
-	"7439-0 É proibido ao pedestre desobedecer a sinalização de trânsito específica",
-	"7447-1 Conduzir bicicleta em passeios onde não seja permitida a circulação desta - Conduzir bicicleta de forma agressiva",
-	"7455-0 Transitar em velocidade superior à máxima permitida em até 20%",
-	"7463-0 Transitar em velocidade superior à máxima permitida em mais de 20% até 50%",
-	"7471-0 Transitar em velocidade superior à máxima permitida em mais de 50%",
-	"7480-1 Aprovar proj edificação pólo atrativo trânsito s/ anuência órgão/entid trânsito e Aprovar proj edificação pólo atrativo trâns s/ estacion/indicação vias de acesso",
-	"7498-0 Ñ sinalizar devida/imed obstáculo à circul/segurança veíc/pedestre pista/calçada",
-	"7501-0 Utilizar ondulação transversal/sonorizador fora padrão/critério estab p/ Contran",
-	"7510-1 Iniciar obra perturbe/interrompa circulação/segurança veíc/pedestres s/permissão e Iniciar evento perturbe/interrompa circulaç/segurança veíc/pedestres s/permissão",
-	"7528-1 Não sinalizar a execução ou manutenção da obra e Não sinalizar a execução ou manutenção do evento",
-	"7536-0 Não avisar comunidade c/ 48h antec interdição via indicando caminho alternativo",
-	"7544-1 Falta de escrituração livro registro entrada/saída e de uso placa de experiência - Atraso escrituração livro registro entrada/saída e de uso placa de experiência - Fraude escrituração livro registro entrada/saída e de uso placa de experiência - Recusa da exibição do livro registro entrada/saída e de uso placa de experiência",
-	"7552-1 Conduzir motoc/moton/ efetuando transp remun mercadoria desac c/ art 139-A CTB - Conduzir motoc/moton/ efet transp remun desac normas ativid profic mototaxistas",
-	"7560-0 Conduzir veíc de transp passag ou carga em desacordo c/ as cond do art 67-C CTB",
-	"7579-0 Cond que se recusar a se submeter a qq dos proc prev no art. 277 do CTB",
-	"7587-0 Transitar na faixa ou via exclusiva regulam. p/ transp. públ. coletivo passag.",
-	"7595-0 Dirigir veículo realizando cobrança de tarifa com veículo em movimento",
-	"7609-0 Organizar as condutas previstas no caput do art. 253-A",
-	"7617-1 Usar veículo para, deliberadamente, interromper a circulação na via - restringir a circulação na via - perturbar a circulação na via"
+export type InfractionGravity = 'leve' | 'media' | 'grave' | 'gravissima';
+
+export interface InfractionOption {
+  // Stable key stored in `infractions.infraction_type`: code plus desdobramento, e.g. "5010-0".
+  key: string;
+  code: string;
+  desdobramento: string;
+  description: string;
+  // Article of the CTB (Lei 9.503/97) the infraction is enforced under.
+  article: string;
+  gravity: InfractionGravity | null;
+  points: number;
+  fineAmount: number | null;
+  // Row id of this version in `infraction_catalog`; absent in the bundled copy.
+  id?: number;
+  // Inclusive validity range as "YYYY-MM-DD"; effectiveTo is null while in force.
+  effectiveFrom: string;
+  effectiveTo: string | null;
+}
+
+// Start of the bundled values, which are also the first version of every catalog entry.
+export const BUNDLED_EFFECTIVE_FROM = '2016-11-01';
+
+// Base values after Lei 13.281/2016.
+const GRAVITY_POINTS: Record<InfractionGravity, number> = {
+  leve: 3,
+  media: 4,
+  grave: 5,
+  gravissima: 7,
+};
+
+const GRAVITY_FINES: Record<InfractionGravity, number> = {
+  leve: 88.38,
+  media: 130.16,
+  grave: 195.23,
+  gravissima: 293.47,
+};
+
+export const gravityLabels: Record<InfractionGravity, string> = {
+  leve: 'Leve',
+  media: 'Média',
+  grave: 'Grave',
+  gravissima: 'Gravíssima',
+};
+
+function option(
+  key: string,
+  article: string,
+  gravity: InfractionGravity | null,
+  multiplier: number,
+  description: string
+): InfractionOption {
+  const [code, desdobramento] = key.split('-');
+  return {
+    key,
+    code,
+    desdobramento,
+    description,
+    article,
+    gravity,
+    points: gravity ? GRAVITY_POINTS[gravity] : 0,
+    fineAmount: gravity ? Math.round(GRAVITY_FINES[gravity] * multiplier * 100) / 100 : null,
+    effectiveFrom: BUNDLED_EFFECTIVE_FROM,
+    effectiveTo: null,
+  };
+}
+
+// Pedestrian infractions (art. 254) are fined at half of a "leve" and score no points.
+function pedestrianOption(key: string, article: string, description: string): InfractionOption {
+  return { ...option(key, article, 'leve', 0.5, description), points: 0 };
+}
+
+/**
+ * Copy of the catalog shipped with the app. The database catalog replaces it once loaded
+ * (see lib/infractionCatalog.ts); it stays as the fallback before the first load offline.
+ */
+export const bundledInfractionOptions: InfractionOption[] = [
+  option("5002-0", "257, § 8º", null, 1, "Multa, por não identificação do condutor infrator, imposta à pessoa jurídica"),
+  option("5010-0", "162, I", "gravissima", 3, "Dirigir veículo sem possuir CNH ou Permissão para Dirigir"),
+  option("5029-1", "162, II", "gravissima", 3, "Dirigir veículo com CNH ou PPD cassada"),
+  option("5029-2", "162, II", "gravissima", 3, "Dirigir veículo com CNH ou PPD com suspensão do direito de dirigir"),
+  option("5037-1", "162, III", "gravissima", 2, "Dirigir veículo com CNH de categoria diferente da do veículo e Dirigir veículo com CNH ou PPD com suspensão do direito de dirigir"),
+  option("5045-0", "162, V", "gravissima", 1, "Dirigir veículo com validade de CNH/PPD vencida há mais de 30 dias"),
+  option("5053-1", "162, VI", "gravissima", 1, "Dirigir veículo sem usar lentes corretoras de visão e Dirigir veículo sem usar aparelho auxiliar de audição e Dirigir veículo sem usar aparelho auxiliar de prótese física e Dirigir veículo s/ adaptações impostas na concessão/renovação licença conduzir"),
+  option("5061-0", "163 c/c 162, I", "gravissima", 3, "Entregar veículo a pessoa sem CNH ou Permissão para Dirigir"),
+  option("5070-1", "163 c/c 162, II", "gravissima", 3, "Entregar veículo a pessoa com CNH ou PPD cassada e Entregar veículo a pessoa com CNH ou PPD com suspensão do direito de dirigir"),
+  option("5088-1", "163 c/c 162, III", "gravissima", 2, "Entregar veículo a pessoa com CNH de categoria diferente da do veículo e Entregar veículo a pessoa com PPD de categoria diferente da do veículo"),
+  option("5096-0", "163 c/c 162, V", "gravissima", 1, "Entregar veículo a pessoa com CNH/PPD vencida há mais de 30 dias"),
+  option("5100-1", "163 c/c 162, VI", "gravissima", 1, "Entregar o veículo a pessoa sem usar lentes corretoras de visão e Entregar o veículo a pessoa sem usar aparelho auxiliar de audição e Entregar o veículo a pessoa sem aparelho de prótese física e Entregar veíc pessoa s/ adaptações impostas concessão/renovação licença conduzir"),
+  option("5118-0", "164 c/c 162, I", "gravissima", 3, "Permitir posse/condução do veículo a pessoa sem CNH ou PPD"),
+  option("5126-1", "164 c/c 162, II", "gravissima", 3, "Permitir posse/condução do veículo a pessoa com CNH ou PPD cassada e Permitir posse/condução veíc pessoa com CNH/PPD c/ suspensão direito de dirigir"),
+  option("5134-1", "164 c/c 162, III", "gravissima", 2, "Permitir posse/condução veíc a pessoa com CNH categoria diferente da do veículo e Permitir posse/condução veíc a pessoa com PPD categoria diferente da do veículo"),
+  option("5142-0", "164 c/c 162, V", "gravissima", 1, "Permitir posse/condução do veíc a pessoa com CNH/PPD vencida há mais de 30 dias"),
+  option("5150-1", "164 c/c 162, VI", "gravissima", 1, "Permitir posse/condução do veículo a pessoa sem usar lentes corretoras de visão e Permitir posse/condução do veículo a pessoa s/ usar aparelho auxiliar de audição e Permitir posse/condução do veículo a pessoa sem usar aparelho de prótese física e Permitir posse/cond veíc s/ adaptações impostas concessão/renovação licença cond"),
+  option("5169-1", "165", "gravissima", 10, "Dirigir sob a influência de álcool e Dirigir sob a influência de qquer substância psicoativa que deter. Dependência"),
+  option("5177-0", "166", "gravissima", 1, "Confiar/entregar veíc pess c/ estado físico/psíquico s/ condições dirigir segur"),
+  option("5185-1", "167", "grave", 1, "Deixar o condutor de usar o cinto segurança e Deixar o passageiro de usar o cinto segurança"),
+  option("5193-0", "168", "gravissima", 1, "Transportar criança sem observância das normas de segurança estabelecidas p/ CTB"),
+  option("5207-0", "169", "leve", 1, "Dirigir sem atenção ou sem os cuidados indispensáveis à segurança"),
+  option("5215-1", "170", "gravissima", 1, "Dirigir ameaçando os pedestres que estejam atravessando a via pública e Dirigir ameaçando os demais veículos"),
+  option("5223-1", "171", "media", 1, "Usar veículo para arremessar sobre os pedestres água ou detritos e Usar veículo para arremessar sobre os veículos água ou detritos"),
+  option("5231-1", "172", "media", 1, "Atirar do veículo objetos ou substâncias e Abandonar na via objetos ou substâncias"),
+  option("5240-0", "173", "gravissima", 10, "Disputar corrida"),
+  option("5258-1", "174", "gravissima", 10, "Promover na via competição sem permissão e Promover na via eventos organizados sem permissão e Promover na via exibição e demonstração de perícia em manobra de veículo s/perm"),
+  option("5266-1", "174", "gravissima", 10, "Participar na via como condutor em competição sem permissão e Participar na via como condutor em eventos organizados sem permissão e Participar como condutor exib/demonst perícia em manobra de veic s/ permissão"),
+  option("5274-1", "175", "gravissima", 10, "Utiliz veíc demonst/exibir manobra perigosa mediante arrancada brusca e Utiliz veíc dem/exibir manob perig med derrap/frenag c/desliz/arrast pneus"),
+  option("5282-0", "176, I", "gravissima", 5, "Deixar o cond envolvido em acidente, de prestar ou providenciar socorro a vítima"),
+  option("5290-0", "176, II", "gravissima", 5, "Deixar o cond envolvido em acid, de adotar provid p/ evitar perigo p/o trânsito"),
+  option("5304-0", "176, III", "gravissima", 5, "Deixar o cond envolvido em acidente, de preservar local p/ trab policia/pericia"),
+  option("5312-0", "176, IV", "gravissima", 5, "Deixar o cond envolvido em acid, de remover o veíc local qdo determ polic/agente"),
+  option("5320-0", "176, V", "gravissima", 5, "Deixar o cond envolvido em acid, de identificar-se policial e prestar inf p/o BO"),
+  option("5339-0", "177", "grave", 1, "Deixar o cond de prestar socorro vítima acid de trânsito, qdo solicit p/ agente"),
+  option("5347-0", "178", "media", 1, "Deixar o condutor envolvido em acidente s/ vítima, de remover o veículo do local"),
+  option("5355-0", "179, I", "grave", 1, "Fazer ou deixar que se faça reparo em veíc, em rodovia e via de trânsito rápido"),
+  option("5363-0", "179, II", "leve", 1, "Fazer/deixar que se faça reparo em veíc nas vias (q não rodovia/transito rapido)"),
+  option("5371-0", "180", "media", 1, "Ter seu veículo imobilizado na via por falta de combustível"),
+  option("5380-0", "181, I", "media", 1, "Estacionar nas esquinas e a menos de 5m do alinhamento da via transversal"),
+  option("5398-0", "181, II", "leve", 1, "Estacionar afastado da guia da calçada (meio-fio) de 50cm a 1m"),
+  option("5401-0", "181, III", "grave", 1, "Estacionar afastado da guia da calçada (meio-fio) a mais de 1m"),
+  option("5410-0", "181, IV", "media", 1, "Estacionar em desacordo com as posições estabelecidas no CTB"),
+  option("5428-1", "181, V", "gravissima", 1, "Estacionar na pista de rolamento das estradas e Estacionar na pista de rolamento das rodovias e Estacionar na pista de rolamento das vias de trânsito rápido e Estacionar na pista de rolamento das vias dotadas de acostamento"),
+  option("5436-0", "181, VI", "media", 1, "Estacionar junto/sobre hidr de incêndio, reg de água/tampa de poço visit gal sub"),
+  option("5444-0", "181, VII", "leve", 1, "Estacionar nos acostamentos"),
+  option("5452-1", "181, VIII", "grave", 1, "Estacionar no passeio, Estacionar sobre faixa destinada a pedestre, Estacionar sobre ciclovia ou ciclofaixa, Estacionar nas ilhas ou refúgios, Estacionar ao lado ou sobre canteiro central/divisores de pista de rolamento, Estacionar ao lado ou sobre marcas de canalização, Estacionar ao lado ou sobre gramado ou jardim público"),
+  option("5460-0", "181, IX", "media", 1, "Estacionar em guia de calçada rebaixada destinada à entrada/saída de veículos"),
+  option("5479-0", "181, X", "grave", 1, "Estacionar impedindo a movimentação de outro veículo"),
+  option("5487-0", "181, XI", "grave", 1, "Estacionar ao lado de outro veículo em fila dupla"),
+  option("5495-0", "181, XII", "media", 1, "Estacionar na área de cruzamento de vias"),
+  option("5509-0", "181, XIII", "media", 1, "Estacionar no ponto de embarque/desembarque de passageiros transporte coletivo"),
+  option("5517-1", "181, XIV", "grave", 1, "Estacionar nos viadutos, Estacionar nas pontes, Estacionar nos túneis"),
+  option("5525-0", "181, XV", "media", 1, "Estacionar na contramão de direção"),
+  option("5533-0", "181, XVI", "grave", 1, "Estacionar aclive/declive ñ freado e sem calço segurança, PBT superior a 3500kg"),
+  option("5541-1", "181, XVII", "leve", 1, "Estacionar em desacordo com a regulamentação especificada pela sinalização, estacionamento rotativo, ponto ou vaga de táxi, vaga de carga/descarga, vaga portador necessid especiais, vaga idoso, vaga de curta duração"),
+  option("5550-0", "181, XVIII", "media", 1, "Estacionar em local/horário proibido especificamente pela sinalização"),
+  option("5568-0", "181, XIX", "grave", 1, "Estacionar local/horário de estacionamento e parada proibidos pela sinalização"),
+  option("5576-0", "182, I", "media", 1, "Parar nas esquinas e a menos 5m do bordo do alinhamento da via transversal"),
+  option("5584-0", "182, II", "leve", 1, "Parar afastado da guia da calçada (meio-fio) de 50cm a 1m"),
+  option("5592-0", "182, III", "media", 1, "Parar afastado da guia da calçada (meio-fio) a mais de 1m"),
+  option("5606-0", "182, IV", "leve", 1, "Parar em desacordo com as posições estabelecidas no CTB"),
+  option("5614-1", "182, V", "grave", 1, "Parar na pista de rolamento das estradas, Parar na pista de rolamento das rodovias, Parar na pista de rolamento das vias de trânsito rápido, Parar na pista de rolamento das demais vias dotadas de acostamento"),
+  option("5622-1", "182, VI", "leve", 1, "Parar no passeio, Parar sobre faixa destinada a pedestres, Parar nas ilhas ou refúgios, Parar nos canteiros centrais/divisores de pista de rolamento, Parar nas marcas de canalização"),
+  option("5630-0", "182, VII", "media", 1, "Parar na área de cruzamento de vias"),
+  option("5649-1", "182, VIII", "media", 1, "Parar nos viadutos, Parar nas pontes, Parar nos túneis"),
+  option("5657-0", "182, IX", "media", 1, "Parar na contramão de direção"),
+  option("5665-0", "182, X", "media", 1, "Parar em local/horário proibidos especificamente pela sinalização"),
+  option("5673-1", "183", "media", 1, "Parar sobre faixa de pedestres na mudança de sinal luminoso, e (fisc eletrônica)"),
+  option("5681-0", "184, I", "leve", 1, "Transitar na faixa/pista da direita regul circulação exclusiva determ veículo"),
+  option("5690-0", "184, II", "grave", 1, "Transitar na faixa/pista da esquerda regul circulação exclusiva determ veículo"),
+  option("5703-0", "185, I", "media", 1, "Deixar de conservar o veículo na faixa a ele destinada pela sinalização de regul"),
+  option("5711-0", "185, II", "media", 1, "Deixar de conservar nas faixas da direita o veículo lento e de maior porte"),
+  option("5720-0", "186, I", "grave", 1, "Transitar pela contramão de direção em via com duplo sentido de circulação"),
+  option("5738-0", "186, II", "gravissima", 1, "Transitar pela contramão de direção em via c/ sinalização de regul sentido único"),
+  option("5746-1", "187, I", "media", 1, "Transitar em local/horário não permitido pela regul estabelecida p/ autoridade, rodízio, caminhão"),
+  option("5762-0", "188", "media", 1, "Transitar ao lado de outro veículo, interrompendo ou perturbando o trânsito"),
+  option("5770-1", "189", "gravissima", 1, "Deixar de dar passagem a veíc precedido de batedores devidamente identificados, Deixar de dar passagem a veíc socorro incêndio/salv serv urgência devid identif, Deixar de dar passagem a veíc de polícia em serviço de urgência devid identif, Deixar de dar passagem a veíc de operação e fiscalização de trânsito devid ident, Deixar de dar passagem a ambulância em serviço de urgência devid identificada"),
+  option("5789-0", "190", "grave", 1, "Seguir veículo em serv urgência devid identific p/ alarme sonoro/ilum vermelha"),
+  option("5797-0", "191", "gravissima", 10, "Forçar passagem entre veícs trans sent opostos na iminência realiz ultrapassagem"),
+  option("5800-0", "192", "grave", 1, "Deixar guardar dist segurança lat/front entre seu veíc e demais e ao bordo pista"),
+  option("5819-1", "193", "gravissima", 3, "Transitar com o veículo em calçadas, passeios, Transitar com o veículo em ciclovias, ciclofaixas - Transitar com o veículo em ajardinamentos, gramados, jardins públicos - Transitar com o veículo em canteiros centrais/divisores de pista de rolamento - Transitar com o veículo em ilhas, refúgios - Transitar com o veículo em marcas de canalização - Transitar com o veículo em acostamentos - Transitar com o veículo em passarelas"),
+  option("5827-0", "194", "grave", 1, "Transitar em marcha ré, salvo na distância necessária a pequenas manobras"),
+  option("5835-0", "195", "grave", 1, "Desobedecer às ordens emanadas da autorid compet de trânsito ou de seus agentes"),
+  option("5843-1", "196", "grave", 1, "Deixar de indicar c/ antec, med gesto de braço/luz indicadora, início da marcha - Deixar de indicar c/ antec, med gesto de braço/luz indicadora, manobra de parar - Deixar de indicar c/ antec, med gesto de braço/luz indicadora, mudança direção - Deixar de indicar c/ antec, med gesto de braço/luz indicadora, mudança de faixa"),
+  option("5851-1", "197", "media", 1, "Deixar de deslocar c/antecedência veíc p/ faixa mais à esquerda qdo for manobrar - Deixar de deslocar c/antecedência veíc p/ faixa mais à direita qdo for manobrar"),
+  option("5860-0", "198", "media", 1, "Deixar de dar passagem pela esquerda quando solicitado"),
+  option("5878-0", "199", "media", 1, "Ultrapassar pela direita, salvo qdo veíc da frente der sinal p/ entrar esquerda"),
+  option("5886-0", "200", "gravissima", 1, "Ultrap pela direita veíc transp colet/escolar parado para emb/desemb passageiros"),
+  option("5894-0", "201", "media", 1, "Deixar de guardar a distância lateral de 1,50m ao passar/ultrapassar bicicleta"),
+  option("5908-0", "202, I", "gravissima", 5, "Ultrapassar pelo acostamento"),
+  option("5916-1", "202, II", "gravissima", 5, "Ultrapassar em interseções - Ultrapassar em passagem de nível"),
+  option("5924-1", "203, I", "gravissima", 5, "Ultrapassar pela contramão nas curvas sem visibilidade suficiente - Ultrapassar pela contramão nos aclives ou declives, sem visibilidade suficiente"),
+  option("5932-0", "203, II", "gravissima", 5, "Ultrapassar pela contramão nas faixas de pedestre"),
+  option("5940-1", "203, III", "gravissima", 5, "Ultrapassar pela contramão nas pontes - Ultrapassar pela contramão nos viadutos - Ultrapassar pela contramão nos túneis"),
+  option("5959-1", "203, IV", "gravissima", 5, "Ultrapassar pela contramão veículo parado em fila junto sinal luminoso - Ultrapassar pela contramão veículo parado em fila junto a cancela/porteira - Ultrapassar pela contramão veículo parado em fila junto a cruzamento - Ultrapassar pela contramão veíc parado em fila junto qq impedimento à circulação"),
+  option("5967-0", "203, V", "gravissima", 5, "Ultrapassar pela contramão linha de divisão de fluxos opostos, contínua amarela"),
+  option("5975-0", "204", "grave", 1, "Deixar de parar no acostamento à direita, p/ cruzar pista ou entrar à esquerda"),
+  option("5983-0", "205", "leve", 1, "Ultrapassar veículo em movimento que integre cortejo/desfile/formação militar"),
+  option("5991-0", "206, I", "gravissima", 1, "Executar operação de retorno em locais proibidos pela sinalização"),
+  option("6009-1", "206, II", "gravissima", 1, "Executar operação de retorno nas curvas - Executar operação de retorno nos aclives ou declives - Executar operação de retorno nas pontes - Executar operação de retorno nos viadutos - Executar operação de retorno nos túneis"),
+  option("6017-1", "206, III", "gravissima", 1, "Executar operação de retorno passando por cima de calçada, passeio - Executar operação de retorno passando por cima de ilha, refúgio - Executar operação de retorno passando por cima de ajardinamento - Executar operação de retorno passando por cima de canteiro de divisor de pista - Executar operação de retorno passando por cima de faixa de pedestres - Executar operação de retorno passando por cima de faixa de veíc não motorizados"),
+  option("6025-0", "206, IV", "gravissima", 1, "Executar retorno nas interseções, entrando na contramão da via transversal"),
+  option("6033-0", "206, V", "gravissima", 1, "Executar retorno c/prejuízo da circulação/segurança ainda que em local permitido"),
+  option("6041-1", "207", "grave", 1, "Executar operação de conversão à direita em local proibido pela sinalização - Executar operação de conversão à esquerda em local proibido pela sinalização"),
+  option("6050-1", "208", "gravissima", 1, "Avançar o sinal vermelho do semáforo - Avançar o sinal de parada obrigatória - Avançar o sinal vermelho do semáforo - fiscalização eletrônica"),
+  option("6068-1", "209", "grave", 1, "Transpor bloqueio viário com ou sem sinalização ou dispositivos auxiliares - Deixar de adentrar às áreas destinadas à pesagem de veículos - Evadir-se para não efetuar o pagamento do pedágio"),
+  option("6076-0", "210", "gravissima", 1, "Transpor bloqueio viário policial"),
+  option("6084-1", "211", "grave", 1, "Ultrapassar veículos motorizados em fila, parados em razão de sinal luminoso - Ultrapassar veículos motorizados em fila, parados em razão de cancela - Ultrapassar veíc motorizados em fila parados em razão de bloqueio viário parcial - Ultrapassar veículos motorizados em fila, parados em razão de qualquer obstáculo"),
+  option("6092-0", "212", "gravissima", 1, "Deixar de parar o veículo antes de transpor linha férrea"),
+  option("6106-0", "213, I", "gravissima", 1, "Deixar de parar sempre que a marcha for interceptada por agrupamento de pessoas"),
+  option("6114-0", "213, II", "grave", 1, "Deixar de parar sempre que a marcha for interceptada por agrupamento de veículos"),
+  option("6122-0", "214, I", "gravissima", 1, "Deixar de dar preferência a pedestre/veic ñ motorizado na faixa a ele destinada"),
+  option("6130-0", "214, II", "gravissima", 1, "Deixar de dar preferência a pedestre/veic ñ mot que ñ haja concluído a travessia"),
+  option("6149-0", "214, III", "gravissima", 1, "Deixar de dar preferência a pedestre port deficiência fís/criança/idoso/gestante"),
+  option("6157-0", "214, IV", "grave", 1, "Deixar de dar preferência a pedestre/veic ñ mot qdo iniciada travessia s/sinaliz"),
+  option("6165-0", "214, V", "grave", 1, "Deixar de dar preferência a pedestre/veic não mot atravessando a via transversal"),
+  option("6173-1", "215, I", "grave", 1, "Deixar de dar preferência em interseção ñ sinaliz, a veíc circulando por rodovia - Deixar de dar preferência em interseção ñ sinaliz, veíc circulando por rotatória - Deixar de dar prefer em interseção não sinalizada, a veículo que vier da direita"),
+  option("6181-0", "215, II", "grave", 1, "Deixar de dar preferência nas interseções com sinalização de Dê a Preferência"),
+  option("6190-0", "216", "media", 1, "Entrar/sair área lindeira sem precaução com a segurança de pedestres e veículos"),
+  option("6203-0", "217", "media", 1, "Entrar/sair de fila de veículos estacionados sem dar pref a pedestres/veículos"),
+  option("6254-0", "219", "media", 1, "Transitar em velocidade inferior à metade da máxima da via, salvo faixa direita"),
+  option("6262-0", "220, I", "gravissima", 1, "Deixar de reduzir a veloc qdo se aproximar de passeata/aglomeração/desfile/etc"),
+  option("6270-0", "220, II", "grave", 1, "Deixar de reduzir a veloc onde o trânsito esteja sendo controlado pelo agente"),
+  option("6289-1", "220, III", "grave", 1, "Deixar de reduzir a velocidade do veículo ao aproximar-se da guia da calçada - Deixar de reduzir a velocidade do veículo ao aproximar-se do acostamento"),
+  option("6297-0", "220, IV", "grave", 1, "Deixar de reduzir velocidade do veículo ao aproximar-se interseção ñ sinalizada"),
+  option("6300-0", "220, V", "grave", 1, "Deixar reduzir velocidade nas vias rurais cuja faixa domínio não esteja cercada"),
+  option("6319-0", "220, VI", "grave", 1, "Deixar de reduzir a velocidade nos trechos em curva de pequeno raio"),
+  option("6327-0", "220, VII", "grave", 1, "Deixar de reduzir veloc ao aproximar local sinaliz advert de obras/trabalhadores"),
+  option("6335-0", "220, VIII", "grave", 1, "Deixar de reduzir a velocidade sob chuva/neblina/cerração/ventos fortes"),
+  option("6343-0", "220, IX", "grave", 1, "Deixar de reduzir a velocidade quando houver má visibilidade"),
+  option("6351-0", "220, X", "grave", 1, "Deixar de reduzir veloc qdo pavimento se apresentar escorreg/defeituoso/avariado"),
+  option("6360-0", "220, XI", "grave", 1, "Deixar de reduzir a velocidade à aproximação de animais na pista"),
+  option("6378-0", "220, XII", "grave", 1, "Deixar de reduzir a velocidade de forma compatível com a segurança, em declive"),
+  option("6386-0", "220, XIII", "gravissima", 1, "Deixar de reduzir veloc de forma compatível c/ segurança ao ultrapassar ciclista"),
+  option("6394-1", "220, XIV", "gravissima", 1, "Deixar de reduzir a velocidade nas proximidades de escolas - Deixar de reduzir a velocidade nas proximidades de hospitais - Deixar de reduzir veloc na proxim estação embarque/desembarque passageiros - Deixar de reduzir veloc onde haja intensa movimentação de pedestres"),
+  option("6408-0", "221", "media", 1, "Portar no veículo placas de identificação em desacordo c/ especif/modelo Contran"),
+  option("6416-0", "221, parágrafo único", "media", 1, "Confec/distribuir/colocar veíc próprio/terceiro placa identif desacordo Contran"),
+  option("6424-0", "222", "media", 1, "Deixar de manter ligado em emerg sist ilum vermelha intermitente ainda q parado"),
+  option("6432-1", "223", "grave", 1, "Transitar com farol desregulado perturbando visão outro condutor - Transitar com o facho de luz alta perturbando visão outro condutor"),
+  option("6440-0", "224", "leve", 1, "Fazer uso do facho de luz alta dos faróis em vias providas de iluminação pública"),
+  option("6459-1", "225, I", "grave", 1, "Deixar de sinalizar via p/ tornar visível local qdo tiver remover veíc da pista - Deixar de sinalizar a via p/ tornar visível o local qdo permanecer acostamento"),
+  option("6467-0", "225, II", "grave", 1, "Deixar de sinalizar a via p/ tornar visível o local qdo a carga for derramada"),
+  option("6475-0", "226", "media", 1, "Deixar de retirar qualquer objeto utilizado para sinalização temporária da via"),
+  option("6483-0", "227, I", "leve", 1, "Usar buzina que não a de toque breve como advertência a pedestre ou condutores"),
+  option("6491-0", "227, II", "leve", 1, "Usar buzina prolongada e sucessivamente a qualquer pretexto"),
+  option("6505-0", "227, III", "leve", 1, "Usar buzina entre as vinte e duas e as seis horas"),
+  option("6513-0", "227, IV", "leve", 1, "Usar buzina em locais e horários proibidos pela sinalização"),
+  option("6521-0", "227, V", "leve", 1, "Usar buzina em desacordo c/ os padrões e freqüências estabelecidas pelo Contran"),
+  option("6530-0", "228", "grave", 1, "Usar no veículo equip c/ som em volume/freqüência não autorizados pelo Contran"),
+  option("6548-0", "229", "media", 1, "Usar no veíc alarme/aparelho produz som perturbe sossego púb desac norma Contran"),
+  option("6556-1", "230, I", "gravissima", 1, "Conduzir o veículo com o lacre de identificação violado/falsificado - Conduzir o veículo com a inscrição do chassi violada/falsificada - Conduzir o veículo com o selo violado/falsificado - Conduzir o veículo com a placa violada/falsificada - Conduzir o veículo com qualquer outro elem de identificação violado/falsificado"),
+  option("6564-0", "230, II", "gravissima", 1, "Conduzir o veículo transportando passageiros em compartimento de carga"),
+  option("6572-0", "230, III", "gravissima", 1, "Conduzir o veículo com dispositivo antirradar"),
+  option("6580-0", "230, IV", "gravissima", 1, "Conduzir o veículo sem qualquer uma das placas de identificação"),
+  option("6599-1", "230, V", "gravissima", 1, "Conduzir o veículo que não esteja registrado - Conduzir o veículo registrado que não esteja devidamente licenciado"),
+  option("6602-0", "230, VI", "gravissima", 1, "Conduzir o veículo com qualquer uma das placas sem legibilidade e visibilidade"),
+  option("6610-1", "230, VII", "grave", 1, "Conduzir o veículo com a cor alterada - Conduzir o veículo com característica alterada"),
+  option("6629-0", "230, VIII", "grave", 1, "Conduzir veículo s/ ter sido submetido à inspeção seg veicular, qdo obrigatória"),
+  option("6637-1", "230, IX", "grave", 1, "Conduzir o veículo sem equipamento obrigatório - Conduzir o veículo com equipamento obrigatório ineficiente/inoperante"),
+  option("6645-0", "230, X", "grave", 1, "Conduzir o veículo com equip obrigatório em desacordo com o estab pelo Contran"),
+  option("6653-1", "230, XI", "grave", 1, "Conduzir o veículo com descarga livre - Conduzir o veículo com silenciador de motor defeituoso/deficiente/inoperante"),
+  option("6661-0", "230, XII", "grave", 1, "Conduzir o veículo com equipamento ou acessório proibido"),
+  option("6670-0", "230, XIII", "grave", 1, "Conduzir o veículo c/ equip do sistema de iluminação e de sinalização alterados"),
+  option("6688-0", "230, XIV", "grave", 1, "Conduzir veíc c/ registrador instan inalt de velocidade/tempo viciado/defeituoso"),
+  option("6696-1", "230, XV", "grave", 1, "Conduzir c/ inscr/adesivo/legenda/símbolo afixado pára-brisa e extensão traseira - Conduzir c/ inscr/adesivo/legenda/símbolo pintado pára-brisa e extensão traseira"),
+  option("6700-0", "230, XVI", "grave", 1, "Conduzir veíc com vidro total/parcialmente coberto por película, painéis/pintura"),
+  option("6718-0", "230, XVII", "grave", 1, "Conduzir o veículo com cortinas ou persianas fechadas"),
+  option("6726-1", "230, XVIII", "grave", 1, "Conduzir o veículo em mau estado de conservação, comprometendo a segurança - Conduzir o veículo reprovado na avaliação de inspeção de segurança - Conduzir o veículo reprovado na avaliação de emissão de poluentes e ruído"),
+  option("6734-0", "230, XIX", "media", 1, "Conduzir o veículo sem acionar o limpador de pára-brisa sob chuva"),
+  option("6742-0", "230, XX", "grave", 1, "Conduzir o veículo sem portar a autorização para condução de escolares"),
+  option("6750-0", "230, XXI", "media", 1, "Conduzir o veíc de carga c/ falta inscrição da tara e demais previstas no CTB"),
+  option("6769-1", "230, XXII", "media", 1, "Conduzir o veículo com defeito no sistema de iluminação/lâmpada queimada - Conduzir o veículo com defeito no sistema de sinalização/lâmpada queimada"),
+  option("6777-0", "231, I", "gravissima", 1, "Transitar com o veículo danificando a via, suas instalações e equipamentos"),
+  option("6785-1", "231, II, a", "gravissima", 1, "Transitar com veículo derramando a carga que esteja transportando - Transitar com veículo lançando a carga que esteja transportando - Transitar com veículo arrastando a carga que esteja transportando"),
+  option("6793-0", "231, II, b", "grave", 1, "Transitar com veíc derramando/lançando combustível/lubrif que esteja utilizando"),
+  option("6807-0", "231, II, c", "gravissima", 1, "Transitar c/veíc derraman/lançando/arrastando objeto possa acarretar risco acid"),
+  option("6815-0", "231, III", "grave", 1, "Transitar com veículo produzindo fumaça, gases ou partículas em desac c/ Contran"),
+  option("6823-1", "231, IV", "grave", 1, "Transitar c/ veíc e/ou carga c/ dimensões superiores limite legal s/ autorização - Transitar c/ veíc e/ou carga c/ dimensões superiores est p/sinalização s/autoriz"),
+  option("6831-1", "231, V", "media", 1, "Transitar com o veículo com excesso de peso PBT/PBTC - Transitar com o veículo com excesso de peso - Por Eixo - Transitar com o veículo com excesso de peso - PBT/PBTC e Por Eixo"),
+  option("6840-1", "231, VI", "grave", 1, "Transitar em desacordo c/ autorização expedida p/veículo c/ dimensões excedentes - Transitar com autorização vencida, expedida p/ veículo c/ dimensões excedentes"),
+  option("6858-0", "231, VII", "media", 1, "Transitar com o veículo com lotação excedente"),
+  option("6866-1", "231, VIII", "media", 1, "Transitar efetuando transporte remunerado de pessoas qdo ñ licenciado p/esse fim - Transitar efetuando transporte remunerado de bens qdo não licenciado p/ esse fim"),
+  option("6874-1", "231, IX", "media", 1, "Transitar com o veículo desligado em declive - Transitar com o veículo desengrenado em declive"),
+  option("6882-0", "231, X", "media", 1, "Transitar com o veículo excedendo a CMT em até 600 kg"),
+  option("6890-0", "231, X", "grave", 1, "Transitar com o veículo excedendo a CMT entre 601 e 1.000 kg"),
+  option("6904-0", "231, X", "gravissima", 1, "Transitar com o veículo excedendo a CMT acima de 1.000 kg"),
+  option("6912-0", "232", "leve", 1, "Conduzir veículo sem os documentos de porte obrigatório referidos no CTB"),
+  option("6920-1", "233", "grave", 1, "Deixar de efetuar registro do veículo em 30 dias, qdo for transf a propriedade - Deixar de efetuar reg do veíc em 30 dias, qdo mudar o munic de domicilio/resid - Deixar de efetuar reg de veíc em 30 dias, qdo for alterada qquer caract do veic - Deixar de efetuar registro de veículo em 30 dias, qdo houver mudança de categoria"),
+  option("6939-1", "234", "gravissima", 1, "Falsificar ou adulterar documento de habilitação - Falsificar ou adulterar documento de identificação do veículo"),
+  option("6947-1", "235", "grave", 1, "Conduzir pessoas nas partes externas do veículo - Conduzir animais nas partes externas do veículo - Conduzir carga nas partes externas do veículo"),
+  option("6955-0", "236", "media", 1, "Rebocar outro veículo com cabo flexível ou corda"),
+  option("6963-0", "237", "grave", 1, "Trans c/veíc desac c/especificação/falta de inscr/simbologia necessária identif"),
+  option("6971-0", "238", "gravissima", 1, "Recusar-se a entregar CNH/CRV/CRLV/ outros documentos"),
+  option("6980-0", "239", "gravissima", 1, "Retirar do local veículo legalmente retido para regularização, sem permissão"),
+  option("6998-0", "240", "grave", 1, "Deixar responsável de promover baixa registro de veíc irrecuperável/desmontado"),
+  option("7005-1", "241", "leve", 1, "Deixar de atualizar o cadastro de registro do veículo - Deixar de atualizar o cadastro de habilitação do condutor"),
+  option("7013-1", "242", "gravissima", 1, "Fazer falsa declaração de domicílio para fins de registro/licenciamento - Fazer falsa declaração de domicílio para fins de habilitação"),
+  option("7021-0", "243", "grave", 1, "Deixar seguradora de comunicar ocorrência perda total veíc e devolver placas/doc"),
+  option("7030-1", "244, I", "gravissima", 1, "Conduzir motocicleta, motoneta e ciclomotor sem capacete de segurança - Conduzir motocicleta, motoneta e ciclomotor sem vestuário aprovado pelo Contran"),
+  option("7048-1", "244, II", "gravissima", 1, "Conduzir motocicleta, motoneta e ciclomotor transportando passageiro s/ capacete - Conduzir motocicleta/motoneta/ciclomotor transportando pas. fora do assento"),
+  option("7056-1", "244, III", "gravissima", 1, "Conduzir motoc/moton/ciclomotor fazendo malabarismo/equilibrando-se em uma roda - Conduzir ciclo fazendo malabarismo ou equilibrando-se em uma roda"),
+  option("7064-0", "244, IV", "gravissima", 1, "Conduzir motocicleta, motoneta e ciclomotor com os faróis apagados"),
+  option("7072-1", "244, V", "gravissima", 1, "Conduzir motocicleta/motoneta/ciclomotor transportando criança menor de 7 anos - Conduzir motoc/moton/ciclom transp criança s/ condição cuidar própria segurança"),
+  option("7080-0", "244, VI", "gravissima", 1, "Conduzir motocicleta, motoneta e ciclomotor rebocando outro veículo"),
+  option("7099-1", "244, VII", "media", 1, "Conduzir motocicleta/motoneta/ciclomotor sem segurar o guidom com ambas as mãos"),
+  option("7102-1", "244, VIII", "media", 1, "Conduzir motocicleta, motoneta e ciclomotor transportando carga incompatível - Conduzir motoc/moton/ transportando carga em desacordo c/ § 2º do Art 139-A CTB"),
+  option("7110-0", "244, § 1º, a", "media", 1, "Conduzir ciclo transportando passageiro fora da garupa/assento a ele destinado"),
+  option("7129-1", "244, § 1º, b", "media", 1, "Conduzir ciclo via de trâns rápido ou rodovia salvo se houver acostam/fx própria - Conduzir ciclomotor em via de trânsito rápido - Conduzir ciclomotor em rodovia salvo se houver acostamento ou faixa própria"),
+  option("7137-0", "244, § 1º, c", "media", 1, "Conduzir ciclo transportando criança s/ condição de cuidar própria segurança"),
+  option("7145-0", "245", "grave", 1, "Utilizar a via para depósito de mercadorias, materiais ou equipamentos"),
+  option("7153-1", "246", "gravissima", 1, "Deixar de sinalizar obstáculo à circulação/segurança calçada/pista-s/agravamento - Obstaculizar a via indevidamente-s/agravamento"),
+  option("7161-1", "246", "gravissima", 2, "Deixar de sinalizar obstáculo circulação/segurança calçada/pista-agravamento 2X - Obstaculizar a via indevidamente-agravamento 2X"),
+  option("7170-1", "246", "gravissima", 3, "Deixar de sinalizar obstáculo circulação/segurança calçada/pista-agravamento 3X - Obstaculizar a via indevidamente-agravamento 3X"),
+  option("7188-1", "246", "gravissima", 4, "Deixar de sinalizar obstáculo circulação/segurança calçada/pista-agravamento 4X - Obstaculizar a via indevidamente-agravamento 4X"),
+  option("7196-2", "246", "gravissima", 5, "Obstaculizar a via indevidamente-agravamento 5X"),
+  option("7200-1", "247", "media", 1, "Deixar de conduzir pelo bordo pista em fila única veíc tração/propulsão humana - Deixar de conduzir pelo bordo da pista em fila única veículo de tração animal"),
+  option("7218-0", "248", "grave", 1, "Transportar em veíc destinado transp passageiros carga excedente desac art.109"),
+  option("7226-1", "249", "media", 1, "Deixar de manter acesas à noite as luzes posição qdo o veículo estiver parado - Deixar de manter acesas à noite as luzes de posição veic fazendo carga/descarg a"),
+  option("7234-0", "250, I, a", "media", 1, "Em movimento, deixar de manter acesa a luz baixa durante à noite"),
+  option("7242-0", "250, I, b", "media", 1, "Em movimento de dia, deixar de manter acesa luz baixa túnel com iluminação pública"),
+  option("7250-0", "250, I, c", "media", 1, "Em mov, deixar de manter acesa luz baixa veíc transp coletivo faixa/pista excl"),
+  option("7269-0", "250, I, d", "media", 1, "Em movimento, deixar de manter acesa luz baixa do ciclomotor"),
+  option("7277-0", "250, II", "media", 1, "Em mov deixar de manter acesas luzes de posição sob chuva forte/neblina/cerração"),
+  option("7285-0", "250, III", "media", 1, "Em movimento, deixar de manter a placa traseira iluminada à noite"),
+  option("7293-0", "251, I", "media", 1, "Utilizar o pisca-alerta, exceto em imobilizações ou situações de emergência"),
+  option("7307-0", "251, II", "media", 1, "Utilizar luz alta e baixa intermitente, exceto quando permitido pelo CTB"),
+  option("7315-0", "252, I", "media", 1, "Dirigir o veículo com o braço do lado de fora"),
+  option("7323-1", "252, II", "media", 1, "Dirigir o veículo transport pessoas à sua esquerda ou entre os braços e pernas - Dirigir o veículo transport animais à sua esquerda ou entre os braços e pernas - Dirigir o veículo transport volume à sua esquerda ou entre os braços e pernas"),
+  option("7331-0", "252, III", "media", 1, "Dirigir o veículo com incapacidade física ou mental temporária"),
+  option("7340-0", "252, IV", "media", 1, "Dirigir o veíc usando calçado que ñ se firme nos pés/comprometa utiliz pedais"),
+  option("7358-0", "252, V", "media", 1, "Dirigir o veículo com apenas uma das mãos, exceto quando permitido pelo CTB"),
+  option("7366-1", "252, VI", "media", 1, "Dirigir o veículo utilizando-se de fones nos ouvidos conec a aparelhagem sonora - Dirigir veículo utilizando-se de telefone celular"),
+  option("7374-0", "253", "gravissima", 1, "Bloquear a via com veículo"),
+  pedestrianOption("7382-0", "254, I", "É proib ao pedestre permanecer/andar pista, exceto p/ cruzá-las onde permitido"),
+  pedestrianOption("7390-1", "254, II", "É proibido ao pedestre cruzar pista de rolamento de viaduto exc onde permitido - de ponte exceto onde permitido - de túneis exceto onde permitido"),
+  pedestrianOption("7404-0", "254, III", "É proib ao pedestre atravessar via área cruzamento exc onde permitido p/ sinaliz"),
+  pedestrianOption("7412-0", "254, IV", "É proib pedestre utilizar via em agrupam que perturbe trâns/prát esporte/desfile"),
+  pedestrianOption("7420-1", "254, V", "É proibido ao pedestre andar fora da faixa própria - andar fora da passarela - andar fora da passagem aérea - andar fora da passagem subterrânea"),
+  pedestrianOption("7439-0", "254, VI", "É proibido ao pedestre desobedecer a sinalização de trânsito específica"),
+  option("7447-1", "255", "media", 1, "Conduzir bicicleta em passeios onde não seja permitida a circulação desta - Conduzir bicicleta de forma agressiva"),
+  option("7455-0", "218, I", "media", 1, "Transitar em velocidade superior à máxima permitida em até 20%"),
+  option("7463-0", "218, II", "grave", 1, "Transitar em velocidade superior à máxima permitida em mais de 20% até 50%"),
+  option("7471-0", "218, III", "gravissima", 3, "Transitar em velocidade superior à máxima permitida em mais de 50%"),
+  option("7480-1", "93", null, 1, "Aprovar proj edificação pólo atrativo trânsito s/ anuência órgão/entid trânsito e Aprovar proj edificação pólo atrativo trâns s/ estacion/indicação vias de acesso"),
+  option("7498-0", "94", null, 1, "Ñ sinalizar devida/imed obstáculo à circul/segurança veíc/pedestre pista/calçada"),
+  option("7501-0", "94, parágrafo único", null, 1, "Utilizar ondulação transversal/sonorizador fora padrão/critério estab p/ Contran"),
+  option("7510-1", "95", null, 1, "Iniciar obra perturbe/interrompa circulação/segurança veíc/pedestres s/permissão e Iniciar evento perturbe/interrompa circulaç/segurança veíc/pedestres s/permissão"),
+  option("7528-1", "95, § 1º", null, 1, "Não sinalizar a execução ou manutenção da obra e Não sinalizar a execução ou manutenção do evento"),
+  option("7536-0", "95, § 2º", null, 1, "Não avisar comunidade c/ 48h antec interdição via indicando caminho alternativo"),
+  option("7544-1", "330, § 5º", null, 1, "Falta de escrituração livro registro entrada/saída e de uso placa de experiência - Atraso escrituração livro registro entrada/saída e de uso placa de experiência - Fraude escrituração livro registro entrada/saída e de uso placa de experiência - Recusa da exibição do livro registro entrada/saída e de uso placa de experiência"),
+  option("7552-1", "244, IX", "grave", 1, "Conduzir motoc/moton/ efetuando transp remun mercadoria desac c/ art 139-A CTB - Conduzir motoc/moton/ efet transp remun desac normas ativid profic mototaxistas"),
+  option("7560-0", "230, XXIII", "grave", 1, "Conduzir veíc de transp passag ou carga em desacordo c/ as cond do art 67-C CTB"),
+  option("7579-0", "165-A", "gravissima", 10, "Cond que se recusar a se submeter a qq dos proc prev no art. 277 do CTB"),
+  option("7587-0", "184, III", "gravissima", 1, "Transitar na faixa ou via exclusiva regulam. p/ transp. públ. coletivo passag."),
+  option("7595-0", "252, VII", "media", 1, "Dirigir veículo realizando cobrança de tarifa com veículo em movimento"),
+  option("7609-0", "253-A, § 1º", "gravissima", 60, "Organizar as condutas previstas no caput do art. 253-A"),
+  option("7617-1", "253-A", "gravissima", 20, "Usar veículo para, deliberadamente, interromper a circulação na via - restringir a circulação na via - perturbar a circulação na via"),
 ];
 
-export default infractionOptions;
+function normalize(value: string) {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Every version of every entry, grouped by key and ordered by effectiveFrom.
+let versionsByKey = new Map<string, InfractionOption[]>();
+let versionsById = new Map<number, InfractionOption>();
+const searchIndex = new WeakMap<InfractionOption, string>();
+
+/** Replaces the catalog used by the lookup helpers below. */
+export function setInfractionCatalog(options: InfractionOption[]) {
+  versionsByKey = new Map();
+  versionsById = new Map();
+  for (const option of [...options].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))) {
+    versionsByKey.set(option.key, [...(versionsByKey.get(option.key) ?? []), option]);
+    if (option.id !== undefined) versionsById.set(option.id, option);
+  }
+}
+
+setInfractionCatalog(bundledInfractionOptions);
+
+export function isInForce(option: InfractionOption, date: string) {
+  return option.effectiveFrom <= date && (option.effectiveTo === null || date <= option.effectiveTo);
+}
+
+/** Entries that can be recorded on a report whose shift happened on `date`. */
+export function infractionOptionsOn(options: InfractionOption[], date: string) {
+  return options.filter((option) => isInForce(option, date)).sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Extracts the catalog key from a stored `infraction_type`. Reports saved before the
+ * catalog was structured hold the full "5010-0 Dirigir veículo..." text instead.
+ */
+export function infractionKeyOf(infractionType: string) {
+  const match = infractionType.match(/^(\d{4}-\d)\b/);
+  return match ? match[1] : infractionType;
+}
+
+/**
+ * Looks up the catalog entry of a stored `infraction_type`. With the `catalog_id` of a saved
+ * line it returns the exact version the report used; otherwise the latest version of the key.
+ */
+export function findInfractionOption(infractionType: string, catalogId?: number | null) {
+  const version = catalogId != null ? versionsById.get(catalogId) : undefined;
+  if (version) return version;
+
+  const versions = versionsByKey.get(infractionKeyOf(infractionType));
+  return versions?.[versions.length - 1];
+}
+
+export function formatInfraction(infractionType: string, catalogId?: number | null) {
+  const option = findInfractionOption(infractionType, catalogId);
+  return option ? `${option.key} ${option.description}` : infractionType;
+}
+
+function indexForSearch(option: InfractionOption) {
+  const haystack = normalize(`${option.key} ${option.code} art ${option.article} ${option.description}`);
+  searchIndex.set(option, haystack);
+  return haystack;
+}
+
+/**
+ * Matches every word of the term against the code, CTB article and description of the
+ * given entries, ignoring case and accents.
+ */
+export function searchInfractionOptions(options: InfractionOption[], term: string) {
+  const words = normalize(term).split(' ').filter(Boolean);
+  if (words.length === 0) {
+    return options;
+  }
+
+  return options.filter((option) => {
+    const haystack = searchIndex.get(option) ?? indexForSearch(option);
+    return words.every((word) => haystack.includes(word));
+  });
+}
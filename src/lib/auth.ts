@@ -0,0 +1,188 @@
+import { createContext, useContext } from 'react';
+import { FunctionsHttpError, type Session } from '@supabase/supabase-js';
+import supabase from '../supabase';
+
+export type UserRole = 'agent' | 'supervisor' | 'admin';
+
+export interface UserProfile {
+  user_id: string;
+  full_name: string | null;
+  role: UserRole;
+  sector: string | null;
+}
+
+export const roleLabels: Record<UserRole, string> = {
+  agent: 'Agente',
+  supervisor: 'Supervisor',
+  admin: 'Administrador',
+};
+
+// 'expired' covers every session that ended without the app signing out, e.g. a refresh token
+// that was revoked or is no longer valid.
+export type SignOutReason = 'user' | 'idle' | 'expired';
+
+export interface AuthState {
+  session: Session | null;
+  profile: UserProfile | null;
+  // True while the session or the profile of the signed-in user is still being loaded.
+  loading: boolean;
+  // Why the last session on this device ended; null once someone signs in again.
+  signedOutReason: SignOutReason | null;
+  // The session was started by an invitation or recovery link, so a new password may be set
+  // without the current one.
+  passwordLink: boolean;
+}
+
+export const AuthContext = createContext<AuthState>({
+  session: null,
+  profile: null,
+  loading: true,
+  signedOutReason: null,
+  passwordLink: false,
+});
+
+export function useAuth() {
+  return useContext(AuthContext);
+}
+
+export function hasRole(profile: UserProfile | null, roles: UserRole[]) {
+  return profile !== null && roles.includes(profile.role);
+}
+
+function isUserRole(value: string): value is UserRole {
+  return Object.keys(roleLabels).includes(value);
+}
+
+// A profile with a role the app does not know is an error, not an agent.
+function toProfile(row: Omit<UserProfile, 'role'> & { role: string }): UserProfile {
+  if (!isUserRole(row.role)) throw new Error(`Perfil desconhecido: ${row.role}`);
+  return { ...row, role: row.role };
+}
+
+export async function fetchProfile(userId: string) {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('user_id, full_name, role, sector')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data && toProfile(data);
+}
+
+export async function fetchProfiles() {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('user_id, full_name, role, sector')
+    .order('full_name');
+
+  if (error) throw error;
+  return data.map(toProfile);
+}
+
+export async function updateProfile(userId: string, changes: Pick<UserProfile, 'role' | 'sector'>) {
+  const { error } = await supabase
+    .from('user_profiles')
+    .update(changes)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+// Kept in localStorage because every open tab receives SIGNED_OUT, not only the one that signed out.
+const SIGN_OUT_REASON_KEY = 'geotranote:sign-out-reason';
+
+/**
+ * Ends the session, recording why so the login page can explain it. Signing out after
+ * inactivity only ends the session on this device.
+ */
+export async function signOut(reason: Exclude<SignOutReason, 'expired'>) {
+  localStorage.setItem(SIGN_OUT_REASON_KEY, reason);
+  const { error } = await supabase.auth.signOut({ scope: reason === 'idle' ? 'local' : 'global' });
+  if (error) throw error;
+}
+
+export function lastSignOutReason(): SignOutReason {
+  return (localStorage.getItem(SIGN_OUT_REASON_KEY) as SignOutReason | null) ?? 'expired';
+}
+
+export function clearSignOutReason() {
+  localStorage.removeItem(SIGN_OUT_REASON_KEY);
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export function validateNewPassword(password: string, confirmation: string) {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `A senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres.`;
+  }
+  if (password !== confirmation) {
+    return 'As senhas não conferem.';
+  }
+  return null;
+}
+
+/** Sends the recovery e-mail; its link signs the user in on the reset password page. */
+export async function requestPasswordReset(email: string) {
+  const { error } = await supabase.auth.resetPasswordForEmail(email.trim(), {
+    redirectTo: `${window.location.origin}/reset-password`,
+  });
+
+  if (error) throw error;
+}
+
+// Read when the app loads, before supabase-js removes the tokens of the link from the URL.
+const linkParams = new URLSearchParams(window.location.hash.slice(1));
+const invitationToken = linkParams.get('type') === 'invite' ? linkParams.get('access_token') : null;
+
+/**
+ * True for the session supabase-js started from the tokens of an invitation link. The type in
+ * the URL alone proves nothing, since anyone can type it; recovery links are told apart by
+ * the PASSWORD_RECOVERY event instead.
+ */
+export function isInvitationSession(session: Session | null) {
+  return invitationToken !== null && session?.access_token === invitationToken;
+}
+
+export async function updatePassword(password: string) {
+  const { error } = await supabase.auth.updateUser({ password });
+
+  if (error) throw error;
+}
+
+/**
+ * Sets a new password after checking the current one, for sessions that did not come from an
+ * e-mail link: a session left open on a shared tablet must not be enough to take the account.
+ */
+export async function changePassword(email: string, currentPassword: string, password: string) {
+  const { error } = await supabase.auth.signInWithPassword({ email, password: currentPassword });
+  if (error) {
+    throw new Error('A senha atual está incorreta.');
+  }
+
+  await updatePassword(password);
+}
+
+export interface Invitation {
+  email: string;
+  full_name: string;
+  role: UserRole;
+  sector: string | null;
+}
+
+/**
+ * Creates the account through the `invite-user` Edge Function, which holds the service role
+ * key, and e-mails a link that leads the new user to choose a password.
+ */
+export async function inviteUser(invitation: Invitation) {
+  const { data, error } = await supabase.functions.invoke<{ user_id: string }>('invite-user', {
+    body: { ...invitation, redirect_to: `${window.location.origin}/welcome` },
+  });
+
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    throw new Error(body?.error ?? error.message);
+  }
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { matchesFilters, subscribeToDashboard, type DashboardFilters, type DashboardListener, type ReportRow } from './dashboard';
+
+type Handler = (payload: { new: Partial<ReportRow>; old: Partial<ReportRow> }) => void;
+
+const handlers: { event: string; table: string; handler: Handler }[] = [];
+
+vi.mock('../supabase', () => {
+  const channel = {
+    on: (_type: string, filter: { event: string; table: string }, handler: Handler) => {
+      handlers.push({ ...filter, handler });
+      return channel;
+    },
+    subscribe: () => channel,
+  };
+  return { default: { channel: () => channel, removeChannel: () => undefined } };
+});
+
+const filters = (changes: Partial<DashboardFilters> = {}): DashboardFilters => ({
+  service: 'all',
+  sectors: [],
+  start: '',
+  end: '',
+  approvedOnly: false,
+  ...changes,
+});
+
+const report = { service_name: 'operacao', sector: 'GEDAM', shift_date: '2026-10-10', status: 'submitted' };
+
+describe('matchesFilters', () => {
+  it('matches everything without filters', () => {
+    expect(matchesFilters(report, filters())).toBe(true);
+  });
+
+  it.each<[string, Partial<DashboardFilters>, boolean]>([
+    ['the same service', { service: 'operacao' }, true],
+    ['another service', { service: 'ras' }, false],
+    ['one of the sectors', { sectors: ['GRE', 'GEDAM'] }, true],
+    ['other sectors', { sectors: ['GRE'] }, false],
+    ['a period including the shift', { start: '2026-10-10', end: '2026-10-10' }, true],
+    ['a period starting after the shift', { start: '2026-10-11' }, false],
+    ['a period ending before the shift', { end: '2026-10-09' }, false],
+    ['approved reports only', { approvedOnly: true }, false],
+  ])('checks %s', (_case, changes, expected) => {
+    expect(matchesFilters(report, filters(changes))).toBe(expected);
+  });
+
+  it('matches approved reports when only those are shown', () => {
+    expect(matchesFilters({ ...report, status: 'approved' }, filters({ approvedOnly: true }))).toBe(true);
+  });
+});
+
+describe('subscribeToDashboard', () => {
+  const listener = {
+    onReport: vi.fn(),
+    onRemove: vi.fn(),
+    onChange: vi.fn(),
+    onStatus: vi.fn(),
+  } satisfies DashboardListener;
+
+  const emit = (event: string, table: string, payload: { new?: Partial<ReportRow>; old?: Partial<ReportRow> }) =>
+    handlers
+      .filter((item) => item.table === table && (item.event === event || item.event === '*'))
+      .forEach((item) => item.handler({ new: payload.new ?? {}, old: payload.old ?? {} }));
+
+  beforeEach(() => {
+    handlers.length = 0;
+    Object.values(listener).forEach((fn) => fn.mockReset());
+    subscribeToDashboard(filters({ sectors: ['GEDAM'] }), listener);
+  });
+
+  it('shows new reports inside the filters', () => {
+    emit('INSERT', 'geotranote_reports', { new: { ...report, uid: 'r1' } });
+    emit('INSERT', 'geotranote_reports', { new: { ...report, uid: 'r2', sector: 'GRE' } });
+
+    expect(listener.onReport).toHaveBeenCalledTimes(1);
+    expect(listener.onReport).toHaveBeenCalledWith(expect.objectContaining({ uid: 'r1' }));
+    expect(listener.onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('reloads on an update that moves a report out of the filters', () => {
+    emit('UPDATE', 'geotranote_reports', { new: { ...report, uid: 'r1', sector: 'GRE' }, old: { uid: 'r1' } });
+
+    expect(listener.onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops deleted reports and reloads', () => {
+    emit('DELETE', 'geotranote_reports', { old: { uid: 'r1' } });
+
+    expect(listener.onRemove).toHaveBeenCalledWith('r1');
+    expect(listener.onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it.each(['INSERT', 'UPDATE', 'DELETE'])('reloads on %s of infraction lines', (event) => {
+    emit(event, 'infractions', {});
+
+    expect(listener.onChange).toHaveBeenCalledTimes(1);
+  });
+});
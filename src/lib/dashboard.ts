@@ -0,0 +1,213 @@
+import supabase from '../supabase';
+import type { Tables } from './database.types';
+import type { Granularity } from './timeSeries';
+
+export interface DashboardFilters {
+  // A service type value, or 'all' for no filter.
+  service: string;
+  sectors: string[];
+  start: string;
+  end: string;
+  approvedOnly: boolean;
+}
+
+export interface DashboardTotals {
+  reports: number;
+  approaches: number;
+  infractions: number;
+  car_removals: number;
+  motorcycle_removals: number;
+}
+
+export interface VehicleTypeRemovals {
+  vehicle_type: string;
+  removals: number;
+}
+
+export interface SectorTotals extends DashboardTotals {
+  sector: string;
+}
+
+export interface SeriesBucket extends Omit<DashboardTotals, 'reports'> {
+  // First day of the day, week or month, as `YYYY-MM-DD`.
+  bucket: string;
+}
+
+export interface InfractionRankingRow {
+  // Catalog key; older lines are grouped with the key their text starts with.
+  infraction_key: string;
+  quantity: number;
+  reports: number;
+}
+
+export interface InfractionReport {
+  protocol_number: string;
+  shift_date: string;
+  quantity: number;
+}
+
+export interface InfractionPoint {
+  latitude: number;
+  longitude: number;
+  infraction_key: string;
+  quantity: number;
+}
+
+export interface RemovalPoint {
+  protocol_number: string;
+  latitude: number;
+  longitude: number;
+  car_removals: number;
+  motorcycle_removals: number;
+}
+
+export interface DashboardSummary {
+  totals: DashboardTotals;
+  removalsByVehicleType: VehicleTypeRemovals[];
+  sectors: SectorTotals[];
+  ranking: InfractionRankingRow[];
+  infractionPoints: InfractionPoint[];
+  removalPoints: RemovalPoint[];
+}
+
+const emptyTotals: DashboardTotals = {
+  reports: 0,
+  approaches: 0,
+  infractions: 0,
+  car_removals: 0,
+  motorcycle_removals: 0,
+};
+
+// Empty filters are left out so the database functions fall back to their defaults.
+function filterArgs(filters: DashboardFilters) {
+  return {
+    p_service: filters.service === 'all' ? undefined : filters.service,
+    p_sectors: filters.sectors.length > 0 ? filters.sectors : undefined,
+    p_start: filters.start || undefined,
+    p_end: filters.end || undefined,
+    p_approved_only: filters.approvedOnly,
+  };
+}
+
+/**
+ * Totals and grouped rows for the Dashboard, aggregated in the database by the
+ * `dashboard_*` functions. RLS limits them to the reports the user may read.
+ */
+export async function fetchDashboard(filters: DashboardFilters): Promise<DashboardSummary> {
+  const args = filterArgs(filters);
+  const [totals, vehicleTypes, sectors, ranking, infractionPoints, removalPoints] = await Promise.all([
+    supabase.rpc('dashboard_totals', args),
+    supabase.rpc('dashboard_removals_by_vehicle_type', args),
+    supabase.rpc('dashboard_sectors', args),
+    supabase.rpc('dashboard_infraction_ranking', args),
+    supabase.rpc('dashboard_infraction_points', args),
+    supabase.rpc('dashboard_removal_points', args),
+  ]);
+
+  for (const result of [totals, vehicleTypes, sectors, ranking, infractionPoints, removalPoints]) {
+    if (result.error) throw result.error;
+  }
+
+  return {
+    totals: totals.data?.[0] ?? emptyTotals,
+    removalsByVehicleType: vehicleTypes.data ?? [],
+    sectors: sectors.data ?? [],
+    ranking: ranking.data ?? [],
+    infractionPoints: infractionPoints.data ?? [],
+    removalPoints: removalPoints.data ?? [],
+  };
+}
+
+/** Buckets with data, in order; fillTimeSeries adds the empty ones. */
+export async function fetchDashboardSeries(filters: DashboardFilters, granularity: Granularity) {
+  const { data, error } = await supabase.rpc('dashboard_series', {
+    p_granularity: granularity,
+    ...filterArgs(filters),
+  });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** Reports behind one row of the infraction ranking, largest quantity first. */
+export async function fetchInfractionReports(filters: DashboardFilters, infractionKey: string) {
+  const { data, error } = await supabase.rpc('dashboard_infraction_reports', {
+    p_infraction_key: infractionKey,
+    ...filterArgs(filters),
+  });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export type ReportRow = Tables<'geotranote_reports'>;
+
+/** True when a report falls inside the Dashboard filters. */
+export function matchesFilters(
+  report: Pick<ReportRow, 'service_name' | 'sector' | 'shift_date' | 'status'>,
+  filters: DashboardFilters
+) {
+  return (
+    (filters.service === 'all' || report.service_name === filters.service) &&
+    (filters.sectors.length === 0 || filters.sectors.includes(report.sector)) &&
+    (!filters.start || report.shift_date >= filters.start) &&
+    (!filters.end || report.shift_date <= filters.end) &&
+    (!filters.approvedOnly || report.status === 'approved')
+  );
+}
+
+export type LiveStatus = 'connecting' | 'live' | 'offline';
+
+export interface DashboardListener {
+  // A report matching the filters was just submitted.
+  onReport: (report: ReportRow) => void;
+  // A report was deleted; only its uid is known.
+  onRemove: (uid: string) => void;
+  // Something the aggregates may depend on changed; called once per event.
+  onChange: () => void;
+  onStatus: (status: LiveStatus) => void;
+}
+
+// Each subscription gets its own topic, so the replies and the leave of the channel removed
+// when the filters change cannot reach the one that replaces it.
+let channelCount = 0;
+
+/**
+ * Listens to Realtime inserts, updates and deletes of reports and infraction lines. Realtime
+ * applies the select policies, so only reports the user may read arrive; deletes are the
+ * exception and only carry the uid. Returns a function that unsubscribes.
+ */
+export function subscribeToDashboard(filters: DashboardFilters, listener: DashboardListener) {
+  listener.onStatus('connecting');
+
+  const channel = supabase
+    .channel(`dashboard-${++channelCount}`)
+    .on<ReportRow>(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'geotranote_reports' },
+      (payload) => {
+        if (!matchesFilters(payload.new, filters)) return;
+        listener.onReport(payload.new);
+        listener.onChange();
+      }
+    )
+    // With RLS on, the old row of an update or delete only carries the primary key, so a
+    // report moved out of the filters cannot be told apart from one that never matched them.
+    // Every update reloads the aggregates.
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'geotranote_reports' }, () => listener.onChange())
+    .on<ReportRow>(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'geotranote_reports' },
+      (payload) => {
+        if (payload.old.uid) listener.onRemove(payload.old.uid);
+        listener.onChange();
+      }
+    )
+    // Lines carry no sector or date; the aggregates apply the filters when they are reloaded.
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'infractions' }, () => listener.onChange())
+    .subscribe((status) => listener.onStatus(status === 'SUBSCRIBED' ? 'live' : 'offline'));
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,834 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      geotranote_reports: {
+        Row: {
+          car_removals: number
+          client_id: string
+          created_at: string
+          latitude: number | null
+          location_accuracy: number | null
+          longitude: number | null
+          motorcycle_removals: number
+          protocol_number: string
+          review_comment: string | null
+          reviewed_at: string | null
+          revision: number
+          sector: string
+          service_name: string
+          shift_date: string
+          shift_end: string | null
+          shift_start: string | null
+          status: string
+          submitted_by: string | null
+          submitted_by_name: string | null
+          team_members: string[]
+          total_approaches: number
+          uid: string
+          updated_at: string | null
+          vehicle_prefix: string | null
+        }
+        Insert: {
+          car_removals?: number
+          client_id?: string
+          created_at?: string
+          latitude?: number | null
+          location_accuracy?: number | null
+          longitude?: number | null
+          motorcycle_removals?: number
+          protocol_number: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          revision?: number
+          sector: string
+          service_name: string
+          shift_date?: string
+          shift_end?: string | null
+          shift_start?: string | null
+          status?: string
+          submitted_by?: string | null
+          submitted_by_name?: string | null
+          team_members?: string[]
+          total_approaches?: number
+          uid?: string
+          updated_at?: string | null
+          vehicle_prefix?: string | null
+        }
+        Update: {
+          car_removals?: number
+          client_id?: string
+          created_at?: string
+          latitude?: number | null
+          location_accuracy?: number | null
+          longitude?: number | null
+          motorcycle_removals?: number
+          protocol_number?: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          revision?: number
+          sector?: string
+          service_name?: string
+          shift_date?: string
+          shift_end?: string | null
+          shift_start?: string | null
+          status?: string
+          submitted_by?: string | null
+          submitted_by_name?: string | null
+          team_members?: string[]
+          total_approaches?: number
+          uid?: string
+          updated_at?: string | null
+          vehicle_prefix?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "geotranote_reports_sector_fkey"
+            columns: ["sector"]
+            isOneToOne: false
+            referencedRelation: "sectors"
+            referencedColumns: ["value"]
+          },
+          {
+            foreignKeyName: "geotranote_reports_service_name_fkey"
+            columns: ["service_name"]
+            isOneToOne: false
+            referencedRelation: "service_types"
+            referencedColumns: ["value"]
+          },
+        ]
+      }
+      infraction_catalog: {
+        Row: {
+          article: string
+          code: string
+          created_at: string
+          created_by: string | null
+          desdobramento: string
+          description: string
+          effective_from: string
+          effective_to: string | null
+          fine_amount: number | null
+          gravity: string | null
+          id: number
+          key: string
+          points: number
+        }
+        Insert: {
+          article: string
+          code: string
+          created_at?: string
+          created_by?: string | null
+          desdobramento: string
+          description: string
+          effective_from: string
+          effective_to?: string | null
+          fine_amount?: number | null
+          gravity?: string | null
+          id?: never
+          key: string
+          points?: number
+        }
+        Update: {
+          article?: string
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          desdobramento?: string
+          description?: string
+          effective_from?: string
+          effective_to?: string | null
+          fine_amount?: number | null
+          gravity?: string | null
+          id?: never
+          key?: string
+          points?: number
+        }
+        Relationships: []
+      }
+      infraction_details: {
+        Row: {
+          ait_number: string | null
+          infraction_time: string | null
+          infraction_uid: string
+          plate: string | null
+          street: string | null
+          uid: string
+          vehicle_type: string | null
+        }
+        Insert: {
+          ait_number?: string | null
+          infraction_time?: string | null
+          infraction_uid: string
+          plate?: string | null
+          street?: string | null
+          uid?: string
+          vehicle_type?: string | null
+        }
+        Update: {
+          ait_number?: string | null
+          infraction_time?: string | null
+          infraction_uid?: string
+          plate?: string | null
+          street?: string | null
+          uid?: string
+          vehicle_type?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "infraction_details_infraction_uid_fkey"
+            columns: ["infraction_uid"]
+            isOneToOne: false
+            referencedRelation: "infractions"
+            referencedColumns: ["uid"]
+          },
+        ]
+      }
+      infractions: {
+        Row: {
+          catalog_id: number | null
+          infraction_type: string
+          latitude: number | null
+          location_accuracy: number | null
+          longitude: number | null
+          quantity: number
+          report_uid: string
+          uid: string
+        }
+        Insert: {
+          catalog_id?: number | null
+          infraction_type: string
+          latitude?: number | null
+          location_accuracy?: number | null
+          longitude?: number | null
+          quantity: number
+          report_uid: string
+          uid?: string
+        }
+        Update: {
+          catalog_id?: number | null
+          infraction_type?: string
+          latitude?: number | null
+          location_accuracy?: number | null
+          longitude?: number | null
+          quantity?: number
+          report_uid?: string
+          uid?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "infractions_catalog_id_fkey"
+            columns: ["catalog_id"]
+            isOneToOne: false
+            referencedRelation: "infraction_catalog"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "infractions_report_uid_fkey"
+            columns: ["report_uid"]
+            isOneToOne: false
+            referencedRelation: "geotranote_reports"
+            referencedColumns: ["uid"]
+          },
+        ]
+      }
+      protocol_counters: {
+        Row: {
+          last_value: number
+          year: number
+        }
+        Insert: {
+          last_value: number
+          year: number
+        }
+        Update: {
+          last_value?: number
+          year?: number
+        }
+        Relationships: []
+      }
+      removals: {
+        Row: {
+          depot: string | null
+          infraction_type: string | null
+          plate: string | null
+          report_uid: string
+          tow_truck: string | null
+          uid: string
+          vehicle_type: string
+        }
+        Insert: {
+          depot?: string | null
+          infraction_type?: string | null
+          plate?: string | null
+          report_uid: string
+          tow_truck?: string | null
+          uid?: string
+          vehicle_type: string
+        }
+        Update: {
+          depot?: string | null
+          infraction_type?: string | null
+          plate?: string | null
+          report_uid?: string
+          tow_truck?: string | null
+          uid?: string
+          vehicle_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "removals_report_uid_fkey"
+            columns: ["report_uid"]
+            isOneToOne: false
+            referencedRelation: "geotranote_reports"
+            referencedColumns: ["uid"]
+          },
+        ]
+      }
+      report_reviews: {
+        Row: {
+          changed_at: string
+          changed_by: string
+          changed_by_email: string | null
+          comment: string | null
+          from_status: string
+          id: number
+          report_uid: string
+          to_status: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string
+          changed_by_email?: string | null
+          comment?: string | null
+          from_status: string
+          id?: never
+          report_uid: string
+          to_status: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string
+          changed_by_email?: string | null
+          comment?: string | null
+          from_status?: string
+          id?: never
+          report_uid?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_reviews_report_uid_fkey"
+            columns: ["report_uid"]
+            isOneToOne: false
+            referencedRelation: "geotranote_reports"
+            referencedColumns: ["uid"]
+          },
+        ]
+      }
+      report_revisions: {
+        Row: {
+          changed_at: string
+          changed_by: string
+          changed_by_email: string | null
+          id: number
+          new_values: Json
+          old_values: Json
+          reason: string
+          report_uid: string
+          revision: number
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string
+          changed_by_email?: string | null
+          id?: never
+          new_values: Json
+          old_values: Json
+          reason: string
+          report_uid: string
+          revision: number
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string
+          changed_by_email?: string | null
+          id?: never
+          new_values?: Json
+          old_values?: Json
+          reason?: string
+          report_uid?: string
+          revision?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_revisions_report_uid_fkey"
+            columns: ["report_uid"]
+            isOneToOne: false
+            referencedRelation: "geotranote_reports"
+            referencedColumns: ["uid"]
+          },
+        ]
+      }
+      sectors: {
+        Row: {
+          active: boolean
+          label: string
+          parent_value: string | null
+          selectable: boolean
+          sort_order: number
+          value: string
+        }
+        Insert: {
+          active?: boolean
+          label: string
+          parent_value?: string | null
+          selectable?: boolean
+          sort_order?: number
+          value: string
+        }
+        Update: {
+          active?: boolean
+          label?: string
+          parent_value?: string | null
+          selectable?: boolean
+          sort_order?: number
+          value?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sectors_parent_value_fkey"
+            columns: ["parent_value"]
+            isOneToOne: false
+            referencedRelation: "sectors"
+            referencedColumns: ["value"]
+          },
+        ]
+      }
+      service_types: {
+        Row: {
+          active: boolean
+          label: string
+          sort_order: number
+          value: string
+        }
+        Insert: {
+          active?: boolean
+          label: string
+          sort_order?: number
+          value: string
+        }
+        Update: {
+          active?: boolean
+          label?: string
+          sort_order?: number
+          value?: string
+        }
+        Relationships: []
+      }
+      user_profiles: {
+        Row: {
+          created_at: string
+          full_name: string | null
+          role: string
+          sector: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          full_name?: string | null
+          role?: string
+          sector?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          full_name?: string | null
+          role?: string
+          sector?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_profiles_sector_fkey"
+            columns: ["sector"]
+            isOneToOne: false
+            referencedRelation: "sectors"
+            referencedColumns: ["value"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      amend_report: {
+        Args: {
+          p_report_uid: string
+          report: Json
+          infractions: Json
+          reason: string
+        }
+        Returns: number
+      }
+      can_amend_report: {
+        Args: {
+          p_sector: string
+        }
+        Returns: boolean
+      }
+      can_read_report: {
+        Args: {
+          p_submitted_by: string
+          p_sector: string
+        }
+        Returns: boolean
+      }
+      current_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      current_user_sector: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      dashboard_infraction_points: {
+        Args: {
+          p_service?: string
+          p_sectors?: string[]
+          p_start?: string
+          p_end?: string
+          p_approved_only?: boolean
+        }
+        Returns: {
+          latitude: number
+          longitude: number
+          infraction_key: string
+          quantity: number
+        }[]
+      }
+      dashboard_infraction_ranking: {
+        Args: {
+          p_service?: string
+          p_sectors?: string[]
+          p_start?: string
+          p_end?: string
+          p_approved_only?: boolean
+        }
+        Returns: {
+          infraction_key: string
+          quantity: number
+          reports: number
+        }[]
+      }
+      dashboard_infraction_reports: {
+        Args: {
+          p_infraction_key: string
+          p_service?: string
+          p_sectors?: string[]
+          p_start?: string
+          p_end?: string
+          p_approved_only?: boolean
+        }
+        Returns: {
+          protocol_number: string
+          shift_date: string
+          quantity: number
+        }[]
+      }
+      dashboard_removal_points: {
+        Args: {
+          p_service?: string
+          p_sectors?: string[]
+          p_start?: string
+          p_end?: string
+          p_approved_only?: boolean
+        }
+        Returns: {
+          protocol_number: string
+          latitude: number
+          longitude: number
+          car_removals: number
+          motorcycle_removals: number
+        }[]
+      }
+      dashboard_removals_by_vehicle_type: {
+        Args: {
+          p_service?: string
+          p_sectors?: string[]
+          p_start?: string
+          p_end?: string
+          p_approved_only?: boolean
+        }
+        Returns: {
+          vehicle_type: string
+          removals: number
+        }[]
+      }
+      dashboard_reports: {
+        Args: {
+          p_service?: string
+          p_sectors?: string[]
+          p_start?: string
+          p_end?: string
+          p_approved_only?: boolean
+        }
+        Returns: {
+          car_removals: number
+          client_id: string
+          created_at: string
+          latitude: number | null
+          location_accuracy: number | null
+          longitude: number | null
+          motorcycle_removals: number
+          protocol_number: string
+          review_comment: string | null
+          reviewed_at: string | null
+          revision: number
+          sector: string
+          service_name: string
+          shift_date: string
+          shift_end: string | null
+          shift_start: string | null
+          status: string
+          submitted_by: string | null
+          submitted_by_name: string | null
+          team_members: string[]
+          total_approaches: number
+          uid: string
+          updated_at: string | null
+          vehicle_prefix: string | null
+        }[]
+      }
+      dashboard_sectors: {
+        Args: {
+          p_service?: string
+          p_sectors?: string[]
+          p_start?: string
+          p_end?: string
+          p_approved_only?: boolean
+        }
+        Returns: {
+          sector: string
+          reports: number
+          approaches: number
+          infractions: number
+          car_removals: number
+          motorcycle_removals: number
+        }[]
+      }
+      dashboard_series: {
+        Args: {
+          p_granularity: string
+          p_service?: string
+          p_sectors?: string[]
+          p_start?: string
+          p_end?: string
+          p_approved_only?: boolean
+        }
+        Returns: {
+          bucket: string
+          approaches: number
+          infractions: number
+          car_removals: number
+          motorcycle_removals: number
+        }[]
+      }
+      dashboard_totals: {
+        Args: {
+          p_service?: string
+          p_sectors?: string[]
+          p_start?: string
+          p_end?: string
+          p_approved_only?: boolean
+        }
+        Returns: {
+          reports: number
+          approaches: number
+          infractions: number
+          car_removals: number
+          motorcycle_removals: number
+        }[]
+      }
+      format_protocol: {
+        Args: {
+          p_year: number
+          p_sequence: number
+        }
+        Returns: string
+      }
+      infraction_catalog_id: {
+        Args: {
+          p_infraction_type: string
+          p_on: string
+        }
+        Returns: number
+      }
+      infraction_key: {
+        Args: {
+          p_infraction_type: string
+        }
+        Returns: string
+      }
+      insert_report_infractions: {
+        Args: {
+          p_report_uid: string
+          p_infractions: Json
+        }
+        Returns: undefined
+      }
+      insert_report_removals: {
+        Args: {
+          p_report_uid: string
+          report: Json
+        }
+        Returns: undefined
+      }
+      is_valid_plate: {
+        Args: {
+          p_plate: string
+        }
+        Returns: boolean
+      }
+      lookup_protocol: {
+        Args: {
+          p_reference: string
+        }
+        Returns: {
+          protocol_number: string
+          status: string
+          revision: number
+          sector: string
+          shift_date: string
+          created_at: string
+          updated_at: string | null
+          reviewed_at: string | null
+        }[]
+      }
+      merge_infraction_lines: {
+        Args: {
+          p_infractions: Json
+        }
+        Returns: Json
+      }
+      protocol_check_digit: {
+        Args: {
+          p_digits: string
+        }
+        Returns: number
+      }
+      refresh_removal_counters: {
+        Args: {
+          p_report_uid: string
+        }
+        Returns: undefined
+      }
+      replace_report_lines: {
+        Args: {
+          p_report_uid: string
+          report: Json
+          infractions: Json
+        }
+        Returns: undefined
+      }
+      report_snapshot: {
+        Args: {
+          p_report_uid: string
+        }
+        Returns: Json
+      }
+      report_team_members: {
+        Args: {
+          report: Json
+        }
+        Returns: string[]
+      }
+      resubmit_report: {
+        Args: {
+          p_report_uid: string
+          report: Json
+          infractions: Json
+          p_comment: string
+        }
+        Returns: number
+      }
+      retire_infraction_version: {
+        Args: {
+          p_id: number
+          p_effective_to: string
+        }
+        Returns: undefined
+      }
+      review_report: {
+        Args: {
+          p_report_uid: string
+          p_status: string
+          p_comment?: string
+        }
+        Returns: string
+      }
+      save_infraction_version: {
+        Args: {
+          entry: Json
+        }
+        Returns: number
+      }
+      sector_within: {
+        Args: {
+          p_sector: string
+          p_ancestor: string
+        }
+        Returns: boolean
+      }
+      submit_report: {
+        Args: {
+          report: Json
+          infractions?: Json
+        }
+        Returns: {
+          uid: string
+          protocol_number: string
+        }[]
+      }
+      update_report_fields: {
+        Args: {
+          p_report_uid: string
+          report: Json
+        }
+        Returns: number
+      }
+      validate_report: {
+        Args: {
+          report: Json
+          infractions: Json
+        }
+        Returns: undefined
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Row"]
+
+export type TablesInsert<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Insert"]
+
+export type TablesUpdate<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Update"]
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { escapeCsv, exportFileName, formatCsvValue, toSheetDate } from './export';
+
+vi.mock('../supabase', () => ({ default: {} }));
+
+describe('escapeCsv', () => {
+  it('leaves plain text alone', () => {
+    expect(escapeCsv('Operação Gedam')).toBe('Operação Gedam');
+  });
+
+  it('quotes separators, quotes and line breaks', () => {
+    expect(escapeCsv('Silva; Souza')).toBe('"Silva; Souza"');
+    expect(escapeCsv('Viatura "A"')).toBe('"Viatura ""A"""');
+    expect(escapeCsv('linha 1\nlinha 2')).toBe('"linha 1\nlinha 2"');
+  });
+
+  it.each(['=HYPERLINK("http://x")', '+55 61', '-1+1', '@SUM(A1)', '\tcmd'])('keeps %s from running as a formula', (value) => {
+    expect(escapeCsv(value).replace(/^"|"$/g, '').startsWith("'")).toBe(true);
+  });
+
+  it('quotes a formula that also holds a separator', () => {
+    expect(escapeCsv('=1;2')).toBe(`"'=1;2"`);
+  });
+});
+
+describe('formatCsvValue', () => {
+  it('formats numbers the pt-BR way without marking negatives as formulas', () => {
+    expect(formatCsvValue(1234)).toBe('1.234');
+    expect(formatCsvValue(-5)).toBe('-5');
+  });
+
+  it('writes dates as local day and time', () => {
+    expect(formatCsvValue(new Date(2026, 9, 19, 7, 5))).toBe('19/10/2026 07:05');
+  });
+
+  it('escapes text', () => {
+    expect(formatCsvValue('=1+1')).toBe("'=1+1");
+  });
+});
+
+describe('toSheetDate', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('keeps the local wall-clock time in the UTC fields XLSX reads', () => {
+    vi.stubEnv('TZ', 'America/Sao_Paulo');
+    const date = toSheetDate(new Date(2026, 9, 19, 23, 30));
+    expect([date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes()]).toEqual([
+      2026, 9, 19, 23, 30,
+    ]);
+  });
+});
+
+describe('exportFileName', () => {
+  it('names the service, sectors and period', () => {
+    const filters = { service: 'operacao', sectors: ['GEDAM', 'GRE'], start: '2026-10-01', end: '', approvedOnly: false };
+    expect(exportFileName(filters, 'totais')).toBe('geotranote_operacao_gedam-gre_2026-10-01_a_hoje_totais');
+  });
+
+  it('uses defaults without filters', () => {
+    const filters = { service: 'all', sectors: [], start: '', end: '', approvedOnly: false };
+    expect(exportFileName(filters)).toBe('geotranote_todos-servicos_todos-setores_todo-periodo');
+  });
+});
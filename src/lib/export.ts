@@ -0,0 +1,305 @@
+import { findInfractionOption, gravityLabels, infractionKeyOf } from '../infractionOptions';
+import { sectorLabel, serviceLabel } from '../reportOptions';
+import supabase from '../supabase';
+import type { DashboardFilters } from './dashboard';
+
+export interface ExportReport {
+  uid: string;
+  protocol_number: string;
+  created_at: string;
+  service_name: string;
+  sector: string;
+  shift_date: string;
+  shift_start: string | null;
+  shift_end: string | null;
+  vehicle_prefix: string | null;
+  team_members: string[];
+  total_approaches: number;
+  car_removals: number;
+  motorcycle_removals: number;
+}
+
+export interface ExportInfraction {
+  report_uid: string;
+  infraction_type: string;
+  catalog_id: number | null;
+  quantity: number;
+}
+
+export type ExportFilters = DashboardFilters;
+
+export type ExportTable = 'reports' | 'infractions' | 'totals';
+
+type CellValue = string | number | Date;
+
+interface Column<Row> {
+  header: string;
+  value: (row: Row) => CellValue;
+  width?: number;
+}
+
+interface Dataset<Row> {
+  sheet: string;
+  columns: Column<Row>[];
+  rows: Row[];
+}
+
+const numberFormatter = new Intl.NumberFormat('pt-BR');
+
+const dateTimeFormatter = new Intl.DateTimeFormat('pt-BR', {
+  day: '2-digit',
+  month: '2-digit',
+  year: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+// PostgREST returns at most 1000 rows per request by default.
+const EXPORT_PAGE_SIZE = 1000;
+
+// A single literal so supabase-js can infer the row type from it.
+const EXPORT_COLUMNS =
+  'uid, protocol_number, created_at, service_name, sector, shift_date, shift_start, shift_end, vehicle_prefix, team_members, total_approaches, car_removals, motorcycle_removals, infractions(report_uid, infraction_type, catalog_id, quantity)';
+
+/**
+ * Reports and infraction lines matching the Dashboard filters, read page by page when the
+ * user exports; the Dashboard itself only loads aggregates.
+ */
+export async function fetchExportRows(filters: ExportFilters) {
+  const reports: ExportReport[] = [];
+  const infractions: ExportInfraction[] = [];
+
+  for (let page = 0; ; page += 1) {
+    let query = supabase
+      .from('geotranote_reports')
+      .select(EXPORT_COLUMNS)
+      .order('shift_date', { ascending: false })
+      .order('uid')
+      .range(page * EXPORT_PAGE_SIZE, (page + 1) * EXPORT_PAGE_SIZE - 1);
+
+    if (filters.service !== 'all') {
+      query = query.eq('service_name', filters.service);
+    }
+
+    if (filters.approvedOnly) {
+      query = query.eq('status', 'approved');
+    }
+
+    if (filters.sectors.length > 0) {
+      query = query.in('sector', filters.sectors);
+    }
+
+    if (filters.start) {
+      query = query.gte('shift_date', filters.start);
+    }
+
+    if (filters.end) {
+      query = query.lte('shift_date', filters.end);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    for (const { infractions: lines, ...report } of data) {
+      reports.push(report);
+      infractions.push(...lines);
+    }
+
+    if (data.length < EXPORT_PAGE_SIZE) break;
+  }
+
+  return { reports, infractions };
+}
+
+function formatDateKey(value: string) {
+  const [year, month, day] = value.split('-');
+  return `${day}/${month}/${year}`;
+}
+
+function describePeriod(filters: ExportFilters) {
+  if (filters.start && filters.end) return `${formatDateKey(filters.start)} a ${formatDateKey(filters.end)}`;
+  if (filters.start) return `A partir de ${formatDateKey(filters.start)}`;
+  if (filters.end) return `Até ${formatDateKey(filters.end)}`;
+  return 'Todo o período';
+}
+
+function buildDatasets(reports: ExportReport[], infractions: ExportInfraction[], filters: ExportFilters) {
+  const reportsByUid = new Map(reports.map((report) => [report.uid, report]));
+  const lines = infractions
+    .filter((infraction) => reportsByUid.has(infraction.report_uid))
+    .map((infraction) => ({
+      infraction,
+      report: reportsByUid.get(infraction.report_uid)!,
+      option: findInfractionOption(infraction.infraction_type, infraction.catalog_id),
+    }));
+
+  const sum = (pick: (report: ExportReport) => number) => reports.reduce((total, report) => total + pick(report), 0);
+  const totalInfractions = lines.reduce((total, line) => total + line.infraction.quantity, 0);
+
+  const reportsDataset: Dataset<ExportReport> = {
+    sheet: 'Relatórios',
+    rows: reports,
+    columns: [
+      { header: 'Protocolo', value: (report) => report.protocol_number, width: 26 },
+      { header: 'Data do turno', value: (report) => formatDateKey(report.shift_date), width: 14 },
+      { header: 'Início', value: (report) => report.shift_start?.slice(0, 5) ?? '' },
+      { header: 'Fim', value: (report) => report.shift_end?.slice(0, 5) ?? '' },
+      { header: 'Enviado em', value: (report) => new Date(report.created_at), width: 18 },
+      { header: 'Tipo de serviço', value: (report) => serviceLabel(report.service_name), width: 16 },
+      { header: 'Setor', value: (report) => sectorLabel(report.sector), width: 26 },
+      { header: 'Viatura', value: (report) => report.vehicle_prefix ?? '' },
+      { header: 'Equipe', value: (report) => report.team_members.join(', '), width: 40 },
+      { header: 'Abordagens', value: (report) => report.total_approaches },
+      { header: 'Remoções de carros', value: (report) => report.car_removals },
+      { header: 'Remoções de motos', value: (report) => report.motorcycle_removals },
+    ],
+  };
+
+  const infractionsDataset: Dataset<(typeof lines)[number]> = {
+    sheet: 'Infrações',
+    rows: lines,
+    columns: [
+      { header: 'Protocolo', value: (line) => line.report.protocol_number, width: 26 },
+      { header: 'Data do turno', value: (line) => formatDateKey(line.report.shift_date), width: 14 },
+      { header: 'Setor', value: (line) => sectorLabel(line.report.sector), width: 26 },
+      { header: 'Código', value: (line) => infractionKeyOf(line.infraction.infraction_type) },
+      { header: 'Descrição', value: (line) => line.option?.description ?? line.infraction.infraction_type, width: 60 },
+      { header: 'Artigo (CTB)', value: (line) => line.option?.article ?? '' },
+      { header: 'Gravidade', value: (line) => (line.option?.gravity ? gravityLabels[line.option.gravity] : '') },
+      { header: 'Quantidade', value: (line) => line.infraction.quantity },
+    ],
+  };
+
+  const totalsDataset: Dataset<[string, CellValue]> = {
+    sheet: 'Totais',
+    rows: [
+      ['Tipo de serviço', filters.service === 'all' ? 'Todos' : serviceLabel(filters.service)],
+      ['Setores', filters.sectors.length > 0 ? filters.sectors.map(sectorLabel).join(', ') : 'Todos'],
+      ['Período', describePeriod(filters)],
+      ['Situação', filters.approvedOnly ? 'Somente aprovados' : 'Todas'],
+      ['Relatórios', reports.length],
+      ['Total de abordagens', sum((report) => report.total_approaches)],
+      ['Total de infrações', totalInfractions],
+      ['Total de remoções', sum((report) => report.car_removals + report.motorcycle_removals)],
+      ['Remoções de carros', sum((report) => report.car_removals)],
+      ['Remoções de motos', sum((report) => report.motorcycle_removals)],
+    ],
+    columns: [
+      { header: 'Indicador', value: (row) => row[0], width: 24 },
+      { header: 'Valor', value: (row) => row[1], width: 40 },
+    ],
+  };
+
+  return { reports: reportsDataset, infractions: infractionsDataset, totals: totalsDataset };
+}
+
+function slug(value: string) {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .toLowerCase();
+}
+
+/** Builds a file name such as `geotranote_operacao_gedam-gre_2026-10-01_a_2026-10-19`. */
+export function exportFileName(filters: ExportFilters, suffix?: string) {
+  const parts = [
+    'geotranote',
+    filters.service === 'all' ? 'todos-servicos' : slug(filters.service),
+    filters.sectors.length > 0 ? filters.sectors.map(slug).join('-') : 'todos-setores',
+    filters.start || filters.end ? `${filters.start || 'inicio'}_a_${filters.end || 'hoje'}` : 'todo-periodo',
+  ];
+  if (suffix) parts.push(suffix);
+  return parts.join('_');
+}
+
+// Spreadsheet apps run text starting with one of these as a formula; the leading quote
+// makes them show it as text.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function escapeCsv(value: string) {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Numbers and dates are formatted here, so only text from the rows goes through escapeCsv.
+export function formatCsvValue(value: CellValue) {
+  if (value instanceof Date) return dateTimeFormatter.format(value).replace(',', '');
+  if (typeof value === 'number') return numberFormatter.format(value);
+  return escapeCsv(value);
+}
+
+function toCsv<Row>(dataset: Dataset<Row>) {
+  const lines = [
+    dataset.columns.map((column) => escapeCsv(column.header)),
+    ...dataset.rows.map((row) => dataset.columns.map((column) => formatCsvValue(column.value(row)))),
+  ];
+  // Semicolon separator and a BOM so Excel in pt-BR opens the file with the right columns and accents.
+  return '\uFEFF' + lines.map((line) => line.join(';')).join('\r\n');
+}
+
+function download(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const csvSuffixes: Record<ExportTable, string> = {
+  reports: 'relatorios',
+  infractions: 'infracoes',
+  totals: 'totais',
+};
+
+export function exportCsv(
+  table: ExportTable,
+  reports: ExportReport[],
+  infractions: ExportInfraction[],
+  filters: ExportFilters
+) {
+  const datasets = buildDatasets(reports, infractions, filters);
+  const csv = table === 'reports'
+    ? toCsv(datasets.reports)
+    : table === 'infractions'
+      ? toCsv(datasets.infractions)
+      : toCsv(datasets.totals);
+  download(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${exportFileName(filters, csvSuffixes[table])}.csv`);
+}
+
+// write-excel-file stores dates as UTC serial numbers; shifting by the local offset makes the
+// cells show the same wall-clock time as the CSV.
+export function toSheetDate(value: Date) {
+  return new Date(value.getTime() - value.getTimezoneOffset() * 60_000);
+}
+
+export async function exportXlsx(reports: ExportReport[], infractions: ExportInfraction[], filters: ExportFilters) {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  const datasets = buildDatasets(reports, infractions, filters);
+
+  const toSheet = <Row>(dataset: Dataset<Row>) => ({
+    sheet: dataset.sheet,
+    dateFormat: 'dd/mm/yyyy hh:mm',
+    stickyRowsCount: 1,
+    columns: dataset.columns.map((column) => ({ width: column.width ?? 14 })),
+    data: [
+      dataset.columns.map((column) => ({ value: column.header, fontWeight: 'bold' as const })),
+      ...dataset.rows.map((row) =>
+        dataset.columns.map((column) => {
+          const value = column.value(row);
+          return value instanceof Date
+            ? { value: toSheetDate(value), type: Date, format: 'dd/mm/yyyy hh:mm' }
+            : typeof value === 'number'
+              ? { value, type: Number, format: '#,##0' }
+              : { value, type: String };
+        })
+      ),
+    ],
+  });
+
+  await writeXlsxFile([toSheet(datasets.totals), toSheet(datasets.reports), toSheet(datasets.infractions)]).toFile(
+    `${exportFileName(filters)}.xlsx`
+  );
+}
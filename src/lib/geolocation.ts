@@ -0,0 +1,46 @@
+/** Device coordinates in WGS 84 degrees, with the accuracy radius in metres. */
+export interface DeviceLocation {
+  latitude: number;
+  longitude: number;
+  location_accuracy: number;
+}
+
+export type OptionalLocation = {
+  [K in keyof DeviceLocation]?: DeviceLocation[K] | null;
+};
+
+export function hasLocation<T extends OptionalLocation>(value: T): value is T & DeviceLocation {
+  return value.latitude != null && value.longitude != null;
+}
+
+/**
+ * Reads the current position of the device. Resolves with null when geolocation is
+ * unavailable, denied or times out, so a report can always be saved without it.
+ */
+export function captureLocation(timeout = 10000): Promise<DeviceLocation | null> {
+  if (!('geolocation' in navigator)) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) =>
+        resolve({
+          latitude: coords.latitude,
+          longitude: coords.longitude,
+          location_accuracy: Math.round(coords.accuracy),
+        }),
+      (error) => {
+        console.warn('Could not read device location:', error.message);
+        resolve(null);
+      },
+      { enableHighAccuracy: true, timeout, maximumAge: 30000 }
+    );
+  });
+}
+
+export function formatLocation(location: OptionalLocation) {
+  if (!hasLocation(location)) return null;
+  const accuracy = location.location_accuracy != null ? ` (±${Math.round(location.location_accuracy)} m)` : '';
+  return `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}${accuracy}`;
+}
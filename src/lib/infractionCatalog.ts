@@ -0,0 +1,119 @@
+import { createContext, useContext } from 'react';
+import supabase from '../supabase';
+import {
+  bundledInfractionOptions,
+  gravityLabels,
+  setInfractionCatalog,
+  type InfractionGravity,
+  type InfractionOption,
+} from '../infractionOptions';
+import type { Tables } from './database.types';
+
+type InfractionCatalogRow = Omit<Tables<'infraction_catalog'>, 'created_at' | 'created_by'>;
+
+// Last catalog read from the server, so the Form keeps offering new entries while offline.
+const CACHE_KEY = 'geotranote.infractionCatalog';
+
+// A gravity the app does not know is shown without a label instead of failing the catalog.
+function isGravity(value: string | null): value is InfractionGravity {
+  return value !== null && Object.keys(gravityLabels).includes(value);
+}
+
+function toOption(row: InfractionCatalogRow): InfractionOption {
+  return {
+    id: row.id,
+    key: row.key,
+    code: row.code,
+    desdobramento: row.desdobramento,
+    description: row.description,
+    article: row.article,
+    gravity: isGravity(row.gravity) ? row.gravity : null,
+    points: row.points,
+    fineAmount: row.fine_amount === null ? null : Number(row.fine_amount),
+    effectiveFrom: row.effective_from,
+    effectiveTo: row.effective_to,
+  };
+}
+
+/** Every version of every entry, including retired ones. */
+export async function fetchInfractionCatalog() {
+  const { data, error } = await supabase
+    .from('infraction_catalog')
+    .select('id, key, code, desdobramento, description, article, gravity, points, fine_amount, effective_from, effective_to')
+    .order('key')
+    .order('effective_from');
+
+  if (error) throw error;
+  return data.map(toOption);
+}
+
+function readCachedCatalog() {
+  try {
+    const cached = localStorage.getItem(CACHE_KEY);
+    return cached ? (JSON.parse(cached) as InfractionOption[]) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Loads the catalog from the server, falling back to the last cached copy and then to the
+ * bundled one, and makes it the catalog of the lookup helpers in infractionOptions.ts.
+ */
+export async function loadInfractionCatalog() {
+  let options: InfractionOption[];
+  try {
+    options = await fetchInfractionCatalog();
+    localStorage.setItem(CACHE_KEY, JSON.stringify(options));
+  } catch (err) {
+    console.error('Error fetching infraction catalog:', err);
+    options = readCachedCatalog() ?? bundledInfractionOptions;
+  }
+
+  setInfractionCatalog(options);
+  return options;
+}
+
+export interface InfractionCatalogState {
+  options: InfractionOption[];
+  reload: () => Promise<void>;
+}
+
+export const InfractionCatalogContext = createContext<InfractionCatalogState>({
+  options: bundledInfractionOptions,
+  reload: async () => undefined,
+});
+
+export function useInfractionCatalog() {
+  return useContext(InfractionCatalogContext);
+}
+
+// A type alias, since it is sent as the jsonb argument of save_infraction_version.
+export type InfractionVersionInput = {
+  key: string;
+  description: string;
+  article: string;
+  gravity: InfractionGravity | null;
+  points: number;
+  fine_amount: number | null;
+  effective_from: string;
+  effective_to: string | null;
+};
+
+/**
+ * Adds an entry or a new version of an existing key. The version in force on effective_from
+ * is closed the day before, so reports of earlier shifts keep the values they were filed with.
+ */
+export async function saveInfractionVersion(entry: InfractionVersionInput) {
+  const { data, error } = await supabase.rpc('save_infraction_version', { entry });
+
+  if (error) throw error;
+  return data;
+}
+
+/** Retires a version: it stays attached to older reports but is no longer offered after `effectiveTo`. */
+export async function retireInfractionVersion(id: number, effectiveTo: string) {
+  const { error } = await supabase.rpc('retire_infraction_version', { p_id: id, p_effective_to: effectiveTo });
+
+  if (error) throw error;
+}
@@ -0,0 +1,146 @@
+/**
+ * Web Mercator helpers for the Dashboard map. Coordinates are projected to "world pixels"
+ * at a zoom level, the same grid used by XYZ tile servers, so the SVG base layer and
+ * locally served tiles line up.
+ */
+
+export const TILE_SIZE = 256;
+const MAX_LATITUDE = 85.05112878;
+
+export interface MapPoint {
+  latitude: number;
+  longitude: number;
+  weight: number;
+  label: string;
+}
+
+export interface MapView {
+  zoom: number;
+  // World-pixel coordinates of the top-left corner of the view.
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export function project(latitude: number, longitude: number, zoom: number) {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude)) * (Math.PI / 180);
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: ((1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2) * scale,
+  };
+}
+
+export function unproject(x: number, y: number, zoom: number) {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  return {
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    longitude: (x / scale) * 360 - 180,
+  };
+}
+
+/** Picks the highest zoom at which every point fits in the view, with some padding. */
+export function fitView(points: MapPoint[], width: number, height: number, padding = 32, maxZoom = 18): MapView {
+  let zoom = maxZoom;
+  for (; zoom > 0; zoom -= 1) {
+    const projected = points.map((point) => project(point.latitude, point.longitude, zoom));
+    const xs = projected.map((p) => p.x);
+    const ys = projected.map((p) => p.y);
+    if (
+      Math.max(...xs) - Math.min(...xs) <= width - padding * 2 &&
+      Math.max(...ys) - Math.min(...ys) <= height - padding * 2
+    ) {
+      break;
+    }
+  }
+
+  const projected = points.map((point) => project(point.latitude, point.longitude, zoom));
+  const xs = projected.map((p) => p.x);
+  const ys = projected.map((p) => p.y);
+  const centerX = (Math.min(...xs) + Math.max(...xs)) / 2;
+  const centerY = (Math.min(...ys) + Math.max(...ys)) / 2;
+
+  return { zoom, left: centerX - width / 2, top: centerY - height / 2, width, height };
+}
+
+export function toScreen(view: MapView, latitude: number, longitude: number) {
+  const { x, y } = project(latitude, longitude, view.zoom);
+  return { x: x - view.left, y: y - view.top };
+}
+
+export interface DensityCell {
+  x: number;
+  y: number;
+  weight: number;
+}
+
+/** Sums point weights into square screen cells of `cellSize` pixels. */
+export function densityCells(points: MapPoint[], view: MapView, cellSize: number): DensityCell[] {
+  const cells = new Map<string, DensityCell>();
+  points.forEach((point) => {
+    const { x, y } = toScreen(view, point.latitude, point.longitude);
+    const cellX = Math.floor(x / cellSize) * cellSize;
+    const cellY = Math.floor(y / cellSize) * cellSize;
+    const key = `${cellX}:${cellY}`;
+    const cell = cells.get(key) ?? { x: cellX, y: cellY, weight: 0 };
+    cell.weight += point.weight;
+    cells.set(key, cell);
+  });
+  return [...cells.values()];
+}
+
+export interface MapTile {
+  url: string;
+  x: number;
+  y: number;
+}
+
+/** Tiles covering the view, from a `{z}/{x}/{y}` URL template. */
+export function visibleTiles(view: MapView, template: string): MapTile[] {
+  const count = 2 ** view.zoom;
+  const tiles: MapTile[] = [];
+  const firstX = Math.floor(view.left / TILE_SIZE);
+  const lastX = Math.floor((view.left + view.width) / TILE_SIZE);
+  const firstY = Math.max(0, Math.floor(view.top / TILE_SIZE));
+  const lastY = Math.min(count - 1, Math.floor((view.top + view.height) / TILE_SIZE));
+
+  for (let tileX = firstX; tileX <= lastX; tileX += 1) {
+    for (let tileY = firstY; tileY <= lastY; tileY += 1) {
+      const wrappedX = ((tileX % count) + count) % count;
+      tiles.push({
+        url: template
+          .replace('{z}', String(view.zoom))
+          .replace('{x}', String(wrappedX))
+          .replace('{y}', String(tileY)),
+        x: tileX * TILE_SIZE - view.left,
+        y: tileY * TILE_SIZE - view.top,
+      });
+    }
+  }
+  return tiles;
+}
+
+const graticuleSteps = [10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01, 0.005, 0.002, 0.001];
+
+/** Latitude and longitude lines for the plain SVG base layer, about four to ten per axis. */
+export function graticule(view: MapView) {
+  const topLeft = unproject(view.left, view.top, view.zoom);
+  const bottomRight = unproject(view.left + view.width, view.top + view.height, view.zoom);
+  const span = Math.max(bottomRight.longitude - topLeft.longitude, topLeft.latitude - bottomRight.latitude);
+  const step = graticuleSteps.find((candidate) => span / candidate >= 4) ?? graticuleSteps[graticuleSteps.length - 1];
+
+  const lines = (from: number, to: number) => {
+    const values: number[] = [];
+    for (let value = Math.ceil(from / step) * step; value <= to; value += step) {
+      values.push(Number(value.toFixed(6)));
+    }
+    return values;
+  };
+
+  return {
+    longitudes: lines(topLeft.longitude, bottomRight.longitude),
+    latitudes: lines(bottomRight.latitude, topLeft.latitude),
+  };
+}
@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getOutboxEntry, queueReport, sendQueuedReport, syncOutbox, type OutboxEntry } from './outbox';
+import { submitReport, type ReportInput } from './reports';
+
+vi.mock('../supabase', () => ({
+  default: {
+    auth: {
+      getSession: async () => ({ data: { session: { user: { id: 'agent-1' } } } }),
+    },
+  },
+}));
+
+vi.mock('./reports', () => ({ submitReport: vi.fn() }));
+
+// Just enough of IndexedDB for the outbox: one object store keyed by client_id, and
+// transactions that complete once the current task is done.
+const rows = new Map<string, OutboxEntry>();
+
+const store = {
+  createIndex: () => undefined,
+  put: (entry: OutboxEntry) => ({ result: rows.set(entry.client_id, structuredClone(entry)) && entry.client_id }),
+  get: (key: string) => ({ result: structuredClone(rows.get(key)) }),
+  getAll: () => ({ result: [...rows.values()].map((entry) => structuredClone(entry)) }),
+  delete: (key: string) => ({ result: rows.delete(key) && undefined }),
+};
+
+const db = {
+  createObjectStore: () => store,
+  transaction: () => {
+    const transaction = { objectStore: () => store, oncomplete: null as (() => void) | null };
+    setTimeout(() => transaction.oncomplete?.());
+    return transaction;
+  },
+};
+
+vi.stubGlobal('indexedDB', {
+  open: () => {
+    const request = { result: db, onupgradeneeded: null as (() => void) | null, onsuccess: null as (() => void) | null };
+    setTimeout(() => {
+      request.onupgradeneeded?.();
+      request.onsuccess?.();
+    });
+    return request;
+  },
+});
+vi.stubGlobal('navigator', { onLine: true });
+vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+const report = (client_id: string): ReportInput => ({
+  client_id,
+  service_name: 'blitz',
+  sector: 'centro',
+  shift_date: '2026-10-19',
+  shift_start: '07:00',
+  shift_end: '19:00',
+  vehicle_prefix: null,
+  team_members: [],
+  car_removals: 0,
+  motorcycle_removals: 0,
+  total_approaches: 1,
+  removals: [],
+});
+
+const submit = vi.mocked(submitReport);
+const synced = { protocol_number: 'GEO-2026-000001-7', uid: 'report-1' };
+
+beforeEach(() => {
+  rows.clear();
+  submit.mockReset();
+});
+
+describe('syncOutbox', () => {
+  it('stores the protocol number issued by the server', async () => {
+    submit.mockResolvedValueOnce(synced);
+    await queueReport(report('c1'), [], 'agent-1');
+
+    await syncOutbox('agent-1');
+
+    expect(await getOutboxEntry('c1')).toMatchObject({
+      status: 'synced',
+      protocol_number: 'GEO-2026-000001-7',
+      attempts: 1,
+      error: null,
+    });
+  });
+
+  it('retries an entry that could not be sent with the same client id', async () => {
+    submit.mockRejectedValueOnce(new TypeError('Failed to fetch')).mockResolvedValueOnce(synced);
+    await queueReport(report('c1'), [], 'agent-1');
+
+    await syncOutbox('agent-1');
+    expect(await getOutboxEntry('c1')).toMatchObject({ status: 'failed', attempts: 1, error: 'Failed to fetch' });
+
+    await syncOutbox('agent-1');
+    expect(await getOutboxEntry('c1')).toMatchObject({ status: 'synced', attempts: 2, error: null });
+    expect(submit.mock.calls.map(([sent]) => sent.client_id)).toEqual(['c1', 'c1']);
+  });
+
+  it.each([
+    ['a check violation', '23514'],
+    ['an invalid value', '22P02'],
+    ['a refused permission', '42501'],
+    ['an exception without a code', 'P0001'],
+  ])('does not retry %s', async (_case, code) => {
+    submit.mockRejectedValue({ code, message: 'Recusado' });
+    await queueReport(report('c1'), [], 'agent-1');
+
+    await syncOutbox('agent-1');
+    await syncOutbox('agent-1');
+
+    expect(await getOutboxEntry('c1')).toMatchObject({ status: 'rejected', attempts: 1, error: 'Recusado' });
+    expect(submit).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends the oldest entries first and skips those of other agents', async () => {
+    submit.mockResolvedValue(synced);
+    await queueReport(report('c1'), [], 'agent-1');
+    await queueReport(report('c2'), [], 'agent-2');
+    rows.set('c3', { ...(await queueReport(report('c3'), [], 'agent-1')), created_at: '2099-01-01T00:00:00Z' });
+    rows.set('legacy', { ...(await queueReport(report('legacy'), [], 'agent-1')), user_id: null });
+
+    await syncOutbox('agent-1');
+
+    expect(submit.mock.calls.map(([sent]) => sent.client_id)).toEqual(['c1', 'c3']);
+  });
+});
+
+describe('sendQueuedReport', () => {
+  it('does not send a synced entry again', async () => {
+    submit.mockResolvedValue(synced);
+    await queueReport(report('c1'), [], 'agent-1');
+
+    await sendQueuedReport('c1');
+    const entry = await sendQueuedReport('c1');
+
+    expect(entry?.status).toBe('synced');
+    expect(submit).toHaveBeenCalledTimes(1);
+  });
+});
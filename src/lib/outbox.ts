@@ -0,0 +1,207 @@
+import supabase from '../supabase';
+import { submitReport, type InfractionInput, type ReportInput } from './reports';
+
+// 'failed' entries are retried; 'rejected' ones were refused by the server's validation and
+// wait for the agent to correct them, since sending them again cannot succeed.
+export type OutboxStatus = 'pending' | 'synced' | 'failed' | 'rejected';
+
+export interface OutboxEntry {
+  client_id: string;
+  // Agent who filed the report. Tablets are shared, so entries are only listed and sent
+  // while their agent is signed in. Missing on entries queued before it was recorded.
+  user_id: string | null;
+  // Issued by the server when the report is synced.
+  protocol_number: string | null;
+  report: ReportInput;
+  infractions: InfractionInput[];
+  status: OutboxStatus;
+  attempts: number;
+  error: string | null;
+  created_at: string;
+  synced_at: string | null;
+}
+
+const DB_NAME = 'geotranote';
+const DB_VERSION = 1;
+const STORE = 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let syncPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'client_id' });
+        store.createIndex('status', 'status');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Not cached, so the next call tries to open the database again.
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    // Aborts without a request error, such as QuotaExceededError, only fire onabort.
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+async function putEntry(entry: OutboxEntry) {
+  await withStore('readwrite', (store) => store.put(entry));
+  notify();
+}
+
+export function subscribeOutbox(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Entries of the given user, and those without a recorded agent, newest first. */
+export async function listOutbox(userId: string) {
+  const entries = await withStore<OutboxEntry[]>('readonly', (store) => store.getAll());
+  return entries
+    .filter((entry) => !entry.user_id || entry.user_id === userId)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+export function getOutboxEntry(clientId: string) {
+  return withStore<OutboxEntry | undefined>('readonly', (store) => store.get(clientId));
+}
+
+/**
+ * Persists a finished report on the device before anything is sent, so it survives
+ * a lost connection or a closed tab. The id generated on the device is the key; queueing a
+ * corrected report under the id of a rejected one replaces it.
+ */
+export async function queueReport(report: ReportInput, infractions: InfractionInput[], userId: string) {
+  const entry: OutboxEntry = {
+    client_id: report.client_id,
+    user_id: userId,
+    protocol_number: null,
+    report,
+    infractions,
+    status: 'pending',
+    attempts: 0,
+    error: null,
+    created_at: new Date().toISOString(),
+    synced_at: null,
+  };
+  await putEntry(entry);
+  return entry;
+}
+
+// Data exceptions (22xxx) and integrity violations (23xxx), such as the check_violation raised
+// by validate_report, a refused permission (42501) and exceptions raised without a code (P0001).
+// Other errors, a lost connection above all, are worth retrying.
+function isPermanentFailure(err: unknown) {
+  const code = (err as { code?: string })?.code ?? '';
+  return code.startsWith('22') || code.startsWith('23') || code === '42501' || code === 'P0001';
+}
+
+function awaitingSync(entry: OutboxEntry) {
+  return entry.status === 'pending' || entry.status === 'failed';
+}
+
+async function syncEntry(entry: OutboxEntry) {
+  // submit_report files the report under whoever is signed in when it is sent.
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!entry.user_id || session?.user.id !== entry.user_id) return;
+
+  try {
+    const { protocol_number } = await submitReport(entry.report, entry.infractions);
+    await putEntry({
+      ...entry,
+      protocol_number,
+      status: 'synced',
+      attempts: entry.attempts + 1,
+      error: null,
+      synced_at: new Date().toISOString(),
+    });
+  } catch (err) {
+    console.error('Error syncing outbox entry:', err);
+    await putEntry({
+      ...entry,
+      status: isPermanentFailure(err) ? 'rejected' : 'failed',
+      attempts: entry.attempts + 1,
+      error: (err as { message?: string })?.message ?? String(err),
+    });
+  }
+}
+
+/**
+ * Sends every report of the given user that is pending or failed. `submit_report` is idempotent
+ * on the client id, so resending an entry whose response was lost is safe.
+ */
+export function syncOutbox(userId: string) {
+  if (!syncPromise) {
+    syncPromise = (async () => {
+      if (!navigator.onLine) return;
+
+      const entries = await listOutbox(userId);
+      for (const entry of entries.reverse()) {
+        if (entry.user_id === userId && awaitingSync(entry)) {
+          await syncEntry(entry);
+        }
+      }
+    })().finally(() => {
+      syncPromise = null;
+    });
+  }
+  return syncPromise;
+}
+
+/** Sends a single queued report right away and resolves with its updated entry. */
+export async function sendQueuedReport(clientId: string) {
+  await syncPromise?.catch(() => undefined);
+
+  const entry = await getOutboxEntry(clientId);
+  if (entry && awaitingSync(entry) && navigator.onLine) {
+    await syncEntry(entry);
+  }
+  return getOutboxEntry(clientId);
+}
+
+/** Attributes an entry queued before entries recorded their agent to the given user. */
+export async function claimOutboxEntry(clientId: string, userId: string) {
+  const entry = await getOutboxEntry(clientId);
+  if (entry && !entry.user_id) {
+    await putEntry({ ...entry, user_id: userId });
+  }
+}
+
+export async function removeOutboxEntry(clientId: string) {
+  await withStore('readwrite', (store) => store.delete(clientId));
+  notify();
+}
+
+/** Syncs the user's entries on sign-in and whenever the browser reports the connection is back. */
+export function startOutboxSync(userId: string) {
+  const handleOnline = () => {
+    syncOutbox(userId).catch((err) => console.error('Outbox sync failed:', err));
+  };
+
+  window.addEventListener('online', handleOnline);
+  handleOnline();
+
+  return () => window.removeEventListener('online', handleOnline);
+}
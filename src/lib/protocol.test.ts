@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { isProtocolNumber, parseProtocol, protocolCheckDigit } from './protocol';
+
+// The same numbers are checked against protocol_check_digit and format_protocol in
+// supabase/tests/database/protocol.test.sql; change both together.
+
+describe('protocolCheckDigit', () => {
+  it.each([
+    // The usual Luhn example.
+    ['7992739871', 3],
+    ['2026000123', 3],
+    ['2026000001', 1],
+    ['2025000042', 7],
+    ['20261234567', 0],
+  ])('%s → %i', (digits, checkDigit) => {
+    expect(protocolCheckDigit(digits)).toBe(checkDigit);
+  });
+
+  it('catches two swapped digits', () => {
+    expect(protocolCheckDigit('2026000132')).not.toBe(protocolCheckDigit('2026000123'));
+  });
+});
+
+describe('parseProtocol', () => {
+  it('reads a protocol typed with any spacing, hyphens or case', () => {
+    expect(parseProtocol(' geo 2026 000123 3 ')).toEqual({ protocol: 'GEO-2026-000123-3', checkDigitValid: true });
+    expect(parseProtocol('GEO2026000123-3')).toEqual({ protocol: 'GEO-2026-000123-3', checkDigitValid: true });
+  });
+
+  it('keeps sequences longer than six digits', () => {
+    expect(parseProtocol('GEO-2026-1234567-0')).toEqual({ protocol: 'GEO-2026-1234567-0', checkDigitValid: true });
+  });
+
+  it('flags a wrong check digit', () => {
+    expect(parseProtocol('GEO-2026-000123-4')).toEqual({ protocol: 'GEO-2026-000123-4', checkDigitValid: false });
+    expect(parseProtocol('GEO-2026-000132-3')?.checkDigitValid).toBe(false);
+  });
+
+  it.each(['', 'GEO-2026-00123-3', 'ABC-2026-000123-3', 'a1b2c3d4e5'])('rejects %j', (input) => {
+    expect(parseProtocol(input)).toBeNull();
+  });
+});
+
+describe('isProtocolNumber', () => {
+  it('accepts only the canonical form', () => {
+    expect(isProtocolNumber('GEO-2026-000123-3')).toBe(true);
+    expect(isProtocolNumber('geo-2026-000123-3')).toBe(false);
+    expect(isProtocolNumber('GEO2026000123-3')).toBe(false);
+  });
+});
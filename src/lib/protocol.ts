@@ -0,0 +1,68 @@
+import supabase from '../supabase';
+import { toReportStatus, type ReportStatus } from './reports';
+
+// GEO-<year>-<sequence>-<check digit>; numbers are issued by the database on submission
+// (see 20261019270000_protocol_numbers.sql), which uses the same check digit.
+const PROTOCOL_PATTERN = /^GEO(\d{4})(\d{6,})(\d)$/;
+
+/** Luhn check digit of a string of digits. */
+export function protocolCheckDigit(digits: string) {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[index]);
+    if ((digits.length - index) % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+export interface ParsedProtocol {
+  // Canonical form, e.g. GEO-2026-000123-3.
+  protocol: string;
+  checkDigitValid: boolean;
+}
+
+/**
+ * Reads a protocol typed or dictated with any spacing, hyphens or case. Returns null when
+ * the text does not have the shape of a protocol number at all.
+ */
+export function parseProtocol(input: string): ParsedProtocol | null {
+  const match = input.toUpperCase().replace(/[^A-Z0-9]/g, '').match(PROTOCOL_PATTERN);
+  if (!match) return null;
+
+  const [, year, sequence, checkDigit] = match;
+  return {
+    protocol: `GEO-${year}-${sequence}-${checkDigit}`,
+    checkDigitValid: protocolCheckDigit(year + sequence) === Number(checkDigit),
+  };
+}
+
+export function isProtocolNumber(value: string) {
+  return parseProtocol(value)?.protocol === value;
+}
+
+export interface ProtocolLookup {
+  protocol_number: string;
+  status: ReportStatus;
+  revision: number;
+  sector: string;
+  shift_date: string;
+  created_at: string;
+  updated_at: string | null;
+  reviewed_at: string | null;
+}
+
+/**
+ * Finds a report by protocol number, or by the device id printed on receipts issued before
+ * protocols were numbered. Any signed-in user may verify a protocol; only its status is returned.
+ */
+export async function lookupProtocol(reference: string) {
+  const { data, error } = await supabase.rpc('lookup_protocol', { p_reference: reference });
+
+  if (error) throw error;
+  const [row] = data;
+  return row ? { ...row, status: toReportStatus(row.status) } : null;
+}
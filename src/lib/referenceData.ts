@@ -0,0 +1,118 @@
+import { createContext, useContext } from 'react';
+import supabase from '../supabase';
+import {
+  bundledSectorOptions,
+  bundledServiceOptions,
+  setSectorOptions,
+  setServiceOptions,
+  type SectorOption,
+  type ServiceOption,
+} from '../reportOptions';
+
+export interface ReferenceData {
+  services: ServiceOption[];
+  sectors: SectorOption[];
+}
+
+// Last lists read from the server, so the Form keeps new units while offline.
+const CACHE_KEY = 'geotranote.referenceData';
+
+export const bundledReferenceData: ReferenceData = {
+  services: bundledServiceOptions,
+  sectors: bundledSectorOptions,
+};
+
+/** Every service type and sector, including inactive ones. */
+export async function fetchReferenceData(): Promise<ReferenceData> {
+  const [services, sectors] = await Promise.all([
+    supabase.from('service_types').select('value, label, sort_order, active'),
+    supabase.from('sectors').select('value, label, parent_value, selectable, sort_order, active'),
+  ]);
+
+  if (services.error) throw services.error;
+  if (sectors.error) throw sectors.error;
+
+  return {
+    services: (services.data ?? []).map((row) => ({
+      value: row.value,
+      label: row.label,
+      sortOrder: row.sort_order,
+      active: row.active,
+    })),
+    sectors: (sectors.data ?? []).map((row) => ({
+      value: row.value,
+      label: row.label,
+      parent: row.parent_value,
+      selectable: row.selectable,
+      sortOrder: row.sort_order,
+      active: row.active,
+    })),
+  };
+}
+
+function readCachedReferenceData() {
+  try {
+    const cached = localStorage.getItem(CACHE_KEY);
+    return cached ? (JSON.parse(cached) as ReferenceData) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Loads the lists from the server, falling back to the last cached copy and then to the
+ * bundled one, and makes them the lists of the label helpers in reportOptions.ts.
+ */
+export async function loadReferenceData() {
+  let data: ReferenceData;
+  try {
+    data = await fetchReferenceData();
+    localStorage.setItem(CACHE_KEY, JSON.stringify(data));
+  } catch (err) {
+    console.error('Error fetching reference data:', err);
+    data = readCachedReferenceData() ?? bundledReferenceData;
+  }
+
+  setServiceOptions(data.services);
+  setSectorOptions(data.sectors);
+  return data;
+}
+
+export interface ReferenceDataState extends ReferenceData {
+  reload: () => Promise<void>;
+}
+
+export const ReferenceDataContext = createContext<ReferenceDataState>({
+  ...bundledReferenceData,
+  reload: async () => undefined,
+});
+
+export function useReferenceData() {
+  return useContext(ReferenceDataContext);
+}
+
+/** Creates or updates a service type; `value` is the key stored on reports. */
+export async function saveServiceType(option: ServiceOption) {
+  const { error } = await supabase.from('service_types').upsert({
+    value: option.value,
+    label: option.label,
+    sort_order: option.sortOrder,
+    active: option.active,
+  });
+
+  if (error) throw error;
+}
+
+/** Creates or updates a sector; `value` is the key stored on reports and user profiles. */
+export async function saveSector(option: SectorOption) {
+  const { error } = await supabase.from('sectors').upsert({
+    value: option.value,
+    label: option.label,
+    parent_value: option.parent,
+    selectable: option.selectable,
+    sort_order: option.sortOrder,
+    active: option.active,
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,484 @@
+import supabase from '../supabase';
+import type { Json } from './database.types';
+import type { OptionalLocation } from './geolocation';
+import { isMotorcycle } from '../reportOptions';
+import { isProtocolNumber } from './protocol';
+
+// The *Input types are sent as jsonb arguments of the database functions. They are type
+// aliases rather than interfaces because only those are assignable to Json.
+
+/** One vehicle towed during the shift. */
+export type RemovalInput = {
+  vehicle_type: string;
+  plate: string;
+  // Catalog key of the infraction that justified the removal.
+  infraction_type: string;
+  depot: string;
+  tow_truck: string;
+};
+
+export type ReportInput = OptionalLocation & {
+  // Random id generated on the device: the outbox key and what makes submission idempotent.
+  // The protocol number is only issued by the server.
+  client_id: string;
+  service_name: string;
+  sector: string;
+  // Day the shift happened (`YYYY-MM-DD`); all date filters use it instead of created_at.
+  shift_date: string;
+  shift_start: string | null;
+  shift_end: string | null;
+  vehicle_prefix: string | null;
+  team_members: string[];
+  // Derived from `removals` (see removalCounters); kept for the per-report aggregates.
+  car_removals: number;
+  motorcycle_removals: number;
+  total_approaches: number;
+  removals: RemovalInput[];
+};
+
+export function removalCounters(removals: Pick<RemovalInput, 'vehicle_type'>[]) {
+  const motorcycles = removals.filter((removal) => isMotorcycle(removal.vehicle_type)).length;
+  return { car_removals: removals.length - motorcycles, motorcycle_removals: motorcycles };
+}
+
+/** One auto de infração (AIT) behind a detailed infraction line. */
+export type InfractionDetailInput = {
+  plate: string;
+  vehicle_type: string;
+  ait_number: string;
+  infraction_time: string | null;
+  street: string;
+};
+
+export type InfractionInput = OptionalLocation & {
+  infraction_type: string;
+  // Derived from `details` when the line is detailed; the server recomputes it.
+  quantity: number;
+  details?: InfractionDetailInput[];
+};
+
+/** Quantity of a line: the number of autos when detailed, the typed count otherwise. */
+export function lineQuantity(infraction: Pick<InfractionInput, 'quantity' | 'details'>) {
+  return infraction.details && infraction.details.length > 0 ? infraction.details.length : infraction.quantity;
+}
+
+function infractionPayload(infractions: InfractionInput[]) {
+  return infractions.map(({ infraction_type, quantity, details, latitude, longitude, location_accuracy }) => ({
+    infraction_type,
+    quantity: lineQuantity({ quantity, details }),
+    details: details ?? [],
+    latitude: latitude ?? null,
+    longitude: longitude ?? null,
+    location_accuracy: location_accuracy ?? null,
+  }));
+}
+
+/**
+ * Saves a report and its infraction lines through the `submit_report` function,
+ * which is transactional and idempotent on `client_id`. Resolves with the report uid and
+ * the protocol number issued for it.
+ */
+export async function submitReport(report: ReportInput, infractions: InfractionInput[]) {
+  const { data, error } = await supabase.rpc('submit_report', {
+    report: report,
+    infractions: infractionPayload(infractions),
+  });
+
+  if (error) throw error;
+  if (data.length === 0) throw new Error('O servidor não devolveu o relatório enviado');
+  return data[0];
+}
+
+export interface InfractionDetail {
+  uid: string;
+  plate: string | null;
+  vehicle_type: string | null;
+  ait_number: string | null;
+  infraction_time: string | null;
+  street: string | null;
+}
+
+/** Converts stored details back to the editable shape used by the forms and the receipt. */
+export function toDetailInputs(details: InfractionDetail[]): InfractionDetailInput[] {
+  return details.map((detail) => ({
+    plate: detail.plate ?? '',
+    vehicle_type: detail.vehicle_type ?? '',
+    ait_number: detail.ait_number ?? '',
+    infraction_time: detail.infraction_time?.slice(0, 5) ?? null,
+    street: detail.street ?? '',
+  }));
+}
+
+export interface Removal {
+  uid: string;
+  vehicle_type: string;
+  plate: string | null;
+  infraction_type: string | null;
+  depot: string | null;
+  tow_truck: string | null;
+}
+
+export function toRemovalInputs(removals: Removal[]): RemovalInput[] {
+  return removals.map((removal) => ({
+    vehicle_type: removal.vehicle_type,
+    plate: removal.plate ?? '',
+    infraction_type: removal.infraction_type ?? '',
+    depot: removal.depot ?? '',
+    tow_truck: removal.tow_truck ?? '',
+  }));
+}
+
+export interface ReportInfraction {
+  uid: string;
+  infraction_type: string;
+  // Catalog version in force on the shift date; null for keys the catalog does not know.
+  catalog_id: number | null;
+  quantity: number;
+  latitude: number | null;
+  longitude: number | null;
+  location_accuracy: number | null;
+  infraction_details: InfractionDetail[];
+}
+
+export type ReportStatus = 'submitted' | 'under_review' | 'approved' | 'returned';
+
+export const reportStatusLabels: Record<ReportStatus, string> = {
+  submitted: 'Enviado',
+  under_review: 'Em análise',
+  approved: 'Aprovado',
+  returned: 'Devolvido',
+};
+
+function isReportStatus(value: string): value is ReportStatus {
+  return Object.keys(reportStatusLabels).includes(value);
+}
+
+// The status columns are text with a check constraint, so the generated types only say string.
+export function toReportStatus(value: string): ReportStatus {
+  if (!isReportStatus(value)) throw new Error(`Situação de relatório desconhecida: ${value}`);
+  return value;
+}
+
+function toReport<Row extends { status: string }>(row: Row) {
+  return { ...row, status: toReportStatus(row.status) };
+}
+
+export interface Report {
+  uid: string;
+  protocol_number: string;
+  client_id: string;
+  service_name: string;
+  sector: string;
+  shift_date: string;
+  shift_start: string | null;
+  shift_end: string | null;
+  vehicle_prefix: string | null;
+  team_members: string[];
+  car_removals: number;
+  motorcycle_removals: number;
+  total_approaches: number;
+  latitude: number | null;
+  longitude: number | null;
+  location_accuracy: number | null;
+  created_at: string;
+  submitted_by: string | null;
+  submitted_by_name: string | null;
+  revision: number;
+  updated_at: string | null;
+  status: ReportStatus;
+  reviewed_at: string | null;
+  review_comment: string | null;
+  infractions: ReportInfraction[];
+  removals: Removal[];
+}
+
+export type ReportSortColumn =
+  | 'shift_date'
+  | 'service_name'
+  | 'sector'
+  | 'total_approaches'
+  | 'car_removals'
+  | 'motorcycle_removals';
+
+export interface ReportQuery {
+  service: string;
+  sector: string;
+  start: string;
+  end: string;
+  sort: ReportSortColumn;
+  ascending: boolean;
+  page: number;
+  status?: ReportStatus | '';
+  // Restricts the list to reports submitted by this user id.
+  submittedBy?: string;
+  // Every sector the `sector` filter covers, i.e. it and the sectors below it in the tree.
+  sectorScope?: string[];
+}
+
+export const REPORTS_PAGE_SIZE = 20;
+
+// A single literal so supabase-js can infer the row type from it.
+const REPORT_COLUMNS =
+  '*, infractions(uid, infraction_type, catalog_id, quantity, latitude, longitude, location_accuracy, infraction_details(uid, plate, vehicle_type, ait_number, infraction_time, street)), removals(uid, vehicle_type, plate, infraction_type, depot, tow_truck)';
+
+export async function fetchReports(query: ReportQuery) {
+  let reportsQuery = supabase
+    .from('geotranote_reports')
+    .select(REPORT_COLUMNS, { count: 'exact' })
+    .order(query.sort, { ascending: query.ascending })
+    .range(query.page * REPORTS_PAGE_SIZE, (query.page + 1) * REPORTS_PAGE_SIZE - 1);
+
+  if (query.submittedBy) {
+    reportsQuery = reportsQuery.eq('submitted_by', query.submittedBy);
+  }
+
+  if (query.status) {
+    reportsQuery = reportsQuery.eq('status', query.status);
+  }
+
+  if (query.service) {
+    reportsQuery = reportsQuery.eq('service_name', query.service);
+  }
+
+  if (query.sectorScope && query.sectorScope.length > 0) {
+    reportsQuery = reportsQuery.in('sector', query.sectorScope);
+  } else if (query.sector) {
+    reportsQuery = reportsQuery.eq('sector', query.sector);
+  }
+
+  if (query.start) {
+    reportsQuery = reportsQuery.gte('shift_date', query.start);
+  }
+
+  if (query.end) {
+    reportsQuery = reportsQuery.lte('shift_date', query.end);
+  }
+
+  const { data, error, count } = await reportsQuery;
+
+  if (error) throw error;
+  return { reports: data.map(toReport), count: count ?? 0 };
+}
+
+/**
+ * Loads a report by protocol number, or by its client id: receipts printed before the report
+ * was synced, or before protocols were numbered, show the id generated on the device.
+ */
+export async function fetchReport(reference: string) {
+  const { data, error } = await supabase
+    .from('geotranote_reports')
+    .select(REPORT_COLUMNS)
+    .eq(isProtocolNumber(reference) ? 'protocol_number' : 'client_id', reference)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data && toReport(data);
+}
+
+function pad(value: number) {
+  return String(value).padStart(2, '0');
+}
+
+/** Today's date on this device as `YYYY-MM-DD`, the default shift date of a new report. */
+export function todayDateKey() {
+  const now = new Date();
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+export function formatShiftDate(value: string) {
+  const [year, month, day] = value.split('-');
+  return `${day}/${month}/${year}`;
+}
+
+/** Start and end of the shift as `HH:MM – HH:MM`; the database returns seconds as well. */
+export function formatShiftTime(report: Pick<ReportInput, 'shift_start' | 'shift_end'>) {
+  if (!report.shift_start && !report.shift_end) return null;
+  return `${report.shift_start?.slice(0, 5) ?? '--:--'} – ${report.shift_end?.slice(0, 5) ?? '--:--'}`;
+}
+
+/** Splits the comma-separated team field of the forms into member names. */
+export function parseTeamMembers(value: string) {
+  return value
+    .split(',')
+    .map((member) => member.trim())
+    .filter(Boolean);
+}
+
+export function totalInfractions(report: Pick<Report, 'infractions'>) {
+  return report.infractions.reduce((sum, infraction) => sum + infraction.quantity, 0);
+}
+
+// The report location is fixed at submission; amendments only touch the counters and lines.
+export type ReportSnapshot = Omit<ReportInput, 'client_id' | keyof OptionalLocation> & {
+  infractions: InfractionInput[];
+};
+
+/** Values kept in a revision. Snapshots taken before a field existed do not carry it. */
+export type RevisionSnapshot = Partial<ReportSnapshot>;
+
+export interface ReportRevision {
+  id: number;
+  revision: number;
+  changed_by: string;
+  changed_by_email: string | null;
+  changed_at: string;
+  reason: string;
+  old_values: RevisionSnapshot;
+  new_values: RevisionSnapshot;
+}
+
+type JsonObject = { [key: string]: Json | undefined };
+
+function isJsonObject(value: Json | undefined): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function jsonText(value: Json | undefined) {
+  return typeof value === 'string' ? value : '';
+}
+
+function jsonCount(value: Json | undefined) {
+  return typeof value === 'number' ? value : 0;
+}
+
+/** Reads a jsonb snapshot written by report_snapshot, keeping only the fields it carries. */
+function toRevisionSnapshot(value: Json): RevisionSnapshot {
+  const snapshot: RevisionSnapshot = {};
+  if (!isJsonObject(value)) return snapshot;
+
+  (['service_name', 'sector', 'shift_date'] as const).forEach((field) => {
+    if (field in value) snapshot[field] = jsonText(value[field]);
+  });
+  (['shift_start', 'shift_end', 'vehicle_prefix'] as const).forEach((field) => {
+    if (field in value) snapshot[field] = value[field] == null ? null : jsonText(value[field]);
+  });
+  (['total_approaches', 'car_removals', 'motorcycle_removals'] as const).forEach((field) => {
+    if (field in value) snapshot[field] = jsonCount(value[field]);
+  });
+
+  if (Array.isArray(value.team_members)) {
+    snapshot.team_members = value.team_members.map(jsonText);
+  }
+  if (Array.isArray(value.removals)) {
+    snapshot.removals = value.removals.filter(isJsonObject).map((removal) => ({
+      vehicle_type: jsonText(removal.vehicle_type),
+      plate: jsonText(removal.plate),
+      infraction_type: jsonText(removal.infraction_type),
+      depot: jsonText(removal.depot),
+      tow_truck: jsonText(removal.tow_truck),
+    }));
+  }
+  if (Array.isArray(value.infractions)) {
+    snapshot.infractions = value.infractions.filter(isJsonObject).map((line) => ({
+      infraction_type: jsonText(line.infraction_type),
+      quantity: jsonCount(line.quantity),
+    }));
+  }
+  return snapshot;
+}
+
+/**
+ * Applies an amendment through `amend_report`, which updates the report in place and
+ * records the old and new values as a revision. Resolves with the new revision number.
+ */
+export async function amendReport(reportUid: string, snapshot: ReportSnapshot, reason: string) {
+  const { infractions, ...report } = snapshot;
+  const { data, error } = await supabase.rpc('amend_report', {
+    p_report_uid: reportUid,
+    report: report,
+    infractions: infractionPayload(infractions),
+    reason,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchRevisions(reportUid: string) {
+  const { data, error } = await supabase
+    .from('report_revisions')
+    .select('*')
+    .eq('report_uid', reportUid)
+    .order('revision', { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []).map((row): ReportRevision => ({
+    ...row,
+    old_values: toRevisionSnapshot(row.old_values),
+    new_values: toRevisionSnapshot(row.new_values),
+  }));
+}
+
+/**
+ * Reports waiting for a decision, oldest first. RLS limits supervisors to their sector.
+ */
+export async function fetchReviewQueue() {
+  const { data, error } = await supabase
+    .from('geotranote_reports')
+    .select(REPORT_COLUMNS)
+    .in('status', ['submitted', 'under_review'])
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data.map(toReport);
+}
+
+export interface ReportReview {
+  id: number;
+  from_status: ReportStatus;
+  to_status: ReportStatus;
+  comment: string | null;
+  changed_by: string;
+  changed_by_email: string | null;
+  changed_at: string;
+}
+
+/**
+ * Moves a report through the review workflow with `review_report`. Returning a report
+ * requires a comment, which is shown to the agent who submitted it.
+ */
+export async function reviewReport(
+  reportUid: string,
+  status: Extract<ReportStatus, 'under_review' | 'approved' | 'returned'>,
+  comment?: string
+) {
+  const { error } = await supabase.rpc('review_report', {
+    p_report_uid: reportUid,
+    p_status: status,
+    p_comment: comment,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Saves the agent's fixes to a returned report and sends it back to the review queue.
+ * The change is recorded as a revision, like an amendment. Resolves with the new revision number.
+ */
+export async function resubmitReport(reportUid: string, snapshot: ReportSnapshot, comment: string) {
+  const { infractions, ...report } = snapshot;
+  const { data, error } = await supabase.rpc('resubmit_report', {
+    p_report_uid: reportUid,
+    report: report,
+    infractions: infractionPayload(infractions),
+    p_comment: comment,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchReviews(reportUid: string) {
+  const { data, error } = await supabase
+    .from('report_reviews')
+    .select('*')
+    .eq('report_uid', reportUid)
+    .order('changed_at', { ascending: false });
+
+  if (error) throw error;
+  return data.map((row): ReportReview => ({
+    ...row,
+    from_status: toReportStatus(row.from_status),
+    to_status: toReportStatus(row.to_status),
+  }));
+}
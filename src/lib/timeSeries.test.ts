@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { fillTimeSeries, parseDateKey } from './timeSeries';
+
+const bucket = (key: string, approaches: number) => ({
+  bucket: key,
+  approaches,
+  infractions: 0,
+  car_removals: 0,
+  motorcycle_removals: 0,
+});
+
+const keys = (points: { bucket: string }[]) => points.map((point) => point.bucket);
+
+describe('parseDateKey', () => {
+  it('reads the value as local midnight', () => {
+    expect(parseDateKey('2026-10-19')).toEqual(new Date(2026, 9, 19));
+  });
+});
+
+describe('fillTimeSeries', () => {
+  it('adds empty days between the ones with data', () => {
+    const series = fillTimeSeries([bucket('2026-10-01', 3), bucket('2026-10-04', 2)], 'day', { start: '', end: '' });
+    expect(keys(series)).toEqual(['2026-10-01', '2026-10-02', '2026-10-03', '2026-10-04']);
+    expect(series.map((point) => point.approaches)).toEqual([3, 0, 0, 2]);
+  });
+
+  it('covers the whole selected range', () => {
+    const series = fillTimeSeries([bucket('2026-10-02', 1)], 'day', { start: '2026-10-01', end: '2026-10-03' });
+    expect(keys(series)).toEqual(['2026-10-01', '2026-10-02', '2026-10-03']);
+  });
+
+  it('starts weeks on Monday', () => {
+    const series = fillTimeSeries([], 'week', { start: '2026-10-01', end: '2026-10-14' });
+    expect(keys(series)).toEqual(['2026-09-28', '2026-10-05', '2026-10-12']);
+  });
+
+  it('starts months on the first day', () => {
+    const series = fillTimeSeries([bucket('2026-12-01', 4)], 'month', { start: '2026-10-19', end: '2027-01-05' });
+    expect(keys(series)).toEqual(['2026-10-01', '2026-11-01', '2026-12-01', '2027-01-01']);
+    expect(series[2].approaches).toBe(4);
+  });
+
+  it('returns nothing without data or a full range', () => {
+    expect(fillTimeSeries([], 'day', { start: '2026-10-01', end: '' })).toEqual([]);
+  });
+
+  it('stops at 400 buckets', () => {
+    expect(fillTimeSeries([], 'day', { start: '2020-01-01', end: '2026-10-19' })).toHaveLength(400);
+  });
+});
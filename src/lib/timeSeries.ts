@@ -0,0 +1,114 @@
+import type { SeriesBucket } from './dashboard';
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export interface SeriesPoint {
+  bucket: string;
+  label: string;
+  approaches: number;
+  infractions: number;
+  carRemovals: number;
+  motorcycleRemovals: number;
+}
+
+// Guards against rendering thousands of empty buckets for a very wide date range.
+const MAX_BUCKETS = 400;
+
+export const granularityLabels: Record<Granularity, string> = {
+  day: 'Dia',
+  week: 'Semana',
+  month: 'Mês',
+};
+
+function pad(value: number) {
+  return String(value).padStart(2, '0');
+}
+
+function toDateKey(date: Date) {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Parses a `YYYY-MM-DD` value from a date input as local midnight. */
+export function parseDateKey(value: string) {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function bucketStart(date: Date, granularity: Granularity) {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (granularity === 'week') {
+    // Weeks start on Monday.
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  } else if (granularity === 'month') {
+    start.setDate(1);
+  }
+  return start;
+}
+
+function nextBucket(date: Date, granularity: Granularity) {
+  const next = new Date(date);
+  if (granularity === 'day') {
+    next.setDate(next.getDate() + 1);
+  } else if (granularity === 'week') {
+    next.setDate(next.getDate() + 7);
+  } else {
+    next.setMonth(next.getMonth() + 1);
+  }
+  return next;
+}
+
+function bucketLabel(date: Date, granularity: Granularity) {
+  if (granularity === 'month') {
+    return date.toLocaleDateString('pt-BR', { month: 'short', year: '2-digit' });
+  }
+  return date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+}
+
+function emptyPoint(date: Date, granularity: Granularity): SeriesPoint {
+  return {
+    bucket: toDateKey(date),
+    label: bucketLabel(date, granularity),
+    approaches: 0,
+    infractions: 0,
+    carRemovals: 0,
+    motorcycleRemovals: 0,
+  };
+}
+
+/**
+ * Turns the buckets returned by the database into chart points. Buckets without data inside
+ * the selected range are added as zeros so gaps show up on the charts.
+ */
+export function fillTimeSeries(
+  buckets: SeriesBucket[],
+  granularity: Granularity,
+  range: { start: string; end: string }
+) {
+  const points = new Map<string, SeriesPoint>();
+
+  buckets.forEach((bucket) => {
+    const start = parseDateKey(bucket.bucket);
+    points.set(bucket.bucket, {
+      ...emptyPoint(start, granularity),
+      approaches: bucket.approaches,
+      infractions: bucket.infractions,
+      carRemovals: bucket.car_removals,
+      motorcycleRemovals: bucket.motorcycle_removals,
+    });
+  });
+
+  const keys = [...points.keys()].sort();
+  if (keys.length === 0 && !(range.start && range.end)) {
+    return [];
+  }
+
+  const first = bucketStart(parseDateKey(range.start || keys[0]), granularity);
+  const last = bucketStart(parseDateKey(range.end || keys[keys.length - 1]), granularity);
+
+  const series: SeriesPoint[] = [];
+  for (let date = first; date <= last && series.length < MAX_BUCKETS; date = nextBucket(date, granularity)) {
+    const key = toDateKey(date);
+    series.push(points.get(key) ?? emptyPoint(date, granularity));
+  }
+  return series;
+}
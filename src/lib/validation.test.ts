@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import type { InfractionDetailInput, InfractionInput, RemovalInput } from './reports';
+import {
+  hasErrors,
+  isValidPlate,
+  mergeInfractionLines,
+  normalizePlate,
+  validateDetails,
+  validateReport,
+  type ReportDraft,
+} from './validation';
+
+// The same cases are checked against the database functions in
+// supabase/tests/database/validation.test.sql; change both together.
+
+const today = '2026-10-19';
+
+const report = (changes: Partial<ReportDraft> = {}): ReportDraft => ({
+  service_name: 'blitz',
+  sector: 'centro',
+  shift_date: today,
+  shift_start: '07:00',
+  shift_end: '19:00',
+  vehicle_prefix: 'VTR-01',
+  total_approaches: 10,
+  removals: [],
+  ...changes,
+});
+
+const detail = (ait_number: string, plate = 'ABC1234'): InfractionDetailInput => ({
+  plate,
+  vehicle_type: 'automovel',
+  ait_number,
+  infraction_time: null,
+  street: '',
+});
+
+const removal = (changes: Partial<RemovalInput> = {}): RemovalInput => ({
+  vehicle_type: 'automovel',
+  plate: 'ABC1234',
+  infraction_type: '5010-0',
+  depot: '',
+  tow_truck: '',
+  ...changes,
+});
+
+describe('isValidPlate', () => {
+  it.each([
+    ['ABC1234', true],
+    ['ABC1D23', true],
+    ['abc-1234', true],
+    ['abc 1d23', true],
+    ['AB1234', false],
+    ['ABCD123', false],
+    ['ABC12345', false],
+    ['ABC1DD3', false],
+    ['', false],
+  ])('%s → %s', (plate, valid) => {
+    expect(isValidPlate(plate)).toBe(valid);
+  });
+
+  it('compares plates without punctuation or case', () => {
+    expect(normalizePlate(' abc-1d23 ')).toBe('ABC1D23');
+  });
+});
+
+describe('validateDetails', () => {
+  it('accepts complete autos', () => {
+    expect(validateDetails([detail('A1'), detail('A2', 'XYZ9Z99')])).toBeNull();
+  });
+
+  it('requires at least one auto', () => {
+    expect(validateDetails([])).toBe('Adicione ao menos um auto de infração.');
+  });
+
+  it('requires the AIT number and the plate', () => {
+    expect(validateDetails([detail('A1'), detail(' ')])).toBe('Auto 2: informe o número do AIT e a placa.');
+  });
+
+  it('rejects invalid plates', () => {
+    expect(validateDetails([detail('A1', 'AB123')])).toBe('Auto 1: placa AB123 inválida.');
+  });
+
+  it('rejects repeated AIT numbers regardless of case and spaces', () => {
+    expect(validateDetails([detail('a1'), detail(' A1 ')])).toBe('O AIT A1 foi informado mais de uma vez.');
+  });
+});
+
+describe('mergeInfractionLines', () => {
+  it('adds up aggregate lines of the same infraction', () => {
+    const lines: InfractionInput[] = [
+      { infraction_type: '5010-0', quantity: 2 },
+      { infraction_type: '5029-1', quantity: 1 },
+      { infraction_type: '5010-0', quantity: 3 },
+    ];
+    expect(mergeInfractionLines(lines)).toEqual([
+      { infraction_type: '5010-0', quantity: 5 },
+      { infraction_type: '5029-1', quantity: 1 },
+    ]);
+  });
+
+  it('appends the autos of detailed lines and keeps the first location', () => {
+    const lines: InfractionInput[] = [
+      { infraction_type: '5010-0', quantity: 1, details: [detail('A1')], latitude: -15.8, longitude: -47.9 },
+      { infraction_type: '5010-0', quantity: 1, details: [detail('A2')], latitude: -15.9, longitude: -48 },
+    ];
+    expect(mergeInfractionLines(lines)).toEqual([
+      { infraction_type: '5010-0', quantity: 2, details: [detail('A1'), detail('A2')], latitude: -15.8, longitude: -47.9 },
+    ]);
+  });
+
+  it('keeps aggregate and detailed lines of the same infraction apart', () => {
+    const lines: InfractionInput[] = [
+      { infraction_type: '5010-0', quantity: 2 },
+      { infraction_type: '5010-0', quantity: 1, details: [detail('A1')] },
+    ];
+    expect(mergeInfractionLines(lines)).toEqual(lines);
+  });
+});
+
+describe('validateReport', () => {
+  it('accepts a complete report', () => {
+    const validation = validateReport(report({ removals: [removal()] }), [{ infraction_type: '5010-0', quantity: 1 }], today);
+    expect(validation).toEqual({ errors: {}, warnings: [] });
+    expect(hasErrors(validation)).toBe(false);
+  });
+
+  it.each<[string, Partial<ReportDraft>, string, string]>([
+    ['a missing service type', { service_name: '' }, 'service_name', 'Selecione o tipo de serviço.'],
+    ['a missing sector', { sector: '' }, 'sector', 'Selecione o setor.'],
+    ['a missing shift date', { shift_date: '' }, 'shift_date', 'Informe a data do turno.'],
+    ['a shift date in the future', { shift_date: '2026-10-20' }, 'shift_date', 'A data do turno não pode estar no futuro.'],
+    ['a shift ending when it starts', { shift_end: '07:00' }, 'shift_end', 'O fim do turno deve ser diferente do início.'],
+    ['a long vehicle prefix', { vehicle_prefix: 'X'.repeat(21) }, 'vehicle_prefix', 'Use no máximo 20 caracteres.'],
+    ['negative approaches', { total_approaches: -1 }, 'total_approaches', 'Informe um número inteiro igual ou maior que zero.'],
+    ['fractional approaches', { total_approaches: 1.5 }, 'total_approaches', 'Informe um número inteiro igual ou maior que zero.'],
+    ['a removal without vehicle type', { removals: [removal({ vehicle_type: '' })] }, 'removals', 'Remoção 1: selecione o tipo de veículo.'],
+    ['a removal with an invalid plate', { removals: [removal(), removal({ plate: 'AB12' })] }, 'removals', 'Remoção 2: placa AB12 inválida.'],
+  ])('rejects %s', (_case, changes, field, message) => {
+    expect(validateReport(report(changes), [], today).errors).toEqual({ [field]: message });
+  });
+
+  it('accepts removals without a plate', () => {
+    expect(validateReport(report({ removals: [removal({ plate: '' })] }), [], today).errors).toEqual({});
+  });
+
+  it('rejects aggregate lines without a positive whole quantity', () => {
+    expect(validateReport(report(), [{ infraction_type: '5010-0', quantity: 0 }], today).errors).toEqual({
+      infractions: '5010-0: A quantidade deve ser um número inteiro maior que zero.',
+    });
+  });
+
+  it('rejects incomplete autos', () => {
+    const infractions = [{ infraction_type: '5010-0', quantity: 1, details: [detail('A1', 'AB12')] }];
+    expect(validateReport(report(), infractions, today).errors).toEqual({
+      infractions: '5010-0: Auto 1: placa AB12 inválida.',
+    });
+  });
+
+  it('rejects an AIT number repeated across lines', () => {
+    const infractions = [
+      { infraction_type: '5010-0', quantity: 1, details: [detail('A1')] },
+      { infraction_type: '5029-1', quantity: 1, details: [detail('a1')] },
+    ];
+    expect(validateReport(report(), infractions, today).errors).toEqual({
+      infractions: 'O AIT A1 foi informado mais de uma vez.',
+    });
+  });
+
+  it('warns about more infractions or removals than approaches without blocking', () => {
+    const validation = validateReport(
+      report({ total_approaches: 1, removals: [removal(), removal()] }),
+      [{ infraction_type: '5010-0', quantity: 3 }],
+      today
+    );
+    expect(hasErrors(validation)).toBe(false);
+    expect(validation.warnings).toEqual([
+      'Há 3 infrações para 1 abordagens. Confira o total de abordagens.',
+      'Há 2 remoções para 1 abordagens. Confira o total de abordagens.',
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import { lineQuantity, type InfractionDetailInput, type InfractionInput, type ReportInput } from './reports';
+
+// The same rules run in the database (validate_report in the migrations), so a report that
+// reaches the server from an old outbox entry or another client is held to them as well.
+// Errors block saving; warnings only ask the agent to double-check.
+
+export type ReportDraft = Pick<
+  ReportInput,
+  'service_name' | 'sector' | 'shift_date' | 'shift_start' | 'shift_end' | 'vehicle_prefix' | 'total_approaches' | 'removals'
+>;
+
+export type ReportField = keyof ReportDraft | 'infractions';
+
+export interface ReportValidation {
+  errors: Partial<Record<ReportField, string>>;
+  warnings: string[];
+}
+
+// Old grey plates (ABC1234) and Mercosul plates (ABC1D23), without the hyphen.
+const PLATE_PATTERN = /^[A-Z]{3}[0-9][A-Z0-9][0-9]{2}$/;
+
+export function normalizePlate(plate: string) {
+  return plate.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function isValidPlate(plate: string) {
+  return PLATE_PATTERN.test(normalizePlate(plate));
+}
+
+function isCount(value: number) {
+  return Number.isInteger(value) && value >= 0;
+}
+
+/** First problem with the autos of a detailed line, or null when they are all complete. */
+export function validateDetails(details: InfractionDetailInput[]) {
+  if (details.length === 0) return 'Adicione ao menos um auto de infração.';
+
+  for (const [index, detail] of details.entries()) {
+    if (!detail.ait_number.trim() || !detail.plate.trim()) {
+      return `Auto ${index + 1}: informe o número do AIT e a placa.`;
+    }
+    if (!isValidPlate(detail.plate)) {
+      return `Auto ${index + 1}: placa ${detail.plate} inválida.`;
+    }
+  }
+
+  const aitNumbers = details.map((detail) => detail.ait_number.trim().toUpperCase());
+  const repeated = aitNumbers.find((ait, index) => aitNumbers.indexOf(ait) !== index);
+  return repeated ? `O AIT ${repeated} foi informado mais de uma vez.` : null;
+}
+
+/**
+ * Folds repeated lines of the same infraction into one: counts are added up and autos are
+ * appended. Aggregate and detailed lines are kept apart, since the quantity of a detailed line
+ * is the number of its autos. The first line keeps its position and location.
+ */
+export function mergeInfractionLines<T extends InfractionInput>(lines: T[]): T[] {
+  const merged: T[] = [];
+  for (const line of lines) {
+    const detailed = (line.details?.length ?? 0) > 0;
+    const index = merged.findIndex(
+      (item) => item.infraction_type === line.infraction_type && ((item.details?.length ?? 0) > 0) === detailed
+    );
+
+    if (index === -1) {
+      merged.push(line);
+    } else if (detailed) {
+      const details = [...(merged[index].details ?? []), ...(line.details ?? [])];
+      merged[index] = { ...merged[index], details, quantity: details.length };
+    } else {
+      merged[index] = { ...merged[index], quantity: merged[index].quantity + line.quantity };
+    }
+  }
+  return merged;
+}
+
+export function validateReport(report: ReportDraft, infractions: InfractionInput[], today: string): ReportValidation {
+  const errors: ReportValidation['errors'] = {};
+  const warnings: string[] = [];
+
+  if (!report.service_name) errors.service_name = 'Selecione o tipo de serviço.';
+  if (!report.sector) errors.sector = 'Selecione o setor.';
+
+  if (!report.shift_date) {
+    errors.shift_date = 'Informe a data do turno.';
+  } else if (report.shift_date > today) {
+    errors.shift_date = 'A data do turno não pode estar no futuro.';
+  }
+
+  if (report.shift_start && report.shift_end && report.shift_start === report.shift_end) {
+    errors.shift_end = 'O fim do turno deve ser diferente do início.';
+  }
+
+  if ((report.vehicle_prefix ?? '').trim().length > 20) {
+    errors.vehicle_prefix = 'Use no máximo 20 caracteres.';
+  }
+
+  if (!isCount(report.total_approaches)) {
+    errors.total_approaches = 'Informe um número inteiro igual ou maior que zero.';
+  }
+
+  const removalIndex = report.removals.findIndex(
+    (removal) => !removal.vehicle_type || (removal.plate.trim() !== '' && !isValidPlate(removal.plate))
+  );
+  if (removalIndex !== -1) {
+    const removal = report.removals[removalIndex];
+    errors.removals = removal.vehicle_type
+      ? `Remoção ${removalIndex + 1}: placa ${removal.plate} inválida.`
+      : `Remoção ${removalIndex + 1}: selecione o tipo de veículo.`;
+  }
+
+  for (const infraction of infractions) {
+    const problem = infraction.details?.length
+      ? validateDetails(infraction.details)
+      : !Number.isInteger(infraction.quantity) || infraction.quantity < 1
+        ? 'A quantidade deve ser um número inteiro maior que zero.'
+        : null;
+    if (problem) {
+      errors.infractions = `${infraction.infraction_type}: ${problem}`;
+      break;
+    }
+  }
+
+  const allAits = infractions.flatMap((infraction) => infraction.details ?? []).map((detail) => detail.ait_number.trim().toUpperCase());
+  const repeatedAit = allAits.find((ait, index) => ait && allAits.indexOf(ait) !== index);
+  if (!errors.infractions && repeatedAit) {
+    errors.infractions = `O AIT ${repeatedAit} foi informado mais de uma vez.`;
+  }
+
+  const infractionCount = infractions.reduce((sum, infraction) => sum + lineQuantity(infraction), 0);
+  if (isCount(report.total_approaches)) {
+    if (infractionCount > report.total_approaches) {
+      warnings.push(
+        `Há ${infractionCount} infrações para ${report.total_approaches} abordagens. Confira o total de abordagens.`
+      );
+    }
+    if (report.removals.length > report.total_approaches) {
+      warnings.push(
+        `Há ${report.removals.length} remoções para ${report.total_approaches} abordagens. Confira o total de abordagens.`
+      );
+    }
+  }
+
+  return { errors, warnings };
+}
+
+export function hasErrors(validation: ReportValidation) {
+  return Object.keys(validation.errors).length > 0;
+}
@@ -0,0 +1,375 @@
+import { useState } from 'react';
+import { Plus } from 'lucide-react';
+import {
+  gravityLabels,
+  isInForce,
+  searchInfractionOptions,
+  type InfractionGravity,
+  type InfractionOption,
+} from '../infractionOptions';
+import {
+  retireInfractionVersion,
+  saveInfractionVersion,
+  useInfractionCatalog,
+  type InfractionVersionInput,
+} from '../lib/infractionCatalog';
+import { formatShiftDate, todayDateKey } from '../lib/reports';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const currencyFormatter = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const emptyVersion = (): InfractionVersionInput => ({
+  key: '',
+  description: '',
+  article: '',
+  gravity: null,
+  points: 0,
+  fine_amount: null,
+  effective_from: todayDateKey(),
+  effective_to: null,
+});
+
+function versionStatus(option: InfractionOption, today: string) {
+  if (isInForce(option, today)) return { label: 'Vigente', className: 'bg-green-100 text-green-800' };
+  if (option.effectiveFrom > today) return { label: 'Futura', className: 'bg-blue-100 text-blue-800' };
+  return { label: 'Encerrada', className: 'bg-gray-100 text-gray-700' };
+}
+
+export default function AdminInfractions() {
+  const { options, reload } = useInfractionCatalog();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showRetired, setShowRetired] = useState(false);
+  // Entry being added (editingKey null) or new version of editingKey.
+  const [draft, setDraft] = useState<InfractionVersionInput | null>(null);
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [retiring, setRetiring] = useState<{ id: number; date: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const today = todayDateKey();
+  const visible = searchInfractionOptions(options, searchTerm).filter(
+    (option) => showRetired || option.effectiveTo === null || option.effectiveTo >= today
+  );
+
+  const startAdding = () => {
+    setDraft(emptyVersion());
+    setEditingKey(null);
+    setError(null);
+  };
+
+  const startEditing = (option: InfractionOption) => {
+    setDraft({
+      key: option.key,
+      description: option.description,
+      article: option.article,
+      gravity: option.gravity,
+      points: option.points,
+      fine_amount: option.fineAmount,
+      effective_from: today > option.effectiveFrom ? today : option.effectiveFrom,
+      effective_to: null,
+    });
+    setEditingKey(option.key);
+    setError(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    if (!/^\d{4}-\d$/.test(draft.key.trim())) {
+      setError('Informe o código com desdobramento, por exemplo 5010-0.');
+      return;
+    }
+    if (!draft.description.trim()) {
+      setError('Informe a descrição da infração.');
+      return;
+    }
+    if (editingKey === null && options.some((option) => option.key === draft.key.trim())) {
+      setError(`O código ${draft.key.trim()} já existe; edite-o para criar uma nova versão.`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await saveInfractionVersion({ ...draft, key: draft.key.trim() });
+      await reload();
+      setDraft(null);
+      setEditingKey(null);
+    } catch (err) {
+      setError((err as { message?: string })?.message ?? 'Erro ao salvar a infração');
+      console.error('Error saving infraction version:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRetire = async () => {
+    if (!retiring) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await retireInfractionVersion(retiring.id, retiring.date);
+      await reload();
+      setRetiring(null);
+    } catch (err) {
+      setError((err as { message?: string })?.message ?? 'Erro ao desativar a infração');
+      console.error('Error retiring infraction version:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-2">Catálogo de infrações</h1>
+      <p className="text-gray-600 mb-6">
+        Cada alteração cria uma nova versão a partir da data informada; os relatórios de turnos anteriores
+        continuam com a versão vigente na data do turno.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 mb-6">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {draft && (
+        <form onSubmit={handleSave} className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+          <h2 className="text-lg font-medium text-gray-800">
+            {editingKey ? `Nova versão de ${editingKey}` : 'Nova infração'}
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="catalog-key" className="block text-sm font-medium text-gray-700 mb-2">Código</label>
+              <input
+                id="catalog-key"
+                type="text"
+                value={draft.key}
+                disabled={editingKey !== null}
+                onChange={(e) => setDraft({ ...draft, key: e.target.value })}
+                placeholder="0000-0"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="catalog-article" className="block text-sm font-medium text-gray-700 mb-2">Artigo do CTB</label>
+              <input
+                id="catalog-article"
+                type="text"
+                value={draft.article}
+                onChange={(e) => setDraft({ ...draft, article: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="catalog-gravity" className="block text-sm font-medium text-gray-700 mb-2">Gravidade</label>
+              <select
+                id="catalog-gravity"
+                value={draft.gravity ?? ''}
+                onChange={(e) => setDraft({ ...draft, gravity: (e.target.value || null) as InfractionGravity | null })}
+                className={inputClassName}
+              >
+                <option value="">Sem gravidade</option>
+                {(Object.keys(gravityLabels) as InfractionGravity[]).map((gravity) => (
+                  <option key={gravity} value={gravity}>{gravityLabels[gravity]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="catalog-description" className="block text-sm font-medium text-gray-700 mb-2">Descrição</label>
+            <textarea
+              id="catalog-description"
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              rows={2}
+              className={inputClassName}
+            />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label htmlFor="catalog-points" className="block text-sm font-medium text-gray-700 mb-2">Pontos</label>
+              <input
+                id="catalog-points"
+                type="number"
+                min="0"
+                value={draft.points}
+                onChange={(e) => setDraft({ ...draft, points: Number(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="catalog-fine" className="block text-sm font-medium text-gray-700 mb-2">Multa (R$)</label>
+              <input
+                id="catalog-fine"
+                type="number"
+                min="0"
+                step="0.01"
+                value={draft.fine_amount ?? ''}
+                onChange={(e) => setDraft({ ...draft, fine_amount: e.target.value === '' ? null : Number(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="catalog-from" className="block text-sm font-medium text-gray-700 mb-2">Vigente a partir de</label>
+              <input
+                id="catalog-from"
+                type="date"
+                required
+                value={draft.effective_from}
+                onChange={(e) => setDraft({ ...draft, effective_from: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="catalog-to" className="block text-sm font-medium text-gray-700 mb-2">Vigente até</label>
+              <input
+                id="catalog-to"
+                type="date"
+                value={draft.effective_to ?? ''}
+                onChange={(e) => setDraft({ ...draft, effective_to: e.target.value || null })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Salvando...' : 'Salvar'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <input
+          type="text"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          placeholder="Pesquisar por código, artigo ou descrição..."
+          className="flex-1 min-w-[16rem] px-3 py-2 border border-gray-300 rounded-md"
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={showRetired} onChange={(e) => setShowRetired(e.target.checked)} />
+          Mostrar versões encerradas
+        </label>
+        <button
+          type="button"
+          onClick={startAdding}
+          className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Nova infração
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Código</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Descrição</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Gravidade</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Multa</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Vigência</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Situação</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-gray-500">Nenhuma infração encontrada</td>
+              </tr>
+            ) : (
+              visible.map((option) => {
+                const status = versionStatus(option, today);
+                return (
+                  <tr key={option.id ?? option.key} className="border-b border-gray-200 last:border-b-0 align-top">
+                    <td className="px-4 py-3 font-mono">{option.key}</td>
+                    <td className="px-4 py-3">
+                      {option.description}
+                      <span className="block text-xs text-gray-500">Art. {option.article}</span>
+                    </td>
+                    <td className="px-4 py-3">
+                      {option.gravity ? `${gravityLabels[option.gravity]} · ${option.points} pontos` : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {option.fineAmount === null ? '—' : currencyFormatter.format(option.fineAmount)}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      {formatShiftDate(option.effectiveFrom)}
+                      {' a '}
+                      {option.effectiveTo ? formatShiftDate(option.effectiveTo) : 'atual'}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>
+                        {status.label}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right">
+                      {option.id !== undefined && option.effectiveTo === null && (
+                        retiring?.id === option.id ? (
+                          <span className="inline-flex items-center gap-2">
+                            <input
+                              type="date"
+                              value={retiring.date}
+                              min={option.effectiveFrom}
+                              onChange={(e) => setRetiring({ id: option.id!, date: e.target.value })}
+                              className="px-2 py-1 border border-gray-300 rounded-md"
+                              title="Último dia de vigência"
+                            />
+                            <button
+                              type="button"
+                              onClick={handleRetire}
+                              disabled={saving || !retiring.date}
+                              className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                            >
+                              Confirmar
+                            </button>
+                            <button type="button" onClick={() => setRetiring(null)} className="text-gray-600 hover:text-gray-800">
+                              Cancelar
+                            </button>
+                          </span>
+                        ) : (
+                          <span className="inline-flex gap-3">
+                            <button
+                              type="button"
+                              onClick={() => startEditing(option)}
+                              className="text-blue-600 hover:text-blue-800"
+                            >
+                              Editar
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setRetiring({ id: option.id!, date: today })}
+                              className="text-red-600 hover:text-red-800"
+                            >
+                              Desativar
+                            </button>
+                          </span>
+                        )
+                      )}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
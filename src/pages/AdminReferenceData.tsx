@@ -0,0 +1,377 @@
+import { useEffect, useState } from 'react';
+import { Plus } from 'lucide-react';
+import {
+  indentedLabel,
+  sectorDescendants,
+  sectorTree,
+  type SectorOption,
+  type ServiceOption,
+} from '../reportOptions';
+import { saveSector, saveServiceType, useReferenceData } from '../lib/referenceData';
+
+const inputClassName = 'w-full p-2 border border-gray-300 rounded-md';
+
+const newService = (): ServiceOption => ({ value: '', label: '', sortOrder: 0, active: true });
+
+const newSector = (): SectorOption => ({
+  value: '',
+  label: '',
+  parent: null,
+  selectable: true,
+  sortOrder: 0,
+  active: true,
+});
+
+export default function AdminReferenceData() {
+  const { services, sectors, reload } = useReferenceData();
+  // Editable copies of the rows; each row is saved on its own.
+  const [serviceDrafts, setServiceDrafts] = useState<ServiceOption[]>(services);
+  const [sectorDrafts, setSectorDrafts] = useState<SectorOption[]>(sectors);
+  const [addedService, setAddedService] = useState<ServiceOption | null>(null);
+  const [addedSector, setAddedSector] = useState<SectorOption | null>(null);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setServiceDrafts(services), [services]);
+  useEffect(() => setSectorDrafts(sectors), [sectors]);
+
+  const save = async (key: string, action: () => Promise<void>) => {
+    setSavingKey(key);
+    setError(null);
+    try {
+      await action();
+      await reload();
+      return true;
+    } catch (err) {
+      setError((err as { message?: string })?.message ?? 'Erro ao salvar');
+      console.error('Error saving reference data:', err);
+      return false;
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const updateService = (value: string, changes: Partial<ServiceOption>) => {
+    setServiceDrafts((current) => current.map((item) => (item.value === value ? { ...item, ...changes } : item)));
+  };
+
+  const updateSector = (value: string, changes: Partial<SectorOption>) => {
+    setSectorDrafts((current) => current.map((item) => (item.value === value ? { ...item, ...changes } : item)));
+  };
+
+  const handleAddService = async () => {
+    if (!addedService) return;
+    const option = { ...addedService, value: addedService.value.trim(), label: addedService.label.trim() };
+    if (!option.value || !option.label) {
+      setError('Informe o código e o nome do tipo de serviço.');
+      return;
+    }
+    if (services.some((item) => item.value === option.value)) {
+      setError(`O tipo de serviço ${option.value} já existe.`);
+      return;
+    }
+    if (await save('new-service', () => saveServiceType(option))) setAddedService(null);
+  };
+
+  const handleAddSector = async () => {
+    if (!addedSector) return;
+    const option = { ...addedSector, value: addedSector.value.trim(), label: addedSector.label.trim() };
+    if (!option.value || !option.label) {
+      setError('Informe o código e o nome do setor.');
+      return;
+    }
+    if (sectors.some((item) => item.value === option.value)) {
+      setError(`O setor ${option.value} já existe.`);
+      return;
+    }
+    if (await save('new-sector', () => saveSector(option))) setAddedSector(null);
+  };
+
+  const sectorNodes = sectorTree(sectorDrafts);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-2">Serviços e setores</h1>
+      <p className="text-gray-600 mb-6">
+        Itens desativados deixam de ser oferecidos em novos relatórios, mas continuam nos relatórios já enviados.
+        O código é gravado nos relatórios e não pode ser alterado.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 mb-6">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <section className="mb-10">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">Tipos de serviço</h2>
+          <button
+            type="button"
+            onClick={() => setAddedService(newService())}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Novo tipo de serviço
+          </button>
+        </div>
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Código</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Nome</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Ordem</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Ativo</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {addedService && (
+                <tr className="border-b border-gray-200 bg-blue-50">
+                  <td className="px-4 py-3">
+                    <input
+                      type="text"
+                      value={addedService.value}
+                      onChange={(e) => setAddedService({ ...addedService, value: e.target.value })}
+                      placeholder="ex.: escolar"
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="text"
+                      value={addedService.label}
+                      onChange={(e) => setAddedService({ ...addedService, label: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="number"
+                      value={addedService.sortOrder}
+                      onChange={(e) => setAddedService({ ...addedService, sortOrder: Number(e.target.value) })}
+                      className={`${inputClassName} w-20`}
+                    />
+                  </td>
+                  <td className="px-4 py-3"></td>
+                  <td className="px-4 py-3 whitespace-nowrap text-right space-x-3">
+                    <button
+                      type="button"
+                      onClick={handleAddService}
+                      disabled={savingKey !== null}
+                      className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      Adicionar
+                    </button>
+                    <button type="button" onClick={() => setAddedService(null)} className="text-gray-600 hover:text-gray-800">
+                      Cancelar
+                    </button>
+                  </td>
+                </tr>
+              )}
+              {[...serviceDrafts].sort((a, b) => a.sortOrder - b.sortOrder).map((option) => (
+                <tr key={option.value} className="border-b border-gray-200 last:border-b-0">
+                  <td className="px-4 py-3 font-mono">{option.value}</td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="text"
+                      value={option.label}
+                      onChange={(e) => updateService(option.value, { label: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="number"
+                      value={option.sortOrder}
+                      onChange={(e) => updateService(option.value, { sortOrder: Number(e.target.value) })}
+                      className={`${inputClassName} w-20`}
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={option.active}
+                      onChange={(e) => updateService(option.value, { active: e.target.checked })}
+                    />
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      type="button"
+                      onClick={() => save(`service:${option.value}`, () => saveServiceType(option))}
+                      disabled={savingKey !== null || !option.label.trim()}
+                      className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      {savingKey === `service:${option.value}` ? 'Salvando...' : 'Salvar'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">Setores e unidades</h2>
+          <button
+            type="button"
+            onClick={() => setAddedSector(newSector())}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Novo setor
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Um setor pode ficar dentro de outro, como as bases distritais do GEOTRAN. Grupos que não recebem
+          relatórios ficam com “Recebe relatórios” desmarcado; supervisores de um grupo veem os relatórios de
+          todos os setores abaixo dele.
+        </p>
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Código</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Nome</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Dentro de</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Ordem</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Recebe relatórios</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Ativo</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {addedSector && (
+                <tr className="border-b border-gray-200 bg-blue-50">
+                  <td className="px-4 py-3">
+                    <input
+                      type="text"
+                      value={addedSector.value}
+                      onChange={(e) => setAddedSector({ ...addedSector, value: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="text"
+                      value={addedSector.label}
+                      onChange={(e) => setAddedSector({ ...addedSector, label: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={addedSector.parent ?? ''}
+                      onChange={(e) => setAddedSector({ ...addedSector, parent: e.target.value || null })}
+                      className={inputClassName}
+                    >
+                      <option value="">Nenhum</option>
+                      {sectorNodes.map((node) => (
+                        <option key={node.option.value} value={node.option.value}>{indentedLabel(node)}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="number"
+                      value={addedSector.sortOrder}
+                      onChange={(e) => setAddedSector({ ...addedSector, sortOrder: Number(e.target.value) })}
+                      className={`${inputClassName} w-20`}
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={addedSector.selectable}
+                      onChange={(e) => setAddedSector({ ...addedSector, selectable: e.target.checked })}
+                    />
+                  </td>
+                  <td className="px-4 py-3"></td>
+                  <td className="px-4 py-3 whitespace-nowrap text-right space-x-3">
+                    <button
+                      type="button"
+                      onClick={handleAddSector}
+                      disabled={savingKey !== null}
+                      className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      Adicionar
+                    </button>
+                    <button type="button" onClick={() => setAddedSector(null)} className="text-gray-600 hover:text-gray-800">
+                      Cancelar
+                    </button>
+                  </td>
+                </tr>
+              )}
+              {sectorNodes.map(({ option, depth }) => {
+                // A sector cannot be moved inside itself or one of its own sub-sectors.
+                const ownTree = sectorDescendants(sectors, option.value);
+                return (
+                  <tr key={option.value} className="border-b border-gray-200 last:border-b-0">
+                    <td className="px-4 py-3" style={{ paddingLeft: `${1 + depth * 1.5}rem` }}>{option.value}</td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="text"
+                        value={option.label}
+                        onChange={(e) => updateSector(option.value, { label: e.target.value })}
+                        className={inputClassName}
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <select
+                        value={option.parent ?? ''}
+                        onChange={(e) => updateSector(option.value, { parent: e.target.value || null })}
+                        className={inputClassName}
+                      >
+                        <option value="">Nenhum</option>
+                        {sectorNodes
+                          .filter((node) => !ownTree.includes(node.option.value))
+                          .map((node) => (
+                            <option key={node.option.value} value={node.option.value}>{indentedLabel(node)}</option>
+                          ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="number"
+                        value={option.sortOrder}
+                        onChange={(e) => updateSector(option.value, { sortOrder: Number(e.target.value) })}
+                        className={`${inputClassName} w-20`}
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={option.selectable}
+                        onChange={(e) => updateSector(option.value, { selectable: e.target.checked })}
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={option.active}
+                        onChange={(e) => updateSector(option.value, { active: e.target.checked })}
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        type="button"
+                        onClick={() => save(`sector:${option.value}`, () => saveSector(option))}
+                        disabled={savingKey !== null || !option.label.trim()}
+                        className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                      >
+                        {savingKey === `sector:${option.value}` ? 'Salvando...' : 'Salvar'}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useEffect, useState } from 'react';
+import {
+  fetchProfiles,
+  inviteUser,
+  roleLabels,
+  updateProfile,
+  type Invitation,
+  type UserProfile,
+  type UserRole,
+} from '../lib/auth';
+import { activeSectorTree, indentedLabel, sectorLabel } from '../reportOptions';
+import { useReferenceData } from '../lib/referenceData';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const emptyInvitation: Invitation = { email: '', full_name: '', role: 'agent', sector: null };
+
+export default function AdminUsers() {
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [invitation, setInvitation] = useState<Invitation>(emptyInvitation);
+  const [inviting, setInviting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Groups are listed too: a supervisor of a group covers every sector below it.
+  const { sectors } = useReferenceData();
+  const sectorChoices = activeSectorTree(sectors);
+
+  useEffect(() => {
+    fetchProfiles()
+      .then(setProfiles)
+      .catch((err) => {
+        setError(err?.message ?? 'Erro ao carregar usuários');
+        console.error('Error fetching profiles:', err);
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleChange = async (profile: UserProfile, changes: Partial<Pick<UserProfile, 'role' | 'sector'>>) => {
+    const updated = { ...profile, ...changes };
+    setSavingId(profile.user_id);
+    setError(null);
+    try {
+      await updateProfile(profile.user_id, { role: updated.role, sector: updated.sector });
+      setProfiles((current) => current.map((item) => (item.user_id === profile.user_id ? updated : item)));
+    } catch (err) {
+      setError((err as { message?: string })?.message ?? 'Erro ao salvar usuário');
+      console.error('Error updating profile:', err);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await inviteUser(invitation);
+      setNotice(`Convite enviado para ${invitation.email}. O link do e-mail leva à criação da senha.`);
+      setInvitation(emptyInvitation);
+      setProfiles(await fetchProfiles());
+    } catch (err) {
+      setError((err as { message?: string })?.message ?? 'Erro ao enviar o convite');
+      console.error('Error inviting user:', err);
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-6">Usuários</h1>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 mb-6">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-green-700 mb-6">
+          <p>{notice}</p>
+        </div>
+      )}
+
+      <form onSubmit={handleInvite} className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+        <h2 className="text-lg font-medium text-gray-800">Convidar usuário</h2>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="invite-name" className="block text-sm font-medium text-gray-700 mb-2">Nome</label>
+            <input
+              id="invite-name"
+              type="text"
+              required
+              value={invitation.full_name}
+              onChange={(e) => setInvitation({ ...invitation, full_name: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="invite-email" className="block text-sm font-medium text-gray-700 mb-2">E-mail</label>
+            <input
+              id="invite-email"
+              type="email"
+              required
+              value={invitation.email}
+              onChange={(e) => setInvitation({ ...invitation, email: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="invite-role" className="block text-sm font-medium text-gray-700 mb-2">Perfil</label>
+            <select
+              id="invite-role"
+              value={invitation.role}
+              onChange={(e) => setInvitation({ ...invitation, role: e.target.value as UserRole })}
+              className={inputClassName}
+            >
+              {(Object.keys(roleLabels) as UserRole[]).map((role) => (
+                <option key={role} value={role}>{roleLabels[role]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="invite-sector" className="block text-sm font-medium text-gray-700 mb-2">Setor / unidade</label>
+            <select
+              id="invite-sector"
+              value={invitation.sector ?? ''}
+              onChange={(e) => setInvitation({ ...invitation, sector: e.target.value || null })}
+              className={inputClassName}
+            >
+              <option value="">Nenhum</option>
+              {sectorChoices.map((node) => (
+                <option key={node.option.value} value={node.option.value}>{indentedLabel(node)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={inviting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {inviting ? 'Enviando...' : 'Enviar convite'}
+          </button>
+        </div>
+      </form>
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Nome</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Perfil</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Setor / unidade</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td colSpan={3} className="px-4 py-8 text-center text-gray-500">Carregando dados...</td>
+              </tr>
+            ) : (
+              profiles.map((profile) => (
+                <tr key={profile.user_id} className="border-b border-gray-200 last:border-b-0">
+                  <td className="px-4 py-3">{profile.full_name ?? profile.user_id}</td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={profile.role}
+                      disabled={savingId === profile.user_id}
+                      onChange={(e) => handleChange(profile, { role: e.target.value as UserRole })}
+                      className="p-2 border border-gray-300 rounded-md"
+                    >
+                      {(Object.keys(roleLabels) as UserRole[]).map((role) => (
+                        <option key={role} value={role}>{roleLabels[role]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={profile.sector ?? ''}
+                      disabled={savingId === profile.user_id}
+                      onChange={(e) => handleChange(profile, { sector: e.target.value || null })}
+                      className="p-2 border border-gray-300 rounded-md"
+                    >
+                      <option value="">Nenhum</option>
+                      {profile.sector && !sectorChoices.some((node) => node.option.value === profile.sector) && (
+                        <option value={profile.sector}>{sectorLabel(profile.sector)}</option>
+                      )}
+                      {sectorChoices.map((node) => (
+                        <option key={node.option.value} value={node.option.value}>{indentedLabel(node)}</option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
 import {
   Card,
   CardContent,
@@ -6,98 +7,169 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import supabase from '../supabase';
-
-interface Report {
-  id: string;
-  service_name: string;
-  car_removals: number;
-  motorcycle_removals: number;
-  total_approaches: number;
-  created_at: string;
-}
+import TrendCharts from '../components/TrendCharts';
+import InfractionRanking from '../components/InfractionRanking';
+import SectorFilter from '../components/SectorFilter';
+import SectorComparison from '../components/SectorComparison';
+import ExportMenu from '../components/ExportMenu';
+import IncidentMap from '../components/IncidentMap';
+import { sectorLabel, serviceLabel, vehicleTypeLabel, vehicleTypeOptions, type ServiceType } from '../reportOptions';
+import { useReferenceData } from '../lib/referenceData';
+import {
+  fetchDashboard,
+  fetchDashboardSeries,
+  subscribeToDashboard,
+  type DashboardFilters,
+  type DashboardSummary,
+  type LiveStatus,
+  type ReportRow,
+  type SeriesBucket,
+} from '../lib/dashboard';
+import { formatShiftDate } from '../lib/reports';
+import type { Granularity } from '../lib/timeSeries';
+
+// A service type value, or 'all' for no filter.
+type ServiceFilter = ServiceType | 'all';
 
-interface Infraction {
-  quantity: number;
-  report_uid: string;
+interface RecentReport {
+  report: ReportRow;
+  receivedAt: Date;
 }
 
-type ServiceType = 'ordinario' | 'operacao' | 'ras' | 'all';
+// A burst of changes (a report and its lines) reloads the aggregates once.
+const REFRESH_DELAY_MS = 1000;
+const HIGHLIGHT_MS = 15000;
+const RECENT_REPORTS_LIMIT = 5;
+
+const liveStatusLabels: Record<LiveStatus, string> = {
+  connecting: 'Conectando',
+  live: 'Ao vivo',
+  offline: 'Sem atualização automática',
+};
 
 export default function Dashboard() {
-  const [reports, setReports] = useState<Report[]>([]);
-  const [infractions, setInfractions] = useState<Infraction[]>([]);
+  const [summary, setSummary] = useState<DashboardSummary | null>(null);
+  const [series, setSeries] = useState<SeriesBucket[]>([]);
+  const [granularity, setGranularity] = useState<Granularity>('day');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedService, setSelectedService] = useState<ServiceType>('all');
+  const { services } = useReferenceData();
+  const [selectedService, setSelectedService] = useState<ServiceFilter>('all');
+  const [selectedSectors, setSelectedSectors] = useState<string[]>([]);
   const [dateRange, setDateRange] = useState({
     start: '',
     end: '',
   });
+  const [approvedOnly, setApprovedOnly] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus>('connecting');
+  const [recentReports, setRecentReports] = useState<RecentReport[]>([]);
+  const [highlighted, setHighlighted] = useState<string[]>([]);
+  const refreshTimer = useRef<number>();
 
-  const fetchData = async () => {
-    try {
-      setLoading(true);
-      let reportsQuery = supabase
-        .from('geotranote_reports')
-        .select('*')
-        .order('created_at', { ascending: false });
+  const filters = useMemo<DashboardFilters>(
+    () => ({ service: selectedService, sectors: selectedSectors, ...dateRange, approvedOnly }),
+    [selectedService, selectedSectors, dateRange, approvedOnly]
+  );
 
-      if (selectedService !== 'all') {
-        reportsQuery = reportsQuery.eq('service_name', selectedService);
-      }
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
 
-      if (dateRange.start) {
-        reportsQuery = reportsQuery.gte('created_at', dateRange.start);
-      }
+    fetchDashboard(filters)
+      .then((data) => {
+        if (cancelled) return;
+        setSummary(data);
+        setLastUpdated(new Date());
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Erro ao carregar dados');
+        console.error('Error fetching data:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
 
-      if (dateRange.end) {
-        reportsQuery = reportsQuery.lte('created_at', dateRange.end + 'T23:59:59');
-      }
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, refreshKey]);
 
-      const { data: reportsData, error: reportsError } = await reportsQuery;
+  useEffect(() => {
+    let cancelled = false;
 
-      if (reportsError) throw reportsError;
-      
-      if (reportsData) {
-        setReports(reportsData);
-        
-        // Get all report UIDs for the filtered reports
-        const reportUids = reportsData.map(report => report.id).filter(id => id !== undefined);
-        
-        // Only fetch infractions if there are matching reports
-        if (reportUids.length > 0) {
-          const { data: infractionsData, error: infractionsError } = await supabase
-            .from('infractions')
-            .select('quantity, report_uid')
-            .in('report_uid', reportUids);
-
-          if (infractionsError) throw infractionsError;
-          if (infractionsData) setInfractions(infractionsData);
-        } else {
-          // If no reports found, set infractions to empty array
-          setInfractions([]);
-        }
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Erro ao carregar dados');
-      console.error('Error fetching data:', err);
-    } finally {
-      setLoading(false);
-    }
-  };
+    fetchDashboardSeries(filters, granularity)
+      .then((data) => {
+        if (!cancelled) setSeries(data);
+      })
+      .catch((err) => console.error('Error fetching series:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, granularity, refreshKey]);
 
   useEffect(() => {
-    fetchData();
-  }, [selectedService, dateRange]);
+    setRecentReports([]);
+    setHighlighted([]);
 
-  const totalInfractions = infractions.reduce((sum, inf) => sum + inf.quantity, 0);
-  const totalRemovals = reports.reduce((sum, report) => sum + report.car_removals + report.motorcycle_removals, 0);
-  const totalCarRemovals = reports.reduce((sum, report) => sum + report.car_removals, 0);
-  const totalMotorcycleRemovals = reports.reduce((sum, report) => sum + report.motorcycle_removals, 0);
-  const totalApproaches = reports.reduce((sum, report) => sum + report.total_approaches, 0);
+    const scheduleRefresh = () => {
+      window.clearTimeout(refreshTimer.current);
+      refreshTimer.current = window.setTimeout(() => setRefreshKey((key) => key + 1), REFRESH_DELAY_MS);
+    };
 
-  if (loading) {
+    // Cleared with the subscription, so none fires after the filters change or on unmount.
+    const highlightTimers = new Set<number>();
+    let wasOffline = false;
+    const unsubscribe = subscribeToDashboard(filters, {
+      onReport: (report) => {
+        setRecentReports((reports) =>
+          [{ report, receivedAt: new Date() }, ...reports].slice(0, RECENT_REPORTS_LIMIT)
+        );
+        setHighlighted((uids) => [...uids, report.uid]);
+        const timer = window.setTimeout(() => {
+          highlightTimers.delete(timer);
+          setHighlighted((uids) => uids.filter((uid) => uid !== report.uid));
+        }, HIGHLIGHT_MS);
+        highlightTimers.add(timer);
+      },
+      onRemove: (uid) => {
+        setRecentReports((reports) => reports.filter((item) => item.report.uid !== uid));
+      },
+      onChange: scheduleRefresh,
+      onStatus: (status) => {
+        setLiveStatus(status);
+        // Changes made while disconnected were missed; reload once the channel is back.
+        if (status === 'offline') wasOffline = true;
+        if (status === 'live' && wasOffline) {
+          wasOffline = false;
+          scheduleRefresh();
+        }
+      },
+    });
+
+    return () => {
+      window.clearTimeout(refreshTimer.current);
+      highlightTimers.forEach((timer) => window.clearTimeout(timer));
+      unsubscribe();
+    };
+  }, [filters]);
+
+  const totals = summary?.totals;
+  const totalRemovals = totals ? totals.car_removals + totals.motorcycle_removals : 0;
+  const removalsByVehicleType = new Map(
+    (summary?.removalsByVehicleType ?? []).map((row) => [row.vehicle_type, row.removals])
+  );
+  // Catalog order first, then any type no longer in the list.
+  const vehicleTypeRows = [
+    ...vehicleTypeOptions.map((option) => option.value as string),
+    ...[...removalsByVehicleType.keys()].filter((type) => !vehicleTypeOptions.some((option) => option.value === type)),
+  ].filter((type) => removalsByVehicleType.has(type));
+
+  if (loading && !summary) {
     return (
       <div className="container mx-auto px-4 py-8 flex items-center justify-center min-h-screen">
         <div className="text-center">
@@ -121,24 +193,46 @@ export default function Dashboard() {
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="mb-8">
-        <h1 className="text-3xl font-bold mb-6">Dashboard</h1>
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-3xl font-bold">Dashboard</h1>
+            <p className="mt-1 flex items-center gap-2 text-sm text-gray-500">
+              <span
+                className={`inline-block h-2 w-2 rounded-full ${
+                  liveStatus === 'live' ? 'bg-green-500' : liveStatus === 'connecting' ? 'bg-yellow-400' : 'bg-gray-400'
+                }`}
+              />
+              {liveStatusLabels[liveStatus]}
+              {lastUpdated && <> · Atualizado às {lastUpdated.toLocaleTimeString('pt-BR')}</>}
+              {loading && <> · Atualizando...</>}
+            </p>
+          </div>
+          <ExportMenu filters={filters} />
+        </div>
         
-        <div className="grid grid-cols-2 gap-4 mb-6">
+        <div className="grid grid-cols-3 gap-4 mb-6">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Tipo de Serviço
             </label>
             <select
               value={selectedService}
-              onChange={(e) => setSelectedService(e.target.value as ServiceType)}
+              onChange={(e) => setSelectedService(e.target.value)}
               className="w-full p-2 border border-gray-300 rounded-md"
             >
               <option value="all">Todos</option>
-              <option value="ordinario">Ordinário</option>
-              <option value="operacao">Operação</option>
-              <option value="ras">RAS</option>
+              {[...services].sort((a, b) => a.sortOrder - b.sortOrder).map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
             </select>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Setores
+            </label>
+            <SectorFilter value={selectedSectors} onChange={setSelectedSectors} />
+          </div>
           
           <div className="grid grid-cols-2 gap-4">
             <div>
@@ -165,8 +259,47 @@ export default function Dashboard() {
             </div>
           </div>
         </div>
+
+        <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={approvedOnly}
+            onChange={(e) => setApprovedOnly(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Somente relatórios aprovados
+        </label>
       </div>
 
+      {recentReports.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Relatórios recém-chegados</CardTitle>
+            <CardDescription>Recebidos desde que o Dashboard foi aberto, nos filtros selecionados</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y divide-gray-100 text-sm">
+              {recentReports.map(({ report, receivedAt }) => (
+                <li
+                  key={report.uid}
+                  className={`flex flex-wrap items-center justify-between gap-2 px-2 py-2 rounded-md transition-colors duration-1000 ${
+                    highlighted.includes(report.uid) ? 'bg-yellow-50 ring-1 ring-yellow-300' : ''
+                  }`}
+                >
+                  <Link to={`/reports/${report.protocol_number}`} className="font-mono text-blue-600 hover:underline">
+                    {report.protocol_number}
+                  </Link>
+                  <span>{sectorLabel(report.sector)}</span>
+                  <span>{serviceLabel(report.service_name)}</span>
+                  <span>{formatShiftDate(report.shift_date)}</span>
+                  <span className="text-gray-500">{receivedAt.toLocaleTimeString('pt-BR')}</span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
         <Card>
           <CardHeader>
@@ -174,7 +307,7 @@ export default function Dashboard() {
             <CardDescription>Número total de abordagens realizadas</CardDescription>
           </CardHeader>
           <CardContent>
-            <p className="text-4xl font-bold text-indigo-600">{totalApproaches}</p>
+            <p className="text-4xl font-bold text-indigo-600">{totals?.approaches ?? 0}</p>
           </CardContent>
         </Card>
 
@@ -184,7 +317,7 @@ export default function Dashboard() {
             <CardDescription>Quantidade total de infrações registradas</CardDescription>
           </CardHeader>
           <CardContent>
-            <p className="text-4xl font-bold text-blue-600">{totalInfractions}</p>
+            <p className="text-4xl font-bold text-blue-600">{totals?.infractions ?? 0}</p>
           </CardContent>
         </Card>
 
@@ -201,10 +334,10 @@ export default function Dashboard() {
         <Card>
           <CardHeader>
             <CardTitle>Remoções de Carros</CardTitle>
-            <CardDescription>Total de carros removidos</CardDescription>
+            <CardDescription>Veículos de quatro rodas ou mais</CardDescription>
           </CardHeader>
           <CardContent>
-            <p className="text-4xl font-bold text-purple-600">{totalCarRemovals}</p>
+            <p className="text-4xl font-bold text-purple-600">{totals?.car_removals ?? 0}</p>
           </CardContent>
         </Card>
 
@@ -214,10 +347,45 @@ export default function Dashboard() {
             <CardDescription>Total de motos removidas</CardDescription>
           </CardHeader>
           <CardContent>
-            <p className="text-4xl font-bold text-orange-600">{totalMotorcycleRemovals}</p>
+            <p className="text-4xl font-bold text-orange-600">{totals?.motorcycle_removals ?? 0}</p>
           </CardContent>
         </Card>
       </div>
+
+      {vehicleTypeRows.length > 0 && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Remoções por tipo de veículo</CardTitle>
+            <CardDescription>Contadas a partir dos registros de remoção</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {vehicleTypeRows.map((type) => (
+                <div key={type}>
+                  <p className="text-sm text-gray-500">{vehicleTypeLabel(type)}</p>
+                  <p className="text-2xl font-bold text-green-600">{removalsByVehicleType.get(type)}</p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <TrendCharts
+        buckets={series}
+        granularity={granularity}
+        onGranularityChange={setGranularity}
+        dateRange={dateRange}
+      />
+
+      <SectorComparison sectors={summary?.sectors ?? []} />
+
+      <InfractionRanking ranking={summary?.ranking ?? []} filters={filters} />
+
+      <IncidentMap
+        infractionPoints={summary?.infractionPoints ?? []}
+        removalPoints={summary?.removalPoints ?? []}
+      />
     </div>
   );
 }
\ No newline at end of file
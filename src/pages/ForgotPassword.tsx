@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { requestPasswordReset } from '../lib/auth';
+
+const ForgotPassword = () => {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      await requestPasswordReset(email);
+      setSent(true);
+    } catch (err) {
+      setError((err as { message?: string })?.message ?? 'Erro ao enviar o e-mail de recuperação.');
+      console.error('Password reset error:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center h-screen bg-gray-100">
+      <div className="bg-white p-8 rounded shadow-md w-96">
+        <h2 className="text-2xl font-semibold mb-2 text-gray-800">Recuperar senha</h2>
+        {sent ? (
+          // Worded the same whether or not the address has an account.
+          <p className="text-sm text-gray-700">
+            Se houver uma conta para {email}, você receberá um e-mail com um link para criar uma nova senha.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 mb-6">
+              Informe seu e-mail e enviaremos um link para criar uma nova senha.
+            </p>
+            {error && <div className="text-red-500 mb-4">{error}</div>}
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700">Email</label>
+                <input
+                  type="email"
+                  id="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  required
+                />
+              </div>
+              <button
+                type="submit"
+                className="w-full py-2 px-4 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+                disabled={loading}
+              >
+                {loading ? 'Enviando...' : 'Enviar link'}
+              </button>
+            </form>
+          </>
+        )}
+        <Link to="/login" className="inline-block mt-6 text-sm text-blue-600 hover:underline">
+          Voltar ao login
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
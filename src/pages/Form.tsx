@@ -1,48 +1,132 @@
 import { useState, useEffect, useRef } from 'react';
-import { Plus, X, Search } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Plus, X, Search, MapPin } from 'lucide-react';
 import supabase from '../supabase';
-import infractionOptions from '../infractionOptions';
+import { queueReport, sendQueuedReport, type OutboxEntry } from '../lib/outbox';
+import { captureLocation, formatLocation, type OptionalLocation } from '../lib/geolocation';
+import OutboxList from '../components/OutboxList';
+import InfractionDetailsEditor from '../components/InfractionDetailsEditor';
+import InfractionDetailList from '../components/InfractionDetailList';
+import RemovalsEditor from '../components/RemovalsEditor';
+import {
+  type InfractionOption,
+  formatInfraction,
+  gravityLabels,
+  infractionOptionsOn,
+  searchInfractionOptions,
+} from '../infractionOptions';
+import { useInfractionCatalog } from '../lib/infractionCatalog';
+import { useAuth } from '../lib/auth';
+import {
+  activeSectorTree,
+  activeServiceOptions,
+  type SectorOption,
+  type SectorType,
+  type ServiceOption,
+  type ServiceType,
+} from '../reportOptions';
+import { bundledReferenceData, useReferenceData } from '../lib/referenceData';
+import {
+  lineQuantity,
+  parseTeamMembers,
+  formatShiftDate,
+  removalCounters,
+  todayDateKey,
+  type InfractionDetailInput,
+  type RemovalInput,
+} from '../lib/reports';
+import {
+  hasErrors,
+  mergeInfractionLines,
+  validateDetails,
+  validateReport,
+  type ReportField,
+} from '../lib/validation';
 import { nanoid } from 'nanoid';
 
-type ServiceType = 'ordinario' | 'operacao' | 'ras';
-type SectorType = 'GEOTRAN - 1º Distrito' | 'GEOTRAN - 2º Distrito' | 'GEOTRAN - 3º/4º Distrito' | '1º Distrito' | '2º Distrito' | '3º Distrito' | '4º Distrito' | 'GEDAM' | 'GRE' | 'GMAP' | 'ROMU' | 'RAS' | 'Operação';
-
-interface Infraction {
+interface Infraction extends OptionalLocation {
   infraction_type: string;
   quantity: number;
-  report_uid?: string;
+  details?: InfractionDetailInput[];
 }
 
 interface FormData {
   service_name: ServiceType;
   sector: SectorType;
-  car_removals: number;
-  motorcycle_removals: number;
+  shift_date: string;
+  shift_start: string;
+  shift_end: string;
+  vehicle_prefix: string;
+  // Comma-separated names, split into a list on submit.
+  team_members: string;
+  removals: RemovalInput[];
   total_approaches: number;
 }
 
+// Defaults to the first service type and sector offered.
+const initialFormData = (services: ServiceOption[], sectors: SectorOption[]): FormData => ({
+  service_name: activeServiceOptions(services)[0]?.value ?? '',
+  sector: activeSectorTree(sectors, true).find((node) => node.option.selectable)?.option.value ?? '',
+  shift_date: todayDateKey(),
+  shift_start: '',
+  shift_end: '',
+  vehicle_prefix: '',
+  team_members: '',
+  removals: [],
+  total_approaches: 0
+});
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="mt-1 text-sm text-red-600">{message}</p> : null;
+
 function App() {
-  const [formData, setFormData] = useState<FormData>({
-    service_name: 'ordinario',
-    sector: 'GEOTRAN - 1º Distrito',
-    car_removals: 0,
-    motorcycle_removals: 0,
-    total_approaches: 0
-  });
+  const { session } = useAuth();
+  const { services, sectors } = useReferenceData();
+  const [formData, setFormData] = useState<FormData>(() =>
+    initialFormData(bundledReferenceData.services, bundledReferenceData.sectors)
+  );
   const [infractions, setInfractions] = useState<Infraction[]>([]);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [selectedInfraction, setSelectedInfraction] = useState('');
   const [quantity, setQuantity] = useState(1);
+  // 'detailed' records one auto de infração per vehicle; 'aggregate' only the count.
+  const [entryMode, setEntryMode] = useState<'aggregate' | 'detailed'>('aggregate');
+  const [details, setDetails] = useState<InfractionDetailInput[]>([]);
+  const [sidebarError, setSidebarError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const [formError, setFormError] = useState<string | null>(null);
-  const [protocolNumber, setProtocolNumber] = useState<string | null>(null);
+  // The protocol number issued by the server, or the device id while the report is not sent.
+  const [submitted, setSubmitted] = useState<{ reference: string; provisional: boolean } | null>(null);
   const [supabaseError, setSupabaseError] = useState<string | null>(null);
-
-  const filteredInfractions = infractionOptions.filter(infraction =>
-    infraction.toLowerCase().includes(searchTerm.toLowerCase())
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formNotice, setFormNotice] = useState<string | null>(null);
+  const [recordLocation, setRecordLocation] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  // Field errors show once the field was left or a submit was attempted.
+  const [touched, setTouched] = useState<Partial<Record<ReportField, boolean>>>({});
+  const [submitAttempted, setSubmitAttempted] = useState(false);
+  // Outbox entry refused by the server and loaded back for correction; resent under its id.
+  const [correcting, setCorrecting] = useState<OutboxEntry | null>(null);
+
+  const { options: catalog } = useInfractionCatalog();
+  // Only entries in force on the shift date can be recorded.
+  const availableInfractions = infractionOptionsOn(catalog, formData.shift_date);
+  const filteredInfractions = searchInfractionOptions(availableInfractions, searchTerm);
+
+  const validation = validateReport(
+    {
+      ...formData,
+      shift_start: formData.shift_start || null,
+      shift_end: formData.shift_end || null,
+    },
+    infractions,
+    todayDateKey()
   );
+  const fieldError = (field: ReportField) =>
+    submitAttempted || touched[field] ? validation.errors[field] : undefined;
+  const touch = (field: ReportField) => setTouched((current) => ({ ...current, [field]: true }));
 
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -74,124 +158,145 @@ function App() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setFormError(null);
-    setProtocolNumber(null);
+    if (isSubmitting) return;
 
-    try {
-      const newProtocolNumber = nanoid();
-
-      if (infractions.length > 0) {
-        console.log('Attempting to insert infractions:', infractions);
-
-        const infractionData = infractions.map(infraction => ({
-          infraction_type: infraction.infraction_type,
-          quantity: infraction.quantity
-        }));
-
-        console.log('Formatted infraction data:', infractionData);
+    setSubmitAttempted(true);
+    if (hasErrors(validation)) {
+      setFormError('Corrija os campos destacados antes de salvar.');
+      return;
+    }
 
-        const { data: insertedInfractions, error: infractionsError } = await supabase
-          .from('infractions')
-          .insert(infractionData)
-          .select('uid');
+    const retired = infractions.find(
+      (infraction) => !availableInfractions.some((option) => option.key === infraction.infraction_type)
+    );
+    if (retired) {
+      setFormError(`A infração ${retired.infraction_type} não está vigente em ${formatShiftDate(formData.shift_date)}.`);
+      return;
+    }
 
-        if (infractionsError) {
-          console.error('Detailed infraction error:', infractionsError);
-          throw infractionsError;
-        }
+    if (!session) return;
 
-        const { data: reportData, error: reportError } = await supabase
-          .from('geotranote_reports')
-          .insert([{
-            service_name: formData.service_name,
-            sector: formData.sector,
-            car_removals: formData.car_removals,
-            motorcycle_removals: formData.motorcycle_removals,
-            total_approaches: formData.total_approaches,
-            protocol_number: newProtocolNumber
-          }])
-          .select('uid')
-          .single();
-
-        console.log('reportData:', reportData);
-        console.log('reportError:', reportError);
-
-        if (reportError) {
-          console.error('Error saving report data to Supabase:', reportError);
-          console.error('Supabase report error details:', reportError);
-          setFormError('Erro ao salvar o formulário.');
-          return;
-        }
+    setFormError(null);
+    setFormNotice(null);
+    setSubmitted(null);
+    setIsSubmitting(true);
 
-        if (reportData && insertedInfractions) {
-          const updatedInfractions = insertedInfractions.map((infraction, index) => ({
-            uid: infraction.uid,
-            report_uid: reportData.uid,
-            infraction_type: infractions[index].infraction_type,
-            quantity: infractions[index].quantity
-          }));
-
-          const { error: updateError } = await supabase
-            .from('infractions')
-            .upsert(updatedInfractions);
-
-          console.log('updateError:', updateError);
-
-          if (updateError) {
-            console.error('Error updating infractions with report_uid:', updateError);
-            console.error('Supabase update error details:', updateError);
-            setFormError('Erro ao atualizar as infrações.');
-            return;
-          }
-        }
-      } else {
-        const { data: reportData, error: reportError } = await supabase
-          .from('geotranote_reports')
-          .insert([{
-            service_name: formData.service_name,
-            sector: formData.sector,
-            car_removals: formData.car_removals,
-            motorcycle_removals: formData.motorcycle_removals,
-            total_approaches: formData.total_approaches,
-            protocol_number: newProtocolNumber
-          }])
-          .select('uid')
-          .single();
-
-        console.log('reportData:', reportData);
-        console.log('reportError:', reportError);
-
-        if (reportError) {
-          console.error('Error saving report data to Supabase:', reportError);
-          console.error('Supabase report error details:', reportError);
-          setFormError('Erro ao salvar o formulário.');
-          return;
-        }
+    try {
+      const clientId = correcting?.client_id ?? nanoid();
+      // A corrected report keeps the location it was first filed with.
+      const location = recordLocation
+        ? await captureLocation()
+        : correcting && {
+          latitude: correcting.report.latitude,
+          longitude: correcting.report.longitude,
+          location_accuracy: correcting.report.location_accuracy,
+        };
+
+      await queueReport(
+        {
+          client_id: clientId,
+          service_name: formData.service_name,
+          sector: formData.sector,
+          shift_date: formData.shift_date,
+          shift_start: formData.shift_start || null,
+          shift_end: formData.shift_end || null,
+          vehicle_prefix: formData.vehicle_prefix.trim() || null,
+          team_members: parseTeamMembers(formData.team_members),
+          ...removalCounters(formData.removals),
+          removals: formData.removals,
+          total_approaches: formData.total_approaches,
+          ...location
+        },
+        infractions,
+        session.user.id
+      );
+
+      const entry = await sendQueuedReport(clientId);
+      if (entry?.status === 'rejected') {
+        setCorrecting(entry);
+        setFormError(`O servidor recusou o relatório: ${entry.error}`);
+        return;
       }
 
-      console.log('Data saved to Supabase');
-      setProtocolNumber(newProtocolNumber);
-      alert(`Formulário salvo com sucesso! Número de protocolo: ${newProtocolNumber}`);
-      setFormData({
-        service_name: 'ordinario',
-        sector: 'GEOTRAN - 1º Distrito',
-        car_removals: 0,
-        motorcycle_removals: 0,
-        total_approaches: 0
-      });
+      setCorrecting(null);
+      setSubmitted({ reference: entry?.protocol_number ?? clientId, provisional: !entry?.protocol_number });
+      if (entry?.status === 'failed') {
+        setFormNotice(`O envio falhou: ${entry.error}. O relatório foi salvo neste aparelho e será reenviado automaticamente.`);
+      } else if (entry?.status !== 'synced') {
+        setFormNotice('Sem conexão com o servidor. O relatório foi salvo neste aparelho e será enviado automaticamente.');
+      }
+      setFormData(initialFormData(services, sectors));
       setInfractions([]);
+      setTouched({});
+      setSubmitAttempted(false);
     } catch (error) {
       console.error('Full error object:', error);
       setFormError('Erro ao salvar os dados. Por favor, tente novamente.');
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
-  const handleAddInfraction = () => {
-    if (selectedInfraction && quantity > 0) {
-      setInfractions([...infractions, { infraction_type: selectedInfraction, quantity: quantity }]);
+  const handleCorrect = (entry: OutboxEntry) => {
+    const { report } = entry;
+    setFormData({
+      service_name: report.service_name,
+      sector: report.sector,
+      shift_date: report.shift_date,
+      shift_start: report.shift_start ?? '',
+      shift_end: report.shift_end ?? '',
+      vehicle_prefix: report.vehicle_prefix ?? '',
+      team_members: report.team_members.join(', '),
+      removals: report.removals,
+      total_approaches: report.total_approaches,
+    });
+    setInfractions(entry.infractions);
+    setCorrecting(entry);
+    setSubmitted(null);
+    setFormNotice(null);
+    setFormError(`O servidor recusou o relatório: ${entry.error}`);
+    setSubmitAttempted(true);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleCancelCorrection = () => {
+    setCorrecting(null);
+    setFormError(null);
+    setFormData(initialFormData(services, sectors));
+    setInfractions([]);
+    setTouched({});
+    setSubmitAttempted(false);
+  };
+
+  const handleAddInfraction = async () => {
+    const detailed = entryMode === 'detailed';
+    const detailsError = detailed ? validateDetails(details) : null;
+    if (detailsError) {
+      setSidebarError(detailsError);
+      return;
+    }
+    if (!detailed && (!Number.isInteger(quantity) || quantity < 1)) {
+      setSidebarError('A quantidade deve ser um número inteiro maior que zero.');
+      return;
+    }
+    setSidebarError(null);
+
+    if (selectedInfraction) {
+      let location = null;
+      if (recordLocation) {
+        setIsLocating(true);
+        location = await captureLocation();
+        setIsLocating(false);
+      }
+      const line: Infraction = detailed
+        ? { infraction_type: selectedInfraction, quantity: details.length, details, ...location }
+        : { infraction_type: selectedInfraction, quantity: quantity, ...location };
+      // Adding an infraction that is already listed adds to that line instead.
+      setInfractions(mergeInfractionLines([...infractions, line]));
       setSelectedInfraction('');
       setSearchTerm('');
       setQuantity(1);
+      setDetails([]);
       setIsSidebarOpen(false);
     }
   };
@@ -202,9 +307,9 @@ function App() {
     setInfractions(newInfractions);
   };
 
-  const handleSelectInfraction = (infraction: string) => {
-    setSelectedInfraction(infraction);
-    setSearchTerm(infraction);
+  const handleSelectInfraction = (infraction: InfractionOption) => {
+    setSelectedInfraction(infraction.key);
+    setSearchTerm(`${infraction.key} ${infraction.description}`);
     setIsDropdownOpen(false);
   };
 
@@ -212,6 +317,8 @@ function App() {
     setIsSidebarOpen(false);
     setSearchTerm('');
     setSelectedInfraction('');
+    setDetails([]);
+    setSidebarError(null);
   };
 
   return (
@@ -231,17 +338,46 @@ function App() {
                 {supabaseError}
               </div>
             )}
+            {submitted && (
+              <div
+                className={`rounded-md border p-4 mb-6 ${
+                  formNotice ? 'text-yellow-700 bg-yellow-50 border-yellow-200' : 'text-green-700 bg-green-50 border-green-200'
+                }`}
+              >
+                <p>{formNotice ?? 'Formulário salvo com sucesso!'}</p>
+                <p className="mt-1">
+                  {submitted.provisional ? 'Identificador provisório' : 'Número de protocolo'}:{' '}
+                  <span className="font-mono font-semibold">{submitted.reference}</span>
+                </p>
+                {submitted.provisional && (
+                  <p className="mt-1 text-sm">O número de protocolo será emitido quando o relatório for enviado.</p>
+                )}
+                <Link
+                  to={`/reports/${submitted.reference}/receipt`}
+                  className="inline-block mt-2 text-sm font-medium text-blue-600 hover:underline"
+                >
+                  Ver comprovante para impressão
+                </Link>
+              </div>
+            )}
+            {correcting && (
+              <div className="flex items-center justify-between gap-4 rounded-md border border-blue-200 bg-blue-50 p-4 mb-6 text-blue-700">
+                <p>
+                  Corrigindo o relatório <span className="font-mono">{correcting.client_id}</span>. Ele será
+                  reenviado com o mesmo identificador.
+                </p>
+                <button type="button" onClick={handleCancelCorrection} className="text-sm font-medium hover:underline">
+                  Cancelar
+                </button>
+              </div>
+            )}
             <form onSubmit={handleSubmit} className="space-y-6">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-3">
                   Tipo de serviço
                 </label>
                 <div className="space-y-3">
-                  {[
-                    { value: 'ordinario', label: 'Ordinário' },
-                    { value: 'operacao', label: 'Operação' },
-                    { value: 'ras', label: 'RAS' }
-                  ].map((option) => (
+                  {activeServiceOptions(services).map((option) => (
                     <div key={option.value} className="flex items-center">
                       <input
                         type="radio"
@@ -249,7 +385,7 @@ function App() {
                         name="service_name"
                         value={option.value}
                         checked={formData.service_name === option.value}
-                        onChange={(e) => setFormData({ ...formData, service_name: e.target.value as ServiceType })}
+                        onChange={(e) => setFormData({ ...formData, service_name: e.target.value })}
                         className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
                       />
                       <label
@@ -261,6 +397,7 @@ function App() {
                     </div>
                   ))}
                 </div>
+                <FieldError message={fieldError('service_name')} />
               </div>
 
               <div>
@@ -268,29 +405,15 @@ function App() {
                   Setor
                 </label>
                 <div className="space-y-3">
-                  {[
-                    { value: 'GEOTRAN - 1º Distrito', label: 'GEOTRAN - 1º Distrito' },
-                    { value: 'GEOTRAN - 2º Distrito', label: 'GEOTRAN - 2º Distrito' },
-                    { value: 'GEOTRAN - 3º/4º Distrito', label: 'GEOTRAN - 3º/4º Distrito' },
-                    { value: '1º Distrito', label: '1º Distrito' },
-                    { value: '2º Distrito', label: '2º Distrito' },
-                    { value: '3º Distrito', label: '3º Distrito' },
-                    { value: '4º Distrito', label: '4º Distrito' },
-                    { value: 'GEDAM', label: 'GEDAM' },
-                    { value: 'GRE', label: 'GRE' },
-                    { value: 'GMAP', label: 'GMAP' },
-                    { value: 'ROMU', label: 'ROMU' },
-                    { value: 'RAS', label: 'RAS' },
-                    { value: 'Operação', label: 'Operação' }
-                  ].map((option) => (
-                    <div key={option.value} className="flex items-center">
+                  {activeSectorTree(sectors, true).map(({ option, depth }) => option.selectable ? (
+                    <div key={option.value} className="flex items-center" style={{ marginLeft: `${depth * 1.5}rem` }}>
                       <input
                         type="radio"
                         id={option.value}
                         name="sector"
                         value={option.value}
                         checked={formData.sector === option.value}
-                        onChange={(e) => setFormData({ ...formData, sector: e.target.value as SectorType })}
+                        onChange={(e) => setFormData({ ...formData, sector: e.target.value })}
                         className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
                       />
                       <label
@@ -300,8 +423,105 @@ function App() {
                         {option.label}
                       </label>
                     </div>
+                  ) : (
+                    <p
+                      key={option.value}
+                      className="text-xs font-semibold uppercase text-gray-500"
+                      style={{ marginLeft: `${depth * 1.5}rem` }}
+                    >
+                      {option.label}
+                    </p>
                   ))}
                 </div>
+                <FieldError message={fieldError('sector')} />
+              </div>
+
+              <div>
+                <h2 className="text-sm font-medium text-gray-700 mb-3">Turno</h2>
+                <div className="grid grid-cols-3 gap-4 mb-4">
+                  <div>
+                    <label htmlFor="shift_date" className="block text-sm font-medium text-gray-700 mb-2">
+                      Data
+                    </label>
+                    <input
+                      type="date"
+                      id="shift_date"
+                      required
+                      value={formData.shift_date}
+                      max={todayDateKey()}
+                      onChange={(e) => setFormData({ ...formData, shift_date: e.target.value })}
+                      onBlur={() => touch('shift_date')}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <FieldError message={fieldError('shift_date')} />
+                  </div>
+                  <div>
+                    <label htmlFor="shift_start" className="block text-sm font-medium text-gray-700 mb-2">
+                      Início
+                    </label>
+                    <input
+                      type="time"
+                      id="shift_start"
+                      value={formData.shift_start}
+                      onChange={(e) => setFormData({ ...formData, shift_start: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="shift_end" className="block text-sm font-medium text-gray-700 mb-2">
+                      Fim
+                    </label>
+                    <input
+                      type="time"
+                      id="shift_end"
+                      value={formData.shift_end}
+                      onChange={(e) => setFormData({ ...formData, shift_end: e.target.value })}
+                      onBlur={() => touch('shift_end')}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <FieldError message={fieldError('shift_end')} />
+                  </div>
+                </div>
+                <div className="mb-4">
+                  <label htmlFor="vehicle_prefix" className="block text-sm font-medium text-gray-700 mb-2">
+                    Viatura (prefixo)
+                  </label>
+                  <input
+                    type="text"
+                    id="vehicle_prefix"
+                    value={formData.vehicle_prefix}
+                    maxLength={20}
+                    onChange={(e) => setFormData({ ...formData, vehicle_prefix: e.target.value })}
+                    onBlur={() => touch('vehicle_prefix')}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <FieldError message={fieldError('vehicle_prefix')} />
+                </div>
+                <div>
+                  <label htmlFor="team_members" className="block text-sm font-medium text-gray-700 mb-2">
+                    Equipe de serviço (separe os nomes por vírgula)
+                  </label>
+                  <input
+                    type="text"
+                    id="team_members"
+                    value={formData.team_members}
+                    onChange={(e) => setFormData({ ...formData, team_members: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="record_location"
+                  checked={recordLocation}
+                  onChange={(e) => setRecordLocation(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <label htmlFor="record_location" className="ml-3 block text-sm font-medium text-gray-700">
+                  Registrar a localização do aparelho no relatório e em cada infração
+                </label>
               </div>
 
               <div>
@@ -336,10 +556,17 @@ function App() {
                         className="grid grid-cols-[1fr_1fr_auto] border-b border-gray-200 last:border-b-0 hover:bg-gray-50 transition-colors duration-150"
                       >
                         <div className="px-4 py-3 text-sm text-gray-900">
-                          {infraction.infraction_type}
+                          {formatInfraction(infraction.infraction_type)}
+                          <InfractionDetailList details={infraction.details} />
+                          {formatLocation(infraction) && (
+                            <span className="flex items-center mt-1 text-xs text-gray-500">
+                              <MapPin className="h-3 w-3 mr-1" />
+                              {formatLocation(infraction)}
+                            </span>
+                          )}
                         </div>
                         <div className="px-4 py-3 text-sm text-gray-900 text-right">
-                          {infraction.quantity}
+                          {lineQuantity(infraction)}
                         </div>
                         <div className="px-4 py-3 flex items-center">
                           <button
@@ -361,6 +588,7 @@ function App() {
                     </div>
                   )}
                 </div>
+                <FieldError message={fieldError('infractions')} />
 
                 <div className="mb-4">
                   <h3 className="text-sm font-medium text-gray-700 mb-3">Total de abordagens</h3>
@@ -368,46 +596,35 @@ function App() {
                     type="number"
                     id="total_approaches"
                     min="0"
+                    step="1"
                     value={formData.total_approaches}
                     onChange={(e) => setFormData({ ...formData, total_approaches: Number(e.target.value) })}
+                    onBlur={() => touch('total_approaches')}
                     className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                   />
+                  <FieldError message={fieldError('total_approaches')} />
                 </div>
 
                 <div className="mb-4">
-                  <h3 className="text-sm font-medium text-gray-700 mb-3">Quantidade de REMOÇÕES</h3>
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <label htmlFor="car_removals" className="block text-sm font-medium text-gray-700 mb-2">
-                        Carro(s)
-                      </label>
-                      <input
-                        type="number"
-                        id="car_removals"
-                        min="0"
-                        value={formData.car_removals}
-                        onChange={(e) => setFormData({ ...formData, car_removals: Number(e.target.value) })}
-                        className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                      />
-                    </div>
-                    <div>
-                      <label htmlFor="motorcycle_removals" className="block text-sm font-medium text-gray-700 mb-2">
-                        Moto(s)
-                      </label>
-                      <input
-                        type="number"
-                        id="motorcycle_removals"
-                        min="0"
-                        value={formData.motorcycle_removals}
-                        onChange={(e) => setFormData({ ...formData, motorcycle_removals: Number(e.target.value) })}
-                        className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                      />
-                    </div>
-                  </div>
+                  <h3 className="text-sm font-medium text-gray-700 mb-3">Remoções</h3>
+                  <RemovalsEditor
+                    value={formData.removals}
+                    onChange={(removals) => setFormData({ ...formData, removals })}
+                    listId="removal-infraction-options"
+                    options={availableInfractions}
+                  />
+                  <FieldError message={fieldError('removals')} />
                 </div>
               </div>
 
-              <div className="pt-4 flex justify-center">
+              <div className="pt-4 flex flex-col items-center">
+                {validation.warnings.length > 0 && (
+                  <div className="w-full bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800 mb-4">
+                    {validation.warnings.map((warning) => (
+                      <p key={warning}>{warning}</p>
+                    ))}
+                  </div>
+                )}
                 {formError && (
                   <div className="text-red-500 mb-4">
                     {formError}
@@ -415,13 +632,16 @@ function App() {
                 )}
                 <button
                   type="submit"
-                  className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors duration-200"
+                  disabled={isSubmitting}
+                  className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors duration-200 disabled:opacity-50"
                 >
-                  Salvar formulário
+                  {isSubmitting ? 'Salvando...' : 'Salvar formulário'}
                 </button>
               </div>
             </form>
           </div>
+
+          <OutboxList onCorrect={handleCorrect} />
         </div>
       </div>
 
@@ -448,8 +668,8 @@ function App() {
                   </div>
                 </div>
 
-                <div className="flex-1 flex flex-col justify-between">
-                  <div className="px-4 sm:px-6 py-6 space-y-6">
+                <div className="flex-1 flex flex-col justify-between min-h-0">
+                  <div className="px-4 sm:px-6 py-6 space-y-6 overflow-y-auto">
                     <div ref={dropdownRef} className="relative">
                       <label htmlFor="infraction" className="block text-sm font-medium text-gray-700 mb-2">
                         Selecione a infração
@@ -464,7 +684,7 @@ function App() {
                               setIsDropdownOpen(true);
                             }}
                             onClick={() => setIsDropdownOpen(true)}
-                            placeholder="Pesquisar infração..."
+                            placeholder="Pesquisar por código, artigo ou descrição..."
                             className="w-full px-4 py-2 pl-10 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                           />
                           <Search className="h-5 w-5 text-gray-400 absolute left-3 top-2.5" />
@@ -474,11 +694,15 @@ function App() {
                             <ul className="max-h-60 rounded-md py-1 text-base ring-1 ring-black ring-opacity-5 overflow-auto focus:outline-none sm:text-sm">
                               {filteredInfractions.map((infraction) => (
                                 <li
-                                  key={infraction}
+                                  key={infraction.key}
                                   onClick={() => handleSelectInfraction(infraction)}
                                   className="cursor-pointer select-none relative py-2 pl-3 pr-9 hover:bg-blue-50 text-gray-900"
                                 >
-                                  {infraction}
+                                  <span className="font-medium">{infraction.key}</span> {infraction.description}
+                                  <span className="block text-xs text-gray-500">
+                                    Art. {infraction.article}
+                                    {infraction.gravity && ` · ${gravityLabels[infraction.gravity]} · ${infraction.points} pontos`}
+                                  </span>
                                 </li>
                               ))}
                               {filteredInfractions.length === 0 && (
@@ -492,19 +716,54 @@ function App() {
                       </div>
                     </div>
 
-                    <div>
-                      <label htmlFor="quantity" className="block text-sm font-medium text-gray-700 mb-2">
-                        Quantidade
+                    <div className="flex gap-4">
+                      <label className="flex items-center text-sm font-medium text-gray-700">
+                        <input
+                          type="radio"
+                          name="entry_mode"
+                          checked={entryMode === 'aggregate'}
+                          onChange={() => setEntryMode('aggregate')}
+                          className="h-4 w-4 mr-2 text-blue-600 focus:ring-blue-500 border-gray-300"
+                        />
+                        Somente quantidade
+                      </label>
+                      <label className="flex items-center text-sm font-medium text-gray-700">
+                        <input
+                          type="radio"
+                          name="entry_mode"
+                          checked={entryMode === 'detailed'}
+                          onChange={() => setEntryMode('detailed')}
+                          className="h-4 w-4 mr-2 text-blue-600 focus:ring-blue-500 border-gray-300"
+                        />
+                        Detalhar autos
                       </label>
-                      <input
-                        type="number"
-                        id="quantity"
-                        min="1"
-                        value={quantity}
-                        onChange={(e) => setQuantity(Number(e.target.value))}
-                        className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                      />
                     </div>
+
+                    {entryMode === 'aggregate' ? (
+                      <div>
+                        <label htmlFor="quantity" className="block text-sm font-medium text-gray-700 mb-2">
+                          Quantidade
+                        </label>
+                        <input
+                          type="number"
+                          id="quantity"
+                          min="1"
+                          step="1"
+                          value={quantity}
+                          onChange={(e) => setQuantity(Number(e.target.value))}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                    ) : (
+                      <div>
+                        <p className="text-sm font-medium text-gray-700 mb-2">
+                          Autos de infração · quantidade: {details.length}
+                        </p>
+                        <InfractionDetailsEditor value={details} onChange={setDetails} />
+                      </div>
+                    )}
+
+                    {sidebarError && <div className="text-sm text-red-500">{sidebarError}</div>}
                   </div>
 
                   <div className="flex-shrink-0 px-4 py-4 flex justify-end space-x-2 bg-gray-50">
@@ -518,9 +777,10 @@ function App() {
                     <button
                       type="button"
                       onClick={handleAddInfraction}
-                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors duration-200"
+                      disabled={isLocating}
+                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors duration-200 disabled:opacity-50"
                     >
-                      Confirmar
+                      {isLocating ? 'Obtendo localização...' : 'Confirmar'}
                     </button>
                   </div>
                 </div>
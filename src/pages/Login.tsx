@@ -1,13 +1,21 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, Navigate, useLocation, type Location } from 'react-router-dom';
 import { supabase } from '../supabase';
+import { useAuth, type SignOutReason } from '../lib/auth';
+
+const signOutMessages: Partial<Record<SignOutReason, string>> = {
+  idle: 'Sua sessão foi encerrada por inatividade. Entre novamente.',
+  expired: 'Sua sessão expirou. Entre novamente.',
+};
 
 const Login = () => {
+  const { session, signedOutReason } = useAuth();
+  // RequireRole sends the page that needed a session, to return to it after signing in.
+  const from = (useLocation().state as { from?: Location } | null)?.from;
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const navigate = useNavigate();
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -15,16 +23,14 @@ const Login = () => {
     setError(null);
 
     try {
-      const { data, error } = await supabase.auth.signInWithPassword({
+      // On success the new session re-renders this page, which redirects.
+      const { error } = await supabase.auth.signInWithPassword({
         email: email,
         password: password,
       });
 
       if (error) {
         setError(error.message);
-      } else {
-        console.log('Login successful:', data);
-        navigate('/');
       }
     } catch (err) {
       setError('An unexpected error occurred.');
@@ -34,10 +40,19 @@ const Login = () => {
     }
   };
 
+  if (session) {
+    return <Navigate to={from ? `${from.pathname}${from.search}` : '/'} replace />;
+  }
+
+  const notice = signedOutReason && signOutMessages[signedOutReason];
+
   return (
     <div className="flex items-center justify-center h-screen bg-gray-100">
       <div className="bg-white p-8 rounded shadow-md w-96">
         <h2 className="text-2xl font-semibold mb-6 text-gray-800">Login</h2>
+        {notice && !error && (
+          <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3 mb-4 text-sm text-yellow-800">{notice}</div>
+        )}
         {error && <div className="text-red-500 mb-4">{error}</div>}
         <form onSubmit={handleLogin} className="space-y-4">
           <div>
@@ -72,6 +87,9 @@ const Login = () => {
             </button>
           </div>
         </form>
+        <Link to="/forgot-password" className="inline-block mt-4 text-sm text-blue-600 hover:underline">
+          Esqueceu a senha?
+        </Link>
       </div>
     </div>
   );
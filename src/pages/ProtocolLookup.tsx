@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Search } from 'lucide-react';
+import { lookupProtocol, parseProtocol, type ProtocolLookup as LookupResult } from '../lib/protocol';
+import { formatShiftDate } from '../lib/reports';
+import { sectorLabel } from '../reportOptions';
+import ReportStatusBadge from '../components/ReportStatusBadge';
+
+type Verdict = 'valid' | 'amended' | 'returned';
+
+const verdicts: Record<Verdict, { label: string; description: string; className: string }> = {
+  valid: {
+    label: 'Válido',
+    description: 'O protocolo corresponde a um relatório registrado e sem correções.',
+    className: 'bg-green-50 border-green-200 text-green-800',
+  },
+  amended: {
+    label: 'Corrigido',
+    description: 'O relatório foi corrigido depois de emitido; comprovantes impressos antes podem estar desatualizados.',
+    className: 'bg-yellow-50 border-yellow-200 text-yellow-800',
+  },
+  returned: {
+    label: 'Devolvido',
+    description: 'O relatório foi devolvido pela supervisão e aguarda correção pelo agente.',
+    className: 'bg-red-50 border-red-200 text-red-800',
+  },
+};
+
+function verdictOf(result: LookupResult): Verdict {
+  if (result.status === 'returned') return 'returned';
+  return result.revision > 0 ? 'amended' : 'valid';
+}
+
+export default function ProtocolLookup() {
+  const { protocol } = useParams<{ protocol: string }>();
+  const navigate = useNavigate();
+  const [input, setInput] = useState(protocol ?? '');
+  const [result, setResult] = useState<LookupResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+    if (!protocol) return;
+
+    setInput(protocol);
+    // Anything that is not shaped like a protocol may still be the id of an older receipt.
+    const parsed = parseProtocol(protocol);
+    if (parsed && !parsed.checkDigitValid) {
+      setError('Dígito verificador inválido. Confira o número digitado.');
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    lookupProtocol(parsed?.protocol ?? protocol.trim())
+      .then((found) => {
+        if (cancelled) return;
+        setResult(found);
+        if (!found) setError('Nenhum relatório encontrado com este protocolo.');
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err?.message ?? 'Erro ao consultar o protocolo');
+        console.error('Error looking up protocol:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [protocol]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const reference = input.trim();
+    if (!reference) return;
+    navigate(`/protocol/${encodeURIComponent(parseProtocol(reference)?.protocol ?? reference)}`);
+  };
+
+  const verdict = result ? verdicts[verdictOf(result)] : null;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-xl mx-auto">
+        <h1 className="text-3xl font-bold mb-2">Consultar protocolo</h1>
+        <p className="text-gray-600 mb-6">
+          Digite o número impresso no comprovante, como GEO-2026-000123-3, ou leia o QR code.
+        </p>
+
+        <form onSubmit={handleSubmit} className="flex gap-2 mb-6">
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="GEO-2026-000123-3"
+            className="flex-1 rounded-md border border-gray-300 px-3 py-2 font-mono uppercase focus:outline-none focus:ring-2 focus:ring-blue-500"
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={loading || !input.trim()}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Search className="h-4 w-4 mr-2" />
+            Consultar
+          </button>
+        </form>
+
+        {loading && <p className="text-gray-600">Consultando...</p>}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">
+            <p>{error}</p>
+          </div>
+        )}
+
+        {result && verdict && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className={`rounded-md border p-4 mb-4 ${verdict.className}`}>
+              <p className="text-lg font-semibold">{verdict.label}</p>
+              <p className="text-sm mt-1">{verdict.description}</p>
+            </div>
+
+            <dl className="grid grid-cols-2 gap-4 text-sm">
+              <div className="col-span-2">
+                <dt className="text-gray-500">Protocolo</dt>
+                <dd className="font-mono font-semibold text-gray-900">{result.protocol_number}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Situação</dt>
+                <dd><ReportStatusBadge status={result.status} /></dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Setor</dt>
+                <dd className="font-medium text-gray-900">{sectorLabel(result.sector)}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Data do turno</dt>
+                <dd className="font-medium text-gray-900">{formatShiftDate(result.shift_date)}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Registrado em</dt>
+                <dd className="font-medium text-gray-900">{new Date(result.created_at).toLocaleString('pt-BR')}</dd>
+              </div>
+              {result.revision > 0 && result.updated_at && (
+                <div>
+                  <dt className="text-gray-500">Última correção</dt>
+                  <dd className="font-medium text-gray-900">
+                    {new Date(result.updated_at).toLocaleString('pt-BR')} (revisão {result.revision})
+                  </dd>
+                </div>
+              )}
+              {result.reviewed_at && (
+                <div>
+                  <dt className="text-gray-500">Revisado em</dt>
+                  <dd className="font-medium text-gray-900">{new Date(result.reviewed_at).toLocaleString('pt-BR')}</dd>
+                </div>
+              )}
+            </dl>
+
+            <Link
+              to={`/reports/${result.protocol_number}`}
+              className="inline-block mt-6 text-sm font-medium text-blue-600 hover:underline"
+            >
+              Abrir relatório
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
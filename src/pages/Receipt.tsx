@@ -0,0 +1,260 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+import {
+  fetchReport,
+  formatShiftDate,
+  formatShiftTime,
+  lineQuantity,
+  toDetailInputs,
+  toRemovalInputs,
+  type InfractionInput,
+  type ReportInput,
+} from '../lib/reports';
+import { getOutboxEntry } from '../lib/outbox';
+import { findInfractionOption } from '../infractionOptions';
+import { sectorLabel, serviceLabel } from '../reportOptions';
+import { useAuth } from '../lib/auth';
+import InfractionDetailList from '../components/InfractionDetailList';
+import RemovalList from '../components/RemovalList';
+
+interface ReceiptData {
+  // Protocol number, or the device id until the server has issued one.
+  protocol: string;
+  provisional: boolean;
+  report: ReportInput;
+  // catalog_id is known once the report is saved.
+  infractions: (InfractionInput & { catalog_id?: number | null })[];
+  timestamp: string;
+  synced: boolean;
+  // Null for reports read from the device outbox, which were filed by the signed-in agent.
+  agentName: string | null;
+  fromOutbox: boolean;
+  // Outbox entries queued before entries recorded their agent.
+  unattributed: boolean;
+}
+
+/**
+ * Loads the saved report, falling back to the copy in the device outbox so an agent
+ * can print the receipt of a report that has not been synced yet.
+ */
+async function loadReceipt(protocol: string, userId: string | undefined): Promise<ReceiptData | null> {
+  try {
+    const report = await fetchReport(protocol);
+    if (report) {
+      return {
+        protocol: report.protocol_number,
+        provisional: false,
+        report: { ...report, removals: toRemovalInputs(report.removals) },
+        infractions: report.infractions.map((infraction) => ({
+          ...infraction,
+          details: toDetailInputs(infraction.infraction_details),
+        })),
+        timestamp: report.created_at,
+        synced: true,
+        agentName: report.submitted_by_name,
+        fromOutbox: false,
+        unattributed: false,
+      };
+    }
+  } catch (err) {
+    console.error('Error fetching report for receipt:', err);
+  }
+
+  // Another agent's entry on a shared tablet is not shown; legacy entries have no agent.
+  const entry = await getOutboxEntry(protocol);
+  if (!entry || (entry.user_id && entry.user_id !== userId)) return null;
+  return {
+    protocol: entry.protocol_number ?? entry.client_id,
+    provisional: !entry.protocol_number,
+    report: entry.report,
+    infractions: entry.infractions,
+    timestamp: entry.created_at,
+    synced: entry.status === 'synced',
+    agentName: null,
+    fromOutbox: true,
+    unattributed: !entry.user_id,
+  };
+}
+
+export default function Receipt() {
+  const { protocol } = useParams<{ protocol: string }>();
+  const { session, profile } = useAuth();
+  const userId = session?.user.id;
+  const [receipt, setReceipt] = useState<ReceiptData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!protocol) return;
+
+    setLoading(true);
+    loadReceipt(protocol, userId)
+      .then(setReceipt)
+      .catch((err) => console.error('Error loading receipt:', err))
+      .finally(() => setLoading(false));
+  }, [protocol, userId]);
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8 flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Carregando dados...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!receipt || !protocol) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">
+          <p>Relatório {protocol} não encontrado.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { report, infractions } = receipt;
+  const totalInfractions = infractions.reduce((sum, infraction) => sum + lineQuantity(infraction), 0);
+  // The viewer may be a supervisor printing someone else's report, so only an outbox copy
+  // with their id is attributed to them.
+  const agentName = receipt.unattributed
+    ? 'Agente não identificado'
+    : receipt.fromOutbox
+      ? profile?.full_name ?? null
+      : receipt.agentName;
+
+  return (
+    <div className="container mx-auto px-4 py-8 print:p-0">
+      <div className="flex items-center justify-between mb-4 print:hidden">
+        <Link to="/form" className="inline-flex items-center text-sm text-blue-600 hover:underline">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Voltar ao formulário
+        </Link>
+        <button
+          type="button"
+          onClick={() => window.print()}
+          className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          <Printer className="h-4 w-4 mr-2" />
+          Imprimir / Salvar PDF
+        </button>
+      </div>
+
+      <div className="max-w-2xl mx-auto bg-white rounded-lg shadow-lg p-8 print:shadow-none print:max-w-none">
+        <div className="flex items-start justify-between gap-6 border-b border-gray-200 pb-6 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">GEOTRANOTE</h1>
+            <h2 className="text-md font-medium text-gray-600">Comprovante de relatório de turno</h2>
+            <p className="mt-4 text-sm text-gray-500">
+              {receipt.provisional ? 'Identificador provisório' : 'Protocolo'}
+            </p>
+            <p className="text-xl font-mono font-semibold text-gray-900">{receipt.protocol}</p>
+            <p className="mt-2 text-sm text-gray-700">
+              Registrado em {new Date(receipt.timestamp).toLocaleString('pt-BR')}
+            </p>
+            {!receipt.synced && (
+              <p className="mt-2 text-sm text-yellow-700">Aguardando envio ao servidor</p>
+            )}
+          </div>
+          <QRCodeSVG value={receipt.protocol} size={128} />
+        </div>
+
+        <dl className="grid grid-cols-2 gap-4 text-sm mb-6">
+          <div>
+            <dt className="text-gray-500">Tipo de serviço</dt>
+            <dd className="font-medium text-gray-900">{serviceLabel(report.service_name)}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Setor</dt>
+            <dd className="font-medium text-gray-900">{sectorLabel(report.sector)}</dd>
+          </div>
+          {report.shift_date && (
+            <div>
+              <dt className="text-gray-500">Turno</dt>
+              <dd className="font-medium text-gray-900">
+                {formatShiftDate(report.shift_date)}
+                {formatShiftTime(report) && ` · ${formatShiftTime(report)}`}
+              </dd>
+            </div>
+          )}
+          <div>
+            <dt className="text-gray-500">Viatura</dt>
+            <dd className="font-medium text-gray-900">{report.vehicle_prefix || '—'}</dd>
+          </div>
+          {report.team_members?.length > 0 && (
+            <div className="col-span-2">
+              <dt className="text-gray-500">Equipe</dt>
+              <dd className="font-medium text-gray-900">{report.team_members.join(', ')}</dd>
+            </div>
+          )}
+          <div>
+            <dt className="text-gray-500">Total de abordagens</dt>
+            <dd className="font-medium text-gray-900">{report.total_approaches}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Remoções</dt>
+            <dd className="font-medium text-gray-900">
+              {report.car_removals} carro(s) · {report.motorcycle_removals} moto(s)
+            </dd>
+          </div>
+        </dl>
+
+        {report.removals?.length > 0 && (
+          <div className="border border-gray-200 mb-6">
+            <RemovalList removals={report.removals} />
+          </div>
+        )}
+
+        <table className="min-w-full text-sm border border-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">Código</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">Infração</th>
+              <th className="px-3 py-2 text-right font-medium text-gray-700">Qtd.</th>
+            </tr>
+          </thead>
+          <tbody>
+            {infractions.length === 0 ? (
+              <tr>
+                <td colSpan={3} className="px-3 py-4 text-center text-gray-500">
+                  Nenhuma infração registrada
+                </td>
+              </tr>
+            ) : (
+              infractions.map((infraction, index) => {
+                const option = findInfractionOption(infraction.infraction_type, infraction.catalog_id);
+                return (
+                  <tr key={`${infraction.infraction_type}-${index}`} className="border-t border-gray-200">
+                    <td className="px-3 py-2 font-mono">{option?.key ?? '—'}</td>
+                    <td className="px-3 py-2">
+                      {option?.description ?? infraction.infraction_type}
+                      <InfractionDetailList details={infraction.details} />
+                    </td>
+                    <td className="px-3 py-2 text-right">{lineQuantity(infraction)}</td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+          <tfoot className="bg-gray-50 border-t border-gray-200">
+            <tr>
+              <td colSpan={2} className="px-3 py-2 font-medium text-gray-700">Total de infrações</td>
+              <td className="px-3 py-2 text-right font-medium text-gray-700">{totalInfractions}</td>
+            </tr>
+          </tfoot>
+        </table>
+
+        <div className="mt-12 grid grid-cols-2 gap-8 text-sm text-gray-600">
+          <div className="border-t border-gray-400 pt-2 text-center">
+            Agente responsável
+            {agentName && <p className="font-medium text-gray-900">{agentName}</p>}
+          </div>
+          <div className="border-t border-gray-400 pt-2 text-center">Supervisor</div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Pencil, Printer, Send } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  fetchReport,
+  fetchReviews,
+  fetchRevisions,
+  formatShiftDate,
+  formatShiftTime,
+  totalInfractions,
+  type Report,
+  type ReportReview,
+  type ReportRevision,
+} from '../lib/reports';
+import { formatInfraction } from '../infractionOptions';
+import { formatLocation } from '../lib/geolocation';
+import { sectorLabel, serviceLabel } from '../reportOptions';
+import ReportAmendForm from '../components/ReportAmendForm';
+import RevisionHistory from '../components/RevisionHistory';
+import ReportStatusBadge from '../components/ReportStatusBadge';
+import ReviewPanel from '../components/ReviewPanel';
+import ReviewHistory from '../components/ReviewHistory';
+import InfractionDetailList from '../components/InfractionDetailList';
+import RemovalList from '../components/RemovalList';
+import { hasRole, useAuth } from '../lib/auth';
+
+export default function ReportDetail() {
+  const { protocol } = useParams<{ protocol: string }>();
+  const { session, profile } = useAuth();
+  const [report, setReport] = useState<Report | null>(null);
+  const [revisions, setRevisions] = useState<ReportRevision[]>([]);
+  const [reviews, setReviews] = useState<ReportReview[]>([]);
+  const [editMode, setEditMode] = useState<'amend' | 'resubmit' | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!protocol) return;
+
+    setLoading(true);
+    setError(null);
+    fetchReport(protocol)
+      .then(async (report) => {
+        setReport(report);
+        const [revisions, reviews] = report
+          ? await Promise.all([fetchRevisions(report.uid), fetchReviews(report.uid)])
+          : [[], []];
+        setRevisions(revisions);
+        setReviews(reviews);
+      })
+      .catch((err) => {
+        setError(err?.message ?? 'Erro ao carregar relatório');
+        console.error('Error fetching report:', err);
+      })
+      .finally(() => setLoading(false));
+  }, [protocol, reloadKey]);
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8 flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Carregando dados...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !report) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">
+          <p>{error ? `Erro ao carregar os dados: ${error}` : `Relatório ${protocol} não encontrado.`}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const canReview = hasRole(profile, ['supervisor', 'admin']);
+  const canResubmit = report.status === 'returned' && report.submitted_by === session?.user.id;
+  // review_report rejects reviews of one's own report.
+  const ownReport = report.submitted_by === session?.user.id;
+  const reload = () => {
+    setEditMode(null);
+    setReloadKey((key) => key + 1);
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Link to={canReview ? '/reports' : '/my-reports'} className="inline-flex items-center text-sm text-blue-600 hover:underline mb-4">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Voltar aos relatórios
+      </Link>
+
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-1 flex items-center gap-3">
+            Relatório {report.protocol_number}
+            <ReportStatusBadge status={report.status} />
+          </h1>
+          <p className="text-gray-600">
+            Enviado em {new Date(report.created_at).toLocaleString('pt-BR')}
+            {report.submitted_by_name && ` por ${report.submitted_by_name}`}
+            {report.revision > 0 && report.updated_at &&
+              ` · Revisão ${report.revision} em ${new Date(report.updated_at).toLocaleString('pt-BR')}`}
+          </p>
+          <p className="text-sm text-gray-500">
+            Turno de {formatShiftDate(report.shift_date)}
+            {formatShiftTime(report) && `, ${formatShiftTime(report)}`}
+            {report.vehicle_prefix && ` · Viatura ${report.vehicle_prefix}`}
+            {report.team_members.length > 0 && ` · Equipe: ${report.team_members.join(', ')}`}
+          </p>
+          {formatLocation(report) && (
+            <p className="text-sm text-gray-500">Localização: {formatLocation(report)}</p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Link
+            to={`/reports/${report.protocol_number}/receipt`}
+            className="inline-flex items-center px-4 py-2 text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50"
+          >
+            <Printer className="h-4 w-4 mr-2" />
+            Comprovante
+          </Link>
+          {!editMode && canResubmit && (
+            <button
+              type="button"
+              onClick={() => setEditMode('resubmit')}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Corrigir e reenviar
+            </button>
+          )}
+          {!editMode && canReview && (
+            <button
+              type="button"
+              onClick={() => setEditMode('amend')}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              <Pencil className="h-4 w-4 mr-2" />
+              Corrigir
+            </button>
+          )}
+        </div>
+      </div>
+
+      {report.status === 'returned' && report.review_comment && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 mb-6">
+          <p className="font-medium">Devolvido para correção</p>
+          <p>{report.review_comment}</p>
+        </div>
+      )}
+
+      {editMode && (
+        <div className="mb-6">
+          <ReportAmendForm
+            report={report}
+            mode={editMode}
+            onCancel={() => setEditMode(null)}
+            onSaved={reload}
+          />
+        </div>
+      )}
+
+      {!editMode && canReview && !ownReport && <ReviewPanel report={report} onReviewed={reload} />}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6 mb-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Serviço</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xl font-semibold">{serviceLabel(report.service_name)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Setor</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xl font-semibold">{sectorLabel(report.sector)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Abordagens</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-4xl font-bold text-indigo-600">{report.total_approaches}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Remoções de Carros</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-4xl font-bold text-purple-600">{report.car_removals}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Remoções de Motos</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-4xl font-bold text-orange-600">{report.motorcycle_removals}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden mb-6">
+        <div className="grid grid-cols-[1fr_auto] bg-gray-50 border-b border-gray-200">
+          <div className="px-4 py-3 text-sm font-medium text-gray-700">Infração</div>
+          <div className="px-4 py-3 text-sm font-medium text-gray-700 text-right">Quantidade</div>
+        </div>
+        {report.infractions.length > 0 ? (
+          <>
+            {report.infractions.map((infraction) => (
+              <div
+                key={infraction.uid}
+                className="grid grid-cols-[1fr_auto] border-b border-gray-200 last:border-b-0"
+              >
+                <div className="px-4 py-3 text-sm text-gray-900">
+                  {formatInfraction(infraction.infraction_type, infraction.catalog_id)}
+                  <InfractionDetailList details={infraction.infraction_details} />
+                  {formatLocation(infraction) && (
+                    <span className="block text-xs text-gray-500">{formatLocation(infraction)}</span>
+                  )}
+                </div>
+                <div className="px-4 py-3 text-sm text-gray-900 text-right">{infraction.quantity}</div>
+              </div>
+            ))}
+            <div className="grid grid-cols-[1fr_auto] bg-gray-50">
+              <div className="px-4 py-3 text-sm font-medium text-gray-700">Total</div>
+              <div className="px-4 py-3 text-sm font-medium text-gray-700 text-right">{totalInfractions(report)}</div>
+            </div>
+          </>
+        ) : (
+          <div className="px-4 py-8 text-center text-sm text-gray-500">
+            Nenhuma infração registrada
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto mb-6">
+        <RemovalList removals={report.removals} />
+      </div>
+
+      <ReviewHistory reviews={reviews} />
+      <RevisionHistory revisions={revisions} />
+    </div>
+  );
+}
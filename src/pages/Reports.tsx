@@ -0,0 +1,281 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import {
+  REPORTS_PAGE_SIZE,
+  fetchReports,
+  formatShiftDate,
+  reportStatusLabels,
+  totalInfractions,
+  type Report,
+  type ReportQuery,
+  type ReportSortColumn,
+  type ReportStatus,
+} from '../lib/reports';
+import { indentedLabel, sectorDescendants, sectorLabel, sectorTree, serviceLabel } from '../reportOptions';
+import { useReferenceData } from '../lib/referenceData';
+import { useAuth } from '../lib/auth';
+import ReportStatusBadge from '../components/ReportStatusBadge';
+
+const columns: { key: ReportSortColumn; label: string; numeric?: boolean }[] = [
+  { key: 'shift_date', label: 'Data do turno' },
+  { key: 'service_name', label: 'Serviço' },
+  { key: 'sector', label: 'Setor' },
+  { key: 'total_approaches', label: 'Abordagens', numeric: true },
+  { key: 'car_removals', label: 'Rem. carros', numeric: true },
+  { key: 'motorcycle_removals', label: 'Rem. motos', numeric: true },
+];
+
+function readQuery(params: URLSearchParams): ReportQuery {
+  const sort = params.get('sort') as ReportSortColumn | null;
+  const status = params.get('status') as ReportStatus | null;
+  return {
+    service: params.get('service') ?? '',
+    sector: params.get('sector') ?? '',
+    start: params.get('start') ?? '',
+    end: params.get('end') ?? '',
+    sort: sort && columns.some((column) => column.key === sort) ? sort : 'shift_date',
+    ascending: params.get('order') === 'asc',
+    page: Math.max(0, Number(params.get('page')) || 0),
+    status: status && status in reportStatusLabels ? status : '',
+  };
+}
+
+interface ReportsProps {
+  // Lists only the reports submitted by the signed-in user ("Meus relatórios").
+  mine?: boolean;
+}
+
+export default function Reports({ mine = false }: ReportsProps) {
+  const { session } = useAuth();
+  const submittedBy = mine ? session?.user.id : undefined;
+  const { services, sectors } = useReferenceData();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [reports, setReports] = useState<Report[]>([]);
+  const [count, setCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = readQuery(searchParams);
+  const queryKey = searchParams.toString();
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    const current = readQuery(new URLSearchParams(queryKey));
+    const sectorScope = current.sector ? sectorDescendants(sectors, current.sector) : undefined;
+
+    fetchReports({ ...current, submittedBy, sectorScope })
+      .then((result) => {
+        if (cancelled) return;
+        setReports(result.reports);
+        setCount(result.count);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err?.message ?? 'Erro ao carregar relatórios');
+        console.error('Error fetching reports:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [queryKey, submittedBy, sectors]);
+
+  const updateQuery = (changes: Record<string, string>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    });
+    if (!('page' in changes)) {
+      next.delete('page');
+    }
+    setSearchParams(next);
+  };
+
+  const handleSort = (column: ReportSortColumn) => {
+    const ascending = query.sort === column ? !query.ascending : false;
+    updateQuery({ sort: column, order: ascending ? 'asc' : '' });
+  };
+
+  const pageCount = Math.max(1, Math.ceil(count / REPORTS_PAGE_SIZE));
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-6">{mine ? 'Meus relatórios' : 'Relatórios'}</h1>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Tipo de Serviço
+          </label>
+          <select
+            value={query.service}
+            onChange={(e) => updateQuery({ service: e.target.value })}
+            className="w-full p-2 border border-gray-300 rounded-md"
+          >
+            <option value="">Todos</option>
+            {[...services].sort((a, b) => a.sortOrder - b.sortOrder).map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Setor
+          </label>
+          <select
+            value={query.sector}
+            onChange={(e) => updateQuery({ sector: e.target.value })}
+            className="w-full p-2 border border-gray-300 rounded-md"
+          >
+            <option value="">Todos</option>
+            {sectorTree(sectors).map((node) => (
+              <option key={node.option.value} value={node.option.value}>{indentedLabel(node)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Situação
+          </label>
+          <select
+            value={query.status}
+            onChange={(e) => updateQuery({ status: e.target.value })}
+            className="w-full p-2 border border-gray-300 rounded-md"
+          >
+            <option value="">Todas</option>
+            {(Object.keys(reportStatusLabels) as ReportStatus[]).map((status) => (
+              <option key={status} value={status}>{reportStatusLabels[status]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Data Inicial
+          </label>
+          <input
+            type="date"
+            value={query.start}
+            onChange={(e) => updateQuery({ start: e.target.value })}
+            className="w-full p-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Data Final
+          </label>
+          <input
+            type="date"
+            value={query.end}
+            onChange={(e) => updateQuery({ end: e.target.value })}
+            className="w-full p-2 border border-gray-300 rounded-md"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 mb-6">
+          <p>Erro ao carregar os dados: {error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Protocolo</th>
+              {columns.map((column) => (
+                <th
+                  key={column.key}
+                  className={`px-4 py-3 font-medium text-gray-700 ${column.numeric ? 'text-right' : 'text-left'}`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => handleSort(column.key)}
+                    className="inline-flex items-center gap-1 hover:text-gray-900"
+                  >
+                    {column.label}
+                    {query.sort === column.key &&
+                      (query.ascending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+                  </button>
+                </th>
+              ))}
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Infrações</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Situação</th>
+              {!mine && <th className="px-4 py-3 text-left font-medium text-gray-700">Agente</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td colSpan={columns.length + (mine ? 3 : 4)} className="px-4 py-8 text-center text-gray-500">
+                  Carregando dados...
+                </td>
+              </tr>
+            ) : reports.length === 0 ? (
+              <tr>
+                <td colSpan={columns.length + (mine ? 3 : 4)} className="px-4 py-8 text-center text-gray-500">
+                  Nenhum relatório encontrado
+                </td>
+              </tr>
+            ) : (
+              reports.map((report) => (
+                <tr key={report.uid} className="border-b border-gray-200 last:border-b-0 hover:bg-gray-50">
+                  <td className="px-4 py-3 font-mono">
+                    <Link to={`/reports/${report.protocol_number}`} className="text-blue-600 hover:underline">
+                      {report.protocol_number}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3">{formatShiftDate(report.shift_date)}</td>
+                  <td className="px-4 py-3">{serviceLabel(report.service_name)}</td>
+                  <td className="px-4 py-3">{sectorLabel(report.sector)}</td>
+                  <td className="px-4 py-3 text-right">{report.total_approaches}</td>
+                  <td className="px-4 py-3 text-right">{report.car_removals}</td>
+                  <td className="px-4 py-3 text-right">{report.motorcycle_removals}</td>
+                  <td className="px-4 py-3 text-right">{totalInfractions(report)}</td>
+                  <td className="px-4 py-3"><ReportStatusBadge status={report.status} /></td>
+                  {!mine && <td className="px-4 py-3">{report.submitted_by_name ?? '—'}</td>}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+        <span>{count} relatório(s)</span>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            disabled={query.page === 0}
+            onClick={() => updateQuery({ page: String(query.page - 1) })}
+            className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+          >
+            Anterior
+          </button>
+          <span>
+            Página {query.page + 1} de {pageCount}
+          </span>
+          <button
+            type="button"
+            disabled={query.page + 1 >= pageCount}
+            onClick={() => updateQuery({ page: String(query.page + 1) })}
+            className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+          >
+            Próxima
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CheckCircle } from 'lucide-react';
+import { fetchReviewQueue, formatShiftDate, reviewReport, totalInfractions, type Report } from '../lib/reports';
+import { sectorLabel, serviceLabel } from '../reportOptions';
+import ReportStatusBadge from '../components/ReportStatusBadge';
+import { useAuth } from '../lib/auth';
+
+export default function ReviewQueue() {
+  const { session } = useAuth();
+  const [reports, setReports] = useState<Report[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchReviewQueue()
+      .then(setReports)
+      .catch((err) => {
+        setError(err?.message ?? 'Erro ao carregar a fila de revisão');
+        console.error('Error fetching review queue:', err);
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleApprove = async (report: Report) => {
+    setSavingId(report.uid);
+    setError(null);
+    try {
+      await reviewReport(report.uid, 'approved');
+      setReports((current) => current.filter((item) => item.uid !== report.uid));
+    } catch (err) {
+      setError((err as { message?: string })?.message ?? 'Erro ao aprovar o relatório');
+      console.error('Error approving report:', err);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-2">Fila de revisão</h1>
+      <p className="text-gray-600 mb-6">
+        Relatórios aguardando aprovação, do mais antigo para o mais recente. Para devolver um relatório
+        com comentários, abra-o pelo protocolo.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 mb-6">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Protocolo</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Data do turno</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Serviço</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Setor</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Agente</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Infrações</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Situação</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-8 text-center text-gray-500">Carregando dados...</td>
+              </tr>
+            ) : reports.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
+                  Nenhum relatório aguardando revisão
+                </td>
+              </tr>
+            ) : (
+              reports.map((report) => (
+                <tr key={report.uid} className="border-b border-gray-200 last:border-b-0 hover:bg-gray-50">
+                  <td className="px-4 py-3 font-mono">
+                    <Link to={`/reports/${report.protocol_number}`} className="text-blue-600 hover:underline">
+                      {report.protocol_number}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3">{formatShiftDate(report.shift_date)}</td>
+                  <td className="px-4 py-3">{serviceLabel(report.service_name)}</td>
+                  <td className="px-4 py-3">{sectorLabel(report.sector)}</td>
+                  <td className="px-4 py-3">{report.submitted_by_name ?? '—'}</td>
+                  <td className="px-4 py-3 text-right">{totalInfractions(report)}</td>
+                  <td className="px-4 py-3"><ReportStatusBadge status={report.status} /></td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      type="button"
+                      onClick={() => handleApprove(report)}
+                      // review_report rejects reviews of one's own report.
+                      disabled={savingId === report.uid || report.submitted_by === session?.user.id}
+                      className="inline-flex items-center px-3 py-1.5 text-sm text-green-700 border border-green-600 rounded-md hover:bg-green-50 disabled:opacity-50"
+                    >
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Aprovar
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
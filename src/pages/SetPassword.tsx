@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { MIN_PASSWORD_LENGTH, changePassword, updatePassword, useAuth, validateNewPassword } from '../lib/auth';
+
+interface SetPasswordProps {
+  // 'invite' is the first password of an invited user, 'recovery' a forgotten one.
+  mode: 'invite' | 'recovery';
+}
+
+const titles: Record<SetPasswordProps['mode'], string> = {
+  invite: 'Bem-vindo ao GEOTRANOTE',
+  recovery: 'Nova senha',
+};
+
+/**
+ * Target of the invitation and recovery e-mails. The link signs the user in before this page
+ * loads; an expired or reused link leaves an error in the URL fragment instead. Opened with a
+ * session that did not come from such a link, the page asks for the current password.
+ */
+const SetPassword = ({ mode }: SetPasswordProps) => {
+  const { session, loading, passwordLink } = useAuth();
+  const navigate = useNavigate();
+  const [linkError] = useState(() => new URLSearchParams(window.location.hash.slice(1)).get('error_description'));
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateNewPassword(password, confirmation);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      if (passwordLink) {
+        await updatePassword(password);
+      } else {
+        await changePassword(session?.user.email ?? '', currentPassword, password);
+      }
+      navigate('/', { replace: true });
+    } catch (err) {
+      setError((err as { message?: string })?.message ?? 'Erro ao salvar a senha.');
+      console.error('Error updating password:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center h-screen bg-gray-100">
+      <div className="bg-white p-8 rounded shadow-md w-96">
+        <h2 className="text-2xl font-semibold mb-2 text-gray-800">{titles[mode]}</h2>
+        {!session ? (
+          <>
+            <p className="text-red-500 mb-4">
+              {linkError ? `${linkError}.` : 'O link é inválido ou expirou.'}
+            </p>
+            <p className="text-sm text-gray-700">
+              {mode === 'invite'
+                ? 'Peça um novo convite ao administrador ou use "Esqueceu a senha?" com o e-mail convidado.'
+                : 'Solicite um novo link de recuperação.'}
+            </p>
+            <Link to="/forgot-password" className="inline-block mt-6 text-sm text-blue-600 hover:underline">
+              Esqueceu a senha?
+            </Link>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 mb-6">
+              {mode === 'invite' ? 'Escolha a senha da sua conta' : 'Escolha uma nova senha'} ({session.user.email}),
+              com pelo menos {MIN_PASSWORD_LENGTH} caracteres.
+            </p>
+            {error && <div className="text-red-500 mb-4">{error}</div>}
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {!passwordLink && (
+                <div>
+                  <label htmlFor="current-password" className="block text-sm font-medium text-gray-700">Senha atual</label>
+                  <input
+                    type="password"
+                    id="current-password"
+                    autoComplete="current-password"
+                    value={currentPassword}
+                    onChange={(e) => setCurrentPassword(e.target.value)}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    required
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Não lembra a senha atual?{' '}
+                    <Link to="/forgot-password" className="text-blue-600 hover:underline">Solicite um novo link</Link>.
+                  </p>
+                </div>
+              )}
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">Senha</label>
+                <input
+                  type="password"
+                  id="password"
+                  autoComplete="new-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="confirmation" className="block text-sm font-medium text-gray-700">Confirmar senha</label>
+                <input
+                  type="password"
+                  id="confirmation"
+                  autoComplete="new-password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  required
+                />
+              </div>
+              <button
+                type="submit"
+                className="w-full py-2 px-4 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+                disabled={saving}
+              >
+                {saving ? 'Salvando...' : 'Salvar senha'}
+              </button>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SetPassword;
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  activeSectorTree,
+  bundledSectorOptions,
+  indentedLabel,
+  sectorDescendants,
+  sectorLabel,
+  sectorTree,
+  setSectorOptions,
+  type SectorOption,
+} from './reportOptions';
+
+const sector = (value: string, parent: string | null, sortOrder: number, changes: Partial<SectorOption> = {}): SectorOption => ({
+  value,
+  label: value,
+  parent,
+  selectable: true,
+  sortOrder,
+  active: true,
+  ...changes,
+});
+
+const sectors = [
+  sector('GRE', null, 2),
+  sector('GEOTRAN', null, 1, { selectable: false }),
+  sector('GEOTRAN-2', 'GEOTRAN', 2),
+  sector('GEOTRAN-1', 'GEOTRAN', 1),
+  sector('GEOTRAN-1A', 'GEOTRAN-1', 1),
+  sector('ROMU', null, 3, { active: false }),
+  sector('Órfão', 'Removido', 4),
+];
+
+const tree = (options: SectorOption[]) => sectorTree(options).map(({ option, depth }) => [option.value, depth]);
+
+describe('sectorTree', () => {
+  it('lists each sector after its parent in sort order', () => {
+    expect(tree(sectors)).toEqual([
+      ['GEOTRAN', 0],
+      ['GEOTRAN-1', 1],
+      ['GEOTRAN-1A', 2],
+      ['GEOTRAN-2', 1],
+      ['GRE', 0],
+      ['ROMU', 0],
+      ['Órfão', 0],
+    ]);
+  });
+
+  it('stops at cycles left by hand-edited data', () => {
+    const cycle = [sector('A', null, 1), sector('B', 'C', 1), sector('C', 'B', 1)];
+    expect(tree(cycle)).toEqual([['A', 0]]);
+  });
+});
+
+describe('activeSectorTree', () => {
+  it('leaves out inactive sectors', () => {
+    expect(activeSectorTree(sectors).map((node) => node.option.value)).not.toContain('ROMU');
+  });
+
+  it('keeps groups with children when only selectable sectors are asked for', () => {
+    const options = [...sectors, sector('Grupo vazio', null, 5, { selectable: false })];
+    const values = activeSectorTree(options, true).map((node) => node.option.value);
+    expect(values).toContain('GEOTRAN');
+    expect(values).not.toContain('Grupo vazio');
+  });
+});
+
+describe('sectorDescendants', () => {
+  it('returns the sector and every sector below it', () => {
+    expect(sectorDescendants(sectors, 'GEOTRAN').sort()).toEqual(['GEOTRAN', 'GEOTRAN-1', 'GEOTRAN-1A', 'GEOTRAN-2']);
+  });
+
+  it('returns a leaf alone', () => {
+    expect(sectorDescendants(sectors, 'GRE')).toEqual(['GRE']);
+  });
+});
+
+describe('indentedLabel', () => {
+  it('indents by depth', () => {
+    expect(indentedLabel({ option: sector('GEOTRAN-1A', 'GEOTRAN-1', 1), depth: 2 })).toBe(`${'\u00a0'.repeat(6)}GEOTRAN-1A`);
+  });
+});
+
+describe('sectorLabel', () => {
+  afterEach(() => {
+    setSectorOptions(bundledSectorOptions);
+  });
+
+  it('uses the loaded labels and falls back to the key', () => {
+    setSectorOptions([sector('geotran-1', null, 1, { label: 'GEOTRAN - 1º Distrito' })]);
+    expect(sectorLabel('geotran-1')).toBe('GEOTRAN - 1º Distrito');
+    expect(sectorLabel('desconhecido')).toBe('desconhecido');
+  });
+});
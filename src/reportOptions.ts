@@ -0,0 +1,172 @@
+// Service types and sectors are reference data kept in the database (see
+// lib/referenceData.ts). The lists below are the copy shipped with the app, used until the
+// first load and as the fallback offline; the lookup helpers always use the loaded lists.
+
+export type ServiceType = string;
+export type SectorType = string;
+
+export interface ServiceOption {
+  value: ServiceType;
+  label: string;
+  sortOrder: number;
+  // Inactive entries stay for the labels of older reports but are not offered on new ones.
+  active: boolean;
+}
+
+export interface SectorOption {
+  value: SectorType;
+  label: string;
+  // Sector one level up in the tree, e.g. GEOTRAN for its district bases.
+  parent: SectorType | null;
+  // False for grouping rows that reports are never filed under.
+  selectable: boolean;
+  sortOrder: number;
+  active: boolean;
+}
+
+const service = (value: string, label: string, sortOrder: number): ServiceOption => ({
+  value,
+  label,
+  sortOrder,
+  active: true,
+});
+
+const sector = (value: string, parent: string | null, sortOrder: number, selectable = true): SectorOption => ({
+  value,
+  label: value,
+  parent,
+  selectable,
+  sortOrder,
+  active: true,
+});
+
+export const bundledServiceOptions: ServiceOption[] = [
+  service('ordinario', 'Ordinário', 1),
+  service('operacao', 'Operação', 2),
+  service('ras', 'RAS', 3),
+];
+
+export const bundledSectorOptions: SectorOption[] = [
+  sector('GEOTRAN', null, 1, false),
+  sector('GEOTRAN - 1º Distrito', 'GEOTRAN', 1),
+  sector('GEOTRAN - 2º Distrito', 'GEOTRAN', 2),
+  sector('GEOTRAN - 3º/4º Distrito', 'GEOTRAN', 3),
+  sector('1º Distrito', null, 2),
+  sector('2º Distrito', null, 3),
+  sector('3º Distrito', null, 4),
+  sector('4º Distrito', null, 5),
+  sector('GEDAM', null, 6),
+  sector('GRE', null, 7),
+  sector('GMAP', null, 8),
+  sector('ROMU', null, 9),
+  sector('RAS', null, 10),
+  sector('Operação', null, 11),
+];
+
+let serviceLabels = new Map<string, string>();
+
+/** Replaces the service types used by serviceLabel. */
+export function setServiceOptions(options: ServiceOption[]) {
+  serviceLabels = new Map(options.map((option) => [option.value, option.label]));
+}
+
+setServiceOptions(bundledServiceOptions);
+
+export function serviceLabel(value: string) {
+  return serviceLabels.get(value) ?? value;
+}
+
+let sectorLabels = new Map<string, string>();
+
+/** Replaces the sectors used by sectorLabel. */
+export function setSectorOptions(options: SectorOption[]) {
+  sectorLabels = new Map(options.map((option) => [option.value, option.label]));
+}
+
+setSectorOptions(bundledSectorOptions);
+
+export function sectorLabel(value: string) {
+  return sectorLabels.get(value) ?? value;
+}
+
+const bySortOrder = <T extends { sortOrder: number; label: string }>(a: T, b: T) =>
+  a.sortOrder - b.sortOrder || a.label.localeCompare(b.label);
+
+/** Service types offered on new reports, in display order. */
+export function activeServiceOptions(options: ServiceOption[]) {
+  return options.filter((option) => option.active).sort(bySortOrder);
+}
+
+export interface SectorNode {
+  option: SectorOption;
+  depth: number;
+}
+
+/**
+ * Flattens the sector tree in display order, each sector after its parent. Sectors whose
+ * parent is missing from the list are shown at the top level.
+ */
+export function sectorTree(options: SectorOption[]): SectorNode[] {
+  const values = new Set(options.map((option) => option.value));
+  const nodes: SectorNode[] = [];
+  const visit = (parent: string | null, depth: number) => {
+    options
+      .filter((option) => (option.parent !== null && values.has(option.parent) ? option.parent : null) === parent)
+      .sort(bySortOrder)
+      .forEach((option) => {
+        nodes.push({ option, depth });
+        // Guards against cycles left by hand-edited data.
+        if (depth < 10) visit(option.value, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return nodes;
+}
+
+/** Active sectors in tree order, for pickers. Set selectableOnly for the sector of a report. */
+export function activeSectorTree(options: SectorOption[], selectableOnly = false) {
+  return sectorTree(options.filter((option) => option.active)).filter(
+    (node) => !selectableOnly || node.option.selectable || options.some((child) => child.parent === node.option.value)
+  );
+}
+
+/** The sector itself and every sector below it. */
+export function sectorDescendants(options: SectorOption[], value: string) {
+  const result = [value];
+  for (let i = 0; i < result.length && i < options.length + 1; i++) {
+    options.forEach((option) => {
+      if (option.parent === result[i] && !result.includes(option.value)) result.push(option.value);
+    });
+  }
+  return result;
+}
+
+/** Indents a sector label by its depth in a plain <select>. */
+export function indentedLabel({ option, depth }: SectorNode) {
+  return `${'\u00a0\u00a0\u00a0'.repeat(depth)}${option.label}`;
+}
+
+// Vehicle species as named in the CTB (art. 96) and on the auto de infração.
+export type VehicleType = 'automovel' | 'motocicleta' | 'motoneta' | 'caminhonete' | 'caminhao' | 'onibus' | 'micro-onibus' | 'utilitario' | 'reboque' | 'outro';
+
+export const vehicleTypeOptions: { value: VehicleType; label: string }[] = [
+  { value: 'automovel', label: 'Automóvel' },
+  { value: 'motocicleta', label: 'Motocicleta' },
+  { value: 'motoneta', label: 'Motoneta' },
+  { value: 'caminhonete', label: 'Caminhonete' },
+  { value: 'caminhao', label: 'Caminhão' },
+  { value: 'onibus', label: 'Ônibus' },
+  { value: 'micro-onibus', label: 'Micro-ônibus' },
+  { value: 'utilitario', label: 'Utilitário' },
+  { value: 'reboque', label: 'Reboque / semirreboque' },
+  { value: 'outro', label: 'Outro' }
+];
+
+export function vehicleTypeLabel(value: string) {
+  return vehicleTypeOptions.find((option) => option.value === value)?.label ?? value;
+}
+
+/** Removals of these types count as motorcycles in the per-report counters; the rest as cars. */
+export function isMotorcycle(vehicleType: string) {
+  return vehicleType === 'motocicleta' || vehicleType === 'motoneta';
+}
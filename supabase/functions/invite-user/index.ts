@@ -0,0 +1,79 @@
+// Invites a new user by e-mail and sets up their profile. Creating accounts needs the service
+// role key, so administrators call this Edge Function instead of the auth API.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const roles = ['agent', 'supervisor', 'admin'];
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer /, '') ?? '';
+  const { data: { user }, error: userError } = await admin.auth.getUser(token);
+  if (userError || !user) {
+    return json({ error: 'Sessão inválida. Entre novamente.' }, 401);
+  }
+
+  const { data: caller } = await admin
+    .from('user_profiles')
+    .select('role')
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (caller?.role !== 'admin') {
+    return json({ error: 'Apenas administradores podem convidar usuários.' }, 403);
+  }
+
+  let invitation;
+  try {
+    invitation = await req.json();
+  } catch {
+    return json({ error: 'Convite inválido.' }, 400);
+  }
+
+  const email = String(invitation.email ?? '').trim().toLowerCase();
+  const fullName = String(invitation.full_name ?? '').trim();
+  if (!email.includes('@')) {
+    return json({ error: 'Informe um e-mail válido.' }, 400);
+  }
+  if (!fullName) {
+    return json({ error: 'Informe o nome do usuário.' }, 400);
+  }
+  if (!roles.includes(invitation.role)) {
+    return json({ error: 'Perfil inválido.' }, 400);
+  }
+
+  // The link signs the user in on the page where the first password is chosen.
+  const { data, error } = await admin.auth.admin.inviteUserByEmail(email, {
+    data: { full_name: fullName },
+    redirectTo: invitation.redirect_to,
+  });
+  if (error) {
+    return json({ error: error.message }, error.status ?? 400);
+  }
+
+  // handle_new_user has created the profile as an agent.
+  const { error: profileError } = await admin
+    .from('user_profiles')
+    .update({ role: invitation.role, sector: invitation.sector || null })
+    .eq('user_id', data.user.id);
+  if (profileError) {
+    return json({ error: profileError.message }, 500);
+  }
+
+  return json({ user_id: data.user.id });
+});
@@ -0,0 +1,80 @@
+-- Single round trip for saving a report and its infraction lines.
+-- The function body runs in one transaction, so either everything is saved or nothing is,
+-- and a repeated protocol_number returns the report that already exists.
+
+-- The two tables the app started with, as they were created in the dashboard before the
+-- schema was kept in the repo, so a new database can be built from the migrations alone.
+-- `if not exists` keeps this a no-op on databases that already have them. Later migrations
+-- add the remaining columns, the functions and the RLS policies (20261019140000_user_roles);
+-- 20261019240000_schema_constraints tightens both tables.
+
+create table if not exists public.geotranote_reports (
+  uid uuid primary key default gen_random_uuid(),
+  protocol_number text not null,
+  service_name text not null,
+  sector text not null,
+  car_removals integer not null default 0,
+  motorcycle_removals integer not null default 0,
+  total_approaches integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+-- report_uid was nullable because the first version of the form inserted the lines before
+-- the report and linked them afterwards.
+create table if not exists public.infractions (
+  uid uuid primary key default gen_random_uuid(),
+  report_uid uuid references public.geotranote_reports (uid) on delete cascade,
+  infraction_type text not null,
+  quantity integer not null
+);
+
+alter table public.geotranote_reports enable row level security;
+alter table public.infractions enable row level security;
+
+create unique index if not exists geotranote_reports_protocol_number_key
+  on public.geotranote_reports (protocol_number);
+
+create or replace function public.submit_report(report jsonb, infractions jsonb default '[]'::jsonb)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_report_uid uuid;
+begin
+  insert into public.geotranote_reports (
+    protocol_number,
+    service_name,
+    sector,
+    car_removals,
+    motorcycle_removals,
+    total_approaches
+  )
+  values (
+    report->>'protocol_number',
+    report->>'service_name',
+    report->>'sector',
+    coalesce((report->>'car_removals')::int, 0),
+    coalesce((report->>'motorcycle_removals')::int, 0),
+    coalesce((report->>'total_approaches')::int, 0)
+  )
+  on conflict (protocol_number) do nothing
+  returning uid into v_report_uid;
+
+  if v_report_uid is null then
+    -- Retry or double submit: the report and its infractions are already stored.
+    select uid into v_report_uid
+    from public.geotranote_reports
+    where protocol_number = report->>'protocol_number';
+
+    return v_report_uid;
+  end if;
+
+  insert into public.infractions (report_uid, infraction_type, quantity)
+  select v_report_uid, item->>'infraction_type', (item->>'quantity')::int
+  from jsonb_array_elements(infractions) as item;
+
+  return v_report_uid;
+end;
+$$;
+
+grant execute on function public.submit_report(jsonb, jsonb) to authenticated;
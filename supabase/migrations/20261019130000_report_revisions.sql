@@ -0,0 +1,108 @@
+-- Amendments to submitted reports. The report and its infraction rows always hold the
+-- latest revision, so every aggregate reads corrected values; report_revisions keeps the
+-- before/after snapshots of each change together with who made it and why.
+
+alter table public.geotranote_reports
+  add column if not exists revision integer not null default 0,
+  add column if not exists updated_at timestamptz;
+
+create table if not exists public.report_revisions (
+  id bigint generated always as identity primary key,
+  report_uid uuid not null references public.geotranote_reports (uid) on delete cascade,
+  revision integer not null,
+  changed_by uuid not null default auth.uid(),
+  changed_by_email text,
+  changed_at timestamptz not null default now(),
+  reason text not null check (length(btrim(reason)) > 0),
+  old_values jsonb not null,
+  new_values jsonb not null,
+  unique (report_uid, revision)
+);
+
+create index if not exists report_revisions_report_uid_idx on public.report_revisions (report_uid);
+
+alter table public.report_revisions enable row level security;
+
+create policy "Authenticated users can read report revisions"
+  on public.report_revisions for select
+  to authenticated
+  using (true);
+
+create or replace function public.report_snapshot(p_report_uid uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select jsonb_build_object(
+    'service_name', r.service_name,
+    'sector', r.sector,
+    'car_removals', r.car_removals,
+    'motorcycle_removals', r.motorcycle_removals,
+    'total_approaches', r.total_approaches,
+    'infractions', coalesce((
+      select jsonb_agg(
+        jsonb_build_object('infraction_type', i.infraction_type, 'quantity', i.quantity)
+        order by i.infraction_type
+      )
+      from public.infractions i
+      where i.report_uid = r.uid
+    ), '[]'::jsonb)
+  )
+  from public.geotranote_reports r
+  where r.uid = p_report_uid;
+$$;
+
+create or replace function public.amend_report(
+  p_report_uid uuid,
+  report jsonb,
+  infractions jsonb,
+  reason text
+)
+returns integer
+language plpgsql
+as $$
+declare
+  v_old jsonb;
+  v_new jsonb;
+  v_revision integer;
+begin
+  if reason is null or length(btrim(reason)) = 0 then
+    raise exception 'O motivo da correção é obrigatório' using errcode = 'check_violation';
+  end if;
+
+  select public.report_snapshot(p_report_uid) into v_old;
+  if v_old is null then
+    raise exception 'Relatório % não encontrado', p_report_uid using errcode = 'no_data_found';
+  end if;
+
+  update public.geotranote_reports
+  set
+    service_name = report->>'service_name',
+    sector = report->>'sector',
+    car_removals = coalesce((report->>'car_removals')::int, 0),
+    motorcycle_removals = coalesce((report->>'motorcycle_removals')::int, 0),
+    total_approaches = coalesce((report->>'total_approaches')::int, 0),
+    revision = revision + 1,
+    updated_at = now()
+  where uid = p_report_uid
+  returning revision into v_revision;
+
+  delete from public.infractions where report_uid = p_report_uid;
+
+  insert into public.infractions (report_uid, infraction_type, quantity)
+  select p_report_uid, item->>'infraction_type', (item->>'quantity')::int
+  from jsonb_array_elements(infractions) as item;
+
+  select public.report_snapshot(p_report_uid) into v_new;
+  if v_new = v_old then
+    raise exception 'Nenhuma alteração informada' using errcode = 'check_violation';
+  end if;
+
+  insert into public.report_revisions (report_uid, revision, changed_by_email, reason, old_values, new_values)
+  values (p_report_uid, v_revision, auth.jwt()->>'email', btrim(reason), v_old, v_new);
+
+  return v_revision;
+end;
+$$;
+
+grant execute on function public.amend_report(uuid, jsonb, jsonb, text) to authenticated;
@@ -0,0 +1,226 @@
+-- Per-user roles. Agents submit reports and see their own; supervisors see and amend the
+-- reports of their sector; administrators see everything and manage users and reference data.
+
+create table if not exists public.user_profiles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  full_name text,
+  role text not null default 'agent' check (role in ('agent', 'supervisor', 'admin')),
+  sector text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.user_profiles enable row level security;
+
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.user_profiles where user_id = auth.uid();
+$$;
+
+create or replace function public.current_user_sector()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select sector from public.user_profiles where user_id = auth.uid();
+$$;
+
+create policy "Users read their own profile, admins read all"
+  on public.user_profiles for select
+  to authenticated
+  using (user_id = auth.uid() or public.current_user_role() = 'admin');
+
+create policy "Admins manage profiles"
+  on public.user_profiles for update
+  to authenticated
+  using (public.current_user_role() = 'admin')
+  with check (public.current_user_role() = 'admin');
+
+-- Every new account starts as an agent; an administrator promotes it afterwards.
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.user_profiles (user_id, full_name)
+  values (new.id, coalesce(new.raw_user_meta_data->>'full_name', new.email))
+  on conflict (user_id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+insert into public.user_profiles (user_id, full_name)
+select id, coalesce(raw_user_meta_data->>'full_name', email)
+from auth.users
+on conflict (user_id) do nothing;
+
+-- Ownership is needed for the agent policies below.
+alter table public.geotranote_reports
+  add column if not exists submitted_by uuid references auth.users (id) default auth.uid();
+
+create index if not exists geotranote_reports_submitted_by_idx on public.geotranote_reports (submitted_by);
+create index if not exists geotranote_reports_sector_idx on public.geotranote_reports (sector);
+
+create or replace function public.can_read_report(p_submitted_by uuid, p_sector text)
+returns boolean
+language sql
+stable
+as $$
+  select case public.current_user_role()
+    when 'admin' then true
+    when 'supervisor' then p_sector = public.current_user_sector() or p_submitted_by = auth.uid()
+    else p_submitted_by = auth.uid()
+  end;
+$$;
+
+create or replace function public.can_amend_report(p_sector text)
+returns boolean
+language sql
+stable
+as $$
+  select case public.current_user_role()
+    when 'admin' then true
+    when 'supervisor' then p_sector = public.current_user_sector()
+    else false
+  end;
+$$;
+
+alter table public.geotranote_reports enable row level security;
+alter table public.infractions enable row level security;
+
+create policy "Reports visible by role"
+  on public.geotranote_reports for select
+  to authenticated
+  using (public.can_read_report(submitted_by, sector));
+
+create policy "Users submit their own reports"
+  on public.geotranote_reports for insert
+  to authenticated
+  with check (submitted_by = auth.uid());
+
+create policy "Supervisors and admins amend reports"
+  on public.geotranote_reports for update
+  to authenticated
+  using (public.can_amend_report(sector))
+  with check (public.can_amend_report(sector));
+
+create policy "Admins delete reports"
+  on public.geotranote_reports for delete
+  to authenticated
+  using (public.current_user_role() = 'admin');
+
+create policy "Infractions visible with their report"
+  on public.infractions for select
+  to authenticated
+  using (exists (
+    select 1 from public.geotranote_reports r
+    where r.uid = infractions.report_uid
+  ));
+
+create policy "Infractions added to own or amendable reports"
+  on public.infractions for insert
+  to authenticated
+  with check (exists (
+    select 1 from public.geotranote_reports r
+    where r.uid = infractions.report_uid
+      and (r.submitted_by = auth.uid() or public.can_amend_report(r.sector))
+  ));
+
+create policy "Infractions amended by supervisors and admins"
+  on public.infractions for delete
+  to authenticated
+  using (exists (
+    select 1 from public.geotranote_reports r
+    where r.uid = infractions.report_uid
+      and public.can_amend_report(r.sector)
+  ));
+
+drop policy if exists "Authenticated users can read report revisions" on public.report_revisions;
+
+create policy "Revisions visible with their report"
+  on public.report_revisions for select
+  to authenticated
+  using (exists (
+    select 1 from public.geotranote_reports r
+    where r.uid = report_revisions.report_uid
+  ));
+
+create policy "Revisions recorded by amending users"
+  on public.report_revisions for insert
+  to authenticated
+  with check (changed_by = auth.uid());
+
+create or replace function public.amend_report(
+  p_report_uid uuid,
+  report jsonb,
+  infractions jsonb,
+  reason text
+)
+returns integer
+language plpgsql
+as $$
+declare
+  v_old jsonb;
+  v_new jsonb;
+  v_revision integer;
+begin
+  if coalesce(public.current_user_role(), 'agent') not in ('supervisor', 'admin') then
+    raise exception 'Apenas supervisores e administradores podem corrigir relatórios'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if reason is null or length(btrim(reason)) = 0 then
+    raise exception 'O motivo da correção é obrigatório' using errcode = 'check_violation';
+  end if;
+
+  select public.report_snapshot(p_report_uid) into v_old;
+  if v_old is null then
+    raise exception 'Relatório % não encontrado', p_report_uid using errcode = 'no_data_found';
+  end if;
+
+  update public.geotranote_reports
+  set
+    service_name = report->>'service_name',
+    sector = report->>'sector',
+    car_removals = coalesce((report->>'car_removals')::int, 0),
+    motorcycle_removals = coalesce((report->>'motorcycle_removals')::int, 0),
+    total_approaches = coalesce((report->>'total_approaches')::int, 0),
+    revision = revision + 1,
+    updated_at = now()
+  where uid = p_report_uid
+  returning revision into v_revision;
+
+  if v_revision is null then
+    raise exception 'Sem permissão para corrigir este relatório' using errcode = 'insufficient_privilege';
+  end if;
+
+  delete from public.infractions where report_uid = p_report_uid;
+
+  insert into public.infractions (report_uid, infraction_type, quantity)
+  select p_report_uid, item->>'infraction_type', (item->>'quantity')::int
+  from jsonb_array_elements(infractions) as item;
+
+  select public.report_snapshot(p_report_uid) into v_new;
+  if v_new = v_old then
+    raise exception 'Nenhuma alteração informada' using errcode = 'check_violation';
+  end if;
+
+  insert into public.report_revisions (report_uid, revision, changed_by_email, reason, old_values, new_values)
+  values (p_report_uid, v_revision, auth.jwt()->>'email', btrim(reason), v_old, v_new);
+
+  return v_revision;
+end;
+$$;
@@ -0,0 +1,57 @@
+-- Record who submitted each report. Both values are taken from the session on the server,
+-- so the client cannot attribute a report to someone else.
+
+alter table public.geotranote_reports
+  add column if not exists submitted_by_name text;
+
+create or replace function public.submit_report(report jsonb, infractions jsonb default '[]'::jsonb)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_report_uid uuid;
+  v_submitter_name text;
+begin
+  select coalesce(p.full_name, auth.jwt()->>'email') into v_submitter_name
+  from (select 1) as one
+  left join public.user_profiles p on p.user_id = auth.uid();
+
+  insert into public.geotranote_reports (
+    protocol_number,
+    service_name,
+    sector,
+    car_removals,
+    motorcycle_removals,
+    total_approaches,
+    submitted_by,
+    submitted_by_name
+  )
+  values (
+    report->>'protocol_number',
+    report->>'service_name',
+    report->>'sector',
+    coalesce((report->>'car_removals')::int, 0),
+    coalesce((report->>'motorcycle_removals')::int, 0),
+    coalesce((report->>'total_approaches')::int, 0),
+    auth.uid(),
+    v_submitter_name
+  )
+  on conflict (protocol_number) do nothing
+  returning uid into v_report_uid;
+
+  if v_report_uid is null then
+    -- Retry or double submit: the report and its infractions are already stored.
+    select uid into v_report_uid
+    from public.geotranote_reports
+    where protocol_number = report->>'protocol_number';
+
+    return v_report_uid;
+  end if;
+
+  insert into public.infractions (report_uid, infraction_type, quantity)
+  select v_report_uid, item->>'infraction_type', (item->>'quantity')::int
+  from jsonb_array_elements(infractions) as item;
+
+  return v_report_uid;
+end;
+$$;
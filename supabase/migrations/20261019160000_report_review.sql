@@ -0,0 +1,156 @@
+-- Review workflow. A report starts as 'submitted'; a supervisor of its sector (or an
+-- administrator) takes it 'under_review' and then 'approved' it or 'returned' it with a
+-- comment. The submitting agent fixes a returned report and resubmits it, which puts it
+-- back in the queue. report_reviews keeps every status change with who made it and why.
+
+alter table public.geotranote_reports
+  add column if not exists status text not null default 'submitted'
+    check (status in ('submitted', 'under_review', 'approved', 'returned')),
+  add column if not exists reviewed_at timestamptz,
+  add column if not exists review_comment text;
+
+create index if not exists geotranote_reports_status_idx on public.geotranote_reports (status);
+
+create table if not exists public.report_reviews (
+  id bigint generated always as identity primary key,
+  report_uid uuid not null references public.geotranote_reports (uid) on delete cascade,
+  from_status text not null,
+  to_status text not null,
+  comment text,
+  changed_by uuid not null default auth.uid(),
+  changed_by_email text,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists report_reviews_report_uid_idx on public.report_reviews (report_uid);
+
+alter table public.report_reviews enable row level security;
+
+create policy "Reviews visible with their report"
+  on public.report_reviews for select
+  to authenticated
+  using (exists (
+    select 1 from public.geotranote_reports r
+    where r.uid = report_reviews.report_uid
+  ));
+
+create policy "Reviews recorded by reviewing users"
+  on public.report_reviews for insert
+  to authenticated
+  with check (changed_by = auth.uid());
+
+create or replace function public.review_report(p_report_uid uuid, p_status text, p_comment text default null)
+returns text
+language plpgsql
+as $$
+declare
+  v_report public.geotranote_reports%rowtype;
+  v_comment text := nullif(btrim(coalesce(p_comment, '')), '');
+begin
+  select * into v_report from public.geotranote_reports where uid = p_report_uid for update;
+  if not found then
+    raise exception 'Relatório % não encontrado', p_report_uid using errcode = 'no_data_found';
+  end if;
+
+  if not public.can_amend_report(v_report.sector) then
+    raise exception 'Apenas supervisores do setor e administradores podem revisar este relatório'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if not (
+    (p_status = 'under_review' and v_report.status = 'submitted')
+    or (p_status in ('approved', 'returned') and v_report.status in ('submitted', 'under_review'))
+  ) then
+    raise exception 'Não é possível passar o relatório de % para %', v_report.status, p_status
+      using errcode = 'check_violation';
+  end if;
+
+  if p_status = 'returned' and v_comment is null then
+    raise exception 'Informe o motivo da devolução' using errcode = 'check_violation';
+  end if;
+
+  update public.geotranote_reports
+  set
+    status = p_status,
+    reviewed_at = case when p_status = 'under_review' then reviewed_at else now() end,
+    review_comment = case when p_status = 'under_review' then review_comment else v_comment end
+  where uid = p_report_uid;
+
+  insert into public.report_reviews (report_uid, from_status, to_status, comment, changed_by_email)
+  values (p_report_uid, v_report.status, p_status, v_comment, auth.jwt()->>'email');
+
+  return p_status;
+end;
+$$;
+
+-- Agents cannot update reports directly (see the RLS policies), so resubmission runs as
+-- the function owner and checks ownership itself.
+create or replace function public.resubmit_report(
+  p_report_uid uuid,
+  report jsonb,
+  infractions jsonb,
+  p_comment text
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_report public.geotranote_reports%rowtype;
+  v_comment text := nullif(btrim(coalesce(p_comment, '')), '');
+  v_old jsonb;
+  v_new jsonb;
+  v_revision integer;
+begin
+  select * into v_report from public.geotranote_reports where uid = p_report_uid for update;
+  if not found or v_report.submitted_by is distinct from auth.uid() then
+    raise exception 'Relatório % não encontrado', p_report_uid using errcode = 'no_data_found';
+  end if;
+
+  if v_report.status <> 'returned' then
+    raise exception 'Apenas relatórios devolvidos podem ser reenviados' using errcode = 'check_violation';
+  end if;
+
+  if v_comment is null then
+    raise exception 'Descreva o que foi corrigido' using errcode = 'check_violation';
+  end if;
+
+  select public.report_snapshot(p_report_uid) into v_old;
+
+  update public.geotranote_reports
+  set
+    service_name = report->>'service_name',
+    sector = report->>'sector',
+    car_removals = coalesce((report->>'car_removals')::int, 0),
+    motorcycle_removals = coalesce((report->>'motorcycle_removals')::int, 0),
+    total_approaches = coalesce((report->>'total_approaches')::int, 0),
+    revision = revision + 1,
+    updated_at = now(),
+    status = 'submitted'
+  where uid = p_report_uid
+  returning revision into v_revision;
+
+  delete from public.infractions where report_uid = p_report_uid;
+
+  insert into public.infractions (report_uid, infraction_type, quantity)
+  select p_report_uid, item->>'infraction_type', (item->>'quantity')::int
+  from jsonb_array_elements(infractions) as item;
+
+  select public.report_snapshot(p_report_uid) into v_new;
+  if v_new = v_old then
+    raise exception 'Nenhuma alteração informada' using errcode = 'check_violation';
+  end if;
+
+  insert into public.report_revisions (report_uid, revision, changed_by, changed_by_email, reason, old_values, new_values)
+  values (p_report_uid, v_revision, auth.uid(), auth.jwt()->>'email', v_comment, v_old, v_new);
+
+  insert into public.report_reviews (report_uid, from_status, to_status, comment, changed_by, changed_by_email)
+  values (p_report_uid, 'returned', 'submitted', v_comment, auth.uid(), auth.jwt()->>'email');
+
+  return v_revision;
+end;
+$$;
+
+grant execute on function public.review_report(uuid, text, text) to authenticated;
+grant execute on function public.resubmit_report(uuid, jsonb, jsonb, text) to authenticated;
@@ -0,0 +1,207 @@
+-- Optional device location (WGS 84 degrees, accuracy radius in metres) for the report as a
+-- whole and for each infraction line. Infraction rows are now written by a single helper so
+-- that submission, amendment and resubmission keep the same columns.
+
+alter table public.geotranote_reports
+  add column if not exists latitude double precision check (latitude between -90 and 90),
+  add column if not exists longitude double precision check (longitude between -180 and 180),
+  add column if not exists location_accuracy real check (location_accuracy >= 0);
+
+alter table public.infractions
+  add column if not exists latitude double precision check (latitude between -90 and 90),
+  add column if not exists longitude double precision check (longitude between -180 and 180),
+  add column if not exists location_accuracy real check (location_accuracy >= 0);
+
+create or replace function public.insert_report_infractions(p_report_uid uuid, p_infractions jsonb)
+returns void
+language sql
+as $$
+  insert into public.infractions (report_uid, infraction_type, quantity, latitude, longitude, location_accuracy)
+  select
+    p_report_uid,
+    item->>'infraction_type',
+    (item->>'quantity')::int,
+    (item->>'latitude')::double precision,
+    (item->>'longitude')::double precision,
+    (item->>'location_accuracy')::real
+  from jsonb_array_elements(p_infractions) as item;
+$$;
+
+create or replace function public.submit_report(report jsonb, infractions jsonb default '[]'::jsonb)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_report_uid uuid;
+  v_submitter_name text;
+begin
+  select coalesce(p.full_name, auth.jwt()->>'email') into v_submitter_name
+  from (select 1) as one
+  left join public.user_profiles p on p.user_id = auth.uid();
+
+  insert into public.geotranote_reports (
+    protocol_number,
+    service_name,
+    sector,
+    car_removals,
+    motorcycle_removals,
+    total_approaches,
+    latitude,
+    longitude,
+    location_accuracy,
+    submitted_by,
+    submitted_by_name
+  )
+  values (
+    report->>'protocol_number',
+    report->>'service_name',
+    report->>'sector',
+    coalesce((report->>'car_removals')::int, 0),
+    coalesce((report->>'motorcycle_removals')::int, 0),
+    coalesce((report->>'total_approaches')::int, 0),
+    (report->>'latitude')::double precision,
+    (report->>'longitude')::double precision,
+    (report->>'location_accuracy')::real,
+    auth.uid(),
+    v_submitter_name
+  )
+  on conflict (protocol_number) do nothing
+  returning uid into v_report_uid;
+
+  if v_report_uid is null then
+    -- Retry or double submit: the report and its infractions are already stored.
+    select uid into v_report_uid
+    from public.geotranote_reports
+    where protocol_number = report->>'protocol_number';
+
+    return v_report_uid;
+  end if;
+
+  perform public.insert_report_infractions(v_report_uid, infractions);
+
+  return v_report_uid;
+end;
+$$;
+
+create or replace function public.amend_report(
+  p_report_uid uuid,
+  report jsonb,
+  infractions jsonb,
+  reason text
+)
+returns integer
+language plpgsql
+as $$
+declare
+  v_old jsonb;
+  v_new jsonb;
+  v_revision integer;
+begin
+  if coalesce(public.current_user_role(), 'agent') not in ('supervisor', 'admin') then
+    raise exception 'Apenas supervisores e administradores podem corrigir relatórios'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if reason is null or length(btrim(reason)) = 0 then
+    raise exception 'O motivo da correção é obrigatório' using errcode = 'check_violation';
+  end if;
+
+  select public.report_snapshot(p_report_uid) into v_old;
+  if v_old is null then
+    raise exception 'Relatório % não encontrado', p_report_uid using errcode = 'no_data_found';
+  end if;
+
+  update public.geotranote_reports
+  set
+    service_name = report->>'service_name',
+    sector = report->>'sector',
+    car_removals = coalesce((report->>'car_removals')::int, 0),
+    motorcycle_removals = coalesce((report->>'motorcycle_removals')::int, 0),
+    total_approaches = coalesce((report->>'total_approaches')::int, 0),
+    revision = revision + 1,
+    updated_at = now()
+  where uid = p_report_uid
+  returning revision into v_revision;
+
+  if v_revision is null then
+    raise exception 'Sem permissão para corrigir este relatório' using errcode = 'insufficient_privilege';
+  end if;
+
+  delete from public.infractions where report_uid = p_report_uid;
+  perform public.insert_report_infractions(p_report_uid, infractions);
+
+  select public.report_snapshot(p_report_uid) into v_new;
+  if v_new = v_old then
+    raise exception 'Nenhuma alteração informada' using errcode = 'check_violation';
+  end if;
+
+  insert into public.report_revisions (report_uid, revision, changed_by_email, reason, old_values, new_values)
+  values (p_report_uid, v_revision, auth.jwt()->>'email', btrim(reason), v_old, v_new);
+
+  return v_revision;
+end;
+$$;
+
+create or replace function public.resubmit_report(
+  p_report_uid uuid,
+  report jsonb,
+  infractions jsonb,
+  p_comment text
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_report public.geotranote_reports%rowtype;
+  v_comment text := nullif(btrim(coalesce(p_comment, '')), '');
+  v_old jsonb;
+  v_new jsonb;
+  v_revision integer;
+begin
+  select * into v_report from public.geotranote_reports where uid = p_report_uid for update;
+  if not found or v_report.submitted_by is distinct from auth.uid() then
+    raise exception 'Relatório % não encontrado', p_report_uid using errcode = 'no_data_found';
+  end if;
+
+  if v_report.status <> 'returned' then
+    raise exception 'Apenas relatórios devolvidos podem ser reenviados' using errcode = 'check_violation';
+  end if;
+
+  if v_comment is null then
+    raise exception 'Descreva o que foi corrigido' using errcode = 'check_violation';
+  end if;
+
+  select public.report_snapshot(p_report_uid) into v_old;
+
+  update public.geotranote_reports
+  set
+    service_name = report->>'service_name',
+    sector = report->>'sector',
+    car_removals = coalesce((report->>'car_removals')::int, 0),
+    motorcycle_removals = coalesce((report->>'motorcycle_removals')::int, 0),
+    total_approaches = coalesce((report->>'total_approaches')::int, 0),
+    revision = revision + 1,
+    updated_at = now(),
+    status = 'submitted'
+  where uid = p_report_uid
+  returning revision into v_revision;
+
+  delete from public.infractions where report_uid = p_report_uid;
+  perform public.insert_report_infractions(p_report_uid, infractions);
+
+  select public.report_snapshot(p_report_uid) into v_new;
+  if v_new = v_old then
+    raise exception 'Nenhuma alteração informada' using errcode = 'check_violation';
+  end if;
+
+  insert into public.report_revisions (report_uid, revision, changed_by, changed_by_email, reason, old_values, new_values)
+  values (p_report_uid, v_revision, auth.uid(), auth.jwt()->>'email', v_comment, v_old, v_new);
+
+  insert into public.report_reviews (report_uid, from_status, to_status, comment, changed_by, changed_by_email)
+  values (p_report_uid, 'returned', 'submitted', v_comment, auth.uid(), auth.jwt()->>'email');
+
+  return v_revision;
+end;
+$$;
@@ -0,0 +1,252 @@
+-- Shift metadata. shift_date is the day the work happened and drives every date filter,
+-- so a report sent after midnight or synced late from the outbox still counts on its own day.
+-- Report fields are now written by one helper shared by amendment and resubmission.
+
+alter table public.geotranote_reports
+  add column if not exists shift_date date,
+  add column if not exists shift_start time,
+  add column if not exists shift_end time,
+  add column if not exists vehicle_prefix text,
+  add column if not exists team_members text[] not null default '{}';
+
+update public.geotranote_reports
+set shift_date = (created_at at time zone 'America/Sao_Paulo')::date
+where shift_date is null;
+
+alter table public.geotranote_reports
+  alter column shift_date set not null,
+  alter column shift_date set default (now() at time zone 'America/Sao_Paulo')::date;
+
+create index if not exists geotranote_reports_shift_date_idx on public.geotranote_reports (shift_date);
+
+create or replace function public.report_team_members(report jsonb)
+returns text[]
+language sql
+immutable
+as $$
+  select coalesce(array_agg(btrim(member)) filter (where length(btrim(member)) > 0), '{}')
+  from jsonb_array_elements_text(coalesce(report->'team_members', '[]'::jsonb)) as member;
+$$;
+
+create or replace function public.report_snapshot(p_report_uid uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select jsonb_build_object(
+    'service_name', r.service_name,
+    'sector', r.sector,
+    'shift_date', r.shift_date,
+    'shift_start', to_char(r.shift_start, 'HH24:MI'),
+    'shift_end', to_char(r.shift_end, 'HH24:MI'),
+    'vehicle_prefix', r.vehicle_prefix,
+    'team_members', to_jsonb(r.team_members),
+    'car_removals', r.car_removals,
+    'motorcycle_removals', r.motorcycle_removals,
+    'total_approaches', r.total_approaches,
+    'infractions', coalesce((
+      select jsonb_agg(
+        jsonb_build_object('infraction_type', i.infraction_type, 'quantity', i.quantity)
+        order by i.infraction_type
+      )
+      from public.infractions i
+      where i.report_uid = r.uid
+    ), '[]'::jsonb)
+  )
+  from public.geotranote_reports r
+  where r.uid = p_report_uid;
+$$;
+
+-- Applies the editable fields of a report and bumps its revision. Returns the new revision,
+-- or null when the row is not visible to the caller.
+create or replace function public.update_report_fields(p_report_uid uuid, report jsonb)
+returns integer
+language sql
+as $$
+  update public.geotranote_reports
+  set
+    service_name = report->>'service_name',
+    sector = report->>'sector',
+    shift_date = coalesce((report->>'shift_date')::date, shift_date),
+    shift_start = (report->>'shift_start')::time,
+    shift_end = (report->>'shift_end')::time,
+    vehicle_prefix = nullif(btrim(report->>'vehicle_prefix'), ''),
+    team_members = public.report_team_members(report),
+    car_removals = coalesce((report->>'car_removals')::int, 0),
+    motorcycle_removals = coalesce((report->>'motorcycle_removals')::int, 0),
+    total_approaches = coalesce((report->>'total_approaches')::int, 0),
+    revision = revision + 1,
+    updated_at = now()
+  where uid = p_report_uid
+  returning revision;
+$$;
+
+create or replace function public.submit_report(report jsonb, infractions jsonb default '[]'::jsonb)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_report_uid uuid;
+  v_submitter_name text;
+begin
+  select coalesce(p.full_name, auth.jwt()->>'email') into v_submitter_name
+  from (select 1) as one
+  left join public.user_profiles p on p.user_id = auth.uid();
+
+  insert into public.geotranote_reports (
+    protocol_number,
+    service_name,
+    sector,
+    shift_date,
+    shift_start,
+    shift_end,
+    vehicle_prefix,
+    team_members,
+    car_removals,
+    motorcycle_removals,
+    total_approaches,
+    latitude,
+    longitude,
+    location_accuracy,
+    submitted_by,
+    submitted_by_name
+  )
+  values (
+    report->>'protocol_number',
+    report->>'service_name',
+    report->>'sector',
+    -- Reports queued before these fields existed fall back to the current day.
+    coalesce((report->>'shift_date')::date, (now() at time zone 'America/Sao_Paulo')::date),
+    (report->>'shift_start')::time,
+    (report->>'shift_end')::time,
+    nullif(btrim(report->>'vehicle_prefix'), ''),
+    public.report_team_members(report),
+    coalesce((report->>'car_removals')::int, 0),
+    coalesce((report->>'motorcycle_removals')::int, 0),
+    coalesce((report->>'total_approaches')::int, 0),
+    (report->>'latitude')::double precision,
+    (report->>'longitude')::double precision,
+    (report->>'location_accuracy')::real,
+    auth.uid(),
+    v_submitter_name
+  )
+  on conflict (protocol_number) do nothing
+  returning uid into v_report_uid;
+
+  if v_report_uid is null then
+    -- Retry or double submit: the report and its infractions are already stored.
+    select uid into v_report_uid
+    from public.geotranote_reports
+    where protocol_number = report->>'protocol_number';
+
+    return v_report_uid;
+  end if;
+
+  perform public.insert_report_infractions(v_report_uid, infractions);
+
+  return v_report_uid;
+end;
+$$;
+
+create or replace function public.amend_report(
+  p_report_uid uuid,
+  report jsonb,
+  infractions jsonb,
+  reason text
+)
+returns integer
+language plpgsql
+as $$
+declare
+  v_old jsonb;
+  v_new jsonb;
+  v_revision integer;
+begin
+  if coalesce(public.current_user_role(), 'agent') not in ('supervisor', 'admin') then
+    raise exception 'Apenas supervisores e administradores podem corrigir relatórios'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if reason is null or length(btrim(reason)) = 0 then
+    raise exception 'O motivo da correção é obrigatório' using errcode = 'check_violation';
+  end if;
+
+  select public.report_snapshot(p_report_uid) into v_old;
+  if v_old is null then
+    raise exception 'Relatório % não encontrado', p_report_uid using errcode = 'no_data_found';
+  end if;
+
+  v_revision := public.update_report_fields(p_report_uid, report);
+
+  if v_revision is null then
+    raise exception 'Sem permissão para corrigir este relatório' using errcode = 'insufficient_privilege';
+  end if;
+
+  delete from public.infractions where report_uid = p_report_uid;
+  perform public.insert_report_infractions(p_report_uid, infractions);
+
+  select public.report_snapshot(p_report_uid) into v_new;
+  if v_new = v_old then
+    raise exception 'Nenhuma alteração informada' using errcode = 'check_violation';
+  end if;
+
+  insert into public.report_revisions (report_uid, revision, changed_by_email, reason, old_values, new_values)
+  values (p_report_uid, v_revision, auth.jwt()->>'email', btrim(reason), v_old, v_new);
+
+  return v_revision;
+end;
+$$;
+
+create or replace function public.resubmit_report(
+  p_report_uid uuid,
+  report jsonb,
+  infractions jsonb,
+  p_comment text
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_report public.geotranote_reports%rowtype;
+  v_comment text := nullif(btrim(coalesce(p_comment, '')), '');
+  v_old jsonb;
+  v_new jsonb;
+  v_revision integer;
+begin
+  select * into v_report from public.geotranote_reports where uid = p_report_uid for update;
+  if not found or v_report.submitted_by is distinct from auth.uid() then
+    raise exception 'Relatório % não encontrado', p_report_uid using errcode = 'no_data_found';
+  end if;
+
+  if v_report.status <> 'returned' then
+    raise exception 'Apenas relatórios devolvidos podem ser reenviados' using errcode = 'check_violation';
+  end if;
+
+  if v_comment is null then
+    raise exception 'Descreva o que foi corrigido' using errcode = 'check_violation';
+  end if;
+
+  select public.report_snapshot(p_report_uid) into v_old;
+
+  v_revision := public.update_report_fields(p_report_uid, report);
+  update public.geotranote_reports set status = 'submitted' where uid = p_report_uid;
+
+  delete from public.infractions where report_uid = p_report_uid;
+  perform public.insert_report_infractions(p_report_uid, infractions);
+
+  select public.report_snapshot(p_report_uid) into v_new;
+  if v_new = v_old then
+    raise exception 'Nenhuma alteração informada' using errcode = 'check_violation';
+  end if;
+
+  insert into public.report_revisions (report_uid, revision, changed_by, changed_by_email, reason, old_values, new_values)
+  values (p_report_uid, v_revision, auth.uid(), auth.jwt()->>'email', v_comment, v_old, v_new);
+
+  insert into public.report_reviews (report_uid, from_status, to_status, comment, changed_by, changed_by_email)
+  values (p_report_uid, 'returned', 'submitted', v_comment, auth.uid(), auth.jwt()->>'email');
+
+  return v_revision;
+end;
+$$;
@@ -0,0 +1,122 @@
+-- Optional detail of each infraction line: one row per auto de infração (AIT) with plate,
+-- vehicle type, time and street. When a line has details its quantity is the number of
+-- details, computed here so the aggregate always matches the autos behind it.
+
+create table if not exists public.infraction_details (
+  uid uuid primary key default gen_random_uuid(),
+  infraction_uid uuid not null references public.infractions (uid) on delete cascade,
+  plate text,
+  vehicle_type text,
+  ait_number text,
+  infraction_time time,
+  street text
+);
+
+create index if not exists infraction_details_infraction_uid_idx on public.infraction_details (infraction_uid);
+create unique index if not exists infraction_details_ait_number_key
+  on public.infraction_details (ait_number)
+  where ait_number is not null;
+
+alter table public.infraction_details enable row level security;
+
+create policy "Infraction details visible with their report"
+  on public.infraction_details for select
+  to authenticated
+  using (exists (
+    select 1 from public.infractions i
+    where i.uid = infraction_details.infraction_uid
+  ));
+
+create policy "Infraction details added with their line"
+  on public.infraction_details for insert
+  to authenticated
+  with check (exists (
+    select 1
+    from public.infractions i
+    join public.geotranote_reports r on r.uid = i.report_uid
+    where i.uid = infraction_details.infraction_uid
+      and (r.submitted_by = auth.uid() or public.can_amend_report(r.sector))
+  ));
+
+create or replace function public.insert_report_infractions(p_report_uid uuid, p_infractions jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_item jsonb;
+  v_details jsonb;
+  v_infraction_uid uuid;
+begin
+  for v_item in select value from jsonb_array_elements(p_infractions) loop
+    v_details := coalesce(v_item->'details', '[]'::jsonb);
+
+    insert into public.infractions (report_uid, infraction_type, quantity, latitude, longitude, location_accuracy)
+    values (
+      p_report_uid,
+      v_item->>'infraction_type',
+      case
+        when jsonb_array_length(v_details) > 0 then jsonb_array_length(v_details)
+        else (v_item->>'quantity')::int
+      end,
+      (v_item->>'latitude')::double precision,
+      (v_item->>'longitude')::double precision,
+      (v_item->>'location_accuracy')::real
+    )
+    returning uid into v_infraction_uid;
+
+    insert into public.infraction_details (infraction_uid, plate, vehicle_type, ait_number, infraction_time, street)
+    select
+      v_infraction_uid,
+      nullif(upper(regexp_replace(detail->>'plate', '[^A-Za-z0-9]', '', 'g')), ''),
+      nullif(btrim(detail->>'vehicle_type'), ''),
+      nullif(upper(btrim(detail->>'ait_number')), ''),
+      (nullif(detail->>'infraction_time', ''))::time,
+      nullif(btrim(detail->>'street'), '')
+    from jsonb_array_elements(v_details) as detail;
+  end loop;
+end;
+$$;
+
+create or replace function public.report_snapshot(p_report_uid uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select jsonb_build_object(
+    'service_name', r.service_name,
+    'sector', r.sector,
+    'shift_date', r.shift_date,
+    'shift_start', to_char(r.shift_start, 'HH24:MI'),
+    'shift_end', to_char(r.shift_end, 'HH24:MI'),
+    'vehicle_prefix', r.vehicle_prefix,
+    'team_members', to_jsonb(r.team_members),
+    'car_removals', r.car_removals,
+    'motorcycle_removals', r.motorcycle_removals,
+    'total_approaches', r.total_approaches,
+    'infractions', coalesce((
+      select jsonb_agg(
+        jsonb_build_object('infraction_type', i.infraction_type, 'quantity', i.quantity)
+          || coalesce((
+            select jsonb_build_object('details', jsonb_agg(
+              jsonb_build_object(
+                'plate', d.plate,
+                'vehicle_type', d.vehicle_type,
+                'ait_number', d.ait_number,
+                'infraction_time', to_char(d.infraction_time, 'HH24:MI'),
+                'street', d.street
+              )
+              order by d.ait_number, d.plate
+            ))
+            from public.infraction_details d
+            where d.infraction_uid = i.uid
+            having count(*) > 0
+          ), '{}'::jsonb)
+        order by i.infraction_type
+      )
+      from public.infractions i
+      where i.report_uid = r.uid
+    ), '[]'::jsonb)
+  )
+  from public.geotranote_reports r
+  where r.uid = p_report_uid;
+$$;
@@ -0,0 +1,350 @@
+-- Itemized removals (remoções): one row per vehicle towed, with its type, plate, the catalog
+-- infraction that justified it, the depot (pátio) and the tow truck. car_removals and
+-- motorcycle_removals stay on the report for the older aggregates and are recomputed from
+-- these rows: motorcycles and motonetas count as motorcycles, every other type as cars.
+
+create table if not exists public.removals (
+  uid uuid primary key default gen_random_uuid(),
+  report_uid uuid not null references public.geotranote_reports (uid) on delete cascade,
+  vehicle_type text not null,
+  plate text,
+  infraction_type text,
+  depot text,
+  tow_truck text
+);
+
+create index if not exists removals_report_uid_idx on public.removals (report_uid);
+
+alter table public.removals enable row level security;
+
+create policy "Removals visible with their report"
+  on public.removals for select
+  to authenticated
+  using (exists (
+    select 1 from public.geotranote_reports r
+    where r.uid = removals.report_uid
+  ));
+
+create policy "Removals added to own or amendable reports"
+  on public.removals for insert
+  to authenticated
+  with check (exists (
+    select 1 from public.geotranote_reports r
+    where r.uid = removals.report_uid
+      and (r.submitted_by = auth.uid() or public.can_amend_report(r.sector))
+  ));
+
+create policy "Removals amended by supervisors and admins"
+  on public.removals for delete
+  to authenticated
+  using (exists (
+    select 1 from public.geotranote_reports r
+    where r.uid = removals.report_uid
+      and public.can_amend_report(r.sector)
+  ));
+
+-- Existing reports only have the two counters; turn them into records without plate or depot.
+insert into public.removals (report_uid, vehicle_type)
+select r.uid, 'automovel'
+from public.geotranote_reports r, generate_series(1, r.car_removals)
+where not exists (select 1 from public.removals m where m.report_uid = r.uid);
+
+insert into public.removals (report_uid, vehicle_type)
+select r.uid, 'motocicleta'
+from public.geotranote_reports r, generate_series(1, r.motorcycle_removals)
+where r.motorcycle_removals > 0
+  and not exists (select 1 from public.removals m where m.report_uid = r.uid and m.vehicle_type = 'motocicleta');
+
+create or replace function public.insert_report_removals(p_report_uid uuid, report jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  if jsonb_array_length(coalesce(report->'removals', '[]'::jsonb)) > 0 then
+    insert into public.removals (report_uid, vehicle_type, plate, infraction_type, depot, tow_truck)
+    select
+      p_report_uid,
+      coalesce(nullif(btrim(item->>'vehicle_type'), ''), 'outro'),
+      nullif(upper(regexp_replace(item->>'plate', '[^A-Za-z0-9]', '', 'g')), ''),
+      nullif(btrim(item->>'infraction_type'), ''),
+      nullif(btrim(item->>'depot'), ''),
+      nullif(btrim(item->>'tow_truck'), '')
+    from jsonb_array_elements(report->'removals') as item;
+  else
+    -- Clients that only send the counters, such as reports queued before this change.
+    insert into public.removals (report_uid, vehicle_type)
+    select p_report_uid, 'automovel'
+    from generate_series(1, coalesce((report->>'car_removals')::int, 0));
+
+    insert into public.removals (report_uid, vehicle_type)
+    select p_report_uid, 'motocicleta'
+    from generate_series(1, coalesce((report->>'motorcycle_removals')::int, 0));
+  end if;
+
+  perform public.refresh_removal_counters(p_report_uid);
+end;
+$$;
+
+-- Agents may not update reports, so the derived counters are written as the function owner.
+create or replace function public.refresh_removal_counters(p_report_uid uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.geotranote_reports r
+  set
+    car_removals = counts.cars,
+    motorcycle_removals = counts.motorcycles
+  from (
+    select
+      count(*) filter (where vehicle_type not in ('motocicleta', 'motoneta')) as cars,
+      count(*) filter (where vehicle_type in ('motocicleta', 'motoneta')) as motorcycles
+    from public.removals
+    where report_uid = p_report_uid
+  ) as counts
+  where r.uid = p_report_uid;
+end;
+$$;
+
+-- Replaces the infraction lines and removals of a report in one place, for submission,
+-- amendment and resubmission alike.
+create or replace function public.replace_report_lines(p_report_uid uuid, report jsonb, infractions jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  delete from public.infractions where report_uid = p_report_uid;
+  delete from public.removals where report_uid = p_report_uid;
+
+  perform public.insert_report_infractions(p_report_uid, infractions);
+  perform public.insert_report_removals(p_report_uid, report);
+end;
+$$;
+
+create or replace function public.report_snapshot(p_report_uid uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select jsonb_build_object(
+    'service_name', r.service_name,
+    'sector', r.sector,
+    'shift_date', r.shift_date,
+    'shift_start', to_char(r.shift_start, 'HH24:MI'),
+    'shift_end', to_char(r.shift_end, 'HH24:MI'),
+    'vehicle_prefix', r.vehicle_prefix,
+    'team_members', to_jsonb(r.team_members),
+    'car_removals', r.car_removals,
+    'motorcycle_removals', r.motorcycle_removals,
+    'total_approaches', r.total_approaches,
+    'removals', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'vehicle_type', m.vehicle_type,
+          'plate', m.plate,
+          'infraction_type', m.infraction_type,
+          'depot', m.depot,
+          'tow_truck', m.tow_truck
+        )
+        order by m.vehicle_type, m.plate
+      )
+      from public.removals m
+      where m.report_uid = r.uid
+    ), '[]'::jsonb),
+    'infractions', coalesce((
+      select jsonb_agg(
+        jsonb_build_object('infraction_type', i.infraction_type, 'quantity', i.quantity)
+          || coalesce((
+            select jsonb_build_object('details', jsonb_agg(
+              jsonb_build_object(
+                'plate', d.plate,
+                'vehicle_type', d.vehicle_type,
+                'ait_number', d.ait_number,
+                'infraction_time', to_char(d.infraction_time, 'HH24:MI'),
+                'street', d.street
+              )
+              order by d.ait_number, d.plate
+            ))
+            from public.infraction_details d
+            where d.infraction_uid = i.uid
+            having count(*) > 0
+          ), '{}'::jsonb)
+        order by i.infraction_type
+      )
+      from public.infractions i
+      where i.report_uid = r.uid
+    ), '[]'::jsonb)
+  )
+  from public.geotranote_reports r
+  where r.uid = p_report_uid;
+$$;
+
+create or replace function public.submit_report(report jsonb, infractions jsonb default '[]'::jsonb)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_report_uid uuid;
+  v_submitter_name text;
+begin
+  select coalesce(p.full_name, auth.jwt()->>'email') into v_submitter_name
+  from (select 1) as one
+  left join public.user_profiles p on p.user_id = auth.uid();
+
+  insert into public.geotranote_reports (
+    protocol_number,
+    service_name,
+    sector,
+    shift_date,
+    shift_start,
+    shift_end,
+    vehicle_prefix,
+    team_members,
+    car_removals,
+    motorcycle_removals,
+    total_approaches,
+    latitude,
+    longitude,
+    location_accuracy,
+    submitted_by,
+    submitted_by_name
+  )
+  values (
+    report->>'protocol_number',
+    report->>'service_name',
+    report->>'sector',
+    -- Reports queued before these fields existed fall back to the current day.
+    coalesce((report->>'shift_date')::date, (now() at time zone 'America/Sao_Paulo')::date),
+    (report->>'shift_start')::time,
+    (report->>'shift_end')::time,
+    nullif(btrim(report->>'vehicle_prefix'), ''),
+    public.report_team_members(report),
+    coalesce((report->>'car_removals')::int, 0),
+    coalesce((report->>'motorcycle_removals')::int, 0),
+    coalesce((report->>'total_approaches')::int, 0),
+    (report->>'latitude')::double precision,
+    (report->>'longitude')::double precision,
+    (report->>'location_accuracy')::real,
+    auth.uid(),
+    v_submitter_name
+  )
+  on conflict (protocol_number) do nothing
+  returning uid into v_report_uid;
+
+  if v_report_uid is null then
+    -- Retry or double submit: the report and its infractions are already stored.
+    select uid into v_report_uid
+    from public.geotranote_reports
+    where protocol_number = report->>'protocol_number';
+
+    return v_report_uid;
+  end if;
+
+  perform public.replace_report_lines(v_report_uid, report, infractions);
+
+  return v_report_uid;
+end;
+$$;
+
+create or replace function public.amend_report(
+  p_report_uid uuid,
+  report jsonb,
+  infractions jsonb,
+  reason text
+)
+returns integer
+language plpgsql
+as $$
+declare
+  v_old jsonb;
+  v_new jsonb;
+  v_revision integer;
+begin
+  if coalesce(public.current_user_role(), 'agent') not in ('supervisor', 'admin') then
+    raise exception 'Apenas supervisores e administradores podem corrigir relatórios'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if reason is null or length(btrim(reason)) = 0 then
+    raise exception 'O motivo da correção é obrigatório' using errcode = 'check_violation';
+  end if;
+
+  select public.report_snapshot(p_report_uid) into v_old;
+  if v_old is null then
+    raise exception 'Relatório % não encontrado', p_report_uid using errcode = 'no_data_found';
+  end if;
+
+  v_revision := public.update_report_fields(p_report_uid, report);
+
+  if v_revision is null then
+    raise exception 'Sem permissão para corrigir este relatório' using errcode = 'insufficient_privilege';
+  end if;
+
+  perform public.replace_report_lines(p_report_uid, report, infractions);
+
+  select public.report_snapshot(p_report_uid) into v_new;
+  if v_new = v_old then
+    raise exception 'Nenhuma alteração informada' using errcode = 'check_violation';
+  end if;
+
+  insert into public.report_revisions (report_uid, revision, changed_by_email, reason, old_values, new_values)
+  values (p_report_uid, v_revision, auth.jwt()->>'email', btrim(reason), v_old, v_new);
+
+  return v_revision;
+end;
+$$;
+
+create or replace function public.resubmit_report(
+  p_report_uid uuid,
+  report jsonb,
+  infractions jsonb,
+  p_comment text
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_report public.geotranote_reports%rowtype;
+  v_comment text := nullif(btrim(coalesce(p_comment, '')), '');
+  v_old jsonb;
+  v_new jsonb;
+  v_revision integer;
+begin
+  select * into v_report from public.geotranote_reports where uid = p_report_uid for update;
+  if not found or v_report.submitted_by is distinct from auth.uid() then
+    raise exception 'Relatório % não encontrado', p_report_uid using errcode = 'no_data_found';
+  end if;
+
+  if v_report.status <> 'returned' then
+    raise exception 'Apenas relatórios devolvidos podem ser reenviados' using errcode = 'check_violation';
+  end if;
+
+  if v_comment is null then
+    raise exception 'Descreva o que foi corrigido' using errcode = 'check_violation';
+  end if;
+
+  select public.report_snapshot(p_report_uid) into v_old;
+
+  v_revision := public.update_report_fields(p_report_uid, report);
+  update public.geotranote_reports set status = 'submitted' where uid = p_report_uid;
+
+  perform public.replace_report_lines(p_report_uid, report, infractions);
+
+  select public.report_snapshot(p_report_uid) into v_new;
+  if v_new = v_old then
+    raise exception 'Nenhuma alteração informada' using errcode = 'check_violation';
+  end if;
+
+  insert into public.report_revisions (report_uid, revision, changed_by, changed_by_email, reason, old_values, new_values)
+  values (p_report_uid, v_revision, auth.uid(), auth.jwt()->>'email', v_comment, v_old, v_new);
+
+  insert into public.report_reviews (report_uid, from_status, to_status, comment, changed_by, changed_by_email)
+  values (p_report_uid, 'returned', 'submitted', v_comment, auth.uid(), auth.jwt()->>'email');
+
+  return v_revision;
+end;
+$$;
@@ -0,0 +1,518 @@
+-- Infraction catalog kept in the database so a CTB or CONTRAN change does not need a deploy.
+-- Every change is a new version of the entry with its own effective_from/effective_to
+-- (inclusive) range; versions of the same key never overlap. Infraction lines record the
+-- version that was in force on the shift date in catalog_id, so later changes and retired
+-- entries do not rewrite the description, points or fine of older reports.
+
+create extension if not exists btree_gist;
+
+create table if not exists public.infraction_catalog (
+  id bigint generated always as identity primary key,
+  key text not null check (key ~ '^\d{4}-\d$'),
+  code text not null,
+  desdobramento text not null,
+  description text not null check (length(btrim(description)) > 0),
+  article text not null,
+  gravity text check (gravity in ('leve', 'media', 'grave', 'gravissima')),
+  points integer not null default 0 check (points >= 0),
+  fine_amount numeric(10, 2) check (fine_amount >= 0),
+  effective_from date not null,
+  effective_to date,
+  created_by uuid default auth.uid(),
+  created_at timestamptz not null default now(),
+  check (effective_to is null or effective_to >= effective_from),
+  exclude using gist (
+    key with =,
+    daterange(effective_from, effective_to, '[]') with &&
+  )
+);
+
+create index if not exists infraction_catalog_key_idx on public.infraction_catalog (key, effective_from);
+
+alter table public.infraction_catalog enable row level security;
+
+create policy "Catalog readable by signed-in users"
+  on public.infraction_catalog for select
+  to authenticated
+  using (true);
+
+create policy "Admins retire catalog entries"
+  on public.infraction_catalog for update
+  to authenticated
+  using (public.current_user_role() = 'admin')
+  with check (public.current_user_role() = 'admin');
+
+-- Values of the catalog bundled with the app, in force since Lei 13.281/2016.
+insert into public.infraction_catalog (key, code, desdobramento, description, article, gravity, points, fine_amount, effective_from)
+select v.*, date '2016-11-01'
+from (values
+  ('5002-0', '5002', '0', 'Multa, por não identificação do condutor infrator, imposta à pessoa jurídica', '257, § 8º', null, 0, null),
+  ('5010-0', '5010', '0', 'Dirigir veículo sem possuir CNH ou Permissão para Dirigir', '162, I', 'gravissima', 7, 880.41),
+  ('5029-1', '5029', '1', 'Dirigir veículo com CNH ou PPD cassada', '162, II', 'gravissima', 7, 880.41),
+  ('5029-2', '5029', '2', 'Dirigir veículo com CNH ou PPD com suspensão do direito de dirigir', '162, II', 'gravissima', 7, 880.41),
+  ('5037-1', '5037', '1', 'Dirigir veículo com CNH de categoria diferente da do veículo e Dirigir veículo com CNH ou PPD com suspensão do direito de dirigir', '162, III', 'gravissima', 7, 586.94),
+  ('5045-0', '5045', '0', 'Dirigir veículo com validade de CNH/PPD vencida há mais de 30 dias', '162, V', 'gravissima', 7, 293.47),
+  ('5053-1', '5053', '1', 'Dirigir veículo sem usar lentes corretoras de visão e Dirigir veículo sem usar aparelho auxiliar de audição e Dirigir veículo sem usar aparelho auxiliar de prótese física e Dirigir veículo s/ adaptações impostas na concessão/renovação licença conduzir', '162, VI', 'gravissima', 7, 293.47),
+  ('5061-0', '5061', '0', 'Entregar veículo a pessoa sem CNH ou Permissão para Dirigir', '163 c/c 162, I', 'gravissima', 7, 880.41),
+  ('5070-1', '5070', '1', 'Entregar veículo a pessoa com CNH ou PPD cassada e Entregar veículo a pessoa com CNH ou PPD com suspensão do direito de dirigir', '163 c/c 162, II', 'gravissima', 7, 880.41),
+  ('5088-1', '5088', '1', 'Entregar veículo a pessoa com CNH de categoria diferente da do veículo e Entregar veículo a pessoa com PPD de categoria diferente da do veículo', '163 c/c 162, III', 'gravissima', 7, 586.94),
+  ('5096-0', '5096', '0', 'Entregar veículo a pessoa com CNH/PPD vencida há mais de 30 dias', '163 c/c 162, V', 'gravissima', 7, 293.47),
+  ('5100-1', '5100', '1', 'Entregar o veículo a pessoa sem usar lentes corretoras de visão e Entregar o veículo a pessoa sem usar aparelho auxiliar de audição e Entregar o veículo a pessoa sem aparelho de prótese física e Entregar veíc pessoa s/ adaptações impostas concessão/renovação licença conduzir', '163 c/c 162, VI', 'gravissima', 7, 293.47),
+  ('5118-0', '5118', '0', 'Permitir posse/condução do veículo a pessoa sem CNH ou PPD', '164 c/c 162, I', 'gravissima', 7, 880.41),
+  ('5126-1', '5126', '1', 'Permitir posse/condução do veículo a pessoa com CNH ou PPD cassada e Permitir posse/condução veíc pessoa com CNH/PPD c/ suspensão direito de dirigir', '164 c/c 162, II', 'gravissima', 7, 880.41),
+  ('5134-1', '5134', '1', 'Permitir posse/condução veíc a pessoa com CNH categoria diferente da do veículo e Permitir posse/condução veíc a pessoa com PPD categoria diferente da do veículo', '164 c/c 162, III', 'gravissima', 7, 586.94),
+  ('5142-0', '5142', '0', 'Permitir posse/condução do veíc a pessoa com CNH/PPD vencida há mais de 30 dias', '164 c/c 162, V', 'gravissima', 7, 293.47),
+  ('5150-1', '5150', '1', 'Permitir posse/condução do veículo a pessoa sem usar lentes corretoras de visão e Permitir posse/condução do veículo a pessoa s/ usar aparelho auxiliar de audição e Permitir posse/condução do veículo a pessoa sem usar aparelho de prótese física e Permitir posse/cond veíc s/ adaptações impostas concessão/renovação licença cond', '164 c/c 162, VI', 'gravissima', 7, 293.47),
+  ('5169-1', '5169', '1', 'Dirigir sob a influência de álcool e Dirigir sob a influência de qquer substância psicoativa que deter. Dependência', '165', 'gravissima', 7, 2934.70),
+  ('5177-0', '5177', '0', 'Confiar/entregar veíc pess c/ estado físico/psíquico s/ condições dirigir segur', '166', 'gravissima', 7, 293.47),
+  ('5185-1', '5185', '1', 'Deixar o condutor de usar o cinto segurança e Deixar o passageiro de usar o cinto segurança', '167', 'grave', 5, 195.23),
+  ('5193-0', '5193', '0', 'Transportar criança sem observância das normas de segurança estabelecidas p/ CTB', '168', 'gravissima', 7, 293.47),
+  ('5207-0', '5207', '0', 'Dirigir sem atenção ou sem os cuidados indispensáveis à segurança', '169', 'leve', 3, 88.38),
+  ('5215-1', '5215', '1', 'Dirigir ameaçando os pedestres que estejam atravessando a via pública e Dirigir ameaçando os demais veículos', '170', 'gravissima', 7, 293.47),
+  ('5223-1', '5223', '1', 'Usar veículo para arremessar sobre os pedestres água ou detritos e Usar veículo para arremessar sobre os veículos água ou detritos', '171', 'media', 4, 130.16),
+  ('5231-1', '5231', '1', 'Atirar do veículo objetos ou substâncias e Abandonar na via objetos ou substâncias', '172', 'media', 4, 130.16),
+  ('5240-0', '5240', '0', 'Disputar corrida', '173', 'gravissima', 7, 2934.70),
+  ('5258-1', '5258', '1', 'Promover na via competição sem permissão e Promover na via eventos organizados sem permissão e Promover na via exibição e demonstração de perícia em manobra de veículo s/perm', '174', 'gravissima', 7, 2934.70),
+  ('5266-1', '5266', '1', 'Participar na via como condutor em competição sem permissão e Participar na via como condutor em eventos organizados sem permissão e Participar como condutor exib/demonst perícia em manobra de veic s/ permissão', '174', 'gravissima', 7, 2934.70),
+  ('5274-1', '5274', '1', 'Utiliz veíc demonst/exibir manobra perigosa mediante arrancada brusca e Utiliz veíc dem/exibir manob perig med derrap/frenag c/desliz/arrast pneus', '175', 'gravissima', 7, 2934.70),
+  ('5282-0', '5282', '0', 'Deixar o cond envolvido em acidente, de prestar ou providenciar socorro a vítima', '176, I', 'gravissima', 7, 1467.35),
+  ('5290-0', '5290', '0', 'Deixar o cond envolvido em acid, de adotar provid p/ evitar perigo p/o trânsito', '176, II', 'gravissima', 7, 1467.35),
+  ('5304-0', '5304', '0', 'Deixar o cond envolvido em acidente, de preservar local p/ trab policia/pericia', '176, III', 'gravissima', 7, 1467.35),
+  ('5312-0', '5312', '0', 'Deixar o cond envolvido em acid, de remover o veíc local qdo determ polic/agente', '176, IV', 'gravissima', 7, 1467.35),
+  ('5320-0', '5320', '0', 'Deixar o cond envolvido em acid, de identificar-se policial e prestar inf p/o BO', '176, V', 'gravissima', 7, 1467.35),
+  ('5339-0', '5339', '0', 'Deixar o cond de prestar socorro vítima acid de trânsito, qdo solicit p/ agente', '177', 'grave', 5, 195.23),
+  ('5347-0', '5347', '0', 'Deixar o condutor envolvido em acidente s/ vítima, de remover o veículo do local', '178', 'media', 4, 130.16),
+  ('5355-0', '5355', '0', 'Fazer ou deixar que se faça reparo em veíc, em rodovia e via de trânsito rápido', '179, I', 'grave', 5, 195.23),
+  ('5363-0', '5363', '0', 'Fazer/deixar que se faça reparo em veíc nas vias (q não rodovia/transito rapido)', '179, II', 'leve', 3, 88.38),
+  ('5371-0', '5371', '0', 'Ter seu veículo imobilizado na via por falta de combustível', '180', 'media', 4, 130.16),
+  ('5380-0', '5380', '0', 'Estacionar nas esquinas e a menos de 5m do alinhamento da via transversal', '181, I', 'media', 4, 130.16),
+  ('5398-0', '5398', '0', 'Estacionar afastado da guia da calçada (meio-fio) de 50cm a 1m', '181, II', 'leve', 3, 88.38),
+  ('5401-0', '5401', '0', 'Estacionar afastado da guia da calçada (meio-fio) a mais de 1m', '181, III', 'grave', 5, 195.23),
+  ('5410-0', '5410', '0', 'Estacionar em desacordo com as posições estabelecidas no CTB', '181, IV', 'media', 4, 130.16),
+  ('5428-1', '5428', '1', 'Estacionar na pista de rolamento das estradas e Estacionar na pista de rolamento das rodovias e Estacionar na pista de rolamento das vias de trânsito rápido e Estacionar na pista de rolamento das vias dotadas de acostamento', '181, V', 'gravissima', 7, 293.47),
+  ('5436-0', '5436', '0', 'Estacionar junto/sobre hidr de incêndio, reg de água/tampa de poço visit gal sub', '181, VI', 'media', 4, 130.16),
+  ('5444-0', '5444', '0', 'Estacionar nos acostamentos', '181, VII', 'leve', 3, 88.38),
+  ('5452-1', '5452', '1', 'Estacionar no passeio, Estacionar sobre faixa destinada a pedestre, Estacionar sobre ciclovia ou ciclofaixa, Estacionar nas ilhas ou refúgios, Estacionar ao lado ou sobre canteiro central/divisores de pista de rolamento, Estacionar ao lado ou sobre marcas de canalização, Estacionar ao lado ou sobre gramado ou jardim público', '181, VIII', 'grave', 5, 195.23),
+  ('5460-0', '5460', '0', 'Estacionar em guia de calçada rebaixada destinada à entrada/saída de veículos', '181, IX', 'media', 4, 130.16),
+  ('5479-0', '5479', '0', 'Estacionar impedindo a movimentação de outro veículo', '181, X', 'grave', 5, 195.23),
+  ('5487-0', '5487', '0', 'Estacionar ao lado de outro veículo em fila dupla', '181, XI', 'grave', 5, 195.23),
+  ('5495-0', '5495', '0', 'Estacionar na área de cruzamento de vias', '181, XII', 'media', 4, 130.16),
+  ('5509-0', '5509', '0', 'Estacionar no ponto de embarque/desembarque de passageiros transporte coletivo', '181, XIII', 'media', 4, 130.16),
+  ('5517-1', '5517', '1', 'Estacionar nos viadutos, Estacionar nas pontes, Estacionar nos túneis', '181, XIV', 'grave', 5, 195.23),
+  ('5525-0', '5525', '0', 'Estacionar na contramão de direção', '181, XV', 'media', 4, 130.16),
+  ('5533-0', '5533', '0', 'Estacionar aclive/declive ñ freado e sem calço segurança, PBT superior a 3500kg', '181, XVI', 'grave', 5, 195.23),
+  ('5541-1', '5541', '1', 'Estacionar em desacordo com a regulamentação especificada pela sinalização, estacionamento rotativo, ponto ou vaga de táxi, vaga de carga/descarga, vaga portador necessid especiais, vaga idoso, vaga de curta duração', '181, XVII', 'leve', 3, 88.38),
+  ('5550-0', '5550', '0', 'Estacionar em local/horário proibido especificamente pela sinalização', '181, XVIII', 'media', 4, 130.16),
+  ('5568-0', '5568', '0', 'Estacionar local/horário de estacionamento e parada proibidos pela sinalização', '181, XIX', 'grave', 5, 195.23),
+  ('5576-0', '5576', '0', 'Parar nas esquinas e a menos 5m do bordo do alinhamento da via transversal', '182, I', 'media', 4, 130.16),
+  ('5584-0', '5584', '0', 'Parar afastado da guia da calçada (meio-fio) de 50cm a 1m', '182, II', 'leve', 3, 88.38),
+  ('5592-0', '5592', '0', 'Parar afastado da guia da calçada (meio-fio) a mais de 1m', '182, III', 'media', 4, 130.16),
+  ('5606-0', '5606', '0', 'Parar em desacordo com as posições estabelecidas no CTB', '182, IV', 'leve', 3, 88.38),
+  ('5614-1', '5614', '1', 'Parar na pista de rolamento das estradas, Parar na pista de rolamento das rodovias, Parar na pista de rolamento das vias de trânsito rápido, Parar na pista de rolamento das demais vias dotadas de acostamento', '182, V', 'grave', 5, 195.23),
+  ('5622-1', '5622', '1', 'Parar no passeio, Parar sobre faixa destinada a pedestres, Parar nas ilhas ou refúgios, Parar nos canteiros centrais/divisores de pista de rolamento, Parar nas marcas de canalização', '182, VI', 'leve', 3, 88.38),
+  ('5630-0', '5630', '0', 'Parar na área de cruzamento de vias', '182, VII', 'media', 4, 130.16),
+  ('5649-1', '5649', '1', 'Parar nos viadutos, Parar nas pontes, Parar nos túneis', '182, VIII', 'media', 4, 130.16),
+  ('5657-0', '5657', '0', 'Parar na contramão de direção', '182, IX', 'media', 4, 130.16),
+  ('5665-0', '5665', '0', 'Parar em local/horário proibidos especificamente pela sinalização', '182, X', 'media', 4, 130.16),
+  ('5673-1', '5673', '1', 'Parar sobre faixa de pedestres na mudança de sinal luminoso, e (fisc eletrônica)', '183', 'media', 4, 130.16),
+  ('5681-0', '5681', '0', 'Transitar na faixa/pista da direita regul circulação exclusiva determ veículo', '184, I', 'leve', 3, 88.38),
+  ('5690-0', '5690', '0', 'Transitar na faixa/pista da esquerda regul circulação exclusiva determ veículo', '184, II', 'grave', 5, 195.23),
+  ('5703-0', '5703', '0', 'Deixar de conservar o veículo na faixa a ele destinada pela sinalização de regul', '185, I', 'media', 4, 130.16),
+  ('5711-0', '5711', '0', 'Deixar de conservar nas faixas da direita o veículo lento e de maior porte', '185, II', 'media', 4, 130.16),
+  ('5720-0', '5720', '0', 'Transitar pela contramão de direção em via com duplo sentido de circulação', '186, I', 'grave', 5, 195.23),
+  ('5738-0', '5738', '0', 'Transitar pela contramão de direção em via c/ sinalização de regul sentido único', '186, II', 'gravissima', 7, 293.47),
+  ('5746-1', '5746', '1', 'Transitar em local/horário não permitido pela regul estabelecida p/ autoridade, rodízio, caminhão', '187, I', 'media', 4, 130.16),
+  ('5762-0', '5762', '0', 'Transitar ao lado de outro veículo, interrompendo ou perturbando o trânsito', '188', 'media', 4, 130.16),
+  ('5770-1', '5770', '1', 'Deixar de dar passagem a veíc precedido de batedores devidamente identificados, Deixar de dar passagem a veíc socorro incêndio/salv serv urgência devid identif, Deixar de dar passagem a veíc de polícia em serviço de urgência devid identif, Deixar de dar passagem a veíc de operação e fiscalização de trânsito devid ident, Deixar de dar passagem a ambulância em serviço de urgência devid identificada', '189', 'gravissima', 7, 293.47),
+  ('5789-0', '5789', '0', 'Seguir veículo em serv urgência devid identific p/ alarme sonoro/ilum vermelha', '190', 'grave', 5, 195.23),
+  ('5797-0', '5797', '0', 'Forçar passagem entre veícs trans sent opostos na iminência realiz ultrapassagem', '191', 'gravissima', 7, 2934.70),
+  ('5800-0', '5800', '0', 'Deixar guardar dist segurança lat/front entre seu veíc e demais e ao bordo pista', '192', 'grave', 5, 195.23),
+  ('5819-1', '5819', '1', 'Transitar com o veículo em calçadas, passeios, Transitar com o veículo em ciclovias, ciclofaixas - Transitar com o veículo em ajardinamentos, gramados, jardins públicos - Transitar com o veículo em canteiros centrais/divisores de pista de rolamento - Transitar com o veículo em ilhas, refúgios - Transitar com o veículo em marcas de canalização - Transitar com o veículo em acostamentos - Transitar com o veículo em passarelas', '193', 'gravissima', 7, 880.41),
+  ('5827-0', '5827', '0', 'Transitar em marcha ré, salvo na distância necessária a pequenas manobras', '194', 'grave', 5, 195.23),
+  ('5835-0', '5835', '0', 'Desobedecer às ordens emanadas da autorid compet de trânsito ou de seus agentes', '195', 'grave', 5, 195.23),
+  ('5843-1', '5843', '1', 'Deixar de indicar c/ antec, med gesto de braço/luz indicadora, início da marcha - Deixar de indicar c/ antec, med gesto de braço/luz indicadora, manobra de parar - Deixar de indicar c/ antec, med gesto de braço/luz indicadora, mudança direção - Deixar de indicar c/ antec, med gesto de braço/luz indicadora, mudança de faixa', '196', 'grave', 5, 195.23),
+  ('5851-1', '5851', '1', 'Deixar de deslocar c/antecedência veíc p/ faixa mais à esquerda qdo for manobrar - Deixar de deslocar c/antecedência veíc p/ faixa mais à direita qdo for manobrar', '197', 'media', 4, 130.16),
+  ('5860-0', '5860', '0', 'Deixar de dar passagem pela esquerda quando solicitado', '198', 'media', 4, 130.16),
+  ('5878-0', '5878', '0', 'Ultrapassar pela direita, salvo qdo veíc da frente der sinal p/ entrar esquerda', '199', 'media', 4, 130.16),
+  ('5886-0', '5886', '0', 'Ultrap pela direita veíc transp colet/escolar parado para emb/desemb passageiros', '200', 'gravissima', 7, 293.47),
+  ('5894-0', '5894', '0', 'Deixar de guardar a distância lateral de 1,50m ao passar/ultrapassar bicicleta', '201', 'media', 4, 130.16),
+  ('5908-0', '5908', '0', 'Ultrapassar pelo acostamento', '202, I', 'gravissima', 7, 1467.35),
+  ('5916-1', '5916', '1', 'Ultrapassar em interseções - Ultrapassar em passagem de nível', '202, II', 'gravissima', 7, 1467.35),
+  ('5924-1', '5924', '1', 'Ultrapassar pela contramão nas curvas sem visibilidade suficiente - Ultrapassar pela contramão nos aclives ou declives, sem visibilidade suficiente', '203, I', 'gravissima', 7, 1467.35),
+  ('5932-0', '5932', '0', 'Ultrapassar pela contramão nas faixas de pedestre', '203, II', 'gravissima', 7, 1467.35),
+  ('5940-1', '5940', '1', 'Ultrapassar pela contramão nas pontes - Ultrapassar pela contramão nos viadutos - Ultrapassar pela contramão nos túneis', '203, III', 'gravissima', 7, 1467.35),
+  ('5959-1', '5959', '1', 'Ultrapassar pela contramão veículo parado em fila junto sinal luminoso - Ultrapassar pela contramão veículo parado em fila junto a cancela/porteira - Ultrapassar pela contramão veículo parado em fila junto a cruzamento - Ultrapassar pela contramão veíc parado em fila junto qq impedimento à circulação', '203, IV', 'gravissima', 7, 1467.35),
+  ('5967-0', '5967', '0', 'Ultrapassar pela contramão linha de divisão de fluxos opostos, contínua amarela', '203, V', 'gravissima', 7, 1467.35),
+  ('5975-0', '5975', '0', 'Deixar de parar no acostamento à direita, p/ cruzar pista ou entrar à esquerda', '204', 'grave', 5, 195.23),
+  ('5983-0', '5983', '0', 'Ultrapassar veículo em movimento que integre cortejo/desfile/formação militar', '205', 'leve', 3, 88.38),
+  ('5991-0', '5991', '0', 'Executar operação de retorno em locais proibidos pela sinalização', '206, I', 'gravissima', 7, 293.47),
+  ('6009-1', '6009', '1', 'Executar operação de retorno nas curvas - Executar operação de retorno nos aclives ou declives - Executar operação de retorno nas pontes - Executar operação de retorno nos viadutos - Executar operação de retorno nos túneis', '206, II', 'gravissima', 7, 293.47),
+  ('6017-1', '6017', '1', 'Executar operação de retorno passando por cima de calçada, passeio - Executar operação de retorno passando por cima de ilha, refúgio - Executar operação de retorno passando por cima de ajardinamento - Executar operação de retorno passando por cima de canteiro de divisor de pista - Executar operação de retorno passando por cima de faixa de pedestres - Executar operação de retorno passando por cima de faixa de veíc não motorizados', '206, III', 'gravissima', 7, 293.47),
+  ('6025-0', '6025', '0', 'Executar retorno nas interseções, entrando na contramão da via transversal', '206, IV', 'gravissima', 7, 293.47),
+  ('6033-0', '6033', '0', 'Executar retorno c/prejuízo da circulação/segurança ainda que em local permitido', '206, V', 'gravissima', 7, 293.47),
+  ('6041-1', '6041', '1', 'Executar operação de conversão à direita em local proibido pela sinalização - Executar operação de conversão à esquerda em local proibido pela sinalização', '207', 'grave', 5, 195.23),
+  ('6050-1', '6050', '1', 'Avançar o sinal vermelho do semáforo - Avançar o sinal de parada obrigatória - Avançar o sinal vermelho do semáforo - fiscalização eletrônica', '208', 'gravissima', 7, 293.47),
+  ('6068-1', '6068', '1', 'Transpor bloqueio viário com ou sem sinalização ou dispositivos auxiliares - Deixar de adentrar às áreas destinadas à pesagem de veículos - Evadir-se para não efetuar o pagamento do pedágio', '209', 'grave', 5, 195.23),
+  ('6076-0', '6076', '0', 'Transpor bloqueio viário policial', '210', 'gravissima', 7, 293.47),
+  ('6084-1', '6084', '1', 'Ultrapassar veículos motorizados em fila, parados em razão de sinal luminoso - Ultrapassar veículos motorizados em fila, parados em razão de cancela - Ultrapassar veíc motorizados em fila parados em razão de bloqueio viário parcial - Ultrapassar veículos motorizados em fila, parados em razão de qualquer obstáculo', '211', 'grave', 5, 195.23),
+  ('6092-0', '6092', '0', 'Deixar de parar o veículo antes de transpor linha férrea', '212', 'gravissima', 7, 293.47),
+  ('6106-0', '6106', '0', 'Deixar de parar sempre que a marcha for interceptada por agrupamento de pessoas', '213, I', 'gravissima', 7, 293.47),
+  ('6114-0', '6114', '0', 'Deixar de parar sempre que a marcha for interceptada por agrupamento de veículos', '213, II', 'grave', 5, 195.23),
+  ('6122-0', '6122', '0', 'Deixar de dar preferência a pedestre/veic ñ motorizado na faixa a ele destinada', '214, I', 'gravissima', 7, 293.47),
+  ('6130-0', '6130', '0', 'Deixar de dar preferência a pedestre/veic ñ mot que ñ haja concluído a travessia', '214, II', 'gravissima', 7, 293.47),
+  ('6149-0', '6149', '0', 'Deixar de dar preferência a pedestre port deficiência fís/criança/idoso/gestante', '214, III', 'gravissima', 7, 293.47),
+  ('6157-0', '6157', '0', 'Deixar de dar preferência a pedestre/veic ñ mot qdo iniciada travessia s/sinaliz', '214, IV', 'grave', 5, 195.23),
+  ('6165-0', '6165', '0', 'Deixar de dar preferência a pedestre/veic não mot atravessando a via transversal', '214, V', 'grave', 5, 195.23),
+  ('6173-1', '6173', '1', 'Deixar de dar preferência em interseção ñ sinaliz, a veíc circulando por rodovia - Deixar de dar preferência em interseção ñ sinaliz, veíc circulando por rotatória - Deixar de dar prefer em interseção não sinalizada, a veículo que vier da direita', '215, I', 'grave', 5, 195.23),
+  ('6181-0', '6181', '0', 'Deixar de dar preferência nas interseções com sinalização de Dê a Preferência', '215, II', 'grave', 5, 195.23),
+  ('6190-0', '6190', '0', 'Entrar/sair área lindeira sem precaução com a segurança de pedestres e veículos', '216', 'media', 4, 130.16),
+  ('6203-0', '6203', '0', 'Entrar/sair de fila de veículos estacionados sem dar pref a pedestres/veículos', '217', 'media', 4, 130.16),
+  ('6254-0', '6254', '0', 'Transitar em velocidade inferior à metade da máxima da via, salvo faixa direita', '219', 'media', 4, 130.16),
+  ('6262-0', '6262', '0', 'Deixar de reduzir a veloc qdo se aproximar de passeata/aglomeração/desfile/etc', '220, I', 'gravissima', 7, 293.47),
+  ('6270-0', '6270', '0', 'Deixar de reduzir a veloc onde o trânsito esteja sendo controlado pelo agente', '220, II', 'grave', 5, 195.23),
+  ('6289-1', '6289', '1', 'Deixar de reduzir a velocidade do veículo ao aproximar-se da guia da calçada - Deixar de reduzir a velocidade do veículo ao aproximar-se do acostamento', '220, III', 'grave', 5, 195.23),
+  ('6297-0', '6297', '0', 'Deixar de reduzir velocidade do veículo ao aproximar-se interseção ñ sinalizada', '220, IV', 'grave', 5, 195.23),
+  ('6300-0', '6300', '0', 'Deixar reduzir velocidade nas vias rurais cuja faixa domínio não esteja cercada', '220, V', 'grave', 5, 195.23),
+  ('6319-0', '6319', '0', 'Deixar de reduzir a velocidade nos trechos em curva de pequeno raio', '220, VI', 'grave', 5, 195.23),
+  ('6327-0', '6327', '0', 'Deixar de reduzir veloc ao aproximar local sinaliz advert de obras/trabalhadores', '220, VII', 'grave', 5, 195.23),
+  ('6335-0', '6335', '0', 'Deixar de reduzir a velocidade sob chuva/neblina/cerração/ventos fortes', '220, VIII', 'grave', 5, 195.23),
+  ('6343-0', '6343', '0', 'Deixar de reduzir a velocidade quando houver má visibilidade', '220, IX', 'grave', 5, 195.23),
+  ('6351-0', '6351', '0', 'Deixar de reduzir veloc qdo pavimento se apresentar escorreg/defeituoso/avariado', '220, X', 'grave', 5, 195.23),
+  ('6360-0', '6360', '0', 'Deixar de reduzir a velocidade à aproximação de animais na pista', '220, XI', 'grave', 5, 195.23),
+  ('6378-0', '6378', '0', 'Deixar de reduzir a velocidade de forma compatível com a segurança, em declive', '220, XII', 'grave', 5, 195.23),
+  ('6386-0', '6386', '0', 'Deixar de reduzir veloc de forma compatível c/ segurança ao ultrapassar ciclista', '220, XIII', 'gravissima', 7, 293.47),
+  ('6394-1', '6394', '1', 'Deixar de reduzir a velocidade nas proximidades de escolas - Deixar de reduzir a velocidade nas proximidades de hospitais - Deixar de reduzir veloc na proxim estação embarque/desembarque passageiros - Deixar de reduzir veloc onde haja intensa movimentação de pedestres', '220, XIV', 'gravissima', 7, 293.47),
+  ('6408-0', '6408', '0', 'Portar no veículo placas de identificação em desacordo c/ especif/modelo Contran', '221', 'media', 4, 130.16),
+  ('6416-0', '6416', '0', 'Confec/distribuir/colocar veíc próprio/terceiro placa identif desacordo Contran', '221, parágrafo único', 'media', 4, 130.16),
+  ('6424-0', '6424', '0', 'Deixar de manter ligado em emerg sist ilum vermelha intermitente ainda q parado', '222', 'media', 4, 130.16),
+  ('6432-1', '6432', '1', 'Transitar com farol desregulado perturbando visão outro condutor - Transitar com o facho de luz alta perturbando visão outro condutor', '223', 'grave', 5, 195.23),
+  ('6440-0', '6440', '0', 'Fazer uso do facho de luz alta dos faróis em vias providas de iluminação pública', '224', 'leve', 3, 88.38),
+  ('6459-1', '6459', '1', 'Deixar de sinalizar via p/ tornar visível local qdo tiver remover veíc da pista - Deixar de sinalizar a via p/ tornar visível o local qdo permanecer acostamento', '225, I', 'grave', 5, 195.23),
+  ('6467-0', '6467', '0', 'Deixar de sinalizar a via p/ tornar visível o local qdo a carga for derramada', '225, II', 'grave', 5, 195.23),
+  ('6475-0', '6475', '0', 'Deixar de retirar qualquer objeto utilizado para sinalização temporária da via', '226', 'media', 4, 130.16),
+  ('6483-0', '6483', '0', 'Usar buzina que não a de toque breve como advertência a pedestre ou condutores', '227, I', 'leve', 3, 88.38),
+  ('6491-0', '6491', '0', 'Usar buzina prolongada e sucessivamente a qualquer pretexto', '227, II', 'leve', 3, 88.38),
+  ('6505-0', '6505', '0', 'Usar buzina entre as vinte e duas e as seis horas', '227, III', 'leve', 3, 88.38),
+  ('6513-0', '6513', '0', 'Usar buzina em locais e horários proibidos pela sinalização', '227, IV', 'leve', 3, 88.38),
+  ('6521-0', '6521', '0', 'Usar buzina em desacordo c/ os padrões e freqüências estabelecidas pelo Contran', '227, V', 'leve', 3, 88.38),
+  ('6530-0', '6530', '0', 'Usar no veículo equip c/ som em volume/freqüência não autorizados pelo Contran', '228', 'grave', 5, 195.23),
+  ('6548-0', '6548', '0', 'Usar no veíc alarme/aparelho produz som perturbe sossego púb desac norma Contran', '229', 'media', 4, 130.16),
+  ('6556-1', '6556', '1', 'Conduzir o veículo com o lacre de identificação violado/falsificado - Conduzir o veículo com a inscrição do chassi violada/falsificada - Conduzir o veículo com o selo violado/falsificado - Conduzir o veículo com a placa violada/falsificada - Conduzir o veículo com qualquer outro elem de identificação violado/falsificado', '230, I', 'gravissima', 7, 293.47),
+  ('6564-0', '6564', '0', 'Conduzir o veículo transportando passageiros em compartimento de carga', '230, II', 'gravissima', 7, 293.47),
+  ('6572-0', '6572', '0', 'Conduzir o veículo com dispositivo antirradar', '230, III', 'gravissima', 7, 293.47),
+  ('6580-0', '6580', '0', 'Conduzir o veículo sem qualquer uma das placas de identificação', '230, IV', 'gravissima', 7, 293.47),
+  ('6599-1', '6599', '1', 'Conduzir o veículo que não esteja registrado - Conduzir o veículo registrado que não esteja devidamente licenciado', '230, V', 'gravissima', 7, 293.47),
+  ('6602-0', '6602', '0', 'Conduzir o veículo com qualquer uma das placas sem legibilidade e visibilidade', '230, VI', 'gravissima', 7, 293.47),
+  ('6610-1', '6610', '1', 'Conduzir o veículo com a cor alterada - Conduzir o veículo com característica alterada', '230, VII', 'grave', 5, 195.23),
+  ('6629-0', '6629', '0', 'Conduzir veículo s/ ter sido submetido à inspeção seg veicular, qdo obrigatória', '230, VIII', 'grave', 5, 195.23),
+  ('6637-1', '6637', '1', 'Conduzir o veículo sem equipamento obrigatório - Conduzir o veículo com equipamento obrigatório ineficiente/inoperante', '230, IX', 'grave', 5, 195.23),
+  ('6645-0', '6645', '0', 'Conduzir o veículo com equip obrigatório em desacordo com o estab pelo Contran', '230, X', 'grave', 5, 195.23),
+  ('6653-1', '6653', '1', 'Conduzir o veículo com descarga livre - Conduzir o veículo com silenciador de motor defeituoso/deficiente/inoperante', '230, XI', 'grave', 5, 195.23),
+  ('6661-0', '6661', '0', 'Conduzir o veículo com equipamento ou acessório proibido', '230, XII', 'grave', 5, 195.23),
+  ('6670-0', '6670', '0', 'Conduzir o veículo c/ equip do sistema de iluminação e de sinalização alterados', '230, XIII', 'grave', 5, 195.23),
+  ('6688-0', '6688', '0', 'Conduzir veíc c/ registrador instan inalt de velocidade/tempo viciado/defeituoso', '230, XIV', 'grave', 5, 195.23),
+  ('6696-1', '6696', '1', 'Conduzir c/ inscr/adesivo/legenda/símbolo afixado pára-brisa e extensão traseira - Conduzir c/ inscr/adesivo/legenda/símbolo pintado pára-brisa e extensão traseira', '230, XV', 'grave', 5, 195.23),
+  ('6700-0', '6700', '0', 'Conduzir veíc com vidro total/parcialmente coberto por película, painéis/pintura', '230, XVI', 'grave', 5, 195.23),
+  ('6718-0', '6718', '0', 'Conduzir o veículo com cortinas ou persianas fechadas', '230, XVII', 'grave', 5, 195.23),
+  ('6726-1', '6726', '1', 'Conduzir o veículo em mau estado de conservação, comprometendo a segurança - Conduzir o veículo reprovado na avaliação de inspeção de segurança - Conduzir o veículo reprovado na avaliação de emissão de poluentes e ruído', '230, XVIII', 'grave', 5, 195.23),
+  ('6734-0', '6734', '0', 'Conduzir o veículo sem acionar o limpador de pára-brisa sob chuva', '230, XIX', 'media', 4, 130.16),
+  ('6742-0', '6742', '0', 'Conduzir o veículo sem portar a autorização para condução de escolares', '230, XX', 'grave', 5, 195.23),
+  ('6750-0', '6750', '0', 'Conduzir o veíc de carga c/ falta inscrição da tara e demais previstas no CTB', '230, XXI', 'media', 4, 130.16),
+  ('6769-1', '6769', '1', 'Conduzir o veículo com defeito no sistema de iluminação/lâmpada queimada - Conduzir o veículo com defeito no sistema de sinalização/lâmpada queimada', '230, XXII', 'media', 4, 130.16),
+  ('6777-0', '6777', '0', 'Transitar com o veículo danificando a via, suas instalações e equipamentos', '231, I', 'gravissima', 7, 293.47),
+  ('6785-1', '6785', '1', 'Transitar com veículo derramando a carga que esteja transportando - Transitar com veículo lançando a carga que esteja transportando - Transitar com veículo arrastando a carga que esteja transportando', '231, II, a', 'gravissima', 7, 293.47),
+  ('6793-0', '6793', '0', 'Transitar com veíc derramando/lançando combustível/lubrif que esteja utilizando', '231, II, b', 'grave', 5, 195.23),
+  ('6807-0', '6807', '0', 'Transitar c/veíc derraman/lançando/arrastando objeto possa acarretar risco acid', '231, II, c', 'gravissima', 7, 293.47),
+  ('6815-0', '6815', '0', 'Transitar com veículo produzindo fumaça, gases ou partículas em desac c/ Contran', '231, III', 'grave', 5, 195.23),
+  ('6823-1', '6823', '1', 'Transitar c/ veíc e/ou carga c/ dimensões superiores limite legal s/ autorização - Transitar c/ veíc e/ou carga c/ dimensões superiores est p/sinalização s/autoriz', '231, IV', 'grave', 5, 195.23),
+  ('6831-1', '6831', '1', 'Transitar com o veículo com excesso de peso PBT/PBTC - Transitar com o veículo com excesso de peso - Por Eixo - Transitar com o veículo com excesso de peso - PBT/PBTC e Por Eixo', '231, V', 'media', 4, 130.16),
+  ('6840-1', '6840', '1', 'Transitar em desacordo c/ autorização expedida p/veículo c/ dimensões excedentes - Transitar com autorização vencida, expedida p/ veículo c/ dimensões excedentes', '231, VI', 'grave', 5, 195.23),
+  ('6858-0', '6858', '0', 'Transitar com o veículo com lotação excedente', '231, VII', 'media', 4, 130.16),
+  ('6866-1', '6866', '1', 'Transitar efetuando transporte remunerado de pessoas qdo ñ licenciado p/esse fim - Transitar efetuando transporte remunerado de bens qdo não licenciado p/ esse fim', '231, VIII', 'media', 4, 130.16),
+  ('6874-1', '6874', '1', 'Transitar com o veículo desligado em declive - Transitar com o veículo desengrenado em declive', '231, IX', 'media', 4, 130.16),
+  ('6882-0', '6882', '0', 'Transitar com o veículo excedendo a CMT em até 600 kg', '231, X', 'media', 4, 130.16),
+  ('6890-0', '6890', '0', 'Transitar com o veículo excedendo a CMT entre 601 e 1.000 kg', '231, X', 'grave', 5, 195.23),
+  ('6904-0', '6904', '0', 'Transitar com o veículo excedendo a CMT acima de 1.000 kg', '231, X', 'gravissima', 7, 293.47),
+  ('6912-0', '6912', '0', 'Conduzir veículo sem os documentos de porte obrigatório referidos no CTB', '232', 'leve', 3, 88.38),
+  ('6920-1', '6920', '1', 'Deixar de efetuar registro do veículo em 30 dias, qdo for transf a propriedade - Deixar de efetuar reg do veíc em 30 dias, qdo mudar o munic de domicilio/resid - Deixar de efetuar reg de veíc em 30 dias, qdo for alterada qquer caract do veic - Deixar de efetuar registro de veículo em 30 dias, qdo houver mudança de categoria', '233', 'grave', 5, 195.23),
+  ('6939-1', '6939', '1', 'Falsificar ou adulterar documento de habilitação - Falsificar ou adulterar documento de identificação do veículo', '234', 'gravissima', 7, 293.47),
+  ('6947-1', '6947', '1', 'Conduzir pessoas nas partes externas do veículo - Conduzir animais nas partes externas do veículo - Conduzir carga nas partes externas do veículo', '235', 'grave', 5, 195.23),
+  ('6955-0', '6955', '0', 'Rebocar outro veículo com cabo flexível ou corda', '236', 'media', 4, 130.16),
+  ('6963-0', '6963', '0', 'Trans c/veíc desac c/especificação/falta de inscr/simbologia necessária identif', '237', 'grave', 5, 195.23),
+  ('6971-0', '6971', '0', 'Recusar-se a entregar CNH/CRV/CRLV/ outros documentos', '238', 'gravissima', 7, 293.47),
+  ('6980-0', '6980', '0', 'Retirar do local veículo legalmente retido para regularização, sem permissão', '239', 'gravissima', 7, 293.47),
+  ('6998-0', '6998', '0', 'Deixar responsável de promover baixa registro de veíc irrecuperável/desmontado', '240', 'grave', 5, 195.23),
+  ('7005-1', '7005', '1', 'Deixar de atualizar o cadastro de registro do veículo - Deixar de atualizar o cadastro de habilitação do condutor', '241', 'leve', 3, 88.38),
+  ('7013-1', '7013', '1', 'Fazer falsa declaração de domicílio para fins de registro/licenciamento - Fazer falsa declaração de domicílio para fins de habilitação', '242', 'gravissima', 7, 293.47),
+  ('7021-0', '7021', '0', 'Deixar seguradora de comunicar ocorrência perda total veíc e devolver placas/doc', '243', 'grave', 5, 195.23),
+  ('7030-1', '7030', '1', 'Conduzir motocicleta, motoneta e ciclomotor sem capacete de segurança - Conduzir motocicleta, motoneta e ciclomotor sem vestuário aprovado pelo Contran', '244, I', 'gravissima', 7, 293.47),
+  ('7048-1', '7048', '1', 'Conduzir motocicleta, motoneta e ciclomotor transportando passageiro s/ capacete - Conduzir motocicleta/motoneta/ciclomotor transportando pas. fora do assento', '244, II', 'gravissima', 7, 293.47),
+  ('7056-1', '7056', '1', 'Conduzir motoc/moton/ciclomotor fazendo malabarismo/equilibrando-se em uma roda - Conduzir ciclo fazendo malabarismo ou equilibrando-se em uma roda', '244, III', 'gravissima', 7, 293.47),
+  ('7064-0', '7064', '0', 'Conduzir motocicleta, motoneta e ciclomotor com os faróis apagados', '244, IV', 'gravissima', 7, 293.47),
+  ('7072-1', '7072', '1', 'Conduzir motocicleta/motoneta/ciclomotor transportando criança menor de 7 anos - Conduzir motoc/moton/ciclom transp criança s/ condição cuidar própria segurança', '244, V', 'gravissima', 7, 293.47),
+  ('7080-0', '7080', '0', 'Conduzir motocicleta, motoneta e ciclomotor rebocando outro veículo', '244, VI', 'gravissima', 7, 293.47),
+  ('7099-1', '7099', '1', 'Conduzir motocicleta/motoneta/ciclomotor sem segurar o guidom com ambas as mãos', '244, VII', 'media', 4, 130.16),
+  ('7102-1', '7102', '1', 'Conduzir motocicleta, motoneta e ciclomotor transportando carga incompatível - Conduzir motoc/moton/ transportando carga em desacordo c/ § 2º do Art 139-A CTB', '244, VIII', 'media', 4, 130.16),
+  ('7110-0', '7110', '0', 'Conduzir ciclo transportando passageiro fora da garupa/assento a ele destinado', '244, § 1º, a', 'media', 4, 130.16),
+  ('7129-1', '7129', '1', 'Conduzir ciclo via de trâns rápido ou rodovia salvo se houver acostam/fx própria - Conduzir ciclomotor em via de trânsito rápido - Conduzir ciclomotor em rodovia salvo se houver acostamento ou faixa própria', '244, § 1º, b', 'media', 4, 130.16),
+  ('7137-0', '7137', '0', 'Conduzir ciclo transportando criança s/ condição de cuidar própria segurança', '244, § 1º, c', 'media', 4, 130.16),
+  ('7145-0', '7145', '0', 'Utilizar a via para depósito de mercadorias, materiais ou equipamentos', '245', 'grave', 5, 195.23),
+  ('7153-1', '7153', '1', 'Deixar de sinalizar obstáculo à circulação/segurança calçada/pista-s/agravamento - Obstaculizar a via indevidamente-s/agravamento', '246', 'gravissima', 7, 293.47),
+  ('7161-1', '7161', '1', 'Deixar de sinalizar obstáculo circulação/segurança calçada/pista-agravamento 2X - Obstaculizar a via indevidamente-agravamento 2X', '246', 'gravissima', 7, 586.94),
+  ('7170-1', '7170', '1', 'Deixar de sinalizar obstáculo circulação/segurança calçada/pista-agravamento 3X - Obstaculizar a via indevidamente-agravamento 3X', '246', 'gravissima', 7, 880.41),
+  ('7188-1', '7188', '1', 'Deixar de sinalizar obstáculo circulação/segurança calçada/pista-agravamento 4X - Obstaculizar a via indevidamente-agravamento 4X', '246', 'gravissima', 7, 1173.88),
+  ('7196-2', '7196', '2', 'Obstaculizar a via indevidamente-agravamento 5X', '246', 'gravissima', 7, 1467.35),
+  ('7200-1', '7200', '1', 'Deixar de conduzir pelo bordo pista em fila única veíc tração/propulsão humana - Deixar de conduzir pelo bordo da pista em fila única veículo de tração animal', '247', 'media', 4, 130.16),
+  ('7218-0', '7218', '0', 'Transportar em veíc destinado transp passageiros carga excedente desac art.109', '248', 'grave', 5, 195.23),
+  ('7226-1', '7226', '1', 'Deixar de manter acesas à noite as luzes posição qdo o veículo estiver parado - Deixar de manter acesas à noite as luzes de posição veic fazendo carga/descarg a', '249', 'media', 4, 130.16),
+  ('7234-0', '7234', '0', 'Em movimento, deixar de manter acesa a luz baixa durante à noite', '250, I, a', 'media', 4, 130.16),
+  ('7242-0', '7242', '0', 'Em movimento de dia, deixar de manter acesa luz baixa túnel com iluminação pública', '250, I, b', 'media', 4, 130.16),
+  ('7250-0', '7250', '0', 'Em mov, deixar de manter acesa luz baixa veíc transp coletivo faixa/pista excl', '250, I, c', 'media', 4, 130.16),
+  ('7269-0', '7269', '0', 'Em movimento, deixar de manter acesa luz baixa do ciclomotor', '250, I, d', 'media', 4, 130.16),
+  ('7277-0', '7277', '0', 'Em mov deixar de manter acesas luzes de posição sob chuva forte/neblina/cerração', '250, II', 'media', 4, 130.16),
+  ('7285-0', '7285', '0', 'Em movimento, deixar de manter a placa traseira iluminada à noite', '250, III', 'media', 4, 130.16),
+  ('7293-0', '7293', '0', 'Utilizar o pisca-alerta, exceto em imobilizações ou situações de emergência', '251, I', 'media', 4, 130.16),
+  ('7307-0', '7307', '0', 'Utilizar luz alta e baixa intermitente, exceto quando permitido pelo CTB', '251, II', 'media', 4, 130.16),
+  ('7315-0', '7315', '0', 'Dirigir o veículo com o braço do lado de fora', '252, I', 'media', 4, 130.16),
+  ('7323-1', '7323', '1', 'Dirigir o veículo transport pessoas à sua esquerda ou entre os braços e pernas - Dirigir o veículo transport animais à sua esquerda ou entre os braços e pernas - Dirigir o veículo transport volume à sua esquerda ou entre os braços e pernas', '252, II', 'media', 4, 130.16),
+  ('7331-0', '7331', '0', 'Dirigir o veículo com incapacidade física ou mental temporária', '252, III', 'media', 4, 130.16),
+  ('7340-0', '7340', '0', 'Dirigir o veíc usando calçado que ñ se firme nos pés/comprometa utiliz pedais', '252, IV', 'media', 4, 130.16),
+  ('7358-0', '7358', '0', 'Dirigir o veículo com apenas uma das mãos, exceto quando permitido pelo CTB', '252, V', 'media', 4, 130.16),
+  ('7366-1', '7366', '1', 'Dirigir o veículo utilizando-se de fones nos ouvidos conec a aparelhagem sonora - Dirigir veículo utilizando-se de telefone celular', '252, VI', 'media', 4, 130.16),
+  ('7374-0', '7374', '0', 'Bloquear a via com veículo', '253', 'gravissima', 7, 293.47),
+  ('7382-0', '7382', '0', 'É proib ao pedestre permanecer/andar pista, exceto p/ cruzá-las onde permitido', '254, I', 'leve', 0, 44.19),
+  ('7390-1', '7390', '1', 'É proibido ao pedestre cruzar pista de rolamento de viaduto exc onde permitido - de ponte exceto onde permitido - de túneis exceto onde permitido', '254, II', 'leve', 0, 44.19),
+  ('7404-0', '7404', '0', 'É proib ao pedestre atravessar via área cruzamento exc onde permitido p/ sinaliz', '254, III', 'leve', 0, 44.19),
+  ('7412-0', '7412', '0', 'É proib pedestre utilizar via em agrupam que perturbe trâns/prát esporte/desfile', '254, IV', 'leve', 0, 44.19),
+  ('7420-1', '7420', '1', 'É proibido ao pedestre andar fora da faixa própria - andar fora da passarela - andar fora da passagem aérea - andar fora da passagem subterrânea', '254, V', 'leve', 0, 44.19),
+  ('7439-0', '7439', '0', 'É proibido ao pedestre desobedecer a sinalização de trânsito específica', '254, VI', 'leve', 0, 44.19),
+  ('7447-1', '7447', '1', 'Conduzir bicicleta em passeios onde não seja permitida a circulação desta - Conduzir bicicleta de forma agressiva', '255', 'media', 4, 130.16),
+  ('7455-0', '7455', '0', 'Transitar em velocidade superior à máxima permitida em até 20%', '218, I', 'media', 4, 130.16),
+  ('7463-0', '7463', '0', 'Transitar em velocidade superior à máxima permitida em mais de 20% até 50%', '218, II', 'grave', 5, 195.23),
+  ('7471-0', '7471', '0', 'Transitar em velocidade superior à máxima permitida em mais de 50%', '218, III', 'gravissima', 7, 880.41),
+  ('7480-1', '7480', '1', 'Aprovar proj edificação pólo atrativo trânsito s/ anuência órgão/entid trânsito e Aprovar proj edificação pólo atrativo trâns s/ estacion/indicação vias de acesso', '93', null, 0, null),
+  ('7498-0', '7498', '0', 'Ñ sinalizar devida/imed obstáculo à circul/segurança veíc/pedestre pista/calçada', '94', null, 0, null),
+  ('7501-0', '7501', '0', 'Utilizar ondulação transversal/sonorizador fora padrão/critério estab p/ Contran', '94, parágrafo único', null, 0, null),
+  ('7510-1', '7510', '1', 'Iniciar obra perturbe/interrompa circulação/segurança veíc/pedestres s/permissão e Iniciar evento perturbe/interrompa circulaç/segurança veíc/pedestres s/permissão', '95', null, 0, null),
+  ('7528-1', '7528', '1', 'Não sinalizar a execução ou manutenção da obra e Não sinalizar a execução ou manutenção do evento', '95, § 1º', null, 0, null),
+  ('7536-0', '7536', '0', 'Não avisar comunidade c/ 48h antec interdição via indicando caminho alternativo', '95, § 2º', null, 0, null),
+  ('7544-1', '7544', '1', 'Falta de escrituração livro registro entrada/saída e de uso placa de experiência - Atraso escrituração livro registro entrada/saída e de uso placa de experiência - Fraude escrituração livro registro entrada/saída e de uso placa de experiência - Recusa da exibição do livro registro entrada/saída e de uso placa de experiência', '330, § 5º', null, 0, null),
+  ('7552-1', '7552', '1', 'Conduzir motoc/moton/ efetuando transp remun mercadoria desac c/ art 139-A CTB - Conduzir motoc/moton/ efet transp remun desac normas ativid profic mototaxistas', '244, IX', 'grave', 5, 195.23),
+  ('7560-0', '7560', '0', 'Conduzir veíc de transp passag ou carga em desacordo c/ as cond do art 67-C CTB', '230, XXIII', 'grave', 5, 195.23),
+  ('7579-0', '7579', '0', 'Cond que se recusar a se submeter a qq dos proc prev no art. 277 do CTB', '165-A', 'gravissima', 7, 2934.70),
+  ('7587-0', '7587', '0', 'Transitar na faixa ou via exclusiva regulam. p/ transp. públ. coletivo passag.', '184, III', 'gravissima', 7, 293.47),
+  ('7595-0', '7595', '0', 'Dirigir veículo realizando cobrança de tarifa com veículo em movimento', '252, VII', 'media', 4, 130.16),
+  ('7609-0', '7609', '0', 'Organizar as condutas previstas no caput do art. 253-A', '253-A, § 1º', 'gravissima', 7, 17608.20),
+  ('7617-1', '7617', '1', 'Usar veículo para, deliberadamente, interromper a circulação na via - restringir a circulação na via - perturbar a circulação na via', '253-A', 'gravissima', 7, 5869.40)
+) as v (key, code, desdobramento, description, article, gravity, points, fine_amount)
+where not exists (select 1 from public.infraction_catalog c where c.key = v.key);
+
+alter table public.infractions
+  add column if not exists catalog_id bigint references public.infraction_catalog (id);
+
+create index if not exists infractions_catalog_id_idx on public.infractions (catalog_id);
+
+-- Version of the entry behind an infraction_type on a given day. Reports saved before the
+-- catalog was structured hold "5010-0 Dirigir..." instead of the bare key.
+create or replace function public.infraction_catalog_id(p_infraction_type text, p_on date)
+returns bigint
+language sql
+stable
+as $$
+  select c.id
+  from public.infraction_catalog c
+  where c.key = substring(p_infraction_type from '^\d{4}-\d')
+    and p_on between c.effective_from and coalesce(c.effective_to, 'infinity'::date)
+  limit 1;
+$$;
+
+update public.infractions i
+set catalog_id = public.infraction_catalog_id(i.infraction_type, r.shift_date)
+from public.geotranote_reports r
+where r.uid = i.report_uid
+  and i.catalog_id is null;
+
+create or replace function public.insert_report_infractions(p_report_uid uuid, p_infractions jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_item jsonb;
+  v_details jsonb;
+  v_infraction_uid uuid;
+  v_shift_date date;
+begin
+  select shift_date into v_shift_date from public.geotranote_reports where uid = p_report_uid;
+
+  for v_item in select value from jsonb_array_elements(p_infractions) loop
+    v_details := coalesce(v_item->'details', '[]'::jsonb);
+
+    insert into public.infractions (
+      report_uid,
+      infraction_type,
+      catalog_id,
+      quantity,
+      latitude,
+      longitude,
+      location_accuracy
+    )
+    values (
+      p_report_uid,
+      v_item->>'infraction_type',
+      public.infraction_catalog_id(v_item->>'infraction_type', v_shift_date),
+      case
+        when jsonb_array_length(v_details) > 0 then jsonb_array_length(v_details)
+        else (v_item->>'quantity')::int
+      end,
+      (v_item->>'latitude')::double precision,
+      (v_item->>'longitude')::double precision,
+      (v_item->>'location_accuracy')::real
+    )
+    returning uid into v_infraction_uid;
+
+    insert into public.infraction_details (infraction_uid, plate, vehicle_type, ait_number, infraction_time, street)
+    select
+      v_infraction_uid,
+      nullif(upper(regexp_replace(detail->>'plate', '[^A-Za-z0-9]', '', 'g')), ''),
+      nullif(btrim(detail->>'vehicle_type'), ''),
+      nullif(upper(btrim(detail->>'ait_number')), ''),
+      (nullif(detail->>'infraction_time', ''))::time,
+      nullif(btrim(detail->>'street'), '')
+    from jsonb_array_elements(v_details) as detail;
+  end loop;
+end;
+$$;
+
+-- Adds an entry or a new version of an existing one. The version in force on the new
+-- effective_from is closed the day before; a version starting on that same day is corrected
+-- in place as long as no report uses it yet.
+create or replace function public.save_infraction_version(entry jsonb)
+returns bigint
+language plpgsql
+as $$
+declare
+  v_key text := btrim(entry->>'key');
+  v_from date := (entry->>'effective_from')::date;
+  v_to date := (nullif(entry->>'effective_to', ''))::date;
+  v_same_day public.infraction_catalog%rowtype;
+  v_id bigint;
+begin
+  if coalesce(public.current_user_role(), 'agent') <> 'admin' then
+    raise exception 'Apenas administradores podem alterar o catálogo de infrações'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if v_from is null then
+    raise exception 'Informe o início da vigência' using errcode = 'check_violation';
+  end if;
+
+  select * into v_same_day
+  from public.infraction_catalog
+  where key = v_key and effective_from = v_from
+  for update;
+
+  if found then
+    if exists (select 1 from public.infractions where catalog_id = v_same_day.id) then
+      raise exception 'A versão de % em vigor desde % já é usada em relatórios; informe outra data de vigência',
+        v_key, to_char(v_from, 'DD/MM/YYYY')
+        using errcode = 'check_violation';
+    end if;
+
+    delete from public.infraction_catalog where id = v_same_day.id;
+  end if;
+
+  update public.infraction_catalog
+  set effective_to = v_from - 1
+  where key = v_key
+    and effective_from < v_from
+    and coalesce(effective_to, 'infinity'::date) >= v_from;
+
+  insert into public.infraction_catalog (
+    key,
+    code,
+    desdobramento,
+    description,
+    article,
+    gravity,
+    points,
+    fine_amount,
+    effective_from,
+    effective_to
+  )
+  values (
+    v_key,
+    split_part(v_key, '-', 1),
+    split_part(v_key, '-', 2),
+    btrim(entry->>'description'),
+    btrim(coalesce(entry->>'article', '')),
+    nullif(entry->>'gravity', ''),
+    coalesce((entry->>'points')::int, 0),
+    (nullif(entry->>'fine_amount', ''))::numeric,
+    v_from,
+    v_to
+  )
+  returning id into v_id;
+
+  return v_id;
+end;
+$$;
+
+create or replace function public.report_snapshot(p_report_uid uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select jsonb_build_object(
+    'service_name', r.service_name,
+    'sector', r.sector,
+    'shift_date', r.shift_date,
+    'shift_start', to_char(r.shift_start, 'HH24:MI'),
+    'shift_end', to_char(r.shift_end, 'HH24:MI'),
+    'vehicle_prefix', r.vehicle_prefix,
+    'team_members', to_jsonb(r.team_members),
+    'car_removals', r.car_removals,
+    'motorcycle_removals', r.motorcycle_removals,
+    'total_approaches', r.total_approaches,
+    'removals', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'vehicle_type', m.vehicle_type,
+          'plate', m.plate,
+          'infraction_type', m.infraction_type,
+          'depot', m.depot,
+          'tow_truck', m.tow_truck
+        )
+        order by m.vehicle_type, m.plate
+      )
+      from public.removals m
+      where m.report_uid = r.uid
+    ), '[]'::jsonb),
+    'infractions', coalesce((
+      select jsonb_agg(
+        jsonb_build_object('infraction_type', i.infraction_type, 'quantity', i.quantity, 'catalog_id', i.catalog_id)
+          || coalesce((
+            select jsonb_build_object('details', jsonb_agg(
+              jsonb_build_object(
+                'plate', d.plate,
+                'vehicle_type', d.vehicle_type,
+                'ait_number', d.ait_number,
+                'infraction_time', to_char(d.infraction_time, 'HH24:MI'),
+                'street', d.street
+              )
+              order by d.ait_number, d.plate
+            ))
+            from public.infraction_details d
+            where d.infraction_uid = i.uid
+            having count(*) > 0
+          ), '{}'::jsonb)
+        order by i.infraction_type
+      )
+      from public.infractions i
+      where i.report_uid = r.uid
+    ), '[]'::jsonb)
+  )
+  from public.geotranote_reports r
+  where r.uid = p_report_uid;
+$$;
+
+grant execute on function public.save_infraction_version(jsonb) to authenticated;
@@ -0,0 +1,144 @@
+-- Service types and sectors as reference data edited by administrators instead of lists in
+-- the app. Sectors form a tree: GEOTRAN groups its district bases, and new units can be added
+-- under any of them. Group rows that are not filed on reports have selectable = false.
+-- A supervisor assigned to a group reads and amends the reports of every sector below it.
+
+create table if not exists public.service_types (
+  value text primary key,
+  label text not null check (length(btrim(label)) > 0),
+  sort_order integer not null default 0,
+  active boolean not null default true
+);
+
+create table if not exists public.sectors (
+  value text primary key,
+  label text not null check (length(btrim(label)) > 0),
+  parent_value text references public.sectors (value) on update cascade,
+  selectable boolean not null default true,
+  sort_order integer not null default 0,
+  active boolean not null default true,
+  check (parent_value is distinct from value)
+);
+
+create index if not exists sectors_parent_value_idx on public.sectors (parent_value);
+
+insert into public.service_types (value, label, sort_order)
+values
+  ('ordinario', 'Ordinário', 1),
+  ('operacao', 'Operação', 2),
+  ('ras', 'RAS', 3)
+on conflict (value) do nothing;
+
+insert into public.sectors (value, label, parent_value, selectable, sort_order)
+values
+  ('GEOTRAN', 'GEOTRAN', null, false, 1),
+  ('GEOTRAN - 1º Distrito', 'GEOTRAN - 1º Distrito', 'GEOTRAN', true, 1),
+  ('GEOTRAN - 2º Distrito', 'GEOTRAN - 2º Distrito', 'GEOTRAN', true, 2),
+  ('GEOTRAN - 3º/4º Distrito', 'GEOTRAN - 3º/4º Distrito', 'GEOTRAN', true, 3),
+  ('1º Distrito', '1º Distrito', null, true, 2),
+  ('2º Distrito', '2º Distrito', null, true, 3),
+  ('3º Distrito', '3º Distrito', null, true, 4),
+  ('4º Distrito', '4º Distrito', null, true, 5),
+  ('GEDAM', 'GEDAM', null, true, 6),
+  ('GRE', 'GRE', null, true, 7),
+  ('GMAP', 'GMAP', null, true, 8),
+  ('ROMU', 'ROMU', null, true, 9),
+  ('RAS', 'RAS', null, true, 10),
+  ('Operação', 'Operação', null, true, 11)
+on conflict (value) do nothing;
+
+-- Values used by older reports that were never in the lists are kept, inactive, so the
+-- foreign keys below hold for every row.
+insert into public.service_types (value, label, sort_order, active)
+select distinct r.service_name, r.service_name, 100, false
+from public.geotranote_reports r
+where r.service_name is not null
+on conflict (value) do nothing;
+
+insert into public.sectors (value, label, sort_order, active)
+select distinct s.sector, s.sector, 100, false
+from (
+  select sector from public.geotranote_reports
+  union
+  select sector from public.user_profiles
+) as s
+where s.sector is not null
+on conflict (value) do nothing;
+
+alter table public.geotranote_reports
+  add constraint geotranote_reports_service_name_fkey
+    foreign key (service_name) references public.service_types (value) on update cascade,
+  add constraint geotranote_reports_sector_fkey
+    foreign key (sector) references public.sectors (value) on update cascade;
+
+alter table public.user_profiles
+  add constraint user_profiles_sector_fkey
+    foreign key (sector) references public.sectors (value) on update cascade;
+
+alter table public.service_types enable row level security;
+alter table public.sectors enable row level security;
+
+create policy "Service types readable by signed-in users"
+  on public.service_types for select
+  to authenticated
+  using (true);
+
+create policy "Admins manage service types"
+  on public.service_types for all
+  to authenticated
+  using (public.current_user_role() = 'admin')
+  with check (public.current_user_role() = 'admin');
+
+create policy "Sectors readable by signed-in users"
+  on public.sectors for select
+  to authenticated
+  using (true);
+
+create policy "Admins manage sectors"
+  on public.sectors for all
+  to authenticated
+  using (public.current_user_role() = 'admin')
+  with check (public.current_user_role() = 'admin');
+
+-- True when p_sector is p_ancestor or lies anywhere below it in the sector tree.
+create or replace function public.sector_within(p_sector text, p_ancestor text)
+returns boolean
+language sql
+stable
+as $$
+  with recursive chain as (
+    select s.value, s.parent_value, 1 as depth
+    from public.sectors s
+    where s.value = p_sector
+    union all
+    select s.value, s.parent_value, c.depth + 1
+    from public.sectors s
+    join chain c on s.value = c.parent_value
+    where c.depth < 10
+  )
+  select p_sector = p_ancestor or exists (select 1 from chain where value = p_ancestor);
+$$;
+
+create or replace function public.can_read_report(p_submitted_by uuid, p_sector text)
+returns boolean
+language sql
+stable
+as $$
+  select case public.current_user_role()
+    when 'admin' then true
+    when 'supervisor' then public.sector_within(p_sector, public.current_user_sector()) or p_submitted_by = auth.uid()
+    else p_submitted_by = auth.uid()
+  end;
+$$;
+
+create or replace function public.can_amend_report(p_sector text)
+returns boolean
+language sql
+stable
+as $$
+  select case public.current_user_role()
+    when 'admin' then true
+    when 'supervisor' then public.sector_within(p_sector, public.current_user_sector())
+    else false
+  end;
+$$;
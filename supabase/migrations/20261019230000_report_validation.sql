@@ -0,0 +1,171 @@
+-- Server side of the report form validation (src/lib/validation.ts). replace_report_lines runs
+-- for submission, amendment and resubmission, so checking there covers all three, and the
+-- exception rolls back the report row inserted by submit_report as well. Repeated lines of
+-- the same infraction are merged the same way the form merges them. The cross-field warnings
+-- of the form (more infractions or removals than approaches) are advice, not errors, and are
+-- not enforced here.
+
+alter table public.geotranote_reports
+  add constraint geotranote_reports_counts_check
+    check (total_approaches >= 0 and car_removals >= 0 and motorcycle_removals >= 0) not valid;
+
+alter table public.infractions
+  add constraint infractions_quantity_check check (quantity > 0) not valid;
+
+-- Old grey plates (ABC1234) and Mercosul plates (ABC1D23), compared without punctuation.
+create or replace function public.is_valid_plate(p_plate text)
+returns boolean
+language sql
+immutable
+as $$
+  select upper(regexp_replace(p_plate, '[^A-Za-z0-9]', '', 'g')) ~ '^[A-Z]{3}[0-9][A-Z0-9][0-9]{2}$';
+$$;
+
+create or replace function public.validate_report(report jsonb, infractions jsonb)
+returns void
+language plpgsql
+stable
+as $$
+declare
+  v_item jsonb;
+  v_detail jsonb;
+  v_position integer;
+  v_quantity numeric;
+  v_repeated text;
+begin
+  if coalesce(btrim(report->>'service_name'), '') = '' then
+    raise exception 'Selecione o tipo de serviço' using errcode = 'check_violation';
+  end if;
+
+  if coalesce(btrim(report->>'sector'), '') = '' then
+    raise exception 'Selecione o setor' using errcode = 'check_violation';
+  end if;
+
+  if (report->>'shift_date')::date > (now() at time zone 'America/Sao_Paulo')::date then
+    raise exception 'A data do turno não pode estar no futuro' using errcode = 'check_violation';
+  end if;
+
+  if (report->>'shift_start')::time = (report->>'shift_end')::time then
+    raise exception 'O fim do turno deve ser diferente do início' using errcode = 'check_violation';
+  end if;
+
+  if length(btrim(coalesce(report->>'vehicle_prefix', ''))) > 20 then
+    raise exception 'O prefixo da viatura deve ter no máximo 20 caracteres' using errcode = 'check_violation';
+  end if;
+
+  v_quantity := coalesce((report->>'total_approaches')::numeric, 0);
+  if v_quantity < 0 or v_quantity <> trunc(v_quantity) then
+    raise exception 'O total de abordagens deve ser um número inteiro igual ou maior que zero'
+      using errcode = 'check_violation';
+  end if;
+
+  for v_item, v_position in
+    select value, ordinality from jsonb_array_elements(coalesce(report->'removals', '[]'::jsonb)) with ordinality
+  loop
+    if coalesce(btrim(v_item->>'vehicle_type'), '') = '' then
+      raise exception 'Remoção %: selecione o tipo de veículo', v_position using errcode = 'check_violation';
+    end if;
+
+    if coalesce(btrim(v_item->>'plate'), '') <> '' and not public.is_valid_plate(v_item->>'plate') then
+      raise exception 'Remoção %: placa % inválida', v_position, v_item->>'plate' using errcode = 'check_violation';
+    end if;
+  end loop;
+
+  for v_item in select value from jsonb_array_elements(coalesce(infractions, '[]'::jsonb)) loop
+    if coalesce(btrim(v_item->>'infraction_type'), '') = '' then
+      raise exception 'Infração sem código' using errcode = 'check_violation';
+    end if;
+
+    if jsonb_array_length(coalesce(v_item->'details', '[]'::jsonb)) = 0 then
+      v_quantity := coalesce((v_item->>'quantity')::numeric, 0);
+      if v_quantity < 1 or v_quantity <> trunc(v_quantity) then
+        raise exception '%: a quantidade deve ser um número inteiro maior que zero', v_item->>'infraction_type'
+          using errcode = 'check_violation';
+      end if;
+    end if;
+
+    for v_detail, v_position in
+      select value, ordinality from jsonb_array_elements(coalesce(v_item->'details', '[]'::jsonb)) with ordinality
+    loop
+      if coalesce(btrim(v_detail->>'ait_number'), '') = '' or coalesce(btrim(v_detail->>'plate'), '') = '' then
+        raise exception '%: auto %: informe o número do AIT e a placa', v_item->>'infraction_type', v_position
+          using errcode = 'check_violation';
+      end if;
+
+      if not public.is_valid_plate(v_detail->>'plate') then
+        raise exception '%: auto %: placa % inválida', v_item->>'infraction_type', v_position, v_detail->>'plate'
+          using errcode = 'check_violation';
+      end if;
+    end loop;
+  end loop;
+
+  select ait into v_repeated
+  from (
+    select upper(btrim(detail->>'ait_number')) as ait
+    from jsonb_array_elements(coalesce(infractions, '[]'::jsonb)) as item,
+      jsonb_array_elements(coalesce(item->'details', '[]'::jsonb)) as detail
+  ) as aits
+  group by ait
+  having count(*) > 1
+  limit 1;
+
+  if v_repeated is not null then
+    raise exception 'O AIT % foi informado mais de uma vez', v_repeated using errcode = 'check_violation';
+  end if;
+end;
+$$;
+
+-- Folds repeated lines of the same infraction into the first one: counts are added up and
+-- autos appended. Aggregate and detailed lines stay apart, as in the form.
+create or replace function public.merge_infraction_lines(p_infractions jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  with lines as (
+    select
+      item,
+      line_no,
+      item->>'infraction_type' as infraction_type,
+      jsonb_array_length(coalesce(item->'details', '[]'::jsonb)) > 0 as detailed
+    from jsonb_array_elements(coalesce(p_infractions, '[]'::jsonb)) with ordinality as t (item, line_no)
+  ),
+  groups as (
+    select
+      l.infraction_type,
+      l.detailed,
+      min(l.line_no) as line_no,
+      sum(coalesce((l.item->>'quantity')::int, 0)) as quantity
+    from lines l
+    group by l.infraction_type, l.detailed
+  )
+  select coalesce(jsonb_agg(
+    lead_line.item || jsonb_build_object(
+      'quantity', g.quantity,
+      'details', coalesce((
+        select jsonb_agg(d.detail order by l.line_no, d.n)
+        from lines l,
+          jsonb_array_elements(coalesce(l.item->'details', '[]'::jsonb)) with ordinality as d (detail, n)
+        where l.infraction_type = g.infraction_type and l.detailed = g.detailed
+      ), '[]'::jsonb)
+    )
+    order by g.line_no
+  ), '[]'::jsonb)
+  from groups g
+  join lines lead_line on lead_line.line_no = g.line_no;
+$$;
+
+create or replace function public.replace_report_lines(p_report_uid uuid, report jsonb, infractions jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  perform public.validate_report(report, infractions);
+
+  delete from public.infractions where report_uid = p_report_uid;
+  delete from public.removals where report_uid = p_report_uid;
+
+  perform public.insert_report_infractions(p_report_uid, public.merge_infraction_lines(infractions));
+  perform public.insert_report_removals(p_report_uid, report);
+end;
+$$;
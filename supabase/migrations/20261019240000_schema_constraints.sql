@@ -0,0 +1,34 @@
+-- Constraints the dashboard-created tables were missing (see 20261019120000_submit_report).
+-- Infraction lines left without a report by the first version of the form were never
+-- visible to anyone and are dropped before report_uid becomes required.
+
+delete from public.infractions where report_uid is null;
+
+alter table public.infractions
+  alter column report_uid set not null,
+  alter column infraction_type set not null,
+  alter column quantity set not null;
+
+alter table public.geotranote_reports
+  alter column protocol_number set not null,
+  alter column service_name set not null,
+  alter column sector set not null,
+  alter column created_at set not null;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conrelid = 'public.infractions'::regclass
+      and contype = 'f'
+      and confrelid = 'public.geotranote_reports'::regclass
+  ) then
+    alter table public.infractions
+      add constraint infractions_report_uid_fkey
+        foreign key (report_uid) references public.geotranote_reports (uid) on delete cascade;
+  end if;
+end;
+$$;
+
+create index if not exists infractions_report_uid_idx on public.infractions (report_uid);
+create index if not exists geotranote_reports_created_at_idx on public.geotranote_reports (created_at);
@@ -0,0 +1,234 @@
+-- Aggregates for the Dashboard, computed in the database instead of downloading every report
+-- and infraction line of the period. All functions take the Dashboard filters (null for no
+-- filter) and run as the caller, so RLS limits them to the reports the user may read.
+
+create or replace function public.dashboard_reports(
+  p_service text default null,
+  p_sectors text[] default null,
+  p_start date default null,
+  p_end date default null,
+  p_approved_only boolean default false
+)
+returns setof public.geotranote_reports
+language sql
+stable
+as $$
+  select r.*
+  from public.geotranote_reports r
+  where (p_service is null or r.service_name = p_service)
+    and (p_sectors is null or cardinality(p_sectors) = 0 or r.sector = any (p_sectors))
+    and (p_start is null or r.shift_date >= p_start)
+    and (p_end is null or r.shift_date <= p_end)
+    and (not coalesce(p_approved_only, false) or r.status = 'approved');
+$$;
+
+-- Catalog key of a stored infraction_type; older lines hold the full "5010-0 Dirigir..." text.
+create or replace function public.infraction_key(p_infraction_type text)
+returns text
+language sql
+immutable
+as $$
+  select coalesce(substring(p_infraction_type from '^(\d{4}-\d)\y'), p_infraction_type);
+$$;
+
+create or replace function public.dashboard_totals(
+  p_service text default null,
+  p_sectors text[] default null,
+  p_start date default null,
+  p_end date default null,
+  p_approved_only boolean default false
+)
+returns table (
+  reports bigint,
+  approaches bigint,
+  infractions bigint,
+  car_removals bigint,
+  motorcycle_removals bigint
+)
+language sql
+stable
+as $$
+  select
+    count(*),
+    coalesce(sum(r.total_approaches), 0),
+    coalesce(sum((select sum(i.quantity) from public.infractions i where i.report_uid = r.uid)), 0),
+    coalesce(sum(r.car_removals), 0),
+    coalesce(sum(r.motorcycle_removals), 0)
+  from public.dashboard_reports(p_service, p_sectors, p_start, p_end, p_approved_only) r;
+$$;
+
+create or replace function public.dashboard_removals_by_vehicle_type(
+  p_service text default null,
+  p_sectors text[] default null,
+  p_start date default null,
+  p_end date default null,
+  p_approved_only boolean default false
+)
+returns table (vehicle_type text, removals bigint)
+language sql
+stable
+as $$
+  select m.vehicle_type, count(*)
+  from public.dashboard_reports(p_service, p_sectors, p_start, p_end, p_approved_only) r
+  join public.removals m on m.report_uid = r.uid
+  group by m.vehicle_type;
+$$;
+
+-- Day, week (starting on Monday) or month buckets of shift_date. Empty buckets are not
+-- returned; the Dashboard fills them with zeros.
+create or replace function public.dashboard_series(
+  p_granularity text,
+  p_service text default null,
+  p_sectors text[] default null,
+  p_start date default null,
+  p_end date default null,
+  p_approved_only boolean default false
+)
+returns table (
+  bucket date,
+  approaches bigint,
+  infractions bigint,
+  car_removals bigint,
+  motorcycle_removals bigint
+)
+language sql
+stable
+as $$
+  select
+    date_trunc(p_granularity, r.shift_date::timestamp)::date as bucket,
+    sum(r.total_approaches),
+    coalesce(sum((select sum(i.quantity) from public.infractions i where i.report_uid = r.uid)), 0),
+    sum(r.car_removals),
+    sum(r.motorcycle_removals)
+  from public.dashboard_reports(p_service, p_sectors, p_start, p_end, p_approved_only) r
+  where p_granularity in ('day', 'week', 'month')
+  group by 1
+  order by 1;
+$$;
+
+create or replace function public.dashboard_sectors(
+  p_service text default null,
+  p_sectors text[] default null,
+  p_start date default null,
+  p_end date default null,
+  p_approved_only boolean default false
+)
+returns table (
+  sector text,
+  reports bigint,
+  approaches bigint,
+  infractions bigint,
+  car_removals bigint,
+  motorcycle_removals bigint
+)
+language sql
+stable
+as $$
+  select
+    r.sector,
+    count(*),
+    sum(r.total_approaches),
+    coalesce(sum((select sum(i.quantity) from public.infractions i where i.report_uid = r.uid)), 0),
+    sum(r.car_removals),
+    sum(r.motorcycle_removals)
+  from public.dashboard_reports(p_service, p_sectors, p_start, p_end, p_approved_only) r
+  group by r.sector
+  order by r.sector;
+$$;
+
+create or replace function public.dashboard_infraction_ranking(
+  p_service text default null,
+  p_sectors text[] default null,
+  p_start date default null,
+  p_end date default null,
+  p_approved_only boolean default false
+)
+returns table (infraction_key text, quantity bigint, reports bigint)
+language sql
+stable
+as $$
+  select public.infraction_key(i.infraction_type), sum(i.quantity), count(distinct i.report_uid)
+  from public.dashboard_reports(p_service, p_sectors, p_start, p_end, p_approved_only) r
+  join public.infractions i on i.report_uid = r.uid
+  group by 1
+  order by 2 desc, 1;
+$$;
+
+-- Reports behind one row of the ranking, for the drill-down below it.
+create or replace function public.dashboard_infraction_reports(
+  p_infraction_key text,
+  p_service text default null,
+  p_sectors text[] default null,
+  p_start date default null,
+  p_end date default null,
+  p_approved_only boolean default false
+)
+returns table (protocol_number text, shift_date date, quantity bigint)
+language sql
+stable
+as $$
+  select r.protocol_number, r.shift_date, sum(i.quantity)
+  from public.dashboard_reports(p_service, p_sectors, p_start, p_end, p_approved_only) r
+  join public.infractions i on i.report_uid = r.uid
+  where public.infraction_key(i.infraction_type) = p_infraction_key
+  group by r.protocol_number, r.shift_date
+  order by 3 desc, r.shift_date desc;
+$$;
+
+-- Map points: infraction quantities per position and type (lines recorded without their own
+-- position use the position of the report) and removals per located report.
+create or replace function public.dashboard_infraction_points(
+  p_service text default null,
+  p_sectors text[] default null,
+  p_start date default null,
+  p_end date default null,
+  p_approved_only boolean default false
+)
+returns table (latitude double precision, longitude double precision, infraction_key text, quantity bigint)
+language sql
+stable
+as $$
+  select
+    coalesce(i.latitude, r.latitude),
+    coalesce(i.longitude, r.longitude),
+    public.infraction_key(i.infraction_type),
+    sum(i.quantity)
+  from public.dashboard_reports(p_service, p_sectors, p_start, p_end, p_approved_only) r
+  join public.infractions i on i.report_uid = r.uid
+  where coalesce(i.latitude, r.latitude) is not null
+    and coalesce(i.longitude, r.longitude) is not null
+  group by 1, 2, 3;
+$$;
+
+create or replace function public.dashboard_removal_points(
+  p_service text default null,
+  p_sectors text[] default null,
+  p_start date default null,
+  p_end date default null,
+  p_approved_only boolean default false
+)
+returns table (
+  protocol_number text,
+  latitude double precision,
+  longitude double precision,
+  car_removals integer,
+  motorcycle_removals integer
+)
+language sql
+stable
+as $$
+  select r.protocol_number, r.latitude, r.longitude, r.car_removals, r.motorcycle_removals
+  from public.dashboard_reports(p_service, p_sectors, p_start, p_end, p_approved_only) r
+  where r.latitude is not null
+    and r.longitude is not null
+    and r.car_removals + r.motorcycle_removals > 0;
+$$;
+
+grant execute on function public.dashboard_totals(text, text[], date, date, boolean) to authenticated;
+grant execute on function public.dashboard_removals_by_vehicle_type(text, text[], date, date, boolean) to authenticated;
+grant execute on function public.dashboard_series(text, text, text[], date, date, boolean) to authenticated;
+grant execute on function public.dashboard_sectors(text, text[], date, date, boolean) to authenticated;
+grant execute on function public.dashboard_infraction_ranking(text, text[], date, date, boolean) to authenticated;
+grant execute on function public.dashboard_infraction_reports(text, text, text[], date, date, boolean) to authenticated;
+grant execute on function public.dashboard_infraction_points(text, text[], date, date, boolean) to authenticated;
+grant execute on function public.dashboard_removal_points(text, text[], date, date, boolean) to authenticated;
@@ -0,0 +1,20 @@
+-- Streams report and infraction changes to the Dashboard through Supabase Realtime. Realtime
+-- checks the select policies of each subscriber, so users only hear about reports they may read.
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'geotranote_reports'
+  ) then
+    alter publication supabase_realtime add table public.geotranote_reports;
+  end if;
+
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'infractions'
+  ) then
+    alter publication supabase_realtime add table public.infractions;
+  end if;
+end;
+$$;
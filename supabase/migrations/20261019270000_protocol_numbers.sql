@@ -0,0 +1,225 @@
+-- Human-readable protocol numbers such as GEO-2026-000123-3: the year of submission, a
+-- sequence restarted every year and a Luhn check digit over the year and sequence digits, so
+-- a number read over the radio with a digit swapped is caught before it is looked up.
+-- Numbers are allocated by the database on insert. The random id generated by the device,
+-- which used to be the protocol number, is kept as client_id: it is the key of the device
+-- outbox and makes submit_report idempotent, since an offline report has no number yet.
+
+create or replace function public.protocol_check_digit(p_digits text)
+returns integer
+language sql
+immutable
+as $$
+  select (10 - sum(
+    case
+      when (length(p_digits) - i) % 2 = 0
+        then substr(p_digits, i, 1)::int * 2 - case when substr(p_digits, i, 1)::int >= 5 then 9 else 0 end
+      else substr(p_digits, i, 1)::int
+    end
+  ) % 10) % 10
+  from generate_series(1, length(p_digits)) as i;
+$$;
+
+create or replace function public.format_protocol(p_year integer, p_sequence integer)
+returns text
+language sql
+immutable
+as $$
+  select format(
+    'GEO-%s-%s-%s',
+    p_year,
+    padded,
+    public.protocol_check_digit(p_year::text || padded)
+  )
+  from (select lpad(p_sequence::text, greatest(6, length(p_sequence::text)), '0') as padded) as p;
+$$;
+
+-- Last number issued in each year. Only the functions below write to it.
+create table if not exists public.protocol_counters (
+  year integer primary key,
+  last_value integer not null check (last_value > 0)
+);
+
+alter table public.protocol_counters enable row level security;
+
+alter table public.geotranote_reports
+  add column if not exists client_id text;
+
+-- Receipts printed before this change show the device id; it stays valid as client_id.
+update public.geotranote_reports
+set client_id = protocol_number
+where client_id is null;
+
+alter table public.geotranote_reports
+  alter column client_id set not null,
+  alter column client_id set default gen_random_uuid()::text;
+
+create unique index if not exists geotranote_reports_client_id_key
+  on public.geotranote_reports (client_id);
+
+-- Existing reports are numbered in the order they were received.
+with numbered as (
+  select
+    r.uid,
+    extract(year from r.created_at at time zone 'America/Sao_Paulo')::int as year,
+    row_number() over (
+      partition by extract(year from r.created_at at time zone 'America/Sao_Paulo')
+      order by r.created_at, r.uid
+    )::int as sequence
+  from public.geotranote_reports r
+  where r.protocol_number !~ '^GEO-\d{4}-\d{6,}-\d$'
+)
+update public.geotranote_reports r
+set protocol_number = public.format_protocol(n.year, n.sequence)
+from numbered n
+where r.uid = n.uid;
+
+insert into public.protocol_counters (year, last_value)
+select
+  split_part(protocol_number, '-', 2)::int,
+  max(split_part(protocol_number, '-', 3)::int)
+from public.geotranote_reports
+group by 1
+on conflict (year) do update set last_value = greatest(protocol_counters.last_value, excluded.last_value);
+
+alter table public.geotranote_reports
+  add constraint geotranote_reports_protocol_number_format
+    check (protocol_number ~ '^GEO-\d{4}-\d{6,}-\d$');
+
+-- The counter row is locked until the report is committed, so numbers have no gaps: a
+-- submission that fails rolls its number back together with the report.
+create or replace function public.assign_protocol_number()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_year integer := extract(year from now() at time zone 'America/Sao_Paulo');
+  v_sequence integer;
+begin
+  insert into public.protocol_counters as c (year, last_value)
+  values (v_year, 1)
+  on conflict (year) do update set last_value = c.last_value + 1
+  returning c.last_value into v_sequence;
+
+  new.protocol_number := public.format_protocol(v_year, v_sequence);
+  return new;
+end;
+$$;
+
+drop trigger if exists assign_protocol_number on public.geotranote_reports;
+create trigger assign_protocol_number
+  before insert on public.geotranote_reports
+  for each row execute function public.assign_protocol_number();
+
+-- Now returns the protocol number as well, which the device only learns from the server.
+drop function if exists public.submit_report(jsonb, jsonb);
+
+create function public.submit_report(report jsonb, infractions jsonb default '[]'::jsonb)
+returns table (uid uuid, protocol_number text)
+language plpgsql
+as $$
+#variable_conflict use_column
+declare
+  -- Outbox entries queued by older versions of the app carry the id as protocol_number.
+  v_client_id text := coalesce(report->>'client_id', report->>'protocol_number');
+  v_report_uid uuid;
+  v_submitter_name text;
+begin
+  if coalesce(btrim(v_client_id), '') = '' then
+    raise exception 'Identificador do relatório ausente' using errcode = 'check_violation';
+  end if;
+
+  -- Serializes retries of the same report, so a duplicate never draws a protocol number.
+  perform pg_advisory_xact_lock(hashtext(v_client_id));
+
+  -- A retry or double submit finds the report and its infractions already stored.
+  select r.uid into v_report_uid
+  from public.geotranote_reports r
+  where r.client_id = v_client_id;
+
+  if v_report_uid is null then
+    select coalesce(p.full_name, auth.jwt()->>'email') into v_submitter_name
+    from (select 1) as one
+    left join public.user_profiles p on p.user_id = auth.uid();
+
+    -- protocol_number is set by assign_protocol_number.
+    insert into public.geotranote_reports (
+      client_id,
+      service_name,
+      sector,
+      shift_date,
+      shift_start,
+      shift_end,
+      vehicle_prefix,
+      team_members,
+      car_removals,
+      motorcycle_removals,
+      total_approaches,
+      latitude,
+      longitude,
+      location_accuracy,
+      submitted_by,
+      submitted_by_name
+    )
+    values (
+      v_client_id,
+      report->>'service_name',
+      report->>'sector',
+      -- Reports queued before these fields existed fall back to the current day.
+      coalesce((report->>'shift_date')::date, (now() at time zone 'America/Sao_Paulo')::date),
+      (report->>'shift_start')::time,
+      (report->>'shift_end')::time,
+      nullif(btrim(report->>'vehicle_prefix'), ''),
+      public.report_team_members(report),
+      coalesce((report->>'car_removals')::int, 0),
+      coalesce((report->>'motorcycle_removals')::int, 0),
+      coalesce((report->>'total_approaches')::int, 0),
+      (report->>'latitude')::double precision,
+      (report->>'longitude')::double precision,
+      (report->>'location_accuracy')::real,
+      auth.uid(),
+      v_submitter_name
+    )
+    returning uid into v_report_uid;
+
+    perform public.replace_report_lines(v_report_uid, report, infractions);
+  end if;
+
+  return query
+  select r.uid, r.protocol_number
+  from public.geotranote_reports r
+  where r.uid = v_report_uid;
+end;
+$$;
+
+grant execute on function public.submit_report(jsonb, jsonb) to authenticated;
+
+-- Verification of a printed or dictated protocol by any signed-in user, including reports
+-- outside their sector, so only the status is returned. Old device ids are accepted too.
+create or replace function public.lookup_protocol(p_reference text)
+returns table (
+  protocol_number text,
+  status text,
+  revision integer,
+  sector text,
+  shift_date date,
+  created_at timestamptz,
+  updated_at timestamptz,
+  reviewed_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.protocol_number, r.status, r.revision, r.sector, r.shift_date, r.created_at, r.updated_at, r.reviewed_at
+  from public.geotranote_reports r
+  where r.protocol_number = upper(btrim(p_reference))
+    or r.client_id = btrim(p_reference)
+  limit 1;
+$$;
+
+revoke execute on function public.lookup_protocol(text) from public, anon;
+grant execute on function public.lookup_protocol(text) to authenticated;
@@ -0,0 +1,91 @@
+-- Reports, their lines and their revisions are only written through submit_report,
+-- amend_report, review_report and resubmit_report. The policies below let signed-in users
+-- write the tables directly, which skipped the revision history: a supervisor could patch any
+-- column of a report, and any user could add revisions or infraction lines to reports after
+-- submission. The functions now run as their owner and check the caller's role and sector
+-- themselves; the helpers they share are no longer callable through the API.
+--
+-- amend_report also locks the report before taking its snapshot. Two amendments of the same
+-- report at the same time both read it before either had written, so the second revision
+-- recorded stale old_values.
+
+drop policy if exists "Supervisors and admins amend reports" on public.geotranote_reports;
+drop policy if exists "Revisions recorded by amending users" on public.report_revisions;
+drop policy if exists "Infractions added to own or amendable reports" on public.infractions;
+drop policy if exists "Infractions amended by supervisors and admins" on public.infractions;
+
+create or replace function public.amend_report(
+  p_report_uid uuid,
+  report jsonb,
+  infractions jsonb,
+  reason text
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_report public.geotranote_reports%rowtype;
+  v_old jsonb;
+  v_new jsonb;
+  v_revision integer;
+begin
+  if coalesce(public.current_user_role(), 'agent') not in ('supervisor', 'admin') then
+    raise exception 'Apenas supervisores e administradores podem corrigir relatórios'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if reason is null or length(btrim(reason)) = 0 then
+    raise exception 'O motivo da correção é obrigatório' using errcode = 'check_violation';
+  end if;
+
+  -- Locked before the snapshot, so a concurrent amendment waits and records this one's result
+  -- as its old values.
+  select * into v_report from public.geotranote_reports where uid = p_report_uid for update;
+  if not found or not public.can_read_report(v_report.submitted_by, v_report.sector) then
+    raise exception 'Relatório % não encontrado', p_report_uid using errcode = 'no_data_found';
+  end if;
+
+  -- Both the current sector and the one the report is moved to must be the caller's.
+  if not public.can_amend_report(v_report.sector) or not public.can_amend_report(report->>'sector') then
+    raise exception 'Sem permissão para corrigir este relatório' using errcode = 'insufficient_privilege';
+  end if;
+
+  select public.report_snapshot(p_report_uid) into v_old;
+
+  v_revision := public.update_report_fields(p_report_uid, report);
+  perform public.replace_report_lines(p_report_uid, report, infractions);
+
+  select public.report_snapshot(p_report_uid) into v_new;
+  if v_new = v_old then
+    raise exception 'Nenhuma alteração informada' using errcode = 'check_violation';
+  end if;
+
+  insert into public.report_revisions (report_uid, revision, changed_by, changed_by_email, reason, old_values, new_values)
+  values (p_report_uid, v_revision, auth.uid(), auth.jwt()->>'email', btrim(reason), v_old, v_new);
+
+  return v_revision;
+end;
+$$;
+
+-- Both check the caller themselves; they now write the report and its lines as the owner.
+alter function public.submit_report(jsonb, jsonb) security definer set search_path = public;
+alter function public.review_report(uuid, text, text) security definer set search_path = public;
+
+revoke execute on function public.submit_report(jsonb, jsonb) from public, anon;
+revoke execute on function public.amend_report(uuid, jsonb, jsonb, text) from public, anon;
+revoke execute on function public.review_report(uuid, text, text) from public, anon;
+revoke execute on function public.resubmit_report(uuid, jsonb, jsonb, text) from public, anon;
+
+grant execute on function public.submit_report(jsonb, jsonb) to authenticated;
+grant execute on function public.amend_report(uuid, jsonb, jsonb, text) to authenticated;
+grant execute on function public.review_report(uuid, text, text) to authenticated;
+grant execute on function public.resubmit_report(uuid, jsonb, jsonb, text) to authenticated;
+
+-- Internal steps of the functions above; called on their own they skip the revision history.
+revoke execute on function public.update_report_fields(uuid, jsonb) from public, anon, authenticated;
+revoke execute on function public.replace_report_lines(uuid, jsonb, jsonb) from public, anon, authenticated;
+revoke execute on function public.insert_report_infractions(uuid, jsonb) from public, anon, authenticated;
+revoke execute on function public.insert_report_removals(uuid, jsonb) from public, anon, authenticated;
+revoke execute on function public.refresh_removal_counters(uuid) from public, anon, authenticated;
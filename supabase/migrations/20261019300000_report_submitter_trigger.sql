@@ -0,0 +1,30 @@
+-- submit_report takes the submitter from the session, but a direct insert into the table could
+-- still set submitted_by and submitted_by_name to anything. Both are now overwritten on every
+-- insert made with a user session, whichever path it takes. Inserts without one (the service
+-- role, seeds) keep the values they were given.
+create or replace function public.set_report_submitter()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  new.submitted_by := auth.uid();
+  select coalesce(p.full_name, auth.jwt()->>'email') into new.submitted_by_name
+  from (select 1) as one
+  left join public.user_profiles p on p.user_id = auth.uid();
+
+  return new;
+end;
+$$;
+
+revoke execute on function public.set_report_submitter() from public, anon, authenticated;
+
+drop trigger if exists set_report_submitter on public.geotranote_reports;
+create trigger set_report_submitter
+  before insert on public.geotranote_reports
+  for each row execute function public.set_report_submitter();
@@ -0,0 +1,116 @@
+-- Reports and their review history are only written through submit_report, review_report and
+-- resubmit_report. The policies below let signed-in users insert reports with any status and
+-- add review entries of their own, so a report could skip the review queue or show a review
+-- that never happened. Supervisors no longer approve or return their own reports, and a
+-- resubmitted report stays in the sector that returned it.
+
+drop policy if exists "Users submit their own reports" on public.geotranote_reports;
+drop policy if exists "Reviews recorded by reviewing users" on public.report_reviews;
+
+revoke insert on public.geotranote_reports from anon, authenticated;
+
+create or replace function public.review_report(p_report_uid uuid, p_status text, p_comment text default null)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_report public.geotranote_reports%rowtype;
+  v_comment text := nullif(btrim(coalesce(p_comment, '')), '');
+begin
+  select * into v_report from public.geotranote_reports where uid = p_report_uid for update;
+  if not found then
+    raise exception 'Relatório % não encontrado', p_report_uid using errcode = 'no_data_found';
+  end if;
+
+  if not public.can_amend_report(v_report.sector) then
+    raise exception 'Apenas supervisores do setor e administradores podem revisar este relatório'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if v_report.submitted_by = auth.uid() then
+    raise exception 'Um relatório não pode ser revisado por quem o enviou'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if not (
+    (p_status = 'under_review' and v_report.status = 'submitted')
+    or (p_status in ('approved', 'returned') and v_report.status in ('submitted', 'under_review'))
+  ) then
+    raise exception 'Não é possível passar o relatório de % para %', v_report.status, p_status
+      using errcode = 'check_violation';
+  end if;
+
+  if p_status = 'returned' and v_comment is null then
+    raise exception 'Informe o motivo da devolução' using errcode = 'check_violation';
+  end if;
+
+  update public.geotranote_reports
+  set
+    status = p_status,
+    reviewed_at = case when p_status = 'under_review' then reviewed_at else now() end,
+    review_comment = case when p_status = 'under_review' then review_comment else v_comment end
+  where uid = p_report_uid;
+
+  insert into public.report_reviews (report_uid, from_status, to_status, comment, changed_by, changed_by_email)
+  values (p_report_uid, v_report.status, p_status, v_comment, auth.uid(), auth.jwt()->>'email');
+
+  return p_status;
+end;
+$$;
+
+create or replace function public.resubmit_report(
+  p_report_uid uuid,
+  report jsonb,
+  infractions jsonb,
+  p_comment text
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_report public.geotranote_reports%rowtype;
+  v_comment text := nullif(btrim(coalesce(p_comment, '')), '');
+  v_old jsonb;
+  v_new jsonb;
+  v_revision integer;
+begin
+  select * into v_report from public.geotranote_reports where uid = p_report_uid for update;
+  if not found or v_report.submitted_by is distinct from auth.uid() then
+    raise exception 'Relatório % não encontrado', p_report_uid using errcode = 'no_data_found';
+  end if;
+
+  if v_report.status <> 'returned' then
+    raise exception 'Apenas relatórios devolvidos podem ser reenviados' using errcode = 'check_violation';
+  end if;
+
+  if v_comment is null then
+    raise exception 'Descreva o que foi corrigido' using errcode = 'check_violation';
+  end if;
+
+  select public.report_snapshot(p_report_uid) into v_old;
+
+  -- Moving the report would hand it to another sector's supervisors; only amend_report,
+  -- which checks both sectors, changes it.
+  v_revision := public.update_report_fields(p_report_uid, report || jsonb_build_object('sector', v_report.sector));
+  update public.geotranote_reports set status = 'submitted' where uid = p_report_uid;
+
+  perform public.replace_report_lines(p_report_uid, report, infractions);
+
+  select public.report_snapshot(p_report_uid) into v_new;
+  if v_new = v_old then
+    raise exception 'Nenhuma alteração informada' using errcode = 'check_violation';
+  end if;
+
+  insert into public.report_revisions (report_uid, revision, changed_by, changed_by_email, reason, old_values, new_values)
+  values (p_report_uid, v_revision, auth.uid(), auth.jwt()->>'email', v_comment, v_old, v_new);
+
+  insert into public.report_reviews (report_uid, from_status, to_status, comment, changed_by, changed_by_email)
+  values (p_report_uid, 'returned', 'submitted', v_comment, auth.uid(), auth.jwt()->>'email');
+
+  return v_revision;
+end;
+$$;
@@ -0,0 +1,4 @@
+-- Infraction details are written by the report functions together with their line. The
+-- policy below let the submitting agent add details to a line after submission, outside the
+-- revision history.
+drop policy if exists "Infraction details added with their line" on public.infraction_details;
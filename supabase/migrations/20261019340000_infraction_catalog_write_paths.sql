@@ -0,0 +1,44 @@
+-- The catalog is only changed through save_infraction_version and retire_infraction_version.
+-- save_infraction_version ran with the caller's rights, which needed an UPDATE policy that let
+-- administrators rewrite any column of any version, including the description and fine of
+-- versions older reports point to. Both functions now run as their owner and check the role
+-- themselves; retiring a version can only set its effective_to.
+
+drop policy if exists "Admins retire catalog entries" on public.infraction_catalog;
+
+alter function public.save_infraction_version(jsonb) security definer set search_path = public;
+
+-- A version stays attached to older reports but is no longer offered after p_effective_to.
+create or replace function public.retire_infraction_version(p_id bigint, p_effective_to date)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_version public.infraction_catalog%rowtype;
+begin
+  if coalesce(public.current_user_role(), 'agent') <> 'admin' then
+    raise exception 'Apenas administradores podem alterar o catálogo de infrações'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  select * into v_version from public.infraction_catalog where id = p_id for update;
+  if not found then
+    raise exception 'Versão % do catálogo não encontrada', p_id using errcode = 'no_data_found';
+  end if;
+
+  if p_effective_to is null or p_effective_to < v_version.effective_from then
+    raise exception 'O fim da vigência não pode ser anterior a %', to_char(v_version.effective_from, 'DD/MM/YYYY')
+      using errcode = 'check_violation';
+  end if;
+
+  update public.infraction_catalog set effective_to = p_effective_to where id = p_id;
+end;
+$$;
+
+revoke execute on function public.save_infraction_version(jsonb) from public, anon;
+revoke execute on function public.retire_infraction_version(bigint, date) from public, anon;
+
+grant execute on function public.save_infraction_version(jsonb) to authenticated;
+grant execute on function public.retire_infraction_version(bigint, date) to authenticated;
@@ -0,0 +1,16 @@
+-- The reference-data keys were created with on update cascade, so renaming a service type or
+-- sector rewrote every report filed under it without a revision. They now restrict, so only
+-- the label of a key in use can change.
+
+alter table public.geotranote_reports
+  drop constraint if exists geotranote_reports_service_name_fkey,
+  add constraint geotranote_reports_service_name_fkey
+    foreign key (service_name) references public.service_types (value) on update restrict,
+  drop constraint if exists geotranote_reports_sector_fkey,
+  add constraint geotranote_reports_sector_fkey
+    foreign key (sector) references public.sectors (value) on update restrict;
+
+alter table public.user_profiles
+  drop constraint if exists user_profiles_sector_fkey,
+  add constraint user_profiles_sector_fkey
+    foreign key (sector) references public.sectors (value) on update restrict;
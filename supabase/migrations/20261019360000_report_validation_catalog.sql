@@ -0,0 +1,103 @@
+-- validate_report accepted infraction codes that are not in the catalog, or not in force on
+-- the shift date, and the line was then stored without a catalog version. The form already
+-- refuses them; the server now does too.
+
+create or replace function public.validate_report(report jsonb, infractions jsonb)
+returns void
+language plpgsql
+stable
+as $$
+declare
+  v_item jsonb;
+  v_detail jsonb;
+  v_position integer;
+  v_quantity numeric;
+  v_repeated text;
+  v_shift_date date := coalesce((report->>'shift_date')::date, (now() at time zone 'America/Sao_Paulo')::date);
+begin
+  if coalesce(btrim(report->>'service_name'), '') = '' then
+    raise exception 'Selecione o tipo de serviço' using errcode = 'check_violation';
+  end if;
+
+  if coalesce(btrim(report->>'sector'), '') = '' then
+    raise exception 'Selecione o setor' using errcode = 'check_violation';
+  end if;
+
+  if (report->>'shift_date')::date > (now() at time zone 'America/Sao_Paulo')::date then
+    raise exception 'A data do turno não pode estar no futuro' using errcode = 'check_violation';
+  end if;
+
+  if (report->>'shift_start')::time = (report->>'shift_end')::time then
+    raise exception 'O fim do turno deve ser diferente do início' using errcode = 'check_violation';
+  end if;
+
+  if length(btrim(coalesce(report->>'vehicle_prefix', ''))) > 20 then
+    raise exception 'O prefixo da viatura deve ter no máximo 20 caracteres' using errcode = 'check_violation';
+  end if;
+
+  v_quantity := coalesce((report->>'total_approaches')::numeric, 0);
+  if v_quantity < 0 or v_quantity <> trunc(v_quantity) then
+    raise exception 'O total de abordagens deve ser um número inteiro igual ou maior que zero'
+      using errcode = 'check_violation';
+  end if;
+
+  for v_item, v_position in
+    select value, ordinality from jsonb_array_elements(coalesce(report->'removals', '[]'::jsonb)) with ordinality
+  loop
+    if coalesce(btrim(v_item->>'vehicle_type'), '') = '' then
+      raise exception 'Remoção %: selecione o tipo de veículo', v_position using errcode = 'check_violation';
+    end if;
+
+    if coalesce(btrim(v_item->>'plate'), '') <> '' and not public.is_valid_plate(v_item->>'plate') then
+      raise exception 'Remoção %: placa % inválida', v_position, v_item->>'plate' using errcode = 'check_violation';
+    end if;
+  end loop;
+
+  for v_item in select value from jsonb_array_elements(coalesce(infractions, '[]'::jsonb)) loop
+    if coalesce(btrim(v_item->>'infraction_type'), '') = '' then
+      raise exception 'Infração sem código' using errcode = 'check_violation';
+    end if;
+
+    if public.infraction_catalog_id(v_item->>'infraction_type', v_shift_date) is null then
+      raise exception 'A infração % não está vigente em %', v_item->>'infraction_type', to_char(v_shift_date, 'DD/MM/YYYY')
+        using errcode = 'check_violation';
+    end if;
+
+    if jsonb_array_length(coalesce(v_item->'details', '[]'::jsonb)) = 0 then
+      v_quantity := coalesce((v_item->>'quantity')::numeric, 0);
+      if v_quantity < 1 or v_quantity <> trunc(v_quantity) then
+        raise exception '%: a quantidade deve ser um número inteiro maior que zero', v_item->>'infraction_type'
+          using errcode = 'check_violation';
+      end if;
+    end if;
+
+    for v_detail, v_position in
+      select value, ordinality from jsonb_array_elements(coalesce(v_item->'details', '[]'::jsonb)) with ordinality
+    loop
+      if coalesce(btrim(v_detail->>'ait_number'), '') = '' or coalesce(btrim(v_detail->>'plate'), '') = '' then
+        raise exception '%: auto %: informe o número do AIT e a placa', v_item->>'infraction_type', v_position
+          using errcode = 'check_violation';
+      end if;
+
+      if not public.is_valid_plate(v_detail->>'plate') then
+        raise exception '%: auto %: placa % inválida', v_item->>'infraction_type', v_position, v_detail->>'plate'
+          using errcode = 'check_violation';
+      end if;
+    end loop;
+  end loop;
+
+  select ait into v_repeated
+  from (
+    select upper(btrim(detail->>'ait_number')) as ait
+    from jsonb_array_elements(coalesce(infractions, '[]'::jsonb)) as item,
+      jsonb_array_elements(coalesce(item->'details', '[]'::jsonb)) as detail
+  ) as aits
+  group by ait
+  having count(*) > 1
+  limit 1;
+
+  if v_repeated is not null then
+    raise exception 'O AIT % foi informado mais de uma vez', v_repeated using errcode = 'check_violation';
+  end if;
+end;
+$$;
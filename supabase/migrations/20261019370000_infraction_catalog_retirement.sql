@@ -0,0 +1,161 @@
+-- Retiring a catalog version before the last shift that uses it left those reports with
+-- infractions that are no longer in force on their shift date, and validate_report then
+-- refused every amendment and resubmission of them. retire_infraction_version now refuses an
+-- end date before the last shift that uses the version. The reason of a removal is checked against the catalog
+-- like the infraction lines.
+
+-- A version stays attached to older reports but is no longer offered after p_effective_to.
+create or replace function public.retire_infraction_version(p_id bigint, p_effective_to date)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_version public.infraction_catalog%rowtype;
+  v_last_used date;
+begin
+  if coalesce(public.current_user_role(), 'agent') <> 'admin' then
+    raise exception 'Apenas administradores podem alterar o catálogo de infrações'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  select * into v_version from public.infraction_catalog where id = p_id for update;
+  if not found then
+    raise exception 'Versão % do catálogo não encontrada', p_id using errcode = 'no_data_found';
+  end if;
+
+  if p_effective_to is null or p_effective_to < v_version.effective_from then
+    raise exception 'O fim da vigência não pode ser anterior a %', to_char(v_version.effective_from, 'DD/MM/YYYY')
+      using errcode = 'check_violation';
+  end if;
+
+  -- Infraction lines point to the version; removals only name the infraction, so any removal
+  -- of this key on a shift the version covers counts.
+  select max(r.shift_date) into v_last_used
+  from public.geotranote_reports r
+  where r.shift_date between v_version.effective_from and coalesce(v_version.effective_to, 'infinity'::date)
+    and (
+      exists (select 1 from public.infractions i where i.report_uid = r.uid and i.catalog_id = p_id)
+      or exists (
+        select 1 from public.removals m
+        where m.report_uid = r.uid and substring(m.infraction_type from '^\d{4}-\d') = v_version.key
+      )
+    );
+
+  if v_last_used > p_effective_to then
+    raise exception 'A versão é usada em relatórios até %; o fim da vigência não pode ser anterior a essa data',
+      to_char(v_last_used, 'DD/MM/YYYY')
+      using errcode = 'check_violation';
+  end if;
+
+  update public.infraction_catalog set effective_to = p_effective_to where id = p_id;
+end;
+$$;
+
+create or replace function public.validate_report(report jsonb, infractions jsonb)
+returns void
+language plpgsql
+stable
+as $$
+declare
+  v_item jsonb;
+  v_detail jsonb;
+  v_position integer;
+  v_quantity numeric;
+  v_repeated text;
+  v_shift_date date := coalesce((report->>'shift_date')::date, (now() at time zone 'America/Sao_Paulo')::date);
+begin
+  if coalesce(btrim(report->>'service_name'), '') = '' then
+    raise exception 'Selecione o tipo de serviço' using errcode = 'check_violation';
+  end if;
+
+  if coalesce(btrim(report->>'sector'), '') = '' then
+    raise exception 'Selecione o setor' using errcode = 'check_violation';
+  end if;
+
+  if (report->>'shift_date')::date > (now() at time zone 'America/Sao_Paulo')::date then
+    raise exception 'A data do turno não pode estar no futuro' using errcode = 'check_violation';
+  end if;
+
+  if (report->>'shift_start')::time = (report->>'shift_end')::time then
+    raise exception 'O fim do turno deve ser diferente do início' using errcode = 'check_violation';
+  end if;
+
+  if length(btrim(coalesce(report->>'vehicle_prefix', ''))) > 20 then
+    raise exception 'O prefixo da viatura deve ter no máximo 20 caracteres' using errcode = 'check_violation';
+  end if;
+
+  v_quantity := coalesce((report->>'total_approaches')::numeric, 0);
+  if v_quantity < 0 or v_quantity <> trunc(v_quantity) then
+    raise exception 'O total de abordagens deve ser um número inteiro igual ou maior que zero'
+      using errcode = 'check_violation';
+  end if;
+
+  for v_item, v_position in
+    select value, ordinality from jsonb_array_elements(coalesce(report->'removals', '[]'::jsonb)) with ordinality
+  loop
+    if coalesce(btrim(v_item->>'vehicle_type'), '') = '' then
+      raise exception 'Remoção %: selecione o tipo de veículo', v_position using errcode = 'check_violation';
+    end if;
+
+    if coalesce(btrim(v_item->>'plate'), '') <> '' and not public.is_valid_plate(v_item->>'plate') then
+      raise exception 'Remoção %: placa % inválida', v_position, v_item->>'plate' using errcode = 'check_violation';
+    end if;
+
+    if coalesce(btrim(v_item->>'infraction_type'), '') <> ''
+      and public.infraction_catalog_id(v_item->>'infraction_type', v_shift_date) is null then
+      raise exception 'Remoção %: a infração % não está vigente em %',
+        v_position, v_item->>'infraction_type', to_char(v_shift_date, 'DD/MM/YYYY')
+        using errcode = 'check_violation';
+    end if;
+  end loop;
+
+  for v_item in select value from jsonb_array_elements(coalesce(infractions, '[]'::jsonb)) loop
+    if coalesce(btrim(v_item->>'infraction_type'), '') = '' then
+      raise exception 'Infração sem código' using errcode = 'check_violation';
+    end if;
+
+    if public.infraction_catalog_id(v_item->>'infraction_type', v_shift_date) is null then
+      raise exception 'A infração % não está vigente em %', v_item->>'infraction_type', to_char(v_shift_date, 'DD/MM/YYYY')
+        using errcode = 'check_violation';
+    end if;
+
+    if jsonb_array_length(coalesce(v_item->'details', '[]'::jsonb)) = 0 then
+      v_quantity := coalesce((v_item->>'quantity')::numeric, 0);
+      if v_quantity < 1 or v_quantity <> trunc(v_quantity) then
+        raise exception '%: a quantidade deve ser um número inteiro maior que zero', v_item->>'infraction_type'
+          using errcode = 'check_violation';
+      end if;
+    end if;
+
+    for v_detail, v_position in
+      select value, ordinality from jsonb_array_elements(coalesce(v_item->'details', '[]'::jsonb)) with ordinality
+    loop
+      if coalesce(btrim(v_detail->>'ait_number'), '') = '' or coalesce(btrim(v_detail->>'plate'), '') = '' then
+        raise exception '%: auto %: informe o número do AIT e a placa', v_item->>'infraction_type', v_position
+          using errcode = 'check_violation';
+      end if;
+
+      if not public.is_valid_plate(v_detail->>'plate') then
+        raise exception '%: auto %: placa % inválida', v_item->>'infraction_type', v_position, v_detail->>'plate'
+          using errcode = 'check_violation';
+      end if;
+    end loop;
+  end loop;
+
+  select ait into v_repeated
+  from (
+    select upper(btrim(detail->>'ait_number')) as ait
+    from jsonb_array_elements(coalesce(infractions, '[]'::jsonb)) as item,
+      jsonb_array_elements(coalesce(item->'details', '[]'::jsonb)) as detail
+  ) as aits
+  group by ait
+  having count(*) > 1
+  limit 1;
+
+  if v_repeated is not null then
+    raise exception 'O AIT % foi informado mais de uma vez', v_repeated using errcode = 'check_violation';
+  end if;
+end;
+$$;
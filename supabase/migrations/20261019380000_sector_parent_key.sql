@@ -0,0 +1,8 @@
+-- The parent key of the sector tree was still created with on update cascade. It now restricts
+-- like the keys in 20261019350000_reference_data_keys, so a sector key in use anywhere cannot
+-- be renamed.
+
+alter table public.sectors
+  drop constraint if exists sectors_parent_value_fkey,
+  add constraint sectors_parent_value_fkey
+    foreign key (parent_value) references public.sectors (value) on update restrict;
@@ -0,0 +1,90 @@
+-- submit_report runs as its owner since 20261019290000_report_write_paths, so the lookup of
+-- an already submitted client id skipped RLS: anyone who knew the id of someone else's report,
+-- which receipts print, got its uid and protocol number back. A retry now only finds reports
+-- filed by the caller.
+
+create or replace function public.submit_report(report jsonb, infractions jsonb default '[]'::jsonb)
+returns table (uid uuid, protocol_number text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  -- Outbox entries queued by older versions of the app carry the id as protocol_number.
+  v_client_id text := coalesce(report->>'client_id', report->>'protocol_number');
+  v_report_uid uuid;
+  v_submitted_by uuid;
+  v_submitter_name text;
+begin
+  if coalesce(btrim(v_client_id), '') = '' then
+    raise exception 'Identificador do relatório ausente' using errcode = 'check_violation';
+  end if;
+
+  -- Serializes retries of the same report, so a duplicate never draws a protocol number.
+  perform pg_advisory_xact_lock(hashtext(v_client_id));
+
+  -- A retry or double submit finds the report and its infractions already stored. Only the
+  -- agent who filed it gets it back; the id is printed on receipts.
+  select r.uid, r.submitted_by into v_report_uid, v_submitted_by
+  from public.geotranote_reports r
+  where r.client_id = v_client_id;
+
+  if v_report_uid is not null and v_submitted_by is distinct from auth.uid() then
+    raise exception 'Identificador do relatório já usado' using errcode = 'unique_violation';
+  end if;
+
+  if v_report_uid is null then
+    select coalesce(p.full_name, auth.jwt()->>'email') into v_submitter_name
+    from (select 1) as one
+    left join public.user_profiles p on p.user_id = auth.uid();
+
+    -- protocol_number is set by assign_protocol_number.
+    insert into public.geotranote_reports (
+      client_id,
+      service_name,
+      sector,
+      shift_date,
+      shift_start,
+      shift_end,
+      vehicle_prefix,
+      team_members,
+      car_removals,
+      motorcycle_removals,
+      total_approaches,
+      latitude,
+      longitude,
+      location_accuracy,
+      submitted_by,
+      submitted_by_name
+    )
+    values (
+      v_client_id,
+      report->>'service_name',
+      report->>'sector',
+      -- Reports queued before these fields existed fall back to the current day.
+      coalesce((report->>'shift_date')::date, (now() at time zone 'America/Sao_Paulo')::date),
+      (report->>'shift_start')::time,
+      (report->>'shift_end')::time,
+      nullif(btrim(report->>'vehicle_prefix'), ''),
+      public.report_team_members(report),
+      coalesce((report->>'car_removals')::int, 0),
+      coalesce((report->>'motorcycle_removals')::int, 0),
+      coalesce((report->>'total_approaches')::int, 0),
+      (report->>'latitude')::double precision,
+      (report->>'longitude')::double precision,
+      (report->>'location_accuracy')::real,
+      auth.uid(),
+      v_submitter_name
+    )
+    returning uid into v_report_uid;
+
+    perform public.replace_report_lines(v_report_uid, report, infractions);
+  end if;
+
+  return query
+  select r.uid, r.protocol_number
+  from public.geotranote_reports r
+  where r.uid = v_report_uid;
+end;
+$$;
@@ -0,0 +1,73 @@
+-- amend_report as the report detail page calls it, signed in as an administrator. Run with
+-- `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(6);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-0000000000a1', 'agente.a@example.com'),
+  ('00000000-0000-0000-0000-0000000000c1', 'admin@example.com');
+
+update public.user_profiles set role = 'admin' where user_id = '00000000-0000-0000-0000-0000000000c1';
+
+create temporary table report_case (report jsonb) on commit drop;
+insert into report_case values ('{
+  "client_id": "test-amend-report",
+  "service_name": "operacao",
+  "sector": "GEDAM",
+  "shift_date": "2026-01-15",
+  "shift_start": "07:00",
+  "shift_end": "19:00",
+  "total_approaches": 10,
+  "removals": []
+}');
+grant select on report_case to authenticated;
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "email": "agente.a@example.com"}', true);
+
+select lives_ok(
+  $$select public.submit_report(report, '[{"infraction_type": "5010-0", "quantity": 2}]') from report_case$$,
+  'an agent submits a report'
+);
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000c1", "email": "admin@example.com"}', true);
+
+select throws_ok(
+  $$select public.amend_report(r.uid, c.report || '{"total_approaches": 12}', '[{"infraction_type": "5010-0", "quantity": 2}]', '  ')
+    from report_case c, public.geotranote_reports r where r.client_id = 'test-amend-report'$$,
+  '23514', 'O motivo da correção é obrigatório', 'an amendment needs a reason'
+);
+
+select throws_ok(
+  $$select public.amend_report(r.uid, c.report, '[{"infraction_type": "5010-0", "quantity": 2}]', 'Sem mudança')
+    from report_case c, public.geotranote_reports r where r.client_id = 'test-amend-report'$$,
+  '23514', 'Nenhuma alteração informada', 'an amendment that changes nothing is refused'
+);
+
+select is(
+  (select public.amend_report(r.uid, c.report || '{"total_approaches": 12}', '[{"infraction_type": "5010-0", "quantity": 2}]', ' Contagem corrigida ')
+    from report_case c, public.geotranote_reports r where r.client_id = 'test-amend-report'),
+  1,
+  'the first amendment is revision 1'
+);
+
+select results_eq(
+  $$select total_approaches, revision from public.geotranote_reports where client_id = 'test-amend-report'$$,
+  $$values (12, 1)$$,
+  'the report holds the amended values'
+);
+
+select results_eq(
+  $$select v.revision, v.reason, (v.old_values->>'total_approaches')::int, (v.new_values->>'total_approaches')::int, v.changed_by
+    from public.report_revisions v
+    join public.geotranote_reports r on r.uid = v.report_uid
+    where r.client_id = 'test-amend-report'$$,
+  $$values (1, 'Contagem corrigida'::text, 10, 12, '00000000-0000-0000-0000-0000000000c1'::uuid)$$,
+  'the revision records who changed what and why'
+);
+
+select * from finish();
+rollback;
@@ -0,0 +1,82 @@
+-- Dashboard aggregates: filters, and RLS limiting them to the reports the user may read.
+-- Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(7);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-0000000000a1', 'agente.a@example.com'),
+  ('00000000-0000-0000-0000-0000000000b1', 'agente.b@example.com'),
+  ('00000000-0000-0000-0000-0000000000c1', 'admin@example.com');
+
+update public.user_profiles set role = 'admin' where user_id = '00000000-0000-0000-0000-0000000000c1';
+
+-- Administrators see every report, so the aggregates below are limited to January 2026.
+create temporary table report_case (report jsonb) on commit drop;
+insert into report_case values ('{
+  "client_id": "test-dashboard",
+  "service_name": "operacao",
+  "sector": "GEDAM",
+  "shift_date": "2026-01-15",
+  "shift_start": "07:00",
+  "shift_end": "19:00",
+  "total_approaches": 10,
+  "removals": []
+}');
+grant select on report_case to authenticated;
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "email": "agente.a@example.com"}', true);
+
+select lives_ok(
+  $$select public.submit_report(report, '[{"infraction_type": "5010-0", "quantity": 2}]') from report_case$$,
+  'agent A submits a report'
+);
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b1", "email": "agente.b@example.com"}', true);
+
+select lives_ok(
+  $$select public.submit_report(
+      report || '{"client_id": "test-dashboard-b", "sector": "GRE", "shift_date": "2026-01-20", "total_approaches": 15}',
+      '[{"infraction_type": "5010-0", "quantity": 3}, {"infraction_type": "5029-1", "quantity": 1}]'
+    ) from report_case$$,
+  'agent B submits a report'
+);
+
+select results_eq(
+  $$select reports, approaches, infractions from public.dashboard_totals(p_start => '2026-01-01', p_end => '2026-01-31')$$,
+  $$values (1::bigint, 15::bigint, 4::bigint)$$,
+  'agents only count their own reports'
+);
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000c1", "email": "admin@example.com"}', true);
+
+select results_eq(
+  $$select reports, approaches, infractions
+    from public.dashboard_totals(p_sectors => array['GRE'], p_start => '2026-01-01', p_end => '2026-01-31')$$,
+  $$values (1::bigint, 15::bigint, 4::bigint)$$,
+  'the sector filter applies'
+);
+
+select results_eq(
+  $$select reports from public.dashboard_totals(p_start => '2026-01-01', p_end => '2026-01-31', p_approved_only => true)$$,
+  $$values (0::bigint)$$,
+  'reports waiting for review are left out of the approved totals'
+);
+
+select results_eq(
+  $$select infraction_key, quantity, reports from public.dashboard_infraction_ranking(p_start => '2026-01-01', p_end => '2026-01-31')$$,
+  $$values ('5010-0'::text, 5::bigint, 2::bigint), ('5029-1', 1, 1)$$,
+  'the ranking adds up each infraction across reports'
+);
+
+select results_eq(
+  $$select bucket, approaches from public.dashboard_series('week', p_start => '2026-01-01', p_end => '2026-01-31')$$,
+  $$values ('2026-01-12'::date, 10::bigint), ('2026-01-19', 15)$$,
+  'the series groups reports by the Monday of their week'
+);
+
+select * from finish();
+rollback;
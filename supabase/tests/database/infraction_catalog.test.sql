@@ -0,0 +1,99 @@
+-- Versions of the infraction catalog: who changes them, and retiring a version still in use.
+-- Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(9);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-0000000000a1', 'agente.a@example.com'),
+  ('00000000-0000-0000-0000-0000000000c1', 'admin@example.com');
+
+update public.user_profiles set role = 'admin' where user_id = '00000000-0000-0000-0000-0000000000c1';
+
+create temporary table report_case (report jsonb) on commit drop;
+insert into report_case values ('{
+  "client_id": "test-infraction-catalog",
+  "service_name": "operacao",
+  "sector": "GEDAM",
+  "shift_date": "2026-01-15",
+  "shift_start": "07:00",
+  "shift_end": "19:00",
+  "total_approaches": 10,
+  "removals": [{"vehicle_type": "motocicleta", "plate": "ABC1D23", "infraction_type": "5010-0"}]
+}');
+grant select on report_case to authenticated;
+
+create temporary table version_case (entry jsonb) on commit drop;
+insert into version_case values ('{
+  "key": "5010-0",
+  "description": "Dirigir veículo sem possuir CNH ou Permissão para Dirigir",
+  "article": "162, I",
+  "gravity": "gravissima",
+  "points": 7,
+  "fine_amount": 1000.00,
+  "effective_from": "2026-11-01"
+}');
+grant select on version_case to authenticated;
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "email": "agente.a@example.com"}', true);
+
+select throws_ok(
+  $$select public.save_infraction_version(entry) from version_case$$,
+  '42501', 'Apenas administradores podem alterar o catálogo de infrações', 'agents cannot change the catalog'
+);
+
+select lives_ok(
+  $$select public.submit_report(report, '[{"infraction_type": "5010-0", "quantity": 2}]') from report_case$$,
+  'an agent submits a report with an infraction in force'
+);
+
+select throws_ok(
+  $$select public.submit_report(report || '{"client_id": "test-unknown-removal", "removals": [{"vehicle_type": "carro", "infraction_type": "9999-9"}]}', '[]')
+    from report_case$$,
+  '23514', 'Remoção 1: a infração 9999-9 não está vigente em 15/01/2026', 'the reason of a removal must be in the catalog'
+);
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000c1", "email": "admin@example.com"}', true);
+
+select lives_ok(
+  $$select public.save_infraction_version(entry) from version_case$$,
+  'an administrator adds a new version'
+);
+
+select results_eq(
+  $$select effective_from, effective_to, fine_amount from public.infraction_catalog where key = '5010-0' order by effective_from$$,
+  $$values ('2016-11-01'::date, '2026-10-31'::date, 880.41::numeric), ('2026-11-01', null, 1000.00)$$,
+  'the version in force is closed the day before the new one starts'
+);
+
+select throws_ok(
+  $$select public.retire_infraction_version(id, '2025-12-31') from public.infraction_catalog
+    where key = '5010-0' and effective_from = '2016-11-01'$$,
+  '23514', 'A versão é usada em relatórios até 15/01/2026; o fim da vigência não pode ser anterior a essa data',
+  'a version is not retired before the last shift that uses it'
+);
+
+select lives_ok(
+  $$select public.retire_infraction_version(id, '2026-01-15') from public.infraction_catalog
+    where key = '5010-0' and effective_from = '2016-11-01'$$,
+  'a version is retired after its last shift'
+);
+
+select is(
+  (select catalog_id from public.infractions i
+    join public.geotranote_reports r on r.uid = i.report_uid
+    where r.client_id = 'test-infraction-catalog'),
+  (select id from public.infraction_catalog where key = '5010-0' and effective_from = '2016-11-01'),
+  'the report keeps the version that was in force on its shift'
+);
+
+select is_empty(
+  $$update public.infraction_catalog set description = 'Alterada' where key = '5010-0' returning id$$,
+  'versions are only changed through the catalog functions'
+);
+
+select * from finish();
+rollback;
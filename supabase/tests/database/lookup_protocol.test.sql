@@ -0,0 +1,65 @@
+-- Protocol numbers issued by submit_report and found again by lookup_protocol. Run with
+-- `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(5);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-0000000000a1', 'agente.a@example.com'),
+  ('00000000-0000-0000-0000-0000000000b1', 'agente.b@example.com');
+
+create temporary table report_case (report jsonb) on commit drop;
+insert into report_case values ('{
+  "client_id": "test-lookup-protocol",
+  "service_name": "operacao",
+  "sector": "GEDAM",
+  "shift_date": "2026-01-15",
+  "shift_start": "07:00",
+  "shift_end": "19:00",
+  "total_approaches": 10,
+  "removals": []
+}');
+grant select on report_case to authenticated;
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "email": "agente.a@example.com"}', true);
+
+-- Kept in a setting, since the agent below cannot read the report itself.
+select matches(
+  (select set_config('test.protocol_number', protocol_number, true) from public.submit_report((select report from report_case), '[]')),
+  '^GEO-\d{4}-\d{6,}-\d$',
+  'the report gets a GEO protocol number'
+);
+
+-- Receipts are checked by whoever holds them, not only by the agent who filed the report.
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b1", "email": "agente.b@example.com"}', true);
+
+select results_eq(
+  $$select protocol_number, status from public.lookup_protocol(lower(' ' || current_setting('test.protocol_number') || ' '))$$,
+  $$values (current_setting('test.protocol_number'), 'submitted'::text)$$,
+  'a protocol number is found in any case and with spaces around it'
+);
+
+select results_eq(
+  $$select status, sector from public.lookup_protocol('test-lookup-protocol')$$,
+  $$values ('submitted'::text, 'GEDAM'::text)$$,
+  'the client id printed on receipts of older reports is found too'
+);
+
+select is_empty(
+  $$select * from public.lookup_protocol('GEO-1900-000000-0')$$,
+  'an unknown number finds nothing'
+);
+
+reset role;
+set local role anon;
+
+select throws_ok(
+  $$select * from public.lookup_protocol('test-lookup-protocol')$$,
+  '42501', 'permission denied for function lookup_protocol', 'signed-out visitors cannot look up reports'
+);
+
+select * from finish();
+rollback;
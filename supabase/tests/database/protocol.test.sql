@@ -0,0 +1,21 @@
+-- Server side of the numbers in src/lib/protocol.test.ts; change both together. Run with
+-- `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(9);
+
+select is(public.protocol_check_digit('7992739871'), 3, 'the usual Luhn example');
+select is(public.protocol_check_digit('2026000123'), 3, '2026000123');
+select is(public.protocol_check_digit('2026000001'), 1, '2026000001');
+select is(public.protocol_check_digit('2025000042'), 7, '2025000042');
+select is(public.protocol_check_digit('20261234567'), 0, '20261234567');
+select isnt(public.protocol_check_digit('2026000132'), 3, 'two swapped digits are caught');
+
+select is(public.format_protocol(2026, 123), 'GEO-2026-000123-3', 'sequence padded to six digits');
+select is(public.format_protocol(2025, 42), 'GEO-2025-000042-7', 'check digit over year and sequence');
+select is(public.format_protocol(2026, 1234567), 'GEO-2026-1234567-0', 'longer sequences are kept');
+
+select * from finish();
+rollback;
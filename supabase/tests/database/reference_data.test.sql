@@ -0,0 +1,77 @@
+-- Service types and sectors: the sector tree, who edits them and keys that are in use.
+-- Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(9);
+
+select is(public.sector_within('GEOTRAN - 1º Distrito', 'GEOTRAN'), true, 'a district lies within its group');
+select is(public.sector_within('GEDAM', 'GEOTRAN'), false, 'a sector outside the group');
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-0000000000a1', 'agente.a@example.com'),
+  ('00000000-0000-0000-0000-0000000000c1', 'admin@example.com'),
+  ('00000000-0000-0000-0000-0000000000d1', 'supervisor.geotran@example.com');
+
+update public.user_profiles set role = 'admin' where user_id = '00000000-0000-0000-0000-0000000000c1';
+update public.user_profiles set role = 'supervisor', sector = 'GEOTRAN' where user_id = '00000000-0000-0000-0000-0000000000d1';
+
+create temporary table report_case (report jsonb) on commit drop;
+insert into report_case values ('{
+  "client_id": "test-reference-data",
+  "service_name": "operacao",
+  "sector": "GEOTRAN - 1º Distrito",
+  "shift_date": "2026-01-15",
+  "shift_start": "07:00",
+  "shift_end": "19:00",
+  "total_approaches": 10,
+  "removals": []
+}');
+grant select on report_case to authenticated;
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "email": "agente.a@example.com"}', true);
+
+select lives_ok(
+  $$select public.submit_report(report, '[]') from report_case$$,
+  'an agent submits a report in a district'
+);
+
+select throws_ok(
+  $$insert into public.sectors (value, label, sort_order) values ('Novo setor', 'Novo setor', 20)$$,
+  '42501', 'new row violates row-level security policy for table "sectors"', 'agents cannot add sectors'
+);
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000d1", "email": "supervisor.geotran@example.com"}', true);
+
+select is(
+  (select count(*)::int from public.geotranote_reports where client_id = 'test-reference-data'),
+  1,
+  'the supervisor of a group reads the reports of its districts'
+);
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000c1", "email": "admin@example.com"}', true);
+
+select lives_ok(
+  $$update public.sectors set label = 'GEOTRAN - Centro' where value = 'GEOTRAN - 1º Distrito'$$,
+  'administrators relabel a sector in use'
+);
+
+select throws_ok(
+  $$update public.sectors set value = 'GEOTRAN - Centro' where value = 'GEOTRAN - 1º Distrito'$$,
+  '23503', null, 'the key of a sector with reports cannot change'
+);
+
+select throws_ok(
+  $$update public.sectors set value = 'GEOTRAN-DF' where value = 'GEOTRAN'$$,
+  '23503', null, 'the key of a group with sectors below it cannot change'
+);
+
+select throws_ok(
+  $$update public.service_types set value = 'operacao-especial' where value = 'operacao'$$,
+  '23503', null, 'the key of a service type with reports cannot change'
+);
+
+select * from finish();
+rollback;
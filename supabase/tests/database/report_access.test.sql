@@ -0,0 +1,105 @@
+-- Who reads and amends which reports, by role and sector. Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(11);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-0000000000a1', 'agente.a@example.com'),
+  ('00000000-0000-0000-0000-0000000000b1', 'agente.b@example.com'),
+  ('00000000-0000-0000-0000-0000000000d1', 'supervisor.gedam@example.com'),
+  ('00000000-0000-0000-0000-0000000000e1', 'supervisor.gre@example.com');
+
+update public.user_profiles set role = 'supervisor', sector = 'GEDAM' where user_id = '00000000-0000-0000-0000-0000000000d1';
+update public.user_profiles set role = 'supervisor', sector = 'GRE' where user_id = '00000000-0000-0000-0000-0000000000e1';
+
+create temporary table report_case (report jsonb) on commit drop;
+insert into report_case values ('{
+  "client_id": "test-report-access",
+  "service_name": "operacao",
+  "sector": "GEDAM",
+  "shift_date": "2026-01-15",
+  "shift_start": "07:00",
+  "shift_end": "19:00",
+  "total_approaches": 10,
+  "removals": []
+}');
+grant select on report_case to authenticated;
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "email": "agente.a@example.com"}', true);
+
+select lives_ok(
+  $$select public.submit_report(report, '[]') from report_case$$,
+  'an agent submits a report'
+);
+
+select is(
+  (select count(*)::int from public.geotranote_reports where client_id = 'test-report-access'),
+  1,
+  'agents read their own reports'
+);
+
+select throws_ok(
+  $$insert into public.geotranote_reports (client_id, service_name, sector, status)
+    values ('test-direct-insert', 'operacao', 'GEDAM', 'approved')$$,
+  '42501', 'permission denied for table geotranote_reports', 'reports are only filed through submit_report'
+);
+
+select throws_ok(
+  $$select public.amend_report(r.uid, c.report || '{"total_approaches": 12}', '[]', 'Contagem corrigida')
+    from report_case c, public.geotranote_reports r where r.client_id = 'test-report-access'$$,
+  '42501', 'Apenas supervisores e administradores podem corrigir relatórios', 'agents cannot amend reports'
+);
+
+select throws_ok(
+  $$select public.update_report_fields(r.uid, c.report || '{"total_approaches": 12}')
+    from report_case c, public.geotranote_reports r where r.client_id = 'test-report-access'$$,
+  '42501', 'permission denied for function update_report_fields', 'the steps of amend_report are not callable alone'
+);
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b1", "email": "agente.b@example.com"}', true);
+
+select is_empty(
+  $$select uid from public.geotranote_reports where client_id = 'test-report-access'$$,
+  'agents do not read the reports of others'
+);
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000e1", "email": "supervisor.gre@example.com"}', true);
+
+select is_empty(
+  $$select uid from public.geotranote_reports where client_id = 'test-report-access'$$,
+  'supervisors do not read the reports of other sectors'
+);
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000d1", "email": "supervisor.gedam@example.com"}', true);
+
+select is(
+  (select count(*)::int from public.geotranote_reports where client_id = 'test-report-access'),
+  1,
+  'supervisors read the reports of their sector'
+);
+
+select throws_ok(
+  $$select public.amend_report(r.uid, c.report || '{"sector": "GRE"}', '[]', 'Setor corrigido')
+    from report_case c, public.geotranote_reports r where r.client_id = 'test-report-access'$$,
+  '42501', 'Sem permissão para corrigir este relatório', 'supervisors cannot move a report out of their sector'
+);
+
+select lives_ok(
+  $$select public.amend_report(r.uid, c.report || '{"total_approaches": 12}', '[]', 'Contagem corrigida')
+    from report_case c, public.geotranote_reports r where r.client_id = 'test-report-access'$$,
+  'supervisors amend the reports of their sector'
+);
+
+select is(
+  (select count(*)::int from public.report_revisions v
+    join public.geotranote_reports r on r.uid = v.report_uid
+    where r.client_id = 'test-report-access'),
+  1,
+  'the amendment is recorded'
+);
+
+select * from finish();
+rollback;
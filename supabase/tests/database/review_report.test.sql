@@ -0,0 +1,110 @@
+-- The review workflow: a supervisor returns a report, its agent corrects and resubmits it.
+-- Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(12);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-0000000000a1', 'agente.a@example.com'),
+  ('00000000-0000-0000-0000-0000000000d1', 'supervisor.gedam@example.com');
+
+update public.user_profiles set role = 'supervisor', sector = 'GEDAM' where user_id = '00000000-0000-0000-0000-0000000000d1';
+
+create temporary table report_case (report jsonb) on commit drop;
+insert into report_case values ('{
+  "client_id": "test-review-report",
+  "service_name": "operacao",
+  "sector": "GEDAM",
+  "shift_date": "2026-01-15",
+  "shift_start": "07:00",
+  "shift_end": "19:00",
+  "total_approaches": 10,
+  "removals": []
+}');
+grant select on report_case to authenticated;
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "email": "agente.a@example.com"}', true);
+
+select lives_ok(
+  $$select public.submit_report(report, '[]') from report_case$$,
+  'an agent submits a report'
+);
+
+select throws_ok(
+  $$select public.review_report(uid, 'approved') from public.geotranote_reports where client_id = 'test-review-report'$$,
+  '42501', 'Apenas supervisores do setor e administradores podem revisar este relatório', 'agents cannot review reports'
+);
+
+select throws_ok(
+  $$insert into public.report_reviews (report_uid, from_status, to_status)
+    select uid, 'submitted', 'approved' from public.geotranote_reports where client_id = 'test-review-report'$$,
+  '42501', 'new row violates row-level security policy for table "report_reviews"', 'reviews are only recorded through review_report'
+);
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000d1", "email": "supervisor.gedam@example.com"}', true);
+
+select throws_ok(
+  $$select public.review_report(uid, 'returned', '  ') from public.geotranote_reports where client_id = 'test-review-report'$$,
+  '23514', 'Informe o motivo da devolução', 'a returned report needs a reason'
+);
+
+select is(
+  (select public.review_report(uid, 'returned', 'Falta o prefixo da viatura') from public.geotranote_reports where client_id = 'test-review-report'),
+  'returned',
+  'the supervisor of the sector returns the report'
+);
+
+select throws_ok(
+  $$select public.review_report(uid, 'approved') from public.geotranote_reports where client_id = 'test-review-report'$$,
+  '23514', 'Não é possível passar o relatório de returned para approved', 'a returned report waits for its agent'
+);
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "email": "agente.a@example.com"}', true);
+
+select throws_ok(
+  $$select public.resubmit_report(r.uid, c.report, '[]', 'Nada mudou')
+    from report_case c, public.geotranote_reports r where r.client_id = 'test-review-report'$$,
+  '23514', 'Nenhuma alteração informada', 'a resubmission must change the report'
+);
+
+select lives_ok(
+  $$select public.resubmit_report(r.uid, c.report || '{"vehicle_prefix": "VTR-01", "sector": "GRE"}', '[]', 'Prefixo incluído')
+    from report_case c, public.geotranote_reports r where r.client_id = 'test-review-report'$$,
+  'the agent corrects and resubmits the report'
+);
+
+select results_eq(
+  $$select status, sector, vehicle_prefix from public.geotranote_reports where client_id = 'test-review-report'$$,
+  $$values ('submitted'::text, 'GEDAM'::text, 'VTR-01'::text)$$,
+  'the report is back in the queue of the sector that returned it'
+);
+
+select results_eq(
+  $$select w.from_status, w.to_status, w.comment
+    from public.report_reviews w
+    join public.geotranote_reports r on r.uid = w.report_uid
+    where r.client_id = 'test-review-report'
+    order by w.id$$,
+  $$values
+    ('submitted'::text, 'returned'::text, 'Falta o prefixo da viatura'::text),
+    ('returned', 'submitted', 'Prefixo incluído')$$,
+  'both status changes are in the review history'
+);
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000d1", "email": "supervisor.gedam@example.com"}', true);
+
+select lives_ok(
+  $$select public.submit_report(report || '{"client_id": "test-review-own-report"}', '[]') from report_case$$,
+  'a supervisor submits a report of their own'
+);
+
+select throws_ok(
+  $$select public.review_report(uid, 'approved') from public.geotranote_reports where client_id = 'test-review-own-report'$$,
+  '42501', 'Um relatório não pode ser revisado por quem o enviou', 'supervisors do not approve their own reports'
+);
+
+select * from finish();
+rollback;
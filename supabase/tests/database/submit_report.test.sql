@@ -0,0 +1,67 @@
+-- submit_report as the app calls it, signed in as an agent. Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(6);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-0000000000a1', 'agente.a@example.com'),
+  ('00000000-0000-0000-0000-0000000000b1', 'agente.b@example.com');
+
+create temporary table report_case (report jsonb) on commit drop;
+insert into report_case values ('{
+  "client_id": "test-submit-report",
+  "service_name": "operacao",
+  "sector": "GEDAM",
+  "shift_date": "2026-01-15",
+  "shift_start": "07:00",
+  "shift_end": "19:00",
+  "total_approaches": 10,
+  "removals": [{"vehicle_type": "motocicleta", "plate": "ABC1D23", "infraction_type": "5010-0"}]
+}');
+grant select on report_case to authenticated;
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "email": "agente.a@example.com"}', true);
+
+select lives_ok(
+  $$select public.submit_report(report, '[{"infraction_type": "5010-0", "quantity": 2}]') from report_case$$,
+  'an agent submits a report'
+);
+
+select results_eq(
+  $$select submitted_by, status, motorcycle_removals from public.geotranote_reports where client_id = 'test-submit-report'$$,
+  $$values ('00000000-0000-0000-0000-0000000000a1'::uuid, 'submitted'::text, 1)$$,
+  'the report is filed under the agent, waiting for review, with its removal counted'
+);
+
+select results_eq(
+  $$select i.quantity from public.infractions i
+    join public.geotranote_reports r on r.uid = i.report_uid
+    where r.client_id = 'test-submit-report'$$,
+  $$values (2)$$,
+  'the infraction lines are stored with the report'
+);
+
+select results_eq(
+  $$select protocol_number from public.submit_report((select report from report_case), '[]')$$,
+  $$select protocol_number from public.geotranote_reports where client_id = 'test-submit-report'$$,
+  'a retry returns the report already stored'
+);
+
+select is(
+  (select count(*)::int from public.geotranote_reports where client_id = 'test-submit-report'),
+  1,
+  'a retry does not file the report twice'
+);
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b1", "email": "agente.b@example.com"}', true);
+
+select throws_ok(
+  $$select public.submit_report(report, '[]') from report_case$$,
+  '23505', 'Identificador do relatório já usado', 'another user cannot get a report back by its client id'
+);
+
+select * from finish();
+rollback;
@@ -0,0 +1,163 @@
+-- Server side of the cases in src/lib/validation.test.ts; change both together. The messages
+-- differ in wording, the decisions must not. Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(30);
+
+-- is_valid_plate
+select is(public.is_valid_plate('ABC1234'), true, 'old grey plate');
+select is(public.is_valid_plate('ABC1D23'), true, 'Mercosul plate');
+select is(public.is_valid_plate('abc-1234'), true, 'plate with lower case and a hyphen');
+select is(public.is_valid_plate('abc 1d23'), true, 'plate with a space');
+select is(public.is_valid_plate('AB1234'), false, 'two letters');
+select is(public.is_valid_plate('ABCD123'), false, 'four letters');
+select is(public.is_valid_plate('ABC12345'), false, 'five digits');
+select is(public.is_valid_plate('ABC1DD3'), false, 'two letters after the first digit');
+select is(public.is_valid_plate(''), false, 'empty plate');
+
+-- merge_infraction_lines
+select is(
+  public.merge_infraction_lines('[
+    {"infraction_type": "5010-0", "quantity": 2},
+    {"infraction_type": "5029-1", "quantity": 1},
+    {"infraction_type": "5010-0", "quantity": 3}
+  ]'),
+  '[
+    {"infraction_type": "5010-0", "quantity": 5, "details": []},
+    {"infraction_type": "5029-1", "quantity": 1, "details": []}
+  ]'::jsonb,
+  'aggregate lines of the same infraction are added up'
+);
+
+select is(
+  public.merge_infraction_lines('[
+    {"infraction_type": "5010-0", "quantity": 1, "details": [{"ait_number": "A1", "plate": "ABC1234"}], "latitude": -15.8},
+    {"infraction_type": "5010-0", "quantity": 1, "details": [{"ait_number": "A2", "plate": "ABC1234"}], "latitude": -15.9}
+  ]'),
+  '[
+    {"infraction_type": "5010-0", "quantity": 2, "latitude": -15.8,
+     "details": [{"ait_number": "A1", "plate": "ABC1234"}, {"ait_number": "A2", "plate": "ABC1234"}]}
+  ]'::jsonb,
+  'autos of detailed lines are appended to the first line'
+);
+
+select is(
+  jsonb_array_length(public.merge_infraction_lines('[
+    {"infraction_type": "5010-0", "quantity": 2},
+    {"infraction_type": "5010-0", "quantity": 1, "details": [{"ait_number": "A1", "plate": "ABC1234"}]}
+  ]')),
+  2,
+  'aggregate and detailed lines stay apart'
+);
+
+-- validate_report
+create temporary table report_case (report jsonb) on commit drop;
+insert into report_case values ('{
+  "service_name": "blitz",
+  "sector": "centro",
+  "shift_date": "2026-01-15",
+  "shift_start": "07:00",
+  "shift_end": "19:00",
+  "vehicle_prefix": "VTR-01",
+  "total_approaches": 10,
+  "removals": [{"vehicle_type": "automovel", "plate": "ABC1234", "infraction_type": "5010-0"}]
+}');
+
+select lives_ok(
+  $$select public.validate_report(report, '[{"infraction_type": "5010-0", "quantity": 1}]') from report_case$$,
+  'a complete report'
+);
+
+select lives_ok(
+  $$select public.validate_report(report || '{"removals": [{"vehicle_type": "automovel", "plate": ""}]}', '[]') from report_case$$,
+  'removals without a plate'
+);
+
+select throws_ok(
+  $$select public.validate_report(report || '{"service_name": ""}', '[]') from report_case$$,
+  '23514', 'Selecione o tipo de serviço', 'a missing service type'
+);
+select throws_ok(
+  $$select public.validate_report(report || '{"sector": ""}', '[]') from report_case$$,
+  '23514', 'Selecione o setor', 'a missing sector'
+);
+select throws_ok(
+  $$select public.validate_report(report || '{"shift_date": "2999-01-01"}', '[]') from report_case$$,
+  '23514', 'A data do turno não pode estar no futuro', 'a shift date in the future'
+);
+select throws_ok(
+  $$select public.validate_report(report || '{"shift_end": "07:00"}', '[]') from report_case$$,
+  '23514', 'O fim do turno deve ser diferente do início', 'a shift ending when it starts'
+);
+select throws_ok(
+  format($$select public.validate_report(report || '{"vehicle_prefix": "%s"}', '[]') from report_case$$, repeat('X', 21)),
+  '23514', 'O prefixo da viatura deve ter no máximo 20 caracteres', 'a long vehicle prefix'
+);
+select throws_ok(
+  $$select public.validate_report(report || '{"total_approaches": -1}', '[]') from report_case$$,
+  '23514', 'O total de abordagens deve ser um número inteiro igual ou maior que zero', 'negative approaches'
+);
+select throws_ok(
+  $$select public.validate_report(report || '{"total_approaches": 1.5}', '[]') from report_case$$,
+  '23514', 'O total de abordagens deve ser um número inteiro igual ou maior que zero', 'fractional approaches'
+);
+select throws_ok(
+  $$select public.validate_report(report || '{"removals": [{"vehicle_type": "", "plate": "ABC1234"}]}', '[]') from report_case$$,
+  '23514', 'Remoção 1: selecione o tipo de veículo', 'a removal without vehicle type'
+);
+select throws_ok(
+  $$select public.validate_report(
+    report || '{"removals": [{"vehicle_type": "automovel", "plate": "ABC1234"}, {"vehicle_type": "automovel", "plate": "AB12"}]}',
+    '[]'
+  ) from report_case$$,
+  '23514', 'Remoção 2: placa AB12 inválida', 'a removal with an invalid plate'
+);
+select throws_ok(
+  $$select public.validate_report(report, '[{"infraction_type": "5010-0", "quantity": 0}]') from report_case$$,
+  '23514', '5010-0: a quantidade deve ser um número inteiro maior que zero', 'an aggregate line without a positive quantity'
+);
+select throws_ok(
+  $$select public.validate_report(
+    report,
+    '[{"infraction_type": "5010-0", "quantity": 1, "details": [{"ait_number": "A1", "plate": "AB12"}]}]'
+  ) from report_case$$,
+  '23514', '5010-0: auto 1: placa AB12 inválida', 'an incomplete auto'
+);
+select throws_ok(
+  $$select public.validate_report(
+    report,
+    '[
+      {"infraction_type": "5010-0", "quantity": 1, "details": [{"ait_number": "A1", "plate": "ABC1234"}]},
+      {"infraction_type": "5029-1", "quantity": 1, "details": [{"ait_number": "a1", "plate": "ABC1234"}]}
+    ]'
+  ) from report_case$$,
+  '23514', 'O AIT A1 foi informado mais de uma vez', 'an AIT number repeated across lines'
+);
+select throws_ok(
+  $$select public.validate_report(report, '[{"infraction_type": "9999-9", "quantity": 1}]') from report_case$$,
+  '23514', 'A infração 9999-9 não está vigente em 15/01/2026', 'an infraction that is not in the catalog'
+);
+select throws_ok(
+  $$select public.validate_report(report || '{"shift_date": "2016-01-15"}', '[{"infraction_type": "5010-0", "quantity": 1}]')
+    from report_case$$,
+  '23514', 'A infração 5010-0 não está vigente em 15/01/2016', 'an infraction not yet in force on the shift date'
+);
+select throws_ok(
+  $$select public.validate_report(
+    report || '{"removals": [{"vehicle_type": "automovel", "plate": "ABC1234", "infraction_type": "9999-9"}]}',
+    '[]'
+  ) from report_case$$,
+  '23514', 'Remoção 1: a infração 9999-9 não está vigente em 15/01/2026', 'a removal for an infraction that is not in the catalog'
+);
+
+-- Warnings of the form are advice only.
+select lives_ok(
+  $$select public.validate_report(report || '{"total_approaches": 1}', '[{"infraction_type": "5010-0", "quantity": 3}]')
+    from report_case$$,
+  'more infractions than approaches'
+);
+
+select * from finish();
+rollback;